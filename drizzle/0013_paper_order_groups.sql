@@ -0,0 +1,7 @@
+-- Link paper orders into bracket, OCO and OTO groups
+ALTER TABLE paper_orders ADD COLUMN order_class TEXT NOT NULL DEFAULT 'simple';
+ALTER TABLE paper_orders ADD COLUMN parent_order_id INTEGER;
+ALTER TABLE paper_orders ADD COLUMN oco_group_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_paper_orders_parent_order_id ON paper_orders(parent_order_id);
+CREATE INDEX IF NOT EXISTS idx_paper_orders_oco_group_id ON paper_orders(oco_group_id);
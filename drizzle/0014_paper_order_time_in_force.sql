@@ -0,0 +1,9 @@
+-- Trailing stop / stop-limit state and time-in-force for paper orders
+ALTER TABLE paper_orders ADD COLUMN trail_amount REAL;
+ALTER TABLE paper_orders ADD COLUMN trail_percent REAL;
+ALTER TABLE paper_orders ADD COLUMN high_water_mark REAL;
+ALTER TABLE paper_orders ADD COLUMN triggered_at TEXT;
+ALTER TABLE paper_orders ADD COLUMN time_in_force TEXT NOT NULL DEFAULT 'day';
+ALTER TABLE paper_orders ADD COLUMN expires_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_paper_orders_status_expires_at ON paper_orders(status, expires_at);
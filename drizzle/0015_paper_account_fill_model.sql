@@ -0,0 +1,2 @@
+-- Per-account fill model (slippage model and volume participation) for paper trading
+ALTER TABLE paper_trading_accounts ADD COLUMN fill_model TEXT;
@@ -0,0 +1,19 @@
+-- Option contract details and multi-leg linkage for paper positions and orders
+ALTER TABLE paper_positions ADD COLUMN option_symbol TEXT;
+ALTER TABLE paper_positions ADD COLUMN underlying_symbol TEXT;
+ALTER TABLE paper_positions ADD COLUMN option_type TEXT;
+ALTER TABLE paper_positions ADD COLUMN strike_price REAL;
+ALTER TABLE paper_positions ADD COLUMN expiration_date TEXT;
+ALTER TABLE paper_positions ADD COLUMN multiplier INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE paper_positions ADD COLUMN complex_order_id TEXT;
+
+ALTER TABLE paper_orders ADD COLUMN option_symbol TEXT;
+ALTER TABLE paper_orders ADD COLUMN underlying_symbol TEXT;
+ALTER TABLE paper_orders ADD COLUMN option_type TEXT;
+ALTER TABLE paper_orders ADD COLUMN strike_price REAL;
+ALTER TABLE paper_orders ADD COLUMN expiration_date TEXT;
+ALTER TABLE paper_orders ADD COLUMN multiplier INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE paper_orders ADD COLUMN complex_order_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_paper_positions_account_option ON paper_positions(paper_account_id, option_symbol);
+CREATE INDEX IF NOT EXISTS idx_paper_orders_complex_order_id ON paper_orders(complex_order_id);
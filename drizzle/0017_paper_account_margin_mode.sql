@@ -0,0 +1,2 @@
+-- Margin rules applied to a paper account: Reg-T strategy requirements or portfolio margin
+ALTER TABLE paper_trading_accounts ADD COLUMN margin_mode TEXT NOT NULL DEFAULT 'reg_t';
@@ -0,0 +1,5 @@
+-- Stock borrow rates and accrued borrow fees for short paper positions
+ALTER TABLE assets ADD COLUMN borrow_rate REAL;
+
+ALTER TABLE paper_positions ADD COLUMN borrow_fees REAL NOT NULL DEFAULT 0;
+ALTER TABLE paper_positions ADD COLUMN borrow_fees_accrued_at TEXT;
@@ -0,0 +1,15 @@
+-- Optimistic locking on paper account balances and idempotent order submission
+ALTER TABLE paper_trading_accounts ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS paper_order_requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  paper_account_id INTEGER NOT NULL REFERENCES paper_trading_accounts(id),
+  idempotency_key TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  response_status INTEGER NOT NULL,
+  response_body TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paper_order_requests_account_key ON paper_order_requests(paper_account_id, idempotency_key);
@@ -0,0 +1,18 @@
+-- Order event history for cancels, replaces and every other change to a paper order
+CREATE TABLE IF NOT EXISTS paper_order_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  paper_order_id INTEGER NOT NULL REFERENCES paper_orders(id),
+  paper_account_id INTEGER NOT NULL REFERENCES paper_trading_accounts(id),
+  event_type TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  filled_quantity INTEGER NOT NULL,
+  limit_price REAL,
+  stop_price REAL,
+  details TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_order_events_order ON paper_order_events(paper_order_id, id);
+CREATE INDEX IF NOT EXISTS idx_paper_order_events_account ON paper_order_events(paper_account_id, created_at);
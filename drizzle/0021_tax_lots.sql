@@ -0,0 +1,46 @@
+-- Tax-lot ledger with per-account relief method and realized gains by lot
+ALTER TABLE user ADD COLUMN tax_lot_method TEXT NOT NULL DEFAULT 'fifo';
+ALTER TABLE paper_trading_accounts ADD COLUMN tax_lot_method TEXT NOT NULL DEFAULT 'fifo';
+ALTER TABLE paper_orders ADD COLUMN lot_ids TEXT;
+
+CREATE TABLE IF NOT EXISTS tax_lots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL REFERENCES user(id),
+  paper_account_id INTEGER REFERENCES paper_trading_accounts(id),
+  asset_id INTEGER NOT NULL REFERENCES assets(id),
+  position_id INTEGER REFERENCES positions(id),
+  option_symbol TEXT,
+  side TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  remaining_quantity INTEGER NOT NULL,
+  open_price REAL NOT NULL,
+  multiplier INTEGER NOT NULL DEFAULT 1,
+  opened_at TEXT NOT NULL,
+  closed_at TEXT,
+  source_type TEXT NOT NULL,
+  source_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS tax_lot_realizations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  lot_id INTEGER NOT NULL REFERENCES tax_lots(id),
+  user_id TEXT NOT NULL REFERENCES user(id),
+  paper_account_id INTEGER REFERENCES paper_trading_accounts(id),
+  asset_id INTEGER NOT NULL REFERENCES assets(id),
+  side TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  opened_at TEXT NOT NULL,
+  closed_at TEXT NOT NULL,
+  proceeds REAL NOT NULL,
+  cost_basis REAL NOT NULL,
+  gain REAL NOT NULL,
+  term TEXT NOT NULL,
+  method TEXT NOT NULL,
+  source_type TEXT NOT NULL,
+  source_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_lots_open ON tax_lots(user_id, paper_account_id, asset_id, remaining_quantity);
+CREATE INDEX IF NOT EXISTS idx_tax_lot_realizations_user ON tax_lot_realizations(user_id, paper_account_id, closed_at);
@@ -0,0 +1,19 @@
+-- Wash-sale matching with disallowed losses carried into replacement lot basis
+ALTER TABLE tax_lots ADD COLUMN basis_adjustment REAL NOT NULL DEFAULT 0;
+ALTER TABLE tax_lot_realizations ADD COLUMN disallowed_loss REAL NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS wash_sales (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL REFERENCES user(id),
+  paper_account_id INTEGER REFERENCES paper_trading_accounts(id),
+  realization_id INTEGER NOT NULL REFERENCES tax_lot_realizations(id),
+  replacement_lot_id INTEGER NOT NULL REFERENCES tax_lots(id),
+  quantity REAL NOT NULL,
+  disallowed_loss REAL NOT NULL,
+  sale_date TEXT NOT NULL,
+  replacement_date TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_wash_sales_user ON wash_sales(user_id, paper_account_id, sale_date);
+CREATE INDEX IF NOT EXISTS idx_wash_sales_replacement ON wash_sales(replacement_lot_id);
@@ -0,0 +1,21 @@
+-- Append-only cash ledger for paper accounts
+CREATE TABLE IF NOT EXISTS paper_cash_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  paper_account_id INTEGER NOT NULL REFERENCES paper_trading_accounts(id),
+  entry_type TEXT NOT NULL,
+  amount REAL NOT NULL,
+  balance_after REAL NOT NULL,
+  paper_order_id INTEGER REFERENCES paper_orders(id),
+  asset_id INTEGER REFERENCES assets(id),
+  quantity REAL,
+  price REAL,
+  description TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_cash_ledger_account ON paper_cash_ledger(paper_account_id, created_at, id);
+
+-- Existing accounts open the ledger with the cash they hold today
+INSERT INTO paper_cash_ledger (paper_account_id, entry_type, amount, balance_after, description, created_at)
+SELECT id, 'adjustment', cash_balance, cash_balance, 'Opening balance carried over from before the cash ledger', updated_at
+FROM paper_trading_accounts;
@@ -0,0 +1,23 @@
+-- End-of-day equity snapshots for paper account performance history
+CREATE TABLE IF NOT EXISTS paper_equity_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  paper_account_id INTEGER NOT NULL REFERENCES paper_trading_accounts(id),
+  snapshot_date TEXT NOT NULL,
+  equity REAL NOT NULL,
+  cash REAL NOT NULL,
+  positions_value REAL NOT NULL,
+  long_exposure REAL NOT NULL,
+  short_exposure REAL NOT NULL,
+  net_flow REAL NOT NULL DEFAULT 0,
+  daily_return REAL NOT NULL DEFAULT 0,
+  open_positions INTEGER NOT NULL,
+  net_delta REAL,
+  net_gamma REAL,
+  net_theta REAL,
+  net_vega REAL,
+  benchmark_symbol TEXT,
+  benchmark_price REAL,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paper_equity_snapshots_account_date ON paper_equity_snapshots(paper_account_id, snapshot_date);
@@ -0,0 +1,39 @@
+-- Named paper accounts with commission schedules, and archived runs on reset
+ALTER TABLE paper_trading_accounts ADD COLUMN name TEXT NOT NULL DEFAULT 'Paper Account';
+ALTER TABLE paper_trading_accounts ADD COLUMN commission_schedule TEXT;
+ALTER TABLE paper_trading_accounts ADD COLUMN run_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE paper_trading_accounts ADD COLUMN run_started_at TEXT NOT NULL DEFAULT '';
+
+-- Existing accounts keep distinct names and start their first run at creation
+UPDATE paper_trading_accounts SET name = 'Paper Account ' || id, run_started_at = created_at;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paper_trading_accounts_user_name ON paper_trading_accounts(user_id, name);
+
+ALTER TABLE paper_orders ADD COLUMN commission REAL NOT NULL DEFAULT 0;
+
+ALTER TABLE paper_equity_snapshots ADD COLUMN run_number INTEGER NOT NULL DEFAULT 1;
+DROP INDEX IF EXISTS idx_paper_equity_snapshots_account_date;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paper_equity_snapshots_account_run_date ON paper_equity_snapshots(paper_account_id, run_number, snapshot_date);
+
+CREATE TABLE IF NOT EXISTS paper_account_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  paper_account_id INTEGER NOT NULL REFERENCES paper_trading_accounts(id),
+  run_number INTEGER NOT NULL,
+  started_at TEXT NOT NULL,
+  ended_at TEXT NOT NULL,
+  initial_balance REAL NOT NULL,
+  final_cash REAL NOT NULL,
+  final_equity REAL NOT NULL,
+  total_pnl REAL NOT NULL,
+  time_weighted_return REAL,
+  max_drawdown REAL,
+  sharpe_ratio REAL,
+  order_count INTEGER NOT NULL,
+  filled_order_count INTEGER NOT NULL,
+  total_commission REAL NOT NULL DEFAULT 0,
+  commission_schedule TEXT,
+  positions TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paper_account_runs_account_run ON paper_account_runs(paper_account_id, run_number);
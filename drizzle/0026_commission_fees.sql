@@ -0,0 +1,4 @@
+-- Regulatory and exchange fees, kept apart from broker commission
+ALTER TABLE paper_orders ADD COLUMN fees REAL NOT NULL DEFAULT 0;
+ALTER TABLE paper_account_runs ADD COLUMN total_fees REAL NOT NULL DEFAULT 0;
+ALTER TABLE trades ADD COLUMN fees REAL NOT NULL DEFAULT 0;
@@ -0,0 +1,19 @@
+-- Per-user pre-trade risk limits
+CREATE TABLE IF NOT EXISTS risk_limits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL REFERENCES user(id),
+  max_order_notional REAL,
+  max_contracts_per_leg INTEGER,
+  max_concentration_percent REAL,
+  max_portfolio_delta REAL,
+  max_portfolio_vega REAL,
+  restricted_symbols TEXT,
+  price_band_percent REAL,
+  max_daily_loss REAL,
+  locked_on TEXT,
+  updated_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_risk_limits_user ON risk_limits(user_id);
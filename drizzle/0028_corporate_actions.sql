@@ -0,0 +1,21 @@
+-- Splits, cash dividends and ticker changes
+CREATE TABLE IF NOT EXISTS corporate_actions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  asset_id INTEGER NOT NULL REFERENCES assets(id),
+  symbol TEXT NOT NULL,
+  action_type TEXT NOT NULL,
+  ex_date TEXT NOT NULL,
+  pay_date TEXT,
+  split_ratio REAL,
+  cash_amount REAL,
+  new_symbol TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  summary TEXT,
+  error_message TEXT,
+  processed_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_asset_ex_date ON corporate_actions(asset_id, ex_date);
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_status_ex_date ON corporate_actions(status, ex_date);
@@ -0,0 +1,22 @@
+-- SVI and SSVI fits of IV surface snapshots
+CREATE TABLE IF NOT EXISTS iv_surface_fits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  snapshot_date TEXT NOT NULL,
+  model TEXT NOT NULL,
+  expiration_date TEXT,
+  time_to_expiry REAL,
+  forward_price REAL,
+  underlying_price REAL NOT NULL,
+  risk_free_rate REAL NOT NULL,
+  parameters TEXT NOT NULL,
+  points INTEGER NOT NULL,
+  rmse REAL NOT NULL,
+  max_error REAL NOT NULL,
+  butterfly_arbitrage INTEGER NOT NULL DEFAULT 0,
+  calendar_arbitrage INTEGER NOT NULL DEFAULT 0,
+  residuals TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_iv_surface_fits_symbol_date ON iv_surface_fits(symbol, snapshot_date);
@@ -0,0 +1,21 @@
+-- Daily implied and realized volatility summary per underlying
+CREATE TABLE IF NOT EXISTS volatility_summaries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  summary_date TEXT NOT NULL,
+  source TEXT NOT NULL,
+  underlying_price REAL NOT NULL,
+  atm_iv_30 REAL NOT NULL,
+  skew_25 REAL,
+  front_expiration TEXT,
+  front_iv REAL,
+  back_expiration TEXT,
+  back_iv REAL,
+  term_spread REAL,
+  realized_vol_10 REAL,
+  realized_vol_20 REAL,
+  realized_vol_60 REAL,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_volatility_summaries_symbol_date ON volatility_summaries(symbol, summary_date);
@@ -0,0 +1,12 @@
+-- Paper tax lots and realizations belong to an account run, so a reset
+-- archives them with the run instead of deleting them
+ALTER TABLE tax_lots ADD COLUMN run_number INTEGER;
+ALTER TABLE tax_lot_realizations ADD COLUMN run_number INTEGER;
+
+-- Resets used to delete the ledger, so existing paper rows are all from the current run
+UPDATE tax_lots SET run_number = (
+  SELECT run_number FROM paper_trading_accounts WHERE paper_trading_accounts.id = tax_lots.paper_account_id
+) WHERE paper_account_id IS NOT NULL;
+UPDATE tax_lot_realizations SET run_number = (
+  SELECT run_number FROM paper_trading_accounts WHERE paper_trading_accounts.id = tax_lot_realizations.paper_account_id
+) WHERE paper_account_id IS NOT NULL;
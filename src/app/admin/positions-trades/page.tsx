@@ -29,6 +29,7 @@ interface Trade {
   status: string;
   executedAt: string | null;
   createdAt: string;
+  washSale: { disallowedLoss: number; basisAdjustment: number } | null;
 }
 
 export default function AdminPositionsTradesPage() {
@@ -227,6 +228,7 @@ export default function AdminPositionsTradesPage() {
                         <TableHead className="text-right">Quantity</TableHead>
                         <TableHead className="text-right">Price</TableHead>
                         <TableHead>Status</TableHead>
+                        <TableHead>Wash Sale</TableHead>
                         <TableHead>Executed At</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -255,6 +257,19 @@ export default function AdminPositionsTradesPage() {
                               {trade.status}
                             </Badge>
                           </TableCell>
+                          <TableCell>
+                            {trade.washSale?.disallowedLoss ? (
+                              <Badge variant="destructive">
+                                {formatCurrency(trade.washSale.disallowedLoss)} disallowed
+                              </Badge>
+                            ) : trade.washSale?.basisAdjustment ? (
+                              <Badge variant="outline">
+                                +{formatCurrency(trade.washSale.basisAdjustment)} basis
+                              </Badge>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
                           <TableCell>{formatDate(trade.executedAt)}</TableCell>
                         </TableRow>
                       ))}
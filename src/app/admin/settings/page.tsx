@@ -1,15 +1,53 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Save, Settings, Shield, Database, Bell, Activity } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Settings, Shield, Database, Bell, Activity, UserCog, Unlock } from "lucide-react";
 import { toast } from "sonner";
 
+interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Per-user pre-trade limits as edited in the form; blank means no limit
+const EMPTY_USER_LIMITS = {
+  maxOrderNotional: "",
+  maxContractsPerLeg: "",
+  maxConcentrationPercent: "",
+  maxPortfolioDelta: "",
+  maxPortfolioVega: "",
+  priceBandPercent: "",
+  maxDailyLoss: "",
+  restrictedSymbols: "",
+};
+
+type UserLimitsForm = typeof EMPTY_USER_LIMITS;
+
+const USER_LIMIT_FIELDS: { key: Exclude<keyof UserLimitsForm, "restrictedSymbols">; label: string }[] = [
+  { key: "maxOrderNotional", label: "Max Order Notional ($)" },
+  { key: "maxContractsPerLeg", label: "Max Contracts per Leg" },
+  { key: "maxConcentrationPercent", label: "Max Concentration (% of equity)" },
+  { key: "maxPortfolioDelta", label: "Max Portfolio Delta (shares)" },
+  { key: "maxPortfolioVega", label: "Max Portfolio Vega ($/vol pt)" },
+  { key: "priceBandPercent", label: "Price Band vs Last Quote (%)" },
+  { key: "maxDailyLoss", label: "Daily Loss Lock ($)" },
+];
+
 export default function AdminSettingsPage() {
   const [settings, setSettings] = useState({
     // Platform Settings
@@ -36,6 +74,86 @@ export default function AdminSettingsPage() {
 
   const [isSaving, setIsSaving] = useState(false);
 
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [userLimits, setUserLimits] = useState<UserLimitsForm>(EMPTY_USER_LIMITS);
+  const [lockedOn, setLockedOn] = useState<string | null>(null);
+  const [isSavingLimits, setIsSavingLimits] = useState(false);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const token = localStorage.getItem("bearer_token");
+        const response = await fetch("/api/users", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (response.ok) {
+          setUsers(await response.json());
+        }
+      } catch (error) {
+        toast.error("Error loading users");
+      }
+    };
+    fetchUsers();
+  }, []);
+
+  const applyUserLimits = (data: any) => {
+    const form = { ...EMPTY_USER_LIMITS };
+    for (const { key } of USER_LIMIT_FIELDS) {
+      form[key] = data[key] !== null && data[key] !== undefined ? String(data[key]) : "";
+    }
+    form.restrictedSymbols = (data.restrictedSymbols ?? []).join(", ");
+    setUserLimits(form);
+    setLockedOn(data.lockedOn ?? null);
+  };
+
+  const handleSelectUser = async (userId: string) => {
+    setSelectedUserId(userId);
+    try {
+      const response = await fetch(`/api/admin/risk-limits?userId=${userId}`);
+      if (response.ok) {
+        applyUserLimits(await response.json());
+      } else {
+        toast.error("Failed to load risk limits");
+      }
+    } catch (error) {
+      toast.error("Error loading risk limits");
+    }
+  };
+
+  const saveUserLimits = async (unlock: boolean = false) => {
+    if (!selectedUserId) return;
+    setIsSavingLimits(true);
+    try {
+      const body: Record<string, any> = { unlock };
+      for (const { key } of USER_LIMIT_FIELDS) {
+        body[key] = userLimits[key].trim() === "" ? null : Number(userLimits[key]);
+      }
+      body.restrictedSymbols = userLimits.restrictedSymbols
+        .split(",")
+        .map((symbol) => symbol.trim())
+        .filter(Boolean);
+
+      const response = await fetch(`/api/admin/risk-limits?userId=${selectedUserId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        applyUserLimits(data);
+        toast.success(unlock ? "Daily loss lock lifted" : "Risk limits saved");
+      } else {
+        toast.error(data.error || "Failed to save risk limits");
+      }
+    } catch (error) {
+      toast.error("Error saving risk limits");
+    } finally {
+      setIsSavingLimits(false);
+    }
+  };
+
   const handleSaveSettings = async () => {
     setIsSaving(true);
     // Simulate API call
@@ -240,6 +358,94 @@ export default function AdminSettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Per-User Risk Limits */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <UserCog className="h-5 w-5" />
+            <CardTitle>Per-User Risk Limits</CardTitle>
+          </div>
+          <CardDescription>
+            Pre-trade checks applied to every order the user places; leave a field blank for no limit
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="riskLimitsUser">User</Label>
+            <Select value={selectedUserId} onValueChange={handleSelectUser}>
+              <SelectTrigger id="riskLimitsUser">
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedUserId && (
+            <>
+              {lockedOn && (
+                <div className="flex items-center justify-between rounded-md border border-red-500/40 p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="destructive">Locked</Badge>
+                    <span className="text-sm text-muted-foreground">
+                      Daily loss limit reached on {lockedOn}; only closing orders are accepted
+                    </span>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={isSavingLimits}
+                    onClick={() => saveUserLimits(true)}
+                  >
+                    <Unlock className="h-4 w-4" />
+                    Unlock
+                  </Button>
+                </div>
+              )}
+              <div className="grid md:grid-cols-3 gap-4">
+                {USER_LIMIT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={key}>{label}</Label>
+                    <Input
+                      id={key}
+                      type="number"
+                      min="0"
+                      placeholder="No limit"
+                      value={userLimits[key]}
+                      onChange={(e) => setUserLimits({ ...userLimits, [key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restrictedSymbols">Restricted Symbols</Label>
+                <Input
+                  id="restrictedSymbols"
+                  placeholder="e.g. GME, AMC"
+                  value={userLimits.restrictedSymbols}
+                  onChange={(e) => setUserLimits({ ...userLimits, restrictedSymbols: e.target.value })}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Comma-separated; restricting an underlying also blocks its options
+                </p>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={() => saveUserLimits()} disabled={isSavingLimits} className="gap-2">
+                  <Save className="h-4 w-4" />
+                  {isSavingLimits ? "Saving..." : "Save Limits"}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Alert Settings */}
       <Card>
         <CardHeader>
@@ -52,7 +52,7 @@ interface ContractRecommendation {
   mlSignals: {
     priceTarget: number;
     currentPrice: number;
-    ivRank: number;
+    ivRank: number | null;
     technicalScore: number;
     volumeLiquidity: string;
   };
@@ -481,7 +481,7 @@ export default function AIBudgetScannerPage() {
                         </div>
                         <div className="p-2 bg-muted/30 rounded text-center">
                           <div className="text-xs text-muted-foreground">IV Rank</div>
-                          <div className="font-semibold">{rec.mlSignals.ivRank.toFixed(0)}</div>
+                          <div className="font-semibold">{rec.mlSignals.ivRank !== null ? rec.mlSignals.ivRank.toFixed(0) : '—'}</div>
                         </div>
                         <div className="p-2 bg-muted/30 rounded text-center">
                           <div className="text-xs text-muted-foreground">Liquidity</div>
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { db } from '@/db';
+import { user, riskLimits } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { loadRiskLimits, parseRiskLimits, saveRiskLimits } from '@/lib/risk-checks';
+
+async function getAdminUser() {
+  const session = await getServerSession(authOptions);
+  if (!session || !(session.user as any)?.isAdmin) return null;
+  return session.user!;
+}
+
+// GET /api/admin/risk-limits[?userId=]
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId');
+
+    if (userId) {
+      const target = await db.select({ id: user.id })
+        .from(user)
+        .where(eq(user.id, userId))
+        .limit(1);
+
+      if (target.length === 0) {
+        return NextResponse.json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        }, { status: 404 });
+      }
+
+      return NextResponse.json({ userId, ...(await loadRiskLimits(userId)) }, { status: 200 });
+    }
+
+    // Every user that has limits set
+    const rows = await db.select({ userId: riskLimits.userId, name: user.name, email: user.email })
+      .from(riskLimits)
+      .innerJoin(user, eq(riskLimits.userId, user.id));
+
+    const results = [];
+    for (const row of rows) {
+      results.push({ ...row, ...(await loadRiskLimits(row.userId)) });
+    }
+
+    return NextResponse.json(results, { status: 200 });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/risk-limits?userId= with any limits to change (null
+// clears one) and `unlock: true` to lift a tripped daily loss lock
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({
+        error: 'userId is required',
+        code: 'MISSING_USER_ID'
+      }, { status: 400 });
+    }
+
+    const target = await db.select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, userId))
+      .limit(1);
+
+    if (target.length === 0) {
+      return NextResponse.json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = parseRiskLimits(body);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        error: parsed.error,
+        code: 'INVALID_RISK_LIMITS'
+      }, { status: 400 });
+    }
+
+    const saved = await saveRiskLimits(userId, parsed.limits, {
+      unlock: body.unlock === true,
+      updatedBy: (admin as any).id ?? admin.email ?? null,
+    });
+
+    return NextResponse.json({ userId, ...saved }, { status: 200 });
+
+  } catch (error) {
+    console.error('PUT error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { db } from "@/db";
 import { optionsQuotes, marketDataFetches } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { fetchOptionsChain, fetchUnderlyingQuote } from "@/lib/alpaca";
+import { quoteImpliedVolatility } from "@/lib/paper-trading/option-contracts";
 
 /**
  * POST /api/alpaca/fetch-options
@@ -45,6 +46,17 @@ export async function POST(request: NextRequest) {
       // Store options quotes in database
       const insertedQuotes = [];
       for (const option of optionsChain) {
+        // Solve for implied volatility when Alpaca has none for the contract
+        const impliedVolatility = option.implied_volatility ?? quoteImpliedVolatility({
+          optionType: option.option_type,
+          strikePrice: option.strike_price,
+          expirationDate: option.expiration_date,
+          bid: option.bid,
+          ask: option.ask,
+          lastPrice: option.last,
+          underlyingPrice: underlyingQuote.price,
+        });
+
         const [quote] = await db
           .insert(optionsQuotes)
           .values({
@@ -58,7 +70,7 @@ export async function POST(request: NextRequest) {
             lastPrice: option.last,
             volume: option.volume,
             openInterest: option.open_interest || 0,
-            impliedVolatility: option.implied_volatility,
+            impliedVolatility,
             delta: option.delta,
             gamma: option.gamma,
             theta: option.theta,
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { assets } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { fetchHistoricalBars } from '@/lib/alpaca';
+import { loadSplits, splitAdjustBars, type PriceBar } from '@/lib/corporate-actions';
+
+const TIMEFRAMES = ['1Min', '5Min', '15Min', '1Hour', '1Day'] as const;
+
+/**
+ * GET /api/market-data/bars?symbol=&timeframe=&start=&end=
+ * Historical bars, adjusted for the splits recorded in corporate actions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get('symbol')?.toUpperCase().trim();
+    const timeframe = (searchParams.get('timeframe') || '1Day') as typeof TIMEFRAMES[number];
+    const start = searchParams.get('start');
+    const end = searchParams.get('end') || undefined;
+
+    if (!symbol || !start) {
+      return NextResponse.json({
+        error: "Both 'symbol' and 'start' parameters are required",
+        code: 'MISSING_REQUIRED_PARAMETERS'
+      }, { status: 400 });
+    }
+
+    if (!TIMEFRAMES.includes(timeframe)) {
+      return NextResponse.json({
+        error: `timeframe must be one of: ${TIMEFRAMES.join(', ')}`,
+        code: 'INVALID_TIMEFRAME'
+      }, { status: 400 });
+    }
+
+    // Raw bars, so splits are adjusted once, from our own records
+    const bars: PriceBar[] = await fetchHistoricalBars(symbol, timeframe, start, end, 'raw');
+
+    const asset = await db.select({ id: assets.id })
+      .from(assets)
+      .where(eq(assets.symbol, symbol))
+      .limit(1);
+    const splits = asset.length > 0 ? await loadSplits(asset[0].id) : [];
+
+    return NextResponse.json({
+      symbol,
+      timeframe,
+      splits,
+      bars: splitAdjustBars(bars, splits),
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
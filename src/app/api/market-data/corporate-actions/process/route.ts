@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processCorporateActions } from '@/lib/corporate-actions';
+
+/**
+ * POST /api/market-data/corporate-actions/process
+ * Daily job: apply pending corporate actions whose ex-date has arrived
+ * Body (optional): { asOf }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body?.asOf !== undefined ? new Date(body.asOf) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({
+        error: 'asOf must be a valid date',
+        code: 'INVALID_AS_OF'
+      }, { status: 400 });
+    }
+
+    const summary = await processCorporateActions(asOf);
+    const failed = summary.results.filter(result => result.status === 'failed').length;
+
+    return NextResponse.json({
+      message: `Processed ${summary.results.length - failed} corporate action(s), ${failed} failed`,
+      ...summary,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { corporateActions, assets } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { parseCorporateAction } from '@/lib/corporate-actions';
+
+const STATUSES = ['pending', 'processed', 'failed'];
+
+// GET method - List corporate actions, newest ex-date first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get('symbol');
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const conditions = [];
+    if (symbol) {
+      conditions.push(eq(corporateActions.symbol, symbol.toUpperCase().trim()));
+    }
+    if (status) {
+      if (!STATUSES.includes(status)) {
+        return NextResponse.json({
+          error: `status must be one of: ${STATUSES.join(', ')}`,
+          code: 'INVALID_STATUS'
+        }, { status: 400 });
+      }
+      conditions.push(eq(corporateActions.status, status));
+    }
+
+    const results = await db.select()
+      .from(corporateActions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(corporateActions.exDate), desc(corporateActions.id))
+      .limit(limit)
+      .offset(offset);
+
+    return NextResponse.json(results.map(action => ({
+      ...action,
+      summary: action.summary ? JSON.parse(action.summary) : null,
+    })));
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/market-data/corporate-actions
+ * Record a split, cash dividend or ticker change to apply on its ex-date
+ * Body: { symbol | assetId, actionType, exDate, payDate?, splitRatio?, cashAmount?, newSymbol? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { symbol, assetId } = body;
+
+    if (!symbol && !assetId) {
+      return NextResponse.json({
+        error: 'Missing required field: symbol or assetId',
+        code: 'MISSING_REQUIRED_FIELDS'
+      }, { status: 400 });
+    }
+
+    const parsed = parseCorporateAction(body);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        error: parsed.error,
+        code: 'INVALID_CORPORATE_ACTION'
+      }, { status: 400 });
+    }
+
+    const asset = await db.select()
+      .from(assets)
+      .where(assetId
+        ? eq(assets.id, parseInt(assetId))
+        : eq(assets.symbol, String(symbol).toUpperCase().trim()))
+      .limit(1);
+
+    if (asset.length === 0) {
+      return NextResponse.json({
+        error: 'Asset not found',
+        code: 'ASSET_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    const created = await db.insert(corporateActions)
+      .values({
+        assetId: asset[0].id,
+        symbol: asset[0].symbol,
+        ...parsed.action,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return NextResponse.json(created[0], { status: 201 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
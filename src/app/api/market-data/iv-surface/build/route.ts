@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { buildIvSurface } from '@/lib/iv-surface';
+import { fitIvSurface } from '@/lib/iv-surface-fit';
+
+/**
+ * POST /api/market-data/iv-surface/build
+ * Rebuild a day's IV surface snapshot for an underlying, solving each
+ * point's volatility from its stored quote, and refit SVI / SSVI to it
+ * Body: { symbol, asOf? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { symbol } = body;
+
+    if (!symbol || typeof symbol !== 'string') {
+      return NextResponse.json({
+        error: 'Missing required field: symbol',
+        code: 'MISSING_REQUIRED_FIELDS'
+      }, { status: 400 });
+    }
+
+    const asOf = body.asOf !== undefined ? new Date(body.asOf) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({
+        error: 'asOf must be a valid date',
+        code: 'INVALID_AS_OF'
+      }, { status: 400 });
+    }
+
+    const build = await db.transaction(async tx => {
+      const surface = await buildIvSurface(symbol, asOf, tx);
+      return surface && { ...surface, fit: await fitIvSurface(surface.symbol, surface.snapshotDate, tx) };
+    });
+    if (!build) {
+      return NextResponse.json({
+        error: `No options quotes with an underlying price are stored for ${symbol.toUpperCase()}`,
+        code: 'OPTIONS_CHAIN_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: `Built ${build.points} surface point(s), skipped ${build.skipped.length}, fitted ${build.fit?.fits.length ?? 0} model(s)`,
+      ...build,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
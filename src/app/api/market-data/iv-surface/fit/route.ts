@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { fitIvSurface, loadSurfaceFits } from '@/lib/iv-surface-fit';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/market-data/iv-surface/fit?symbol=&date=
+ * Fitted SVI / SSVI parameters and arbitrage checks for the latest
+ * snapshot on or before `date` (default today)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get('symbol')?.toUpperCase().trim();
+    const date = searchParams.get('date')?.trim() || marketDate(new Date());
+
+    if (!symbol) {
+      return NextResponse.json({
+        error: "Parameter 'symbol' is required",
+        code: 'MISSING_REQUIRED_PARAMETERS'
+      }, { status: 400 });
+    }
+
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json({
+        error: 'date must be in YYYY-MM-DD format',
+        code: 'INVALID_DATE'
+      }, { status: 400 });
+    }
+
+    const fits = await loadSurfaceFits(symbol, date);
+    if (fits.length === 0) {
+      return NextResponse.json({
+        error: `No fitted IV surface is stored for ${symbol} on or before ${date}`,
+        code: 'SURFACE_FIT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      symbol,
+      snapshotDate: fits[0].snapshotDate,
+      underlyingPrice: fits[0].underlyingPrice,
+      riskFreeRate: fits[0].riskFreeRate,
+      fits: fits.map(({ residuals: _residuals, ...fit }) => ({
+        ...fit,
+        parameters: JSON.parse(fit.parameters),
+      })),
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/market-data/iv-surface/fit
+ * Refit SVI / SSVI to a stored snapshot, e.g. after points were posted
+ * Body: { symbol, date? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { symbol } = body;
+    const date = body.date !== undefined ? String(body.date).trim() : marketDate(new Date());
+
+    if (!symbol || typeof symbol !== 'string') {
+      return NextResponse.json({
+        error: 'Missing required field: symbol',
+        code: 'MISSING_REQUIRED_FIELDS'
+      }, { status: 400 });
+    }
+
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json({
+        error: 'date must be in YYYY-MM-DD format',
+        code: 'INVALID_DATE'
+      }, { status: 400 });
+    }
+
+    const fit = await db.transaction(tx => fitIvSurface(symbol, date, tx));
+    if (!fit) {
+      return NextResponse.json({
+        error: `No IV surface snapshot is stored for ${symbol.toUpperCase()} on ${date}`,
+        code: 'SNAPSHOT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: `Fitted ${fit.fits.length} model(s), skipped ${fit.skipped.length} expiration(s)`,
+      ...fit,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSurfaceFits, SURFACE_MODELS, type FitResidual } from '@/lib/iv-surface-fit';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+/**
+ * GET /api/market-data/iv-surface/residuals?symbol=&date=&model=&expiration=
+ * Market against fitted volatility for every point of the latest fitted
+ * snapshot on or before `date` (default today)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get('symbol')?.toUpperCase().trim();
+    const date = searchParams.get('date')?.trim() || marketDate(new Date());
+    const model = searchParams.get('model');
+    const expiration = searchParams.get('expiration');
+
+    if (!symbol) {
+      return NextResponse.json({
+        error: "Parameter 'symbol' is required",
+        code: 'MISSING_REQUIRED_PARAMETERS'
+      }, { status: 400 });
+    }
+
+    if (model && !SURFACE_MODELS.includes(model as typeof SURFACE_MODELS[number])) {
+      return NextResponse.json({
+        error: `model must be one of: ${SURFACE_MODELS.join(', ')}`,
+        code: 'INVALID_MODEL'
+      }, { status: 400 });
+    }
+
+    const fits = (await loadSurfaceFits(symbol, date))
+      .filter(fit => !model || fit.model === model)
+      .filter(fit => !expiration || fit.expirationDate === expiration);
+
+    if (fits.length === 0) {
+      return NextResponse.json({
+        error: `No fitted IV surface is stored for ${symbol} on or before ${date}`,
+        code: 'SURFACE_FIT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      symbol,
+      snapshotDate: fits[0].snapshotDate,
+      fits: fits.map(fit => ({
+        model: fit.model,
+        expirationDate: fit.expirationDate,
+        points: fit.points,
+        rmse: fit.rmse,
+        maxError: fit.maxError,
+        residuals: JSON.parse(fit.residuals) as FitResidual[],
+      })),
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { ivSurfaceSnapshots } from '@/db/schema';
+import { ivSurfaceSnapshots, ivSurfaceFits } from '@/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
 
 // GET method - Query IV surface snapshots
@@ -311,6 +311,13 @@ export async function DELETE(request: NextRequest) {
         ))
         .returning();
 
+      // The day's fits describe the points just removed
+      await db.delete(ivSurfaceFits)
+        .where(and(
+          eq(ivSurfaceFits.symbol, symbol.toUpperCase().trim()),
+          eq(ivSurfaceFits.snapshotDate, date)
+        ));
+
       if (deleted.length === 0) {
         return NextResponse.json({ 
           error: 'No IV surface snapshots found for the specified symbol and date',
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadFittedSurface, surfaceVolatility } from '@/lib/iv-surface-fit';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+/**
+ * GET /api/market-data/iv-surface/volatility?symbol=&date=&strike=|delta=&expiration=|dte=
+ * Volatility read from the latest fitted surface on or before `date`
+ * (default today) at a strike or delta (calls positive, puts negative)
+ * and an expiration date or days to expiration. Without a strike or
+ * delta the at-the-money forward volatility is returned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get('symbol')?.toUpperCase().trim();
+    const date = searchParams.get('date')?.trim() || marketDate(new Date());
+    const strike = searchParams.get('strike');
+    const delta = searchParams.get('delta');
+    const expiration = searchParams.get('expiration')?.trim();
+    const dte = searchParams.get('dte');
+
+    if (!symbol || (!expiration && !dte)) {
+      return NextResponse.json({
+        error: "Parameter 'symbol' and one of 'expiration' or 'dte' are required",
+        code: 'MISSING_REQUIRED_PARAMETERS'
+      }, { status: 400 });
+    }
+
+    if (strike && delta) {
+      return NextResponse.json({
+        error: "Provide either 'strike' or 'delta', not both",
+        code: 'INVALID_PARAMETERS'
+      }, { status: 400 });
+    }
+
+    const strikePrice = strike ? parseFloat(strike) : undefined;
+    if (strikePrice !== undefined && !(strikePrice > 0)) {
+      return NextResponse.json({
+        error: 'Strike must be a positive number',
+        code: 'INVALID_STRIKE_PRICE'
+      }, { status: 400 });
+    }
+
+    const targetDelta = delta ? parseFloat(delta) : undefined;
+    if (targetDelta !== undefined && (isNaN(targetDelta) || targetDelta === 0 || Math.abs(targetDelta) >= 1)) {
+      return NextResponse.json({
+        error: 'Delta must be between -1 and 1, excluding 0 (negative for puts)',
+        code: 'INVALID_DELTA'
+      }, { status: 400 });
+    }
+
+    const daysToExpiration = dte ? parseFloat(dte) : undefined;
+    if (daysToExpiration !== undefined && !(daysToExpiration > 0)) {
+      return NextResponse.json({
+        error: 'dte must be a positive number of days',
+        code: 'INVALID_TENOR'
+      }, { status: 400 });
+    }
+
+    const surface = await loadFittedSurface(symbol, date);
+    if (!surface) {
+      return NextResponse.json({
+        error: `No fitted IV surface is stored for ${symbol} on or before ${date}`,
+        code: 'SURFACE_FIT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const result = surfaceVolatility(surface, {
+      strikePrice,
+      delta: targetDelta,
+      expirationDate: expiration,
+      timeToExpiry: daysToExpiration !== undefined ? daysToExpiration / 365 : undefined,
+    });
+    if (!result) {
+      return NextResponse.json({
+        error: `Expiration is not after the surface's snapshot date ${surface.snapshotDate}`,
+        code: 'INVALID_TENOR'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      symbol,
+      snapshotDate: surface.snapshotDate,
+      underlyingPrice: surface.underlyingPrice,
+      ...result,
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
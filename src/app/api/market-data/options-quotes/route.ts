@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { optionsQuotes } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
+import { quoteImpliedVolatility } from '@/lib/paper-trading/option-contracts';
 
 export async function GET(request: NextRequest) {
   try {
@@ -202,6 +203,13 @@ export async function POST(request: NextRequest) {
       if (quote.rho !== undefined && quote.rho !== null) validatedQuote.rho = quote.rho;
       if (quote.underlyingPrice !== undefined && quote.underlyingPrice !== null) validatedQuote.underlyingPrice = quote.underlyingPrice;
 
+      // Solve for implied volatility when the provider didn't send one
+      if (validatedQuote.impliedVolatility === undefined) {
+        const quotedAt = new Date(validatedQuote.timestamp);
+        const solved = quoteImpliedVolatility(validatedQuote, isNaN(quotedAt.getTime()) ? new Date() : quotedAt);
+        if (solved !== null) validatedQuote.impliedVolatility = solved;
+      }
+
       validatedQuotes.push(validatedQuote);
     }
 
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runVolatilitySummaries } from '@/lib/volatility-summary';
+
+/**
+ * POST /api/market-data/volatility-summary/compute
+ * Daily job: record each underlying's implied and realized volatility
+ * summary for the day
+ * Body (optional): { asOf, symbols }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body?.asOf !== undefined ? new Date(body.asOf) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({
+        error: 'asOf must be a valid date',
+        code: 'INVALID_AS_OF'
+      }, { status: 400 });
+    }
+
+    const symbols = body?.symbols;
+    if (symbols !== undefined && (!Array.isArray(symbols) || symbols.some(symbol => typeof symbol !== 'string' || !symbol.trim()))) {
+      return NextResponse.json({
+        error: 'symbols must be an array of ticker symbols',
+        code: 'INVALID_SYMBOLS'
+      }, { status: 400 });
+    }
+
+    const run = await runVolatilitySummaries(asOf, symbols);
+    const computed = run.results.filter(result => result.status === 'computed').length;
+
+    return NextResponse.json({
+      message: `Computed ${computed} volatility summary(ies), skipped ${run.results.length - computed}`,
+      ...run,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
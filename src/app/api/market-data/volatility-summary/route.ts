@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadVolatilityReport, DEFAULT_IV_RANK_LOOKBACK, MAX_IV_RANK_LOOKBACK } from '@/lib/volatility-summary';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/market-data/volatility-summary?symbol=&date=&lookbacks=&history=
+ * The latest volatility summary for a symbol on or before `date` (default
+ * today), with IV rank and percentile over each lookback in trading days
+ * (default 252; the first is the headline figure). `history=true` adds
+ * the summaries behind the longest lookback, for term-structure charts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get('symbol')?.toUpperCase().trim();
+    const date = searchParams.get('date')?.trim() || marketDate(new Date());
+    const lookbacksParam = searchParams.get('lookbacks');
+    const includeHistory = searchParams.get('history') === 'true';
+
+    if (!symbol) {
+      return NextResponse.json({
+        error: "Parameter 'symbol' is required",
+        code: 'MISSING_REQUIRED_PARAMETERS'
+      }, { status: 400 });
+    }
+
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json({
+        error: 'date must be in YYYY-MM-DD format',
+        code: 'INVALID_DATE'
+      }, { status: 400 });
+    }
+
+    const lookbacks = lookbacksParam
+      ? lookbacksParam.split(',').map(value => Number(value.trim()))
+      : [DEFAULT_IV_RANK_LOOKBACK];
+    if (lookbacks.some(lookback => !Number.isInteger(lookback) || lookback < 2 || lookback > MAX_IV_RANK_LOOKBACK)) {
+      return NextResponse.json({
+        error: `lookbacks must be whole numbers of trading days between 2 and ${MAX_IV_RANK_LOOKBACK}`,
+        code: 'INVALID_LOOKBACK'
+      }, { status: 400 });
+    }
+
+    const report = await loadVolatilityReport(symbol, date, lookbacks, includeHistory);
+    if (!report) {
+      return NextResponse.json({
+        error: `No volatility summary is stored for ${symbol} on or before ${date}`,
+        code: 'VOLATILITY_SUMMARY_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { paperTradingAccounts, paperOrders, paperPositions, assets } from '@/db/schema';
 import { eq, desc, gte, lte, and, sql } from 'drizzle-orm';
+import { performanceHistory } from '@/lib/paper-trading/equity-snapshots';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,6 +14,7 @@ export async function GET(request: NextRequest) {
     const endDate = searchParams.get('endDate');
     const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
     const offset = parseInt(searchParams.get('offset') || '0');
+    const riskFreeRate = parseFloat(searchParams.get('riskFreeRate') || '0');
 
     // Validate accountId
     if (!accountId || isNaN(parseInt(accountId))) {
@@ -22,6 +24,13 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (isNaN(riskFreeRate)) {
+      return NextResponse.json({ 
+        error: "riskFreeRate must be a number",
+        code: "INVALID_RISK_FREE_RATE" 
+      }, { status: 400 });
+    }
+
     const parsedAccountId = parseInt(accountId);
 
     // Fetch account details
@@ -38,7 +47,11 @@ export async function GET(request: NextRequest) {
     }
 
     // Build orders query with filters
-    const conditions = [eq(paperOrders.paperAccountId, parsedAccountId)];
+    // Orders of the current run; earlier runs are under /runs
+    const conditions = [
+      eq(paperOrders.paperAccountId, parsedAccountId),
+      gte(paperOrders.createdAt, account[0].runStartedAt),
+    ];
 
     if (status) {
       conditions.push(eq(paperOrders.status, status));
@@ -99,6 +112,7 @@ export async function GET(request: NextRequest) {
       .from(paperOrders)
       .where(and(
         eq(paperOrders.paperAccountId, parsedAccountId),
+        gte(paperOrders.createdAt, account[0].runStartedAt),
         eq(paperOrders.status, 'filled')
       ));
 
@@ -142,9 +156,10 @@ export async function GET(request: NextRequest) {
     });
 
     const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-    const totalCommission = totalTrades * 0.50;
+    const totalCommission = filledOrders.reduce((sum, order) => sum + order.commission, 0);
+    const totalFees = filledOrders.reduce((sum, order) => sum + order.fees, 0);
     const totalPnl = totalRealizedPnl + totalUnrealizedPnl;
-    const netPnl = totalPnl - totalCommission;
+    const netPnl = totalPnl - totalCommission - totalFees;
 
     const pnlSummary = {
       totalRealizedPnl,
@@ -155,13 +170,23 @@ export async function GET(request: NextRequest) {
       losingTrades,
       winRate: parseFloat(winRate.toFixed(2)),
       totalCommission,
+      totalFees,
       netPnl,
     };
 
+    // Equity curve and returns from the end-of-day snapshots
+    const { equityCurve, performance } = await performanceHistory(account[0], {
+      from: startDate,
+      to: endDate,
+      riskFreeRate,
+    });
+
     return NextResponse.json({
       account: account[0],
       orders,
       pnlSummary,
+      equityCurve,
+      performance,
       pagination: {
         limit,
         offset,
@@ -2,12 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { paperTradingAccounts, paperPositions, assets } from '@/db/schema';
 import { eq, ne, and } from 'drizzle-orm';
+import { calculatePortfolioGreeks, underlyingGreeks, type Greeks, type PortfolioGreeksPosition } from '@/lib/greeks-calculator';
+import { contractGreeks } from '@/lib/paper-trading/option-contracts';
+import { optionSymbolVolatility } from '@/lib/iv-surface-fit';
+import { DEFAULT_BENCHMARK } from '@/lib/paper-trading/equity-snapshots';
+import { accountMargin } from '@/lib/paper-trading/margin';
+
+// Implied volatility assumed when no fitted surface or quote covers the contract
+const DEFAULT_VOLATILITY = 0.3;
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const accountId = searchParams.get('accountId');
     const includeClosedPositions = searchParams.get('includeClosedPositions') === 'true';
+    const benchmarkSymbol = (searchParams.get('benchmark') || DEFAULT_BENCHMARK).toUpperCase();
 
     // Validate accountId
     if (!accountId || isNaN(parseInt(accountId))) {
@@ -40,11 +49,20 @@ export async function GET(request: NextRequest) {
           symbol: assets.symbol,
           name: assets.name,
           sector: assets.sector,
+          beta: assets.beta,
           quantity: paperPositions.quantity,
           averageCost: paperPositions.averageCost,
           currentPrice: paperPositions.currentPrice,
           unrealizedPnl: paperPositions.unrealizedPnl,
           realizedPnl: paperPositions.realizedPnl,
+          optionSymbol: paperPositions.optionSymbol,
+          underlyingSymbol: paperPositions.underlyingSymbol,
+          optionType: paperPositions.optionType,
+          strikePrice: paperPositions.strikePrice,
+          expirationDate: paperPositions.expirationDate,
+          multiplier: paperPositions.multiplier,
+          complexOrderId: paperPositions.complexOrderId,
+          borrowFees: paperPositions.borrowFees,
           lastUpdated: paperPositions.lastUpdated,
         })
           .from(paperPositions)
@@ -61,11 +79,20 @@ export async function GET(request: NextRequest) {
           symbol: assets.symbol,
           name: assets.name,
           sector: assets.sector,
+          beta: assets.beta,
           quantity: paperPositions.quantity,
           averageCost: paperPositions.averageCost,
           currentPrice: paperPositions.currentPrice,
           unrealizedPnl: paperPositions.unrealizedPnl,
           realizedPnl: paperPositions.realizedPnl,
+          optionSymbol: paperPositions.optionSymbol,
+          underlyingSymbol: paperPositions.underlyingSymbol,
+          optionType: paperPositions.optionType,
+          strikePrice: paperPositions.strikePrice,
+          expirationDate: paperPositions.expirationDate,
+          multiplier: paperPositions.multiplier,
+          complexOrderId: paperPositions.complexOrderId,
+          borrowFees: paperPositions.borrowFees,
           lastUpdated: paperPositions.lastUpdated,
         })
           .from(paperPositions)
@@ -77,16 +104,81 @@ export async function GET(request: NextRequest) {
     let totalUnrealizedPnl = 0;
     let totalRealizedPnl = 0;
 
+    // Underlying prices, betas and implied volatilities for option positions
+    const underlyingPrices = new Map<string, number>();
+    const underlyingBetas = new Map<string, number | null>();
+    const volatilities = new Map<string, number>();
+    for (const position of positions) {
+      if (!position.optionSymbol || !position.underlyingSymbol) continue;
+
+      if (!underlyingPrices.has(position.underlyingSymbol)) {
+        const underlying = await db.select({ currentPrice: assets.currentPrice, beta: assets.beta })
+          .from(assets)
+          .where(eq(assets.symbol, position.underlyingSymbol))
+          .limit(1);
+        underlyingPrices.set(position.underlyingSymbol, underlying[0]?.currentPrice || 0);
+        underlyingBetas.set(position.underlyingSymbol, underlying[0]?.beta ?? null);
+      }
+
+      volatilities.set(position.optionSymbol, (await optionSymbolVolatility(position.optionSymbol)) || DEFAULT_VOLATILITY);
+    }
+
+    const benchmark = await db.select({ currentPrice: assets.currentPrice })
+      .from(assets)
+      .where(eq(assets.symbol, benchmarkSymbol))
+      .limit(1);
+    const benchmarkPrice = benchmark[0]?.currentPrice ?? null;
+
+    const greeksByPosition: PortfolioGreeksPosition[] = [];
+
     const enrichedPositions = positions.map(position => {
-      const marketValue = (position.currentPrice || 0) * position.quantity;
+      const multiplier = position.multiplier || 1;
+      const marketValue = (position.currentPrice || 0) * position.quantity * multiplier;
       const totalPnl = (position.unrealizedPnl || 0) + (position.realizedPnl || 0);
-      const costBasis = position.averageCost * position.quantity;
-      const percentageReturn = costBasis !== 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0;
+      const costBasis = position.averageCost * position.quantity * multiplier;
+      const percentageReturn = costBasis !== 0 ? ((marketValue - costBasis) / Math.abs(costBasis)) * 100 : 0;
 
       totalPositionValue += marketValue;
       totalUnrealizedPnl += (position.unrealizedPnl || 0);
       totalRealizedPnl += (position.realizedPnl || 0);
 
+      // Greeks per contract, scaled to the position (delta in share equivalents)
+      let greeks: Greeks | null = null;
+      const spotPrice = position.underlyingSymbol ? underlyingPrices.get(position.underlyingSymbol) : 0;
+      if (position.optionSymbol && position.optionType && position.strikePrice && position.expirationDate && spotPrice) {
+        greeks = contractGreeks(
+          {
+            optionType: position.optionType as 'call' | 'put',
+            strikePrice: position.strikePrice,
+            expirationDate: position.expirationDate,
+          },
+          spotPrice,
+          volatilities.get(position.optionSymbol) || DEFAULT_VOLATILITY
+        );
+      } else if (!position.optionSymbol) {
+        greeks = underlyingGreeks(position.currentPrice || 0);
+      }
+
+      if (greeks) {
+        greeksByPosition.push(position.optionSymbol
+          ? {
+              underlyingSymbol: position.underlyingSymbol!,
+              quantity: position.quantity,
+              multiplier,
+              spotPrice: spotPrice!,
+              beta: underlyingBetas.get(position.underlyingSymbol!),
+              greeks,
+            }
+          : {
+              underlyingSymbol: position.symbol || '',
+              quantity: position.quantity,
+              multiplier,
+              spotPrice: position.currentPrice || 0,
+              beta: position.beta,
+              greeks,
+            });
+      }
+
       return {
         id: position.id,
         assetId: position.assetId,
@@ -101,6 +193,20 @@ export async function GET(request: NextRequest) {
         realizedPnl: position.realizedPnl || 0,
         totalPnl: totalPnl,
         percentageReturn: percentageReturn,
+        optionSymbol: position.optionSymbol,
+        underlyingSymbol: position.underlyingSymbol,
+        optionType: position.optionType,
+        strikePrice: position.strikePrice,
+        expirationDate: position.expirationDate,
+        multiplier: multiplier,
+        complexOrderId: position.complexOrderId,
+        borrowFees: position.borrowFees,
+        greeks: greeks && {
+          delta: greeks.delta * position.quantity * multiplier,
+          gamma: greeks.gamma * position.quantity * multiplier,
+          theta: greeks.theta * position.quantity * multiplier,
+          vega: greeks.vega * position.quantity * multiplier,
+        },
         lastUpdated: position.lastUpdated,
       };
     });
@@ -110,6 +216,7 @@ export async function GET(request: NextRequest) {
     const totalPnl = totalUnrealizedPnl + totalRealizedPnl;
     const initialBalance = account[0].initialBalance;
     const percentageReturn = initialBalance !== 0 ? ((totalEquity - initialBalance) / initialBalance) * 100 : 0;
+    const margin = await accountMargin(account[0]);
 
     return NextResponse.json({
       account: {
@@ -120,6 +227,7 @@ export async function GET(request: NextRequest) {
         totalEquity: account[0].totalEquity,
         totalPnl: account[0].totalPnl,
         isActive: account[0].isActive,
+        marginMode: margin.mode,
         createdAt: account[0].createdAt,
         updatedAt: account[0].updatedAt,
       },
@@ -131,7 +239,14 @@ export async function GET(request: NextRequest) {
         totalPnl: totalPnl,
         percentageReturn: percentageReturn,
         numberOfPositions: enrichedPositions.filter(p => p.quantity !== 0).length,
+        greeks: calculatePortfolioGreeks(
+          greeksByPosition,
+          benchmarkPrice !== null ? { symbol: benchmarkSymbol, price: benchmarkPrice } : null
+        ),
+        buyingPower: margin.buyingPower,
+        optionBuyingPower: margin.optionBuyingPower,
       },
+      margin,
     }, { status: 200 });
 
   } catch (error) {
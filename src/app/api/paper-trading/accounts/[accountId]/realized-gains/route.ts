@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { paperTradingAccounts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseLotMethod, parseReportRange, realizedGainsReport } from '@/lib/tax-lots';
+
+/**
+ * GET /api/paper-trading/accounts/[accountId]/realized-gains?accountId=&year= (or &from=&to=)&runNumber=
+ * Realized gains by tax lot with short- and long-term totals, for the
+ * current run unless an archived run is named
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+    const runNumber = searchParams.get('runNumber');
+
+    if (!accountId || isNaN(parseInt(accountId))) {
+      return NextResponse.json({ 
+        error: 'Valid account ID is required',
+        code: 'INVALID_ACCOUNT_ID' 
+      }, { status: 400 });
+    }
+
+    if (runNumber !== null && (isNaN(parseInt(runNumber)) || parseInt(runNumber) < 1)) {
+      return NextResponse.json({ 
+        error: 'runNumber must be a positive integer',
+        code: 'INVALID_RUN_NUMBER' 
+      }, { status: 400 });
+    }
+
+    const range = parseReportRange(searchParams.get('year'), searchParams.get('from'), searchParams.get('to'));
+    if ('error' in range) {
+      return NextResponse.json(range, { status: 400 });
+    }
+
+    const account = await db.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, parseInt(accountId)))
+      .limit(1);
+
+    if (account.length === 0) {
+      return NextResponse.json({ 
+        error: 'Paper trading account not found',
+        code: 'ACCOUNT_NOT_FOUND' 
+      }, { status: 404 });
+    }
+
+    const run = runNumber !== null ? parseInt(runNumber) : account[0].runNumber;
+    const report = await realizedGainsReport(account[0].userId, account[0].id, range.from, range.to, run);
+
+    return NextResponse.json({
+      accountId: account[0].id,
+      runNumber: run,
+      taxLotMethod: parseLotMethod(account[0].taxLotMethod),
+      ...report,
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
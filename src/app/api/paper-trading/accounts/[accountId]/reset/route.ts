@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { paperTradingAccounts, paperPositions, paperOrders } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { OPEN_ORDER_STATUSES } from '@/lib/paper-trading/order-groups';
+import { recordOrderEvents } from '@/lib/paper-trading/order-history';
+import { recordCashEntry } from '@/lib/paper-trading/cash-ledger';
+import { archiveAccountRun } from '@/lib/paper-trading/accounts';
+import { closeRunLots } from '@/lib/tax-lots';
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,41 +43,99 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const account = existingAccount[0];
-    const initialBalance = account.initialBalance;
-
-    // Delete all positions associated with the account
-    const deletedPositions = await db
-      .delete(paperPositions)
-      .where(eq(paperPositions.paperAccountId, parsedAccountId))
-      .returning();
-
-    // Update all orders associated with the account to status 'canceled'
-    const canceledOrders = await db
-      .update(paperOrders)
-      .set({
-        status: 'canceled',
-        updatedAt: new Date().toISOString()
-      })
-      .where(eq(paperOrders.paperAccountId, parsedAccountId))
-      .returning();
-
-    // Reset account values
-    const resetAccount = await db
-      .update(paperTradingAccounts)
-      .set({
-        cashBalance: initialBalance,
-        totalEquity: initialBalance,
-        totalPnl: 0,
-        updatedAt: new Date().toISOString()
-      })
-      .where(eq(paperTradingAccounts.id, parsedAccountId))
-      .returning();
+    // The next run may start from a different balance
+    const body = await request.json().catch(() => ({}));
+    const initialBalance = body?.initialBalance ?? existingAccount[0].initialBalance;
+
+    if (typeof initialBalance !== 'number' || initialBalance <= 0) {
+      return NextResponse.json(
+        { 
+          error: 'initialBalance must be a positive number',
+          code: 'INVALID_INITIAL_BALANCE'
+        },
+        { status: 400 }
+      );
+    }
+
+    // The run is archived, then positions, orders and balances reset together
+    const { archivedRun, deletedPositions, canceledOrders, resetAccount } = await db.transaction(async (tx) => {
+      const current = await tx
+        .select()
+        .from(paperTradingAccounts)
+        .where(eq(paperTradingAccounts.id, parsedAccountId))
+        .limit(1);
+      const account = current[0];
+      const resetAt = new Date().toISOString();
+
+      const archivedRun = await archiveAccountRun(account, resetAt, tx);
+
+      // Delete all positions associated with the account
+      const deletedPositions = await tx
+        .delete(paperPositions)
+        .where(eq(paperPositions.paperAccountId, parsedAccountId))
+        .returning();
+
+      // The run's open lots close with its positions; its realized gains stay
+      await closeRunLots(parsedAccountId, account.runNumber, resetAt, tx);
+
+      // Cancel the account's open orders; finished orders keep their status
+      const openOrders = and(
+        eq(paperOrders.paperAccountId, parsedAccountId),
+        inArray(paperOrders.status, OPEN_ORDER_STATUSES)
+      );
+      const previous = await tx.select().from(paperOrders).where(openOrders);
+
+      const canceledOrders = await tx
+        .update(paperOrders)
+        .set({
+          status: 'canceled',
+          updatedAt: resetAt
+        })
+        .where(openOrders)
+        .returning();
+
+      await recordOrderEvents(canceledOrders.map(order => ({
+        order,
+        eventType: 'canceled' as const,
+        fromStatus: previous.find(p => p.id === order.id)?.status ?? null,
+        timestamp: resetAt,
+        details: { reason: 'account_reset' },
+      })), tx);
+
+      // Reset account values and start the next run
+      const resetAccount = await tx
+        .update(paperTradingAccounts)
+        .set({
+          cashBalance: initialBalance,
+          initialBalance,
+          totalEquity: initialBalance,
+          totalPnl: 0,
+          runNumber: account.runNumber + 1,
+          runStartedAt: resetAt,
+          version: sql`${paperTradingAccounts.version} + 1`,
+          updatedAt: resetAt
+        })
+        .where(eq(paperTradingAccounts.id, parsedAccountId))
+        .returning();
+
+      // The ledger is kept; the reset is its own entry back to the initial balance
+      await recordCashEntry({
+        paperAccountId: parsedAccountId,
+        entryType: 'reset',
+        amount: initialBalance - account.cashBalance,
+        balanceAfter: initialBalance,
+        description: 'Account reset to initial balance',
+        timestamp: resetAt,
+      }, tx);
+
+      return { archivedRun, deletedPositions, canceledOrders, resetAccount };
+    });
 
     return NextResponse.json(
       {
         message: 'Paper trading account reset successfully',
         account: resetAccount[0],
+        archivedRun,
         deletedPositions: deletedPositions.length,
         canceledOrders: canceledOrders.length
       },
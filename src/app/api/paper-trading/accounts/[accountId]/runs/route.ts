@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { paperTradingAccounts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { accountRunDetail, listAccountRuns } from '@/lib/paper-trading/accounts';
+import { performanceHistory } from '@/lib/paper-trading/equity-snapshots';
+
+/**
+ * GET /api/paper-trading/accounts/[accountId]/runs?accountId=
+ * Archived runs of an account next to the current one, for comparing
+ * attempts. With &runNumber= returns that run's orders and equity curve.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+    const runNumber = searchParams.get('runNumber');
+
+    if (!accountId || isNaN(parseInt(accountId))) {
+      return NextResponse.json({ 
+        error: 'Valid account ID is required',
+        code: 'INVALID_ACCOUNT_ID' 
+      }, { status: 400 });
+    }
+
+    if (runNumber !== null && (isNaN(parseInt(runNumber)) || parseInt(runNumber) < 1)) {
+      return NextResponse.json({ 
+        error: 'runNumber must be a positive integer',
+        code: 'INVALID_RUN_NUMBER' 
+      }, { status: 400 });
+    }
+
+    const account = await db.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, parseInt(accountId)))
+      .limit(1);
+
+    if (account.length === 0) {
+      return NextResponse.json({ 
+        error: 'Paper trading account not found',
+        code: 'ACCOUNT_NOT_FOUND' 
+      }, { status: 404 });
+    }
+
+    if (runNumber !== null) {
+      const detail = await accountRunDetail(account[0], parseInt(runNumber));
+      if (!detail) {
+        return NextResponse.json({ 
+          error: 'Run not found',
+          code: 'RUN_NOT_FOUND' 
+        }, { status: 404 });
+      }
+
+      return NextResponse.json({ accountId: account[0].id, runNumber: parseInt(runNumber), ...detail });
+    }
+
+    const runs = await listAccountRuns(account[0].id);
+    const { performance } = await performanceHistory(account[0]);
+
+    return NextResponse.json({
+      accountId: account[0].id,
+      name: account[0].name,
+      currentRun: {
+        runNumber: account[0].runNumber,
+        startedAt: account[0].runStartedAt,
+        initialBalance: account[0].initialBalance,
+        cashBalance: account[0].cashBalance,
+        totalEquity: account[0].totalEquity,
+        totalPnl: account[0].totalPnl,
+        performance,
+      },
+      runs,
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
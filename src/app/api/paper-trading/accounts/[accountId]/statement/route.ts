@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { paperTradingAccounts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { buildStatement, parseStatementMonth } from '@/lib/paper-trading/cash-ledger';
+
+/**
+ * GET /api/paper-trading/accounts/[accountId]/statement?accountId=&month=YYYY-MM
+ * Monthly cash activity rebuilt from the ledger, with opening and closing
+ * balances and any mismatch against the stored cash balance
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+
+    if (!accountId || isNaN(parseInt(accountId))) {
+      return NextResponse.json({ 
+        error: 'Valid account ID is required',
+        code: 'INVALID_ACCOUNT_ID' 
+      }, { status: 400 });
+    }
+
+    const range = parseStatementMonth(searchParams.get('month'));
+    if ('error' in range) {
+      return NextResponse.json(range, { status: 400 });
+    }
+
+    const account = await db.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, parseInt(accountId)))
+      .limit(1);
+
+    if (account.length === 0) {
+      return NextResponse.json({ 
+        error: 'Paper trading account not found',
+        code: 'ACCOUNT_NOT_FOUND' 
+      }, { status: 404 });
+    }
+
+    const statement = await buildStatement(account[0], range);
+
+    return NextResponse.json(statement);
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { paperTradingAccounts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { openLots, parseLotMethod } from '@/lib/tax-lots';
+
+/**
+ * GET /api/paper-trading/accounts/[accountId]/tax-lots?accountId=
+ * Open tax lots, for choosing lots to sell by specific identification
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+
+    if (!accountId || isNaN(parseInt(accountId))) {
+      return NextResponse.json({ 
+        error: 'Valid account ID is required',
+        code: 'INVALID_ACCOUNT_ID' 
+      }, { status: 400 });
+    }
+
+    const account = await db.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, parseInt(accountId)))
+      .limit(1);
+
+    if (account.length === 0) {
+      return NextResponse.json({ 
+        error: 'Paper trading account not found',
+        code: 'ACCOUNT_NOT_FOUND' 
+      }, { status: 404 });
+    }
+
+    const lots = await openLots(account[0].userId, account[0].id);
+
+    return NextResponse.json({
+      accountId: account[0].id,
+      taxLotMethod: parseLotMethod(account[0].taxLotMethod),
+      lots,
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
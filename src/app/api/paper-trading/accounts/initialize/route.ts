@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { paperTradingAccounts, user } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { user } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseCommissionSchedule } from '@/lib/commission-schedule';
+import { createPaperAccount, isAccountNameTaken, parseAccountName, DEFAULT_ACCOUNT_NAME } from '@/lib/paper-trading/accounts';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, initialBalance } = body;
+    const { userId, initialBalance, name, commissionSchedule } = body;
 
     // Validate required fields
     if (!userId || initialBalance === undefined || initialBalance === null) {
@@ -36,6 +38,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const parsedName = parseAccountName(name ?? DEFAULT_ACCOUNT_NAME);
+    if ('error' in parsedName) {
+      return NextResponse.json(
+        {
+          error: parsedName.error,
+          code: 'INVALID_NAME',
+        },
+        { status: 400 }
+      );
+    }
+
+    let commissionScheduleJson: string | null = null;
+    if (commissionSchedule !== undefined && commissionSchedule !== null) {
+      const parsed = parseCommissionSchedule(commissionSchedule);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          {
+            error: parsed.error,
+            code: 'INVALID_COMMISSION_SCHEDULE',
+          },
+          { status: 400 }
+        );
+      }
+      commissionScheduleJson = JSON.stringify(parsed.schedule);
+    }
+
     // Check if user exists - userId is now text
     const existingUser = await db
       .select()
@@ -53,22 +81,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user already has an active paper trading account - userId is now text
-    const existingAccount = await db
-      .select()
-      .from(paperTradingAccounts)
-      .where(
-        and(
-          eq(paperTradingAccounts.userId, userId),
-          eq(paperTradingAccounts.isActive, true)
-        )
-      )
-      .limit(1);
-
-    if (existingAccount.length > 0) {
+    // A user may hold several accounts, but names are unique per user
+    if (await isAccountNameTaken(userId, parsedName.name)) {
       return NextResponse.json(
         {
-          error: 'User already has an active paper trading account',
+          error: `User already has a paper trading account named '${parsedName.name}'`,
           code: 'ACCOUNT_ALREADY_EXISTS',
         },
         { status: 400 }
@@ -76,25 +93,18 @@ export async function POST(request: NextRequest) {
     }
 
     // Create new paper trading account
-    const currentTimestamp = new Date().toISOString();
-    const newAccount = await db
-      .insert(paperTradingAccounts)
-      .values({
-        userId: userId,
-        cashBalance: parsedBalance,
-        initialBalance: parsedBalance,
-        totalEquity: parsedBalance,
-        totalPnl: 0,
-        isActive: true,
-        createdAt: currentTimestamp,
-        updatedAt: currentTimestamp,
-      })
-      .returning();
+    const newAccount = await createPaperAccount({
+      userId,
+      name: parsedName.name,
+      cashBalance: parsedBalance,
+      initialBalance: parsedBalance,
+      commissionSchedule: commissionScheduleJson,
+    });
 
     return NextResponse.json(
       {
         message: 'Paper trading account initialized successfully',
-        account: newAccount[0],
+        account: newAccount,
       },
       { status: 201 }
     );
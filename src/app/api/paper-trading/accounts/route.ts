@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { paperTradingAccounts, user } from '@/db/schema';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, sql } from 'drizzle-orm';
+import { parseFillModelConfig } from '@/lib/fill-model';
+import { MARGIN_MODES, type MarginMode } from '@/lib/paper-trading/margin';
+import { LOT_METHODS, type LotMethod } from '@/lib/tax-lots';
+import { recordCashEntry } from '@/lib/paper-trading/cash-ledger';
+import { parseCommissionSchedule } from '@/lib/commission-schedule';
+import { createPaperAccount, defaultAccountName, isAccountNameTaken, parseAccountName } from '@/lib/paper-trading/accounts';
 
 export async function GET(request: NextRequest) {
   try {
@@ -64,7 +70,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, cashBalance, initialBalance } = body;
+    const { userId, cashBalance, initialBalance, commissionSchedule } = body;
 
     // Validate required fields
     if (!userId) {
@@ -104,6 +110,28 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Validate name if provided; accounts are named per user
+    const parsedName = body.name !== undefined ? parseAccountName(body.name) : null;
+    if (parsedName && 'error' in parsedName) {
+      return NextResponse.json({ 
+        error: parsedName.error,
+        code: "INVALID_NAME" 
+      }, { status: 400 });
+    }
+
+    // Validate commissionSchedule if provided
+    let commissionScheduleJson: string | null = null;
+    if (commissionSchedule !== undefined && commissionSchedule !== null) {
+      const parsed = parseCommissionSchedule(commissionSchedule);
+      if ('error' in parsed) {
+        return NextResponse.json({ 
+          error: parsed.error,
+          code: "INVALID_COMMISSION_SCHEDULE" 
+        }, { status: 400 });
+      }
+      commissionScheduleJson = JSON.stringify(parsed.schedule);
+    }
+
     // Verify user exists - userId is now text
     const userExists = await db.select()
       .from(user)
@@ -117,22 +145,23 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
+    if (parsedName && await isAccountNameTaken(userId, parsedName.name)) {
+      return NextResponse.json({ 
+        error: `An account named '${parsedName.name}' already exists`,
+        code: "DUPLICATE_ACCOUNT_NAME" 
+      }, { status: 400 });
+    }
+
     // Create new paper trading account
-    const now = new Date().toISOString();
-    const newAccount = await db.insert(paperTradingAccounts)
-      .values({
-        userId: userId,
-        cashBalance: cashBalance,
-        initialBalance: initialBalance,
-        totalEquity: cashBalance,
-        totalPnl: 0,
-        isActive: true,
-        createdAt: now,
-        updatedAt: now,
-      })
-      .returning();
+    const newAccount = await createPaperAccount({
+      userId,
+      name: parsedName ? parsedName.name : await defaultAccountName(userId),
+      cashBalance,
+      initialBalance,
+      commissionSchedule: commissionScheduleJson,
+    });
 
-    return NextResponse.json(newAccount[0], { status: 201 });
+    return NextResponse.json(newAccount, { status: 201 });
 
   } catch (error) {
     console.error('POST error:', error);
@@ -177,7 +206,26 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { cashBalance, totalEquity, totalPnl, isActive } = body;
+    const { name, cashBalance, totalEquity, totalPnl, isActive, fillModel, marginMode, taxLotMethod, commissionSchedule } = body;
+
+    // Validate name if provided
+    let parsedName: string | undefined;
+    if (name !== undefined) {
+      const parsed = parseAccountName(name);
+      if ('error' in parsed) {
+        return NextResponse.json({ 
+          error: parsed.error,
+          code: "INVALID_NAME" 
+        }, { status: 400 });
+      }
+      if (await isAccountNameTaken(existingAccount[0].userId, parsed.name, existingAccount[0].id)) {
+        return NextResponse.json({ 
+          error: `An account named '${parsed.name}' already exists`,
+          code: "DUPLICATE_ACCOUNT_NAME" 
+        }, { status: 400 });
+      }
+      parsedName = parsed.name;
+    }
 
     // Validate cashBalance if provided
     if (cashBalance !== undefined) {
@@ -215,27 +263,102 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Validate fillModel if provided (null restores the default model)
+    let fillModelJson: string | null | undefined;
+    if (fillModel !== undefined) {
+      if (fillModel === null) {
+        fillModelJson = null;
+      } else {
+        const parsed = parseFillModelConfig(fillModel);
+        if ('error' in parsed) {
+          return NextResponse.json({ 
+            error: parsed.error,
+            code: "INVALID_FILL_MODEL" 
+          }, { status: 400 });
+        }
+        fillModelJson = JSON.stringify(parsed.config);
+      }
+    }
+
+    // Validate commissionSchedule if provided (null makes the account commission-free)
+    let commissionScheduleJson: string | null | undefined;
+    if (commissionSchedule !== undefined) {
+      if (commissionSchedule === null) {
+        commissionScheduleJson = null;
+      } else {
+        const parsed = parseCommissionSchedule(commissionSchedule);
+        if ('error' in parsed) {
+          return NextResponse.json({ 
+            error: parsed.error,
+            code: "INVALID_COMMISSION_SCHEDULE" 
+          }, { status: 400 });
+        }
+        commissionScheduleJson = JSON.stringify(parsed.schedule);
+      }
+    }
+
+    // Validate marginMode if provided
+    if (marginMode !== undefined && !MARGIN_MODES.includes(marginMode)) {
+      return NextResponse.json({ 
+        error: `marginMode must be one of: ${MARGIN_MODES.join(', ')}`,
+        code: "INVALID_MARGIN_MODE" 
+      }, { status: 400 });
+    }
+
+    // Validate taxLotMethod if provided
+    if (taxLotMethod !== undefined && !LOT_METHODS.includes(taxLotMethod)) {
+      return NextResponse.json({ 
+        error: `taxLotMethod must be one of: ${LOT_METHODS.join(', ')}`,
+        code: "INVALID_TAX_LOT_METHOD" 
+      }, { status: 400 });
+    }
+
     // Build update object with only provided fields
     const updateData: {
+      name?: string;
       cashBalance?: number;
       totalEquity?: number;
       totalPnl?: number;
       isActive?: boolean;
+      fillModel?: string | null;
+      marginMode?: MarginMode;
+      taxLotMethod?: LotMethod;
+      commissionSchedule?: string | null;
       updatedAt: string;
     } = {
       updatedAt: new Date().toISOString(),
     };
 
+    if (parsedName !== undefined) updateData.name = parsedName;
     if (cashBalance !== undefined) updateData.cashBalance = cashBalance;
     if (totalEquity !== undefined) updateData.totalEquity = totalEquity;
     if (totalPnl !== undefined) updateData.totalPnl = totalPnl;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (fillModelJson !== undefined) updateData.fillModel = fillModelJson;
+    if (marginMode !== undefined) updateData.marginMode = marginMode;
+    if (taxLotMethod !== undefined) updateData.taxLotMethod = taxLotMethod;
+    if (commissionScheduleJson !== undefined) updateData.commissionSchedule = commissionScheduleJson;
+
+    // Update account; a cash change is booked to the ledger as an adjustment
+    const updatedAccount = await db.transaction(async (tx) => {
+      const updated = await tx.update(paperTradingAccounts)
+        .set({ ...updateData, version: sql`${paperTradingAccounts.version} + 1` })
+        .where(eq(paperTradingAccounts.id, parseInt(id)))
+        .returning();
+
+      if (cashBalance !== undefined && cashBalance !== existingAccount[0].cashBalance) {
+        await recordCashEntry({
+          paperAccountId: updated[0].id,
+          entryType: 'adjustment',
+          amount: cashBalance - existingAccount[0].cashBalance,
+          balanceAfter: cashBalance,
+          description: 'Cash balance set manually',
+          timestamp: updateData.updatedAt,
+        }, tx);
+      }
 
-    // Update account
-    const updatedAccount = await db.update(paperTradingAccounts)
-      .set(updateData)
-      .where(eq(paperTradingAccounts.id, parseInt(id)))
-      .returning();
+      return updated;
+    });
 
     return NextResponse.json(updatedAccount[0], { status: 200 });
 
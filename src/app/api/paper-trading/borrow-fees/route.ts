@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accrueBorrowFees } from '@/lib/paper-trading/borrow-fees';
+
+/**
+ * POST /api/paper-trading/borrow-fees
+ * Daily job: charge borrow fees on short stock positions
+ * Body (optional): { asOf }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body?.asOf !== undefined ? new Date(body.asOf) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({
+        error: 'asOf must be a valid date',
+        code: 'INVALID_AS_OF'
+      }, { status: 400 });
+    }
+
+    const summary = await accrueBorrowFees(asOf);
+
+    return NextResponse.json({
+      message: `Charged borrow fees on ${summary.accruals.length} short position(s)`,
+      ...summary,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { takeEquitySnapshots, DEFAULT_BENCHMARK } from '@/lib/paper-trading/equity-snapshots';
+
+/**
+ * POST /api/paper-trading/equity-snapshots
+ * End-of-day job: mark paper accounts to market and record equity snapshots
+ * Body (optional): { asOf, benchmark }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body?.asOf !== undefined ? new Date(body.asOf) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({
+        error: 'asOf must be a valid date',
+        code: 'INVALID_AS_OF'
+      }, { status: 400 });
+    }
+
+    const benchmark = body?.benchmark ?? DEFAULT_BENCHMARK;
+    if (typeof benchmark !== 'string' || benchmark.trim() === '') {
+      return NextResponse.json({
+        error: 'benchmark must be a symbol',
+        code: 'INVALID_BENCHMARK'
+      }, { status: 400 });
+    }
+
+    const summary = await takeEquitySnapshots(asOf, benchmark.trim().toUpperCase());
+
+    return NextResponse.json({
+      message: `Recorded ${summary.snapshots.length} equity snapshot(s) for ${summary.snapshotDate}`,
+      ...summary,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processPaperExpirations, parseExpirationOptions } from '@/lib/option-expiration';
+
+/**
+ * POST /api/paper-trading/expirations
+ * End-of-day job: exercise, assign or expire paper option positions
+ * Body (all optional): { asOf, exerciseThreshold, settlementPrices: { AAPL: 190.5 }, exDividends: [{ symbol, exDate, amount }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseExpirationOptions(await request.json().catch(() => ({})));
+    if ('error' in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
+    }
+
+    const summary = await processPaperExpirations(parsed.options);
+
+    return NextResponse.json({
+      message: `Processed ${summary.events.length} expiring paper option position(s)`,
+      ...summary,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { paperTradingAccounts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { cancelAllPaperOrders } from '@/lib/paper-trading/order-amendments';
+
+/**
+ * POST /api/paper-trading/orders/cancel-all
+ * Cancel every open order on an account
+ * Body: { paperAccountId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const accountId = parseInt(body?.paperAccountId);
+
+    if (isNaN(accountId) || accountId <= 0) {
+      return NextResponse.json({
+        error: 'paperAccountId must be a valid positive integer',
+        code: 'INVALID_ACCOUNT_ID'
+      }, { status: 400 });
+    }
+
+    const account = await db.select({ id: paperTradingAccounts.id })
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, accountId))
+      .limit(1);
+
+    if (account.length === 0) {
+      return NextResponse.json({
+        error: 'Paper trading account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const canceled = await cancelAllPaperOrders(accountId);
+
+    return NextResponse.json({
+      message: `Canceled ${canceled.length} order(s)`,
+      orders: canceled.map(({ order, canceledQuantity }) => ({ ...order, canceledQuantity })),
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelPaperOrder, OrderAmendmentError } from '@/lib/paper-trading/order-amendments';
+import { InvalidOrderTransitionError } from '@/lib/paper-trading/order-history';
+
+/**
+ * POST /api/paper-trading/orders/cancel
+ * Cancel an open order; a partially filled order cancels its remainder
+ * Body: { orderId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const orderId = parseInt(body?.orderId);
+
+    if (isNaN(orderId) || orderId <= 0) {
+      return NextResponse.json({
+        error: 'orderId must be a valid positive integer',
+        code: 'INVALID_ORDER_ID'
+      }, { status: 400 });
+    }
+
+    const { order, canceledQuantity } = await cancelPaperOrder(orderId);
+
+    return NextResponse.json({
+      message: order.filledQuantity > 0
+        ? `Canceled the remaining ${canceledQuantity} of the order`
+        : 'Order canceled',
+      order,
+      canceledQuantity,
+    }, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof OrderAmendmentError) {
+      return NextResponse.json({
+        error: error.message,
+        code: error.code
+      }, { status: error.code === 'ORDER_NOT_FOUND' ? 404 : 400 });
+    }
+
+    if (error instanceof InvalidOrderTransitionError) {
+      return NextResponse.json({
+        error: error.message,
+        code: 'INVALID_STATUS_TRANSITION'
+      }, { status: 400 });
+    }
+
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
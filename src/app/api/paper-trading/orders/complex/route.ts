@@ -1,10 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { paperOrders, paperTradingAccounts, paperPositions, assets } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { paperOrders, paperTradingAccounts, assets } from '@/db/schema';
+import type { Asset } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { applyFill, runAtomically, OrderRejectedError } from '@/lib/paper-trading/order-execution';
+import { recordOrderEvent } from '@/lib/paper-trading/order-history';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyKeyReusedError,
+  readIdempotencyKey,
+  hashRequest,
+  findStoredResponse,
+  storeResponse,
+  type OrderResponse,
+} from '@/lib/paper-trading/idempotency';
+import { withOptionQuote } from '@/lib/paper-trading/order-matcher';
+import {
+  parseOccSymbol,
+  formatOccSymbol,
+  resolveContractAsset,
+  contractFields,
+  contractGreeks,
+  type OptionContract,
+} from '@/lib/paper-trading/option-contracts';
+import { estimateFill, loadFillModel } from '@/lib/fill-model';
+import { checkOrderMargin, marginRejection, type ProposedFill } from '@/lib/paper-trading/margin';
+import { checkPaperOrderRisk, riskRejection } from '@/lib/risk-checks';
+import {
+  SPREAD_TYPES,
+  validateSpreadLegs,
+  parseNetLimit,
+  packagePricing,
+  isNetPriceMarketable,
+  type SpreadLegContract,
+} from '@/lib/paper-trading/complex-orders';
 
 interface SpreadLeg {
-  assetId: number;
+  assetId?: number;
+  optionSymbol?: string;
   side: 'buy' | 'sell';
   quantity: number;
   strikePrice?: number;
@@ -12,6 +46,23 @@ interface SpreadLeg {
   optionType?: 'call' | 'put';
 }
 
+interface PricedLeg {
+  asset: Asset;
+  contract: OptionContract;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;      // Mid or theoretical value
+  bidPrice?: number;
+  askPrice?: number;
+  fillPrice: number;  // Price after slippage
+  legCost: number;
+}
+
+// Black-Scholes value at a flat 30% IV, used when no stored quote exists
+function theoreticalPrice(contract: OptionContract, underlyingPrice: number): number {
+  return contractGreeks(contract, underlyingPrice, 0.3).price;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -39,15 +90,39 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const parsedKey = readIdempotencyKey(request.headers.get(IDEMPOTENCY_KEY_HEADER), body.idempotencyKey);
+    if ('error' in parsedKey) {
+      return NextResponse.json(parsedKey, { status: 400 });
+    }
+    const idempotencyKey = parsedKey.key;
+
     // Validate spread type
-    const validSpreadTypes = ['straddle', 'strangle', 'calendar', 'iron_condor', 'butterfly', 'vertical'];
-    if (!validSpreadTypes.includes(spreadType)) {
+    if (!SPREAD_TYPES.includes(spreadType)) {
       return NextResponse.json({ 
-        error: `spreadType must be one of: ${validSpreadTypes.join(', ')}`,
+        error: `spreadType must be one of: ${SPREAD_TYPES.join(', ')}`,
         code: "INVALID_SPREAD_TYPE" 
       }, { status: 400 });
     }
 
+    // Net debit/credit limit for the whole package
+    const netLimit = parseNetLimit(body);
+    if ('error' in netLimit) {
+      return NextResponse.json(netLimit, { status: 400 });
+    }
+
+    // A retry gets the first response back before the checks that depend on
+    // state the first attempt changed: lots it relieved, quotes and volume
+    const requestHash = hashRequest(body);
+    if (idempotencyKey) {
+      const stored = await findStoredResponse(db, accountId, idempotencyKey, requestHash);
+      if (stored) {
+        return NextResponse.json(stored.body, {
+          status: stored.status,
+          headers: { 'Idempotent-Replayed': 'true' },
+        });
+      }
+    }
+
     // Check if paper account exists and is active
     const account = await db.select()
       .from(paperTradingAccounts)
@@ -69,209 +144,307 @@ export async function POST(request: NextRequest) {
     }
 
     const currentTimestamp = new Date().toISOString();
-    const executedLegs = [];
-    let totalCost = 0;
-    let totalCredit = 0;
+    const underlyingPrice = marketPrice || 100;
+    const fillModel = loadFillModel(account[0].fillModel);
 
-    // Process each leg of the complex order
-    for (const leg of legs) {
-      const { assetId, side, quantity, strikePrice, expirationDate, optionType } = leg as SpreadLeg;
+    // Resolve every leg's contract before anything is written
+    const contractLegs: SpreadLegContract[] = [];
+
+    for (const leg of legs as SpreadLeg[]) {
+      const { assetId, optionSymbol, side, quantity, strikePrice, expirationDate, optionType } = leg;
 
       // Validate leg fields
-      if (!assetId || !side || !quantity) {
+      if (!side || !quantity || (!assetId && !optionSymbol && !(strikePrice && expirationDate && optionType))) {
         return NextResponse.json({ 
-          error: "Each leg must have assetId, side, and quantity",
+          error: "Each leg must have side, quantity and a contract (optionSymbol, assetId, or strikePrice/expirationDate/optionType)",
           code: "INVALID_LEG_DATA" 
         }, { status: 400 });
       }
 
-      // Verify asset exists
-      const asset = await db.select()
-        .from(assets)
-        .where(eq(assets.id, assetId))
-        .limit(1);
+      if (!['buy', 'sell'].includes(side) || !Number.isInteger(quantity) || quantity <= 0) {
+        return NextResponse.json({ 
+          error: "Each leg side must be 'buy' or 'sell' and quantity a positive integer",
+          code: "INVALID_LEG_DATA" 
+        }, { status: 400 });
+      }
 
-      if (asset.length === 0) {
+      let contract: OptionContract | null = null;
+      let legUnderlying = underlyingSymbol;
+
+      if (assetId) {
+        // Verify asset exists
+        const asset = await db.select()
+          .from(assets)
+          .where(eq(assets.id, assetId))
+          .limit(1);
+
+        if (asset.length === 0) {
+          return NextResponse.json({ 
+            error: `Asset with ID ${assetId} not found`,
+            code: "ASSET_NOT_FOUND" 
+          }, { status: 404 });
+        }
+
+        // The asset is either the contract itself or its underlying
+        contract = parseOccSymbol(asset[0].symbol);
+        if (!contract) legUnderlying = asset[0].symbol;
+      }
+
+      if (optionSymbol) {
+        contract = parseOccSymbol(optionSymbol);
+      } else if (strikePrice && expirationDate && optionType) {
+        contract = parseOccSymbol(formatOccSymbol({
+          underlyingSymbol: legUnderlying,
+          optionType,
+          strikePrice,
+          expirationDate,
+        }));
+      }
+
+      if (!contract) {
         return NextResponse.json({ 
-          error: `Asset with ID ${assetId} not found`,
-          code: "ASSET_NOT_FOUND" 
-        }, { status: 404 });
+          error: "Each leg must reference an option contract",
+          code: "INVALID_LEG_CONTRACT" 
+        }, { status: 400 });
       }
 
-      // Calculate option price with realistic pricing
-      // For demo purposes, using Black-Scholes approximation
-      const underlyingPrice = marketPrice || 100;
-      const strike = strikePrice || underlyingPrice;
-      const daysToExpiry = 30; // Default to 30 days
-      const volatility = 0.3; // 30% IV
-      
-      // Simplified option pricing (intrinsic + time value)
-      let optionPrice = 0;
-      const intrinsicValue = optionType === 'call' 
-        ? Math.max(underlyingPrice - strike, 0)
-        : Math.max(strike - underlyingPrice, 0);
-      const timeValue = Math.sqrt(daysToExpiry / 365) * volatility * underlyingPrice * 0.4;
-      optionPrice = intrinsicValue + timeValue;
-
-      // Apply bid-ask spread (1% slippage)
-      const fillPrice = side === 'buy' 
-        ? optionPrice * 1.01
-        : optionPrice * 0.99;
-
-      // Create order for this leg
-      const legOrder = await db.insert(paperOrders)
-        .values({
-          paperAccountId: accountId,
-          assetId: assetId,
-          orderType: 'market',
-          side: side,
-          quantity: quantity,
-          status: 'pending',
-          filledQuantity: 0,
-          createdAt: currentTimestamp,
-          updatedAt: currentTimestamp,
-        })
-        .returning();
-
-      const legCost = fillPrice * quantity * 100; // Options are in contracts of 100
+      contractLegs.push({ contract, side, quantity });
+    }
+
+    const legProblem = validateSpreadLegs(spreadType, contractLegs, underlyingSymbol);
+    if (legProblem) {
+      return NextResponse.json({ 
+        error: legProblem,
+        code: "INVALID_SPREAD_LEGS" 
+      }, { status: 400 });
+    }
+
+    // Price every leg, all of it or nothing: a leg the displayed volume
+    // cannot fill in full rejects the whole order rather than legging in
+    const pricedLegs: (Omit<PricedLeg, 'asset'>)[] = [];
+    let totalCost = 0;
+    let totalCredit = 0;
+
+    for (const { contract, side, quantity } of contractLegs) {
+      // Price from the latest stored quote, falling back to a theoretical value
+      const quote = await withOptionQuote({
+        symbol: contract.optionSymbol,
+        price: theoreticalPrice(contract, underlyingPrice),
+      });
+      const price = quote.bidPrice && quote.askPrice
+        ? (quote.bidPrice + quote.askPrice) / 2
+        : quote.price;
+      const estimate = estimateFill(fillModel, {
+        side,
+        quantity,
+        price,
+        bidPrice: quote.bidPrice,
+        askPrice: quote.askPrice,
+        volume: quote.availableQuantity,
+      });
+
+      if (estimate.fillQuantity < quantity) {
+        return NextResponse.json({ 
+          error: `Not enough volume to fill ${quantity} ${contract.optionSymbol}; complex orders fill all legs or none`,
+          code: "INSUFFICIENT_LIQUIDITY" 
+        }, { status: 400 });
+      }
 
+      const legCost = estimate.fillPrice * quantity * contract.multiplier;
       if (side === 'buy') {
         totalCost += legCost;
       } else {
         totalCredit += legCost;
       }
 
-      // Update order to filled
-      await db.update(paperOrders)
-        .set({
-          status: 'filled',
-          filledQuantity: quantity,
-          filledPrice: fillPrice,
-          filledAt: currentTimestamp,
-          updatedAt: currentTimestamp,
-        })
-        .where(eq(paperOrders.id, legOrder[0].id));
-
-      // Update or create position for this leg
-      const existingPosition = await db.select()
-        .from(paperPositions)
-        .where(
-          and(
-            eq(paperPositions.paperAccountId, accountId),
-            eq(paperPositions.assetId, assetId)
-          )
-        )
-        .limit(1);
+      pricedLegs.push({
+        contract,
+        side,
+        quantity,
+        price,
+        bidPrice: quote.bidPrice,
+        askPrice: quote.askPrice,
+        fillPrice: estimate.fillPrice,
+        legCost,
+      });
+    }
 
-      if (existingPosition.length > 0) {
-        const pos = existingPosition[0];
-        const newQuantity = side === 'buy' 
-          ? pos.quantity + quantity 
-          : pos.quantity - quantity;
-
-        if (newQuantity !== 0) {
-          const totalValue = (pos.averageCost * pos.quantity) + (fillPrice * (side === 'buy' ? quantity : -quantity));
-          const newAverageCost = totalValue / newQuantity;
-
-          await db.update(paperPositions)
-            .set({
-              quantity: newQuantity,
-              averageCost: Math.abs(newAverageCost),
-              currentPrice: fillPrice,
-              unrealizedPnl: (fillPrice - Math.abs(newAverageCost)) * newQuantity,
-              lastUpdated: currentTimestamp,
-            })
-            .where(eq(paperPositions.id, pos.id));
-        } else {
-          // Position closed
-          await db.delete(paperPositions)
-            .where(eq(paperPositions.id, pos.id));
-        }
-      } else if (side === 'buy') {
-        // Create new position for buy orders
-        await db.insert(paperPositions)
-          .values({
-            paperAccountId: accountId,
-            assetId: assetId,
-            quantity: quantity,
-            averageCost: fillPrice,
-            currentPrice: fillPrice,
-            unrealizedPnl: 0,
-            realizedPnl: 0,
-            lastUpdated: currentTimestamp,
-          });
-      }
+    const pricing = packagePricing(pricedLegs, netLimit);
+    if (!isNetPriceMarketable(pricing)) {
+      const net = (price: number) => `${Math.abs(price).toFixed(2)} ${price > 0 ? 'debit' : 'credit'}`;
+      return NextResponse.json({ 
+        error: `Net price ${net(pricing.netPrice)} is worse than the limit of ${pricing.limitPrice!.toFixed(2)} ${pricing.priceEffect}`,
+        code: "LIMIT_NOT_MARKETABLE",
+        pricing,
+      }, { status: 400 });
+    }
 
-      executedLegs.push({
-        orderId: legOrder[0].id,
-        assetId: assetId,
-        symbol: asset[0].symbol,
-        side: side,
-        quantity: quantity,
-        fillPrice: fillPrice,
-        strikePrice: strikePrice,
-        expirationDate: expirationDate,
-        optionType: optionType,
-        legCost: legCost,
-      });
+    const resolvedLegs: PricedLeg[] = [];
+    for (const leg of pricedLegs) {
+      resolvedLegs.push({ ...leg, asset: await resolveContractAsset(leg.contract) });
     }
 
     // Calculate net debit/credit
     const netCost = totalCost - totalCredit;
     const isDebitSpread = netCost > 0;
 
-    // Check if sufficient funds for debit spreads
-    if (isDebitSpread && account[0].cashBalance < netCost) {
-      return NextResponse.json({ 
-        error: "Insufficient funds for this spread order",
-        code: "INSUFFICIENT_FUNDS",
-        requiredFunds: netCost,
-        availableFunds: account[0].cashBalance
-      }, { status: 400 });
-    }
+    // Every leg fills or none do: the margin check, the leg orders and their
+    // fills share one transaction, as does the stored idempotent response
+    const response = await runAtomically(async (tx): Promise<OrderResponse & { replayed?: boolean }> => {
+      if (idempotencyKey) {
+        const stored = await findStoredResponse(tx, accountId, idempotencyKey, requestHash);
+        if (stored) return { ...stored, replayed: true };
+      }
 
-    // Update account balance
-    const newCashBalance = isDebitSpread 
-      ? account[0].cashBalance - netCost
-      : account[0].cashBalance + Math.abs(netCost);
+      const current = await tx.select()
+        .from(paperTradingAccounts)
+        .where(eq(paperTradingAccounts.id, accountId))
+        .limit(1);
 
-    // Calculate total equity
-    const allPositions = await db.select()
-      .from(paperPositions)
-      .where(eq(paperPositions.paperAccountId, accountId));
+      const fills: ProposedFill[] = resolvedLegs.map(leg => ({
+        order: { assetId: leg.asset.id, side: leg.side, ...contractFields(leg.contract) },
+        quantity: leg.quantity,
+        fillPrice: leg.fillPrice,
+      }));
+
+      // Pre-trade risk checks see the whole order, as does the margin
+      // check, so spreads get their max-loss requirement rather than each
+      // short leg being treated as naked
+      const risk = await checkPaperOrderRisk(current[0], fills, new Date(currentTimestamp), tx);
+      const margin = risk.approved
+        ? await checkOrderMargin(current[0], fills, new Date(currentTimestamp), tx)
+        : null;
+
+      let result: OrderResponse;
+
+      if (!margin) {
+        result = { status: 400, body: riskRejection(risk) };
+      } else if (!margin.approved) {
+        result = {
+          status: 400,
+          body: {
+            error: "Insufficient buying power for this spread order",
+            code: "INSUFFICIENT_BUYING_POWER",
+            margin: marginRejection(margin),
+          },
+        };
+      } else {
+        // Execute the legs as linked orders, sells first
+        const complexOrderId = randomUUID();
+        const executedLegs = [];
+        let newCashBalance = current[0].cashBalance;
+        let totalCommission = 0;
+        let totalFees = 0;
+        const executionOrder = [...resolvedLegs].sort((a, b) => (a.side === b.side ? 0 : a.side === 'sell' ? -1 : 1));
+
+        for (const leg of executionOrder) {
+          const asset = leg.asset;
+
+          // Create order for this leg
+          const legOrder = await tx.insert(paperOrders)
+            .values({
+              paperAccountId: accountId,
+              assetId: asset.id,
+              ...contractFields(leg.contract),
+              orderType: 'market',
+              side: leg.side,
+              quantity: leg.quantity,
+              status: 'pending',
+              filledQuantity: 0,
+              orderClass: 'multileg',
+              complexOrderId,
+              createdAt: currentTimestamp,
+              updatedAt: currentTimestamp,
+            })
+            .returning();
+
+          await recordOrderEvent({
+            order: legOrder[0],
+            eventType: 'created',
+            fromStatus: null,
+            timestamp: currentTimestamp,
+          }, tx);
+
+          // A rejected leg throws and rolls back the legs already filled
+          const fill = await applyFill({
+            order: legOrder[0],
+            fillPrice: leg.fillPrice,
+            marketPrice: leg.price,
+            timestamp: currentTimestamp,
+            marginChecked: true,
+          }, tx);
+          newCashBalance = fill.execution.newCashBalance;
+          totalCommission += fill.execution.commission;
+          totalFees += fill.execution.fees;
+
+          executedLegs.push({
+            orderId: legOrder[0].id,
+            assetId: asset.id,
+            symbol: asset.symbol,
+            optionSymbol: leg.contract.optionSymbol,
+            side: leg.side,
+            quantity: leg.quantity,
+            fillPrice: leg.fillPrice,
+            strikePrice: leg.contract.strikePrice,
+            expirationDate: leg.contract.expirationDate,
+            optionType: leg.contract.optionType,
+            multiplier: leg.contract.multiplier,
+            legCost: leg.legCost,
+            commission: fill.execution.commission,
+            fees: fill.execution.fees,
+          });
+        }
 
-    let totalPositionValue = 0;
-    for (const pos of allPositions) {
-      totalPositionValue += (pos.currentPrice || pos.averageCost) * pos.quantity * 100;
-    }
+        result = {
+          status: 201,
+          body: {
+            message: "Complex order executed successfully",
+            complexOrderId,
+            spreadType: spreadType,
+            underlyingSymbol: underlyingSymbol,
+            orderType: netLimit.orderType,
+            legs: executedLegs,
+            pricing,
+            execution: {
+              netCost: isDebitSpread ? netCost : -Math.abs(netCost),
+              isDebitSpread: isDebitSpread,
+              totalCost: totalCost,
+              totalCredit: totalCredit,
+              totalCommission,
+              totalFees,
+              netCashFlow: newCashBalance - current[0].cashBalance, // Premium, commission and fees
+              newCashBalance: newCashBalance,
+            },
+          },
+        };
+      }
 
-    const totalEquity = newCashBalance + totalPositionValue;
-    const totalPnl = totalEquity - account[0].initialBalance;
-
-    await db.update(paperTradingAccounts)
-      .set({
-        cashBalance: newCashBalance,
-        totalEquity: totalEquity,
-        totalPnl: totalPnl,
-        updatedAt: currentTimestamp,
-      })
-      .where(eq(paperTradingAccounts.id, accountId));
-
-    return NextResponse.json({
-      message: "Complex order executed successfully",
-      spreadType: spreadType,
-      underlyingSymbol: underlyingSymbol,
-      legs: executedLegs,
-      execution: {
-        netCost: isDebitSpread ? netCost : -Math.abs(netCost),
-        isDebitSpread: isDebitSpread,
-        totalCost: totalCost,
-        totalCredit: totalCredit,
-        newCashBalance: newCashBalance,
-      },
-    }, { status: 201 });
+      if (idempotencyKey) {
+        await storeResponse(tx, accountId, idempotencyKey, 'complex', requestHash, result);
+      }
+      return result;
+    });
+
+    return NextResponse.json(response.body, {
+      status: response.status,
+      headers: response.replayed ? { 'Idempotent-Replayed': 'true' } : undefined,
+    });
 
   } catch (error) {
+    if (error instanceof OrderRejectedError) {
+      return NextResponse.json({ 
+        error: error.message,
+        code: error.code,
+      }, { status: 400 });
+    }
+
+    if (error instanceof IdempotencyKeyReusedError) {
+      return NextResponse.json({ 
+        error: error.message,
+        code: "IDEMPOTENCY_KEY_REUSED" 
+      }, { status: 422 });
+    }
+
     console.error('POST error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + error 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { paperOrders } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getOrderHistory } from '@/lib/paper-trading/order-history';
+
+/**
+ * GET /api/paper-trading/orders/events?orderId=
+ * Every change to an order, oldest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const orderId = parseInt(searchParams.get('orderId') ?? '');
+
+    if (isNaN(orderId) || orderId <= 0) {
+      return NextResponse.json({
+        error: 'orderId must be a valid positive integer',
+        code: 'INVALID_ORDER_ID'
+      }, { status: 400 });
+    }
+
+    const order = await db.select()
+      .from(paperOrders)
+      .where(eq(paperOrders.id, orderId))
+      .limit(1);
+
+    if (order.length === 0) {
+      return NextResponse.json({
+        error: 'Paper order not found',
+        code: 'ORDER_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const events = await getOrderHistory(orderId);
+
+    return NextResponse.json({
+      order: order[0],
+      events,
+    });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
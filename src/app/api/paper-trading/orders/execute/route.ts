@@ -1,7 +1,203 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/db';
-import { paperOrders, paperTradingAccounts, paperPositions, assets } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { paperOrders, paperTradingAccounts, assets } from '@/db/schema';
+import type { NewPaperOrder } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  processOrder,
+  withOptionQuote,
+  ORDER_TYPES,
+  type MarketQuote,
+  type MatchResult,
+} from '@/lib/paper-trading/order-matcher';
+import { runAtomically } from '@/lib/paper-trading/order-execution';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyKeyReusedError,
+  readIdempotencyKey,
+  hashRequest,
+  findStoredResponse,
+  storeResponse,
+  type OrderResponse,
+} from '@/lib/paper-trading/idempotency';
+import { loadFillModel, type FillModelConfig } from '@/lib/fill-model';
+import { validateLotSelection } from '@/lib/tax-lots';
+import { parseOccSymbol, resolveContractAsset, contractFields } from '@/lib/paper-trading/option-contracts';
+import { TIME_IN_FORCE, computeOrderExpiry, type TimeInForce } from '@/lib/paper-trading/market-session';
+import { checkPaperOrderRisk, riskRejection } from '@/lib/risk-checks';
+import {
+  ORDER_CLASSES,
+  buildBracketLegs,
+  createOrderGroup,
+  type LinkedOrderSpec,
+  type OrderClass,
+} from '@/lib/paper-trading/order-groups';
+
+interface OrderTerms {
+  limitPrice: number | null;
+  stopPrice: number | null;
+  trailAmount: number | null;
+  trailPercent: number | null;
+}
+
+// Validate the price fields each order type needs
+function parseOrderTerms(
+  orderType: string,
+  raw: { limitPrice?: any; stopPrice?: any; trailAmount?: any; trailPercent?: any },
+  prefix: string = ''
+): { terms: OrderTerms } | { error: string; code: string } {
+  const parse = (value: any) => (value !== undefined && value !== null && value !== '' ? parseFloat(value) : null);
+  const limitPrice = parse(raw.limitPrice);
+  const stopPrice = parse(raw.stopPrice);
+  const trailAmount = parse(raw.trailAmount);
+  const trailPercent = parse(raw.trailPercent);
+  const label = prefix ? `${prefix} ` : '';
+  const codePrefix = prefix ? `${prefix.toUpperCase()}_` : '';
+
+  if (orderType === 'limit' || orderType === 'stop_limit') {
+    if (limitPrice === null) {
+      return { error: `${label}limitPrice is required for ${orderType} orders`, code: `MISSING_${codePrefix}LIMIT_PRICE` };
+    }
+    if (isNaN(limitPrice) || limitPrice <= 0) {
+      return { error: `${label}limitPrice must be a positive number`, code: `INVALID_${codePrefix}LIMIT_PRICE` };
+    }
+  }
+
+  if (orderType === 'stop' || orderType === 'stop_limit') {
+    if (stopPrice === null) {
+      return { error: `${label}stopPrice is required for ${orderType} orders`, code: `MISSING_${codePrefix}STOP_PRICE` };
+    }
+    if (isNaN(stopPrice) || stopPrice <= 0) {
+      return { error: `${label}stopPrice must be a positive number`, code: `INVALID_${codePrefix}STOP_PRICE` };
+    }
+  }
+
+  if (orderType === 'trailing_stop') {
+    if ((trailAmount === null) === (trailPercent === null)) {
+      return { error: `${label}trailing stops require exactly one of trailAmount or trailPercent`, code: `INVALID_${codePrefix}TRAIL` };
+    }
+    if (trailAmount !== null && (isNaN(trailAmount) || trailAmount <= 0)) {
+      return { error: `${label}trailAmount must be a positive number`, code: `INVALID_${codePrefix}TRAIL_AMOUNT` };
+    }
+    if (trailPercent !== null && (isNaN(trailPercent) || trailPercent <= 0 || trailPercent >= 100)) {
+      return { error: `${label}trailPercent must be between 0 and 100`, code: `INVALID_${codePrefix}TRAIL_PERCENT` };
+    }
+  }
+
+  return {
+    terms: {
+      limitPrice: orderType === 'limit' || orderType === 'stop_limit' ? limitPrice : null,
+      stopPrice: orderType === 'stop' || orderType === 'stop_limit' ? stopPrice : null,
+      trailAmount: orderType === 'trailing_stop' ? trailAmount : null,
+      trailPercent: orderType === 'trailing_stop' ? trailPercent : null,
+    },
+  };
+}
+
+// Validate a linked order leg (OCO partner or OTO child)
+function parseLinkedOrder(
+  raw: any,
+  defaults: { side: string; quantity: number }
+): { spec: LinkedOrderSpec } | { error: string; code: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: "Linked order details are required", code: "MISSING_LINKED_ORDER" };
+  }
+
+  const side = raw.side ?? defaults.side;
+  const orderType = raw.orderType;
+  const quantity = raw.quantity !== undefined ? parseInt(raw.quantity) : defaults.quantity;
+
+  if (!['buy', 'sell'].includes(side)) {
+    return { error: "Linked order side must be 'buy' or 'sell'", code: "INVALID_LINKED_SIDE" };
+  }
+  if (!ORDER_TYPES.includes(orderType)) {
+    return { error: `Linked order orderType must be one of: ${ORDER_TYPES.join(', ')}`, code: "INVALID_LINKED_ORDER_TYPE" };
+  }
+  if (isNaN(quantity) || quantity <= 0) {
+    return { error: "Linked order quantity must be a positive integer", code: "INVALID_LINKED_QUANTITY" };
+  }
+
+  const parsed = parseOrderTerms(orderType, raw, 'linked');
+  if ('error' in parsed) {
+    return parsed;
+  }
+
+  return { spec: { side, orderType, quantity, ...parsed.terms } };
+}
+
+// Create the order (and its linked orders) and run it against the quote
+async function placeOrder(
+  tx: DbExecutor,
+  orderValues: NewPaperOrder,
+  orderClass: OrderClass,
+  linkedSpecs: LinkedOrderSpec[],
+  market: { symbol: string; quote: MarketQuote; fillModel: FillModelConfig; timeInForce: string }
+): Promise<OrderResponse> {
+  // Create pending order, plus its linked orders for grouped classes
+  const { primary: pendingOrder, linked: linkedOrders } =
+    await createOrderGroup(orderValues, orderClass, linkedSpecs, tx);
+
+  // For an OCO pair either leg may be marketable on arrival
+  const candidates = orderClass === 'oco' ? [pendingOrder, ...linkedOrders] : [pendingOrder];
+
+  let result: MatchResult | null = null;
+  for (const candidate of candidates) {
+    result = await processOrder(candidate, market.symbol, market.quote, market.fillModel, tx);
+    if (result) break;
+  }
+
+  if (!result) {
+    // Price conditions not met yet: the order rests until the matcher fills it.
+    // Re-read it so trailing stops report the stop price set on arrival.
+    const restingOrder = await tx.select()
+      .from(paperOrders)
+      .where(eq(paperOrders.id, pendingOrder.id))
+      .limit(1);
+
+    return {
+      status: 202,
+      body: {
+        message: "Order accepted and resting until its price condition is met",
+        order: restingOrder[0],
+        linkedOrders,
+      },
+    };
+  }
+
+  if (result.status === 'rejected') {
+    return {
+      status: 400,
+      body: {
+        error: result.error,
+        code: result.code,
+        ...(result.details && { margin: result.details }),
+      },
+    };
+  }
+
+  if (result.status === 'canceled') {
+    return {
+      status: 400,
+      body: {
+        error: market.timeInForce === 'fok'
+          ? "Fill-or-kill order could not be filled in full and was canceled"
+          : "Immediate-or-cancel order could not be filled and was canceled",
+        code: result.code,
+      },
+    };
+  }
+
+  return {
+    status: 201,
+    body: {
+      message: result.status === 'filled'
+        ? "Order executed successfully"
+        : "Order partially filled",
+      ...result.fill,
+      linkedOrders,
+    },
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,18 +205,29 @@ export async function POST(request: NextRequest) {
     const { 
       paperAccountId, 
       assetId, 
+      optionSymbol,
       orderType, 
       side, 
       quantity, 
       marketPrice,
       limitPrice,
-      stopPrice 
+      stopPrice,
+      trailAmount,
+      trailPercent,
+      timeInForce = 'day',
+      availableQuantity,
+      orderClass = 'simple',
+      takeProfit,
+      stopLoss,
+      ocoOrder,
+      triggeredOrder,
+      lotIds,
     } = body;
 
     // Validate required fields
-    if (!paperAccountId || !assetId || !orderType || !side || !quantity || !marketPrice) {
+    if (!paperAccountId || (!assetId && !optionSymbol) || !orderType || !side || !quantity || !marketPrice) {
       return NextResponse.json({ 
-        error: "Missing required fields: paperAccountId, assetId, orderType, side, quantity, marketPrice",
+        error: "Missing required fields: paperAccountId, assetId or optionSymbol, orderType, side, quantity, marketPrice",
         code: "MISSING_REQUIRED_FIELDS" 
       }, { status: 400 });
     }
@@ -38,16 +245,31 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    if (isNaN(astId) || astId <= 0) {
+    const parsedKey = readIdempotencyKey(request.headers.get(IDEMPOTENCY_KEY_HEADER), body.idempotencyKey);
+    if ('error' in parsedKey) {
+      return NextResponse.json(parsedKey, { status: 400 });
+    }
+    const idempotencyKey = parsedKey.key;
+
+    if (assetId && (isNaN(astId) || astId <= 0)) {
       return NextResponse.json({ 
         error: "assetId must be a valid positive integer",
         code: "INVALID_ASSET_ID" 
       }, { status: 400 });
     }
 
-    if (!['market', 'limit', 'stop'].includes(orderType)) {
+    // Option orders may name the contract by OCC symbol instead of asset
+    const requestedContract = optionSymbol ? parseOccSymbol(String(optionSymbol)) : null;
+    if (optionSymbol && !requestedContract) {
       return NextResponse.json({ 
-        error: "orderType must be 'market', 'limit', or 'stop'",
+        error: "optionSymbol must be an OCC option symbol, e.g. AAPL250117C00150000",
+        code: "INVALID_OPTION_SYMBOL" 
+      }, { status: 400 });
+    }
+
+    if (!ORDER_TYPES.includes(orderType)) {
+      return NextResponse.json({ 
+        error: `orderType must be one of: ${ORDER_TYPES.join(', ')}`,
         code: "INVALID_ORDER_TYPE" 
       }, { status: 400 });
     }
@@ -73,36 +295,98 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (!TIME_IN_FORCE.includes(timeInForce)) {
+      return NextResponse.json({ 
+        error: `timeInForce must be one of: ${TIME_IN_FORCE.join(', ')}`,
+        code: "INVALID_TIME_IN_FORCE" 
+      }, { status: 400 });
+    }
+
+    const available = availableQuantity !== undefined && availableQuantity !== null
+      ? parseInt(availableQuantity)
+      : undefined;
+
+    if (available !== undefined && (isNaN(available) || available < 0)) {
+      return NextResponse.json({ 
+        error: "availableQuantity must be a non-negative integer",
+        code: "INVALID_AVAILABLE_QUANTITY" 
+      }, { status: 400 });
+    }
+
     // Validate conditional required fields
-    if (orderType === 'limit') {
-      if (!limitPrice) {
+    const parsedTerms = parseOrderTerms(orderType, { limitPrice, stopPrice, trailAmount, trailPercent });
+    if ('error' in parsedTerms) {
+      return NextResponse.json(parsedTerms, { status: 400 });
+    }
+    const terms = parsedTerms.terms;
+
+    // Validate order class and its linked orders
+    if (!ORDER_CLASSES.includes(orderClass)) {
+      return NextResponse.json({ 
+        error: `orderClass must be one of: ${ORDER_CLASSES.join(', ')}`,
+        code: "INVALID_ORDER_CLASS" 
+      }, { status: 400 });
+    }
+
+    // Linked orders keep working across the session, so groups are day or GTC only
+    if (orderClass !== 'simple' && timeInForce !== 'day' && timeInForce !== 'gtc') {
+      return NextResponse.json({ 
+        error: "Bracket, OCO and OTO orders require a timeInForce of 'day' or 'gtc'",
+        code: "INVALID_TIME_IN_FORCE_FOR_CLASS" 
+      }, { status: 400 });
+    }
+
+    let linkedSpecs: LinkedOrderSpec[] = [];
+
+    if (orderClass === 'bracket') {
+      const takeProfitPrice = parseFloat(takeProfit);
+      const stopLossPrice = parseFloat(stopLoss);
+
+      if (isNaN(takeProfitPrice) || takeProfitPrice <= 0 || isNaN(stopLossPrice) || stopLossPrice <= 0) {
         return NextResponse.json({ 
-          error: "limitPrice is required for limit orders",
-          code: "MISSING_LIMIT_PRICE" 
+          error: "Bracket orders require positive takeProfit and stopLoss prices",
+          code: "INVALID_BRACKET_PRICES" 
         }, { status: 400 });
       }
-      const lmtPrice = parseFloat(limitPrice);
-      if (isNaN(lmtPrice) || lmtPrice <= 0) {
+
+      // The exits must sit on the correct sides of each other
+      const pricesOrdered = side === 'buy'
+        ? takeProfitPrice > stopLossPrice
+        : takeProfitPrice < stopLossPrice;
+
+      if (!pricesOrdered) {
         return NextResponse.json({ 
-          error: "limitPrice must be a positive number",
-          code: "INVALID_LIMIT_PRICE" 
+          error: side === 'buy'
+            ? "takeProfit must be above stopLoss for a buy bracket"
+            : "takeProfit must be below stopLoss for a sell bracket",
+          code: "INVALID_BRACKET_PRICES" 
         }, { status: 400 });
       }
-    }
 
-    if (orderType === 'stop') {
-      if (!stopPrice) {
-        return NextResponse.json({ 
-          error: "stopPrice is required for stop orders",
-          code: "MISSING_STOP_PRICE" 
-        }, { status: 400 });
+      linkedSpecs = buildBracketLegs({ side, quantity: qty }, takeProfitPrice, stopLossPrice);
+    } else if (orderClass === 'oco' || orderClass === 'oto') {
+      const parsed = parseLinkedOrder(
+        orderClass === 'oco' ? ocoOrder : triggeredOrder,
+        { side, quantity: qty }
+      );
+
+      if ('error' in parsed) {
+        return NextResponse.json(parsed, { status: 400 });
       }
-      const stpPrice = parseFloat(stopPrice);
-      if (isNaN(stpPrice) || stpPrice <= 0) {
-        return NextResponse.json({ 
-          error: "stopPrice must be a positive number",
-          code: "INVALID_STOP_PRICE" 
-        }, { status: 400 });
+
+      linkedSpecs = [parsed.spec];
+    }
+
+    // A retry gets the first response back before the checks that depend on
+    // state the first attempt changed: lots it relieved, quotes and volume
+    const requestHash = hashRequest(body);
+    if (idempotencyKey) {
+      const stored = await findStoredResponse(db, accountId, idempotencyKey, requestHash);
+      if (stored) {
+        return NextResponse.json(stored.body, {
+          status: stored.status,
+          headers: { 'Idempotent-Replayed': 'true' },
+        });
       }
     }
 
@@ -127,10 +411,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if asset exists
-    const asset = await db.select()
-      .from(assets)
-      .where(eq(assets.id, astId))
-      .limit(1);
+    const asset = requestedContract
+      ? [await resolveContractAsset(requestedContract)]
+      : await db.select()
+          .from(assets)
+          .where(eq(assets.id, astId))
+          .limit(1);
 
     if (asset.length === 0) {
       return NextResponse.json({ 
@@ -139,267 +425,97 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
-    const currentTimestamp = new Date().toISOString();
-
-    // Create pending order
-    const pendingOrder = await db.insert(paperOrders)
-      .values({
+    // Specific-lot identification: the named lots are relieved first
+    if (lotIds !== undefined) {
+      const lotError = await validateLotSelection(lotIds, {
+        userId: account[0].userId,
         paperAccountId: accountId,
-        assetId: astId,
-        orderType,
+        runNumber: account[0].runNumber,
+        assetId: asset[0].id,
         side,
-        quantity: qty,
-        limitPrice: limitPrice ? parseFloat(limitPrice) : null,
-        stopPrice: stopPrice ? parseFloat(stopPrice) : null,
-        status: 'pending',
-        filledQuantity: 0,
-        createdAt: currentTimestamp,
-        updatedAt: currentTimestamp,
-      })
-      .returning();
-
-    const orderId = pendingOrder[0].id;
-
-    // Calculate fill price based on order type and slippage
-    let fillPrice: number;
-    let shouldFill = true;
-    let rejectReason = '';
-
-    if (orderType === 'market') {
-      // Market orders: Apply 0.1% slippage
-      const slippageRate = 0.001;
-      fillPrice = side === 'buy' 
-        ? mktPrice * (1 + slippageRate)
-        : mktPrice * (1 - slippageRate);
-    } else if (orderType === 'limit') {
-      const lmtPrice = parseFloat(limitPrice!);
-      // Limit orders: Check if price condition is met
-      if (side === 'buy' && mktPrice <= lmtPrice) {
-        fillPrice = lmtPrice;
-      } else if (side === 'sell' && mktPrice >= lmtPrice) {
-        fillPrice = lmtPrice;
-      } else {
-        shouldFill = false;
-        rejectReason = 'Limit price condition not met';
-      }
-    } else { // stop order
-      const stpPrice = parseFloat(stopPrice!);
-      // Stop orders: Check if trigger condition is met
-      if (side === 'buy' && mktPrice >= stpPrice) {
-        // Trigger and fill with 0.15% slippage
-        fillPrice = mktPrice * 1.0015;
-      } else if (side === 'sell' && mktPrice <= stpPrice) {
-        // Trigger and fill with 0.15% slippage
-        fillPrice = mktPrice * 0.9985;
-      } else {
-        shouldFill = false;
-        rejectReason = 'Stop price not triggered';
-      }
-    }
-
-    if (!shouldFill) {
-      // Update order status to rejected
-      await db.update(paperOrders)
-        .set({
-          status: 'rejected',
-          updatedAt: currentTimestamp,
-        })
-        .where(eq(paperOrders.id, orderId));
-
-      const code = orderType === 'limit' ? 'LIMIT_NOT_MET' : 'STOP_NOT_TRIGGERED';
-      return NextResponse.json({ 
-        error: rejectReason,
-        code 
-      }, { status: 400 });
-    }
-
-    let totalCost: number;
-    let newCashBalance: number;
-    let positionResult: any = null;
-    const slippageAmount = Math.abs(fillPrice! - mktPrice);
-
-    if (side === 'buy') {
-      // BUY order execution
-      totalCost = fillPrice! * qty;
-
-      // Check if sufficient funds
-      if (account[0].cashBalance < totalCost) {
-        // Update order status to rejected
-        await db.update(paperOrders)
-          .set({
-            status: 'rejected',
-            updatedAt: currentTimestamp,
-          })
-          .where(eq(paperOrders.id, orderId));
+      });
 
+      if (lotError) {
         return NextResponse.json({ 
-          error: "Insufficient funds for this order",
-          code: "INSUFFICIENT_FUNDS" 
+          error: lotError,
+          code: "INVALID_LOT_IDS" 
         }, { status: 400 });
       }
+    }
 
-      // Deduct from cash balance
-      newCashBalance = account[0].cashBalance - totalCost;
-
-      // Update or create position
-      const existingPosition = await db.select()
-        .from(paperPositions)
-        .where(and(
-          eq(paperPositions.paperAccountId, accountId),
-          eq(paperPositions.assetId, astId)
-        ))
-        .limit(1);
-
-      if (existingPosition.length > 0) {
-        // Update existing position with weighted average cost
-        const pos = existingPosition[0];
-        const totalQuantity = pos.quantity + qty;
-        const totalValue = (pos.averageCost * pos.quantity) + (fillPrice! * qty);
-        const newAverageCost = totalValue / totalQuantity;
-
-        const updatedPosition = await db.update(paperPositions)
-          .set({
-            quantity: totalQuantity,
-            averageCost: newAverageCost,
-            currentPrice: mktPrice,
-            unrealizedPnl: (mktPrice - newAverageCost) * totalQuantity,
-            lastUpdated: currentTimestamp,
-          })
-          .where(eq(paperPositions.id, pos.id))
-          .returning();
-
-        positionResult = updatedPosition[0];
-      } else {
-        // Create new position
-        const newPosition = await db.insert(paperPositions)
-          .values({
-            paperAccountId: accountId,
-            assetId: astId,
-            quantity: qty,
-            averageCost: fillPrice!,
-            currentPrice: mktPrice,
-            unrealizedPnl: (mktPrice - fillPrice!) * qty,
-            realizedPnl: 0,
-            lastUpdated: currentTimestamp,
-          })
-          .returning();
+    const currentTimestamp = new Date().toISOString();
 
-        positionResult = newPosition[0];
+    const contract = requestedContract ?? parseOccSymbol(asset[0].symbol);
+
+    const orderValues = {
+      paperAccountId: accountId,
+      assetId: asset[0].id,
+      ...contractFields(contract),
+      orderType,
+      side,
+      quantity: qty,
+      ...terms,
+      timeInForce,
+      expiresAt: computeOrderExpiry(timeInForce as TimeInForce, new Date(currentTimestamp)),
+      status: 'pending',
+      filledQuantity: 0,
+      lotIds: lotIds !== undefined ? JSON.stringify(lotIds) : null,
+      createdAt: currentTimestamp,
+      updatedAt: currentTimestamp,
+    };
+
+    // Price the order against the submitted market price
+    const quote = await withOptionQuote({
+      symbol: asset[0].symbol,
+      price: mktPrice,
+      availableQuantity: available,
+      timestamp: currentTimestamp,
+    });
+    const fillModel = loadFillModel(account[0].fillModel);
+
+    // Creating the order and filling it happen in one transaction, together
+    // with the stored response for an idempotency key
+    const response = await runAtomically(async (tx): Promise<OrderResponse & { replayed?: boolean }> => {
+      if (idempotencyKey) {
+        const stored = await findStoredResponse(tx, accountId, idempotencyKey, requestHash);
+        if (stored) return { ...stored, replayed: true };
       }
 
-    } else {
-      // SELL order execution
-      // Check if position exists with sufficient quantity
-      const existingPosition = await db.select()
-        .from(paperPositions)
-        .where(and(
-          eq(paperPositions.paperAccountId, accountId),
-          eq(paperPositions.assetId, astId)
-        ))
-        .limit(1);
-
-      if (existingPosition.length === 0 || existingPosition[0].quantity < qty) {
-        // Update order status to rejected
-        await db.update(paperOrders)
-          .set({
-            status: 'rejected',
-            updatedAt: currentTimestamp,
+      // Pre-trade risk checks price the order at its limit, else the market
+      const risk = await checkPaperOrderRisk(account[0], [{
+        order: orderValues,
+        quantity: qty,
+        fillPrice: terms.limitPrice ?? mktPrice,
+      }], new Date(currentTimestamp), tx);
+
+      const result: OrderResponse = risk.approved
+        ? await placeOrder(tx, orderValues, orderClass as OrderClass, linkedSpecs, {
+            symbol: asset[0].symbol,
+            quote,
+            fillModel,
+            timeInForce,
           })
-          .where(eq(paperOrders.id, orderId));
+        : { status: 400, body: riskRejection(risk) };
 
-        return NextResponse.json({ 
-          error: "Insufficient position quantity for this sell order",
-          code: "INSUFFICIENT_POSITION" 
-        }, { status: 400 });
+      if (idempotencyKey) {
+        await storeResponse(tx, accountId, idempotencyKey, 'execute', requestHash, result);
       }
+      return result;
+    });
 
-      const pos = existingPosition[0];
-      totalCost = fillPrice! * qty;
-
-      // Calculate realized PnL
-      const realizedPnl = (fillPrice! - pos.averageCost) * qty;
-
-      // Add proceeds to cash balance
-      newCashBalance = account[0].cashBalance + totalCost;
-
-      // Update position
-      const newQuantity = pos.quantity - qty;
-
-      if (newQuantity === 0) {
-        // Delete position if quantity becomes 0
-        await db.delete(paperPositions)
-          .where(eq(paperPositions.id, pos.id));
-        positionResult = null;
-      } else {
-        // Update position
-        const updatedPosition = await db.update(paperPositions)
-          .set({
-            quantity: newQuantity,
-            currentPrice: mktPrice,
-            unrealizedPnl: (mktPrice - pos.averageCost) * newQuantity,
-            realizedPnl: (pos.realizedPnl || 0) + realizedPnl,
-            lastUpdated: currentTimestamp,
-          })
-          .where(eq(paperPositions.id, pos.id))
-          .returning();
+    return NextResponse.json(response.body, {
+      status: response.status,
+      headers: response.replayed ? { 'Idempotent-Replayed': 'true' } : undefined,
+    });
 
-        positionResult = updatedPosition[0];
-      }
-    }
-
-    // Update order status to filled
-    const filledOrder = await db.update(paperOrders)
-      .set({
-        status: 'filled',
-        filledQuantity: qty,
-        filledPrice: fillPrice!,
-        filledAt: currentTimestamp,
-        updatedAt: currentTimestamp,
-      })
-      .where(eq(paperOrders.id, orderId))
-      .returning();
-
-    // Calculate total equity and PnL
-    const allPositions = await db.select()
-      .from(paperPositions)
-      .where(eq(paperPositions.paperAccountId, accountId));
-
-    let totalUnrealizedPnl = 0;
-    let totalRealizedPnl = 0;
-    let totalPositionValue = 0;
-
-    for (const pos of allPositions) {
-      totalUnrealizedPnl += pos.unrealizedPnl || 0;
-      totalRealizedPnl += pos.realizedPnl || 0;
-      totalPositionValue += (pos.currentPrice || pos.averageCost) * pos.quantity;
+  } catch (error) {
+    if (error instanceof IdempotencyKeyReusedError) {
+      return NextResponse.json({ 
+        error: error.message,
+        code: "IDEMPOTENCY_KEY_REUSED" 
+      }, { status: 422 });
     }
 
-    const totalEquity = newCashBalance + totalPositionValue;
-    const totalPnl = totalEquity - account[0].initialBalance;
-
-    // Update account
-    await db.update(paperTradingAccounts)
-      .set({
-        cashBalance: newCashBalance,
-        totalEquity,
-        totalPnl,
-        updatedAt: currentTimestamp,
-      })
-      .where(eq(paperTradingAccounts.id, accountId));
-
-    return NextResponse.json({
-      message: "Order executed successfully",
-      order: filledOrder[0],
-      execution: {
-        fillPrice: fillPrice!,
-        totalCost,
-        slippage: slippageAmount,
-        newCashBalance,
-      },
-      position: positionResult,
-    }, { status: 201 });
-
-  } catch (error) {
     console.error('POST error:', error);
     return NextResponse.json({ 
       error: 'Internal server error: ' + error 
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { expireOrders } from '@/lib/paper-trading/order-execution';
+
+/**
+ * POST /api/paper-trading/orders/expire
+ * Expire open paper orders whose time-in-force has run out (end-of-day job)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const asOf = body?.asOf || new Date().toISOString();
+
+    if (isNaN(new Date(asOf).getTime())) {
+      return NextResponse.json({
+        error: "asOf must be a valid ISO timestamp",
+        code: "INVALID_AS_OF"
+      }, { status: 400 });
+    }
+
+    const expired = await expireOrders(new Date(asOf).toISOString());
+
+    return NextResponse.json({
+      message: `Expired ${expired.length} order(s)`,
+      asOf,
+      orders: expired,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
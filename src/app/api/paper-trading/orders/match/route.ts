@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { matchRestingOrders } from '@/lib/paper-trading/order-matcher';
+import { restingOrderQuotes } from '@/lib/paper-trading/quote-feed';
+
+/**
+ * POST /api/paper-trading/orders/match
+ * Scheduled job (the order-matcher cron in render.yaml): run resting paper
+ * orders against server-side quotes for their symbols. Only the job may
+ * call it: requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({
+        error: 'Only the scheduled match job may run the matcher',
+        code: 'UNAUTHORIZED'
+      }, { status: 401 });
+    }
+
+    const quotes = await restingOrderQuotes();
+    const results = await matchRestingOrders(quotes);
+
+    return NextResponse.json({
+      message: `Matched ${results.filter(r => r.status === 'filled' || r.status === 'partially_filled').length} resting order(s)`,
+      quotesProcessed: quotes.length,
+      results,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
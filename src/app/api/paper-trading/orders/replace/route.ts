@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replacePaperOrder, OrderAmendmentError, OrderRiskError, type OrderReplacement } from '@/lib/paper-trading/order-amendments';
+import { riskRejection } from '@/lib/risk-checks';
+
+// Numeric terms a replace may change; null clears a trail field
+const REPLACEABLE_FIELDS = ['quantity', 'limitPrice', 'stopPrice', 'trailAmount', 'trailPercent'] as const;
+
+/**
+ * POST /api/paper-trading/orders/replace
+ * Cancel/replace an open order's price or quantity, keeping its place in
+ * the queue and its fills so far. The amended order must pass the
+ * pre-trade risk checks.
+ * Body: { orderId, quantity?, limitPrice?, stopPrice?, trailAmount?, trailPercent? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const orderId = parseInt(body?.orderId);
+
+    if (isNaN(orderId) || orderId <= 0) {
+      return NextResponse.json({
+        error: 'orderId must be a valid positive integer',
+        code: 'INVALID_ORDER_ID'
+      }, { status: 400 });
+    }
+
+    const changes: OrderReplacement = {};
+    for (const field of REPLACEABLE_FIELDS) {
+      const value = body[field];
+      if (value === undefined) continue;
+
+      const clearable = field === 'trailAmount' || field === 'trailPercent';
+      if (value === null && clearable) {
+        changes[field] = null;
+        continue;
+      }
+
+      if (typeof value !== 'number' || !isFinite(value)) {
+        return NextResponse.json({
+          error: `${field} must be a number`,
+          code: 'INVALID_REPLACEMENT'
+        }, { status: 400 });
+      }
+      changes[field] = value;
+    }
+
+    const { order, linked } = await replacePaperOrder(orderId, changes);
+
+    return NextResponse.json({
+      message: 'Order replaced',
+      order,
+      linkedOrders: linked,
+    }, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof OrderRiskError) {
+      return NextResponse.json(riskRejection(error.result), { status: 400 });
+    }
+
+    if (error instanceof OrderAmendmentError) {
+      return NextResponse.json({
+        error: error.message,
+        code: error.code
+      }, { status: error.code === 'ORDER_NOT_FOUND' ? 404 : 400 });
+    }
+
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { paperOrders, paperTradingAccounts, assets } from '@/db/schema';
+import { paperOrders, paperOrderEvents, paperCashLedger, paperTradingAccounts, assets } from '@/db/schema';
 import { eq, desc, and } from 'drizzle-orm';
+import { ORDER_TYPES } from '@/lib/paper-trading/order-matcher';
+import { TIME_IN_FORCE, computeOrderExpiry } from '@/lib/paper-trading/market-session';
+import { parseOccSymbol, contractFields } from '@/lib/paper-trading/option-contracts';
+import { canTransition, recordOrderEvent } from '@/lib/paper-trading/order-history';
 
-const VALID_ORDER_TYPES = ['market', 'limit', 'stop'] as const;
+const VALID_ORDER_TYPES = ORDER_TYPES;
 const VALID_SIDES = ['buy', 'sell'] as const;
-const VALID_STATUSES = ['pending', 'filled', 'partial', 'canceled', 'rejected'] as const;
+const VALID_STATUSES = ['pending', 'held', 'partially_filled', 'filled', 'canceled', 'rejected', 'expired'] as const;
 
 export async function GET(request: NextRequest) {
   try {
@@ -90,7 +94,18 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { paperAccountId, assetId, orderType, side, quantity, limitPrice, stopPrice } = body;
+    const {
+      paperAccountId,
+      assetId,
+      orderType,
+      side,
+      quantity,
+      limitPrice,
+      stopPrice,
+      trailAmount,
+      trailPercent,
+      timeInForce = 'day'
+    } = body;
 
     // Validate required fields
     if (!paperAccountId) {
@@ -168,8 +183,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Validate time in force
+    if (!TIME_IN_FORCE.includes(timeInForce)) {
+      return NextResponse.json({
+        error: `timeInForce must be one of: ${TIME_IN_FORCE.join(', ')}`,
+        code: 'INVALID_TIME_IN_FORCE'
+      }, { status: 400 });
+    }
+
     // Validate limit price for limit orders
-    if (orderType === 'limit' && !limitPrice) {
+    if ((orderType === 'limit' || orderType === 'stop_limit') && !limitPrice) {
       return NextResponse.json({
         error: 'limitPrice is required for limit orders',
         code: 'MISSING_LIMIT_PRICE'
@@ -177,13 +200,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate stop price for stop orders
-    if (orderType === 'stop' && !stopPrice) {
+    if ((orderType === 'stop' || orderType === 'stop_limit') && !stopPrice) {
       return NextResponse.json({
         error: 'stopPrice is required for stop orders',
         code: 'MISSING_STOP_PRICE'
       }, { status: 400 });
     }
 
+    // Validate trail for trailing stop orders
+    if (orderType === 'trailing_stop' && !trailAmount === !trailPercent) {
+      return NextResponse.json({
+        error: 'Exactly one of trailAmount or trailPercent is required for trailing stop orders',
+        code: 'INVALID_TRAIL'
+      }, { status: 400 });
+    }
+
     // Verify paper trading account exists
     const account = await db.select()
       .from(paperTradingAccounts)
@@ -212,23 +243,33 @@ export async function POST(request: NextRequest) {
 
     // Create the order
     const now = new Date().toISOString();
-    const newOrder = await db.insert(paperOrders)
-      .values({
-        paperAccountId: parseInt(paperAccountId),
-        assetId: parseInt(assetId),
-        orderType,
-        side,
-        quantity: parseInt(quantity),
-        limitPrice: limitPrice ? parseFloat(limitPrice) : null,
-        stopPrice: stopPrice ? parseFloat(stopPrice) : null,
-        status: 'pending',
-        filledQuantity: 0,
-        filledPrice: null,
-        filledAt: null,
-        createdAt: now,
-        updatedAt: now
-      })
-      .returning();
+    const newOrder = await db.transaction(async (tx) => {
+      const inserted = await tx.insert(paperOrders)
+        .values({
+          paperAccountId: parseInt(paperAccountId),
+          assetId: parseInt(assetId),
+          ...contractFields(parseOccSymbol(asset[0].symbol)),
+          orderType,
+          side,
+          quantity: parseInt(quantity),
+          limitPrice: limitPrice ? parseFloat(limitPrice) : null,
+          stopPrice: stopPrice ? parseFloat(stopPrice) : null,
+          trailAmount: trailAmount ? parseFloat(trailAmount) : null,
+          trailPercent: trailPercent ? parseFloat(trailPercent) : null,
+          timeInForce,
+          expiresAt: computeOrderExpiry(timeInForce, new Date(now)),
+          status: 'pending',
+          filledQuantity: 0,
+          filledPrice: null,
+          filledAt: null,
+          createdAt: now,
+          updatedAt: now
+        })
+        .returning();
+
+      await recordOrderEvent({ order: inserted[0], eventType: 'created', fromStatus: null, timestamp: now }, tx);
+      return inserted;
+    });
 
     return NextResponse.json(newOrder[0], { status: 201 });
 
@@ -277,6 +318,14 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Filled, canceled, rejected and expired orders are final
+    if (status && status !== existingOrder[0].status && !canTransition(existingOrder[0].status, status)) {
+      return NextResponse.json({
+        error: `Order cannot move from '${existingOrder[0].status}' to '${status}'`,
+        code: 'INVALID_STATUS_TRANSITION'
+      }, { status: 400 });
+    }
+
     // Validate filledQuantity does not exceed quantity
     if (filledQuantity !== undefined) {
       if (isNaN(parseInt(filledQuantity)) || parseInt(filledQuantity) < 0) {
@@ -306,10 +355,22 @@ export async function PUT(request: NextRequest) {
     if (limitPrice !== undefined) updates.limitPrice = limitPrice ? parseFloat(limitPrice) : null;
     if (stopPrice !== undefined) updates.stopPrice = stopPrice ? parseFloat(stopPrice) : null;
 
-    const updatedOrder = await db.update(paperOrders)
-      .set(updates)
-      .where(eq(paperOrders.id, parseInt(id)))
-      .returning();
+    const updatedOrder = await db.transaction(async (tx) => {
+      const updated = await tx.update(paperOrders)
+        .set(updates)
+        .where(eq(paperOrders.id, parseInt(id)))
+        .returning();
+
+      const { updatedAt: _updatedAt, ...changes } = updates;
+      await recordOrderEvent({
+        order: updated[0],
+        eventType: 'updated',
+        fromStatus: existingOrder[0].status,
+        timestamp: updates.updatedAt,
+        details: changes,
+      }, tx);
+      return updated;
+    });
 
     return NextResponse.json(updatedOrder[0]);
 
@@ -347,9 +408,20 @@ export async function DELETE(request: NextRequest) {
       }, { status: 404 });
     }
 
-    const deleted = await db.delete(paperOrders)
-      .where(eq(paperOrders.id, parseInt(id)))
-      .returning();
+    // The order's history goes with it
+    const deleted = await db.transaction(async (tx) => {
+      await tx.delete(paperOrderEvents)
+        .where(eq(paperOrderEvents.paperOrderId, parseInt(id)));
+
+      // Cash entries are append-only; they outlive the order they came from
+      await tx.update(paperCashLedger)
+        .set({ paperOrderId: null })
+        .where(eq(paperCashLedger.paperOrderId, parseInt(id)));
+
+      return tx.delete(paperOrders)
+        .where(eq(paperOrders.id, parseInt(id)))
+        .returning();
+    });
 
     return NextResponse.json({
       message: 'Paper order deleted successfully',
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SPREAD_TYPES } from '@/lib/paper-trading/complex-orders';
+import { loadOptionsChain, parseStrategyParams, buildStrategy } from '@/lib/paper-trading/strategy-builder';
+
+/**
+ * POST /api/paper-trading/strategy-builder
+ * Pick contracts for a spread template from the stored options chain
+ * Body: { underlyingSymbol, template, quantity?, side?, optionType?, direction?,
+ *         expiration?, dte?, farDte?, strike?, delta?, width?, ratio? }
+ * Returns the legs with their quotes and an `order` ready for orders/complex
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { underlyingSymbol, template } = body;
+
+    if (!underlyingSymbol || !template) {
+      return NextResponse.json({
+        error: 'Missing required fields: underlyingSymbol, template',
+        code: 'MISSING_REQUIRED_FIELDS'
+      }, { status: 400 });
+    }
+
+    if (!SPREAD_TYPES.includes(template)) {
+      return NextResponse.json({
+        error: `template must be one of: ${SPREAD_TYPES.join(', ')}`,
+        code: 'INVALID_TEMPLATE'
+      }, { status: 400 });
+    }
+
+    const parsed = parseStrategyParams(body);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        error: parsed.error,
+        code: 'INVALID_STRATEGY_PARAMS'
+      }, { status: 400 });
+    }
+
+    const chain = await loadOptionsChain(underlyingSymbol);
+    if (!chain) {
+      return NextResponse.json({
+        error: `No options chain is stored for ${String(underlyingSymbol).toUpperCase()}`,
+        code: 'OPTIONS_CHAIN_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const built = buildStrategy(chain, template, parsed.params);
+    if ('error' in built) {
+      return NextResponse.json({
+        error: built.error,
+        code: 'NO_MATCHING_CONTRACTS'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(built.strategy, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processPositionExpirations, parseExpirationOptions } from '@/lib/option-expiration';
+
+/**
+ * POST /api/positions/expirations
+ * End-of-day job: exercise, assign or expire tracked option positions and
+ * record the resulting trades
+ * Body (all optional): { asOf, exerciseThreshold, settlementPrices: { AAPL: 190.5 }, exDividends: [{ symbol, exDate, amount }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseExpirationOptions(await request.json().catch(() => ({})));
+    if ('error' in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
+    }
+
+    const summary = await processPositionExpirations(parsed.options);
+
+    return NextResponse.json({
+      message: `Processed ${summary.events.length} expiring option position(s)`,
+      ...summary,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('POST error:', error);
+    return NextResponse.json({
+      error: 'Internal server error: ' + error
+    }, { status: 500 });
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { positions } from '@/db/schema';
+import { positions, assets, user as users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { getCurrentUser } from '@/lib/auth';
+import { checkPreTradeRisk, loadUserRiskPositions, riskRejection } from '@/lib/risk-checks';
+import { formatOccSymbol } from '@/lib/paper-trading/option-contracts';
 
 export async function POST(request: NextRequest) {
   try {
@@ -69,6 +71,60 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const asset = await db.select()
+      .from(assets)
+      .where(eq(assets.id, parseInt(assetId)))
+      .limit(1);
+
+    if (asset.length === 0) {
+      return NextResponse.json({ 
+        error: "Asset not found",
+        code: "ASSET_NOT_FOUND" 
+      }, { status: 404 });
+    }
+
+    // Pre-trade risk checks against the user's open positions; single
+    // calls and puts are checked as the contract they name
+    const isOption = (positionType === 'call' || positionType === 'put') && strikePrice && expirationDate;
+    const contract = isOption
+      ? {
+          optionSymbol: formatOccSymbol({
+            underlyingSymbol: asset[0].symbol,
+            optionType: positionType,
+            strikePrice: parseFloat(strikePrice),
+            expirationDate,
+          }),
+          underlyingSymbol: asset[0].symbol,
+          optionType: positionType,
+        }
+      : { optionSymbol: null, underlyingSymbol: null, optionType: null };
+    const account = await db.select({ portfolioBalance: users.portfolioBalance })
+      .from(users)
+      .where(eq(users.id, user.id))
+      .limit(1);
+
+    const risk = await checkPreTradeRisk({
+      userId: user.id,
+      equity: account[0]?.portfolioBalance ?? 0,
+      positions: await loadUserRiskPositions(user.id),
+      fills: [{
+        order: {
+          assetId: asset[0].id,
+          side: 'buy',
+          ...contract,
+          strikePrice: strikePrice !== undefined && strikePrice !== null ? parseFloat(strikePrice) : null,
+          expirationDate: expirationDate || null,
+          multiplier: strikePrice !== undefined && strikePrice !== null ? 100 : 1,
+        },
+        quantity,
+        fillPrice: entryPrice,
+      }],
+    });
+
+    if (!risk.approved) {
+      return NextResponse.json(riskRejection(risk), { status: 400 });
+    }
+
     const timestamp = new Date().toISOString();
 
     const newPosition = await db.insert(positions)
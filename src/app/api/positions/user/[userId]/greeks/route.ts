@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { positions, assets } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { calculatePortfolioGreeks, underlyingGreeks, type PortfolioGreeksPosition } from "@/lib/greeks-calculator";
+import { contractGreeks } from "@/lib/paper-trading/option-contracts";
+import { DEFAULT_BENCHMARK } from "@/lib/paper-trading/equity-snapshots";
+
+// Implied volatility assumed when the position has none recorded
+const DEFAULT_VOLATILITY = 0.3;
+
+/**
+ * GET /api/positions/user/[userId]/greeks?benchmark=
+ * Greeks of the user's open positions, grouped by underlying and
+ * beta-weighted to the benchmark (default SPY)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  try {
+    // Authenticate user
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Validate that authenticated user can only access their own data
+    if (user.id !== userId) {
+      return NextResponse.json(
+        { error: 'Access denied', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const benchmarkSymbol = (request.nextUrl.searchParams.get('benchmark') || DEFAULT_BENCHMARK).toUpperCase();
+
+    const rows = await db
+      .select({ position: positions, asset: assets })
+      .from(positions)
+      .leftJoin(assets, eq(positions.assetId, assets.id))
+      .where(
+        and(
+          eq(positions.userId, userId),
+          eq(positions.status, "open")
+        )
+      );
+
+    const greeksByPosition: PortfolioGreeksPosition[] = [];
+    for (const { position, asset } of rows) {
+      if (position.quantity === 0) continue;
+
+      const underlyingSymbol = asset?.symbol ?? String(position.assetId);
+      const spotPrice = asset?.currentPrice ?? position.currentPrice ?? position.entryPrice;
+      const isOption = (position.positionType === 'call' || position.positionType === 'put') &&
+        position.strikePrice !== null && position.expirationDate !== null;
+
+      greeksByPosition.push({
+        underlyingSymbol,
+        quantity: position.quantity,
+        multiplier: isOption ? 100 : 1,
+        spotPrice,
+        beta: asset?.beta,
+        greeks: isOption
+          ? contractGreeks(
+              {
+                optionType: position.positionType as 'call' | 'put',
+                strikePrice: position.strikePrice!,
+                expirationDate: position.expirationDate!,
+              },
+              spotPrice,
+              position.iv || DEFAULT_VOLATILITY
+            )
+          : underlyingGreeks(spotPrice),
+      });
+    }
+
+    const benchmark = await db
+      .select({ currentPrice: assets.currentPrice })
+      .from(assets)
+      .where(eq(assets.symbol, benchmarkSymbol))
+      .limit(1);
+    const benchmarkPrice = benchmark[0]?.currentPrice ?? null;
+
+    return NextResponse.json(
+      calculatePortfolioGreeks(
+        greeksByPosition,
+        benchmarkPrice !== null ? { symbol: benchmarkSymbol, price: benchmarkPrice } : null
+      ),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error calculating position Greeks:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate position Greeks" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { positions } from "@/db/schema";
+import { positions, assets } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { getCurrentUser } from "@/lib/auth";
 
@@ -28,9 +28,10 @@ export async function GET(
       );
     }
 
-    const openPositions = await db
-      .select()
+    const rows = await db
+      .select({ position: positions, asset: assets })
       .from(positions)
+      .leftJoin(assets, eq(positions.assetId, assets.id))
       .where(
         and(
           eq(positions.userId, userId),
@@ -38,6 +39,14 @@ export async function GET(
         )
       );
 
+    // The underlying's price and beta, so options can be valued and hedged against it
+    const openPositions = rows.map(({ position, asset }) => ({
+      ...position,
+      symbol: asset?.symbol ?? null,
+      underlyingPrice: asset?.currentPrice ?? null,
+      beta: asset?.beta ?? null,
+    }));
+
     return NextResponse.json(openPositions, { status: 200 });
   } catch (error) {
     console.error("Error fetching open positions:", error);
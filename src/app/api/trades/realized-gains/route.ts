@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { parseReportRange, realizedGainsReport } from '@/lib/tax-lots';
+
+/**
+ * GET /api/trades/realized-gains?year= (or ?from=&to=)
+ * Realized gains by tax lot from the current user's recorded trades, with
+ * short- and long-term totals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const range = parseReportRange(searchParams.get('year'), searchParams.get('from'), searchParams.get('to'));
+    if ('error' in range) {
+      return NextResponse.json(range, { status: 400 });
+    }
+
+    const report = await realizedGainsReport(user.id, null, range.from, range.to);
+
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,9 @@ import { db } from '@/db';
 import { trades } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { getCurrentUser } from '@/lib/auth';
+import { applyTradeLots, tradeHasLots, tradeInstrument, validateLotSelection } from '@/lib/tax-lots';
+import { washSaleFlags } from '@/lib/wash-sales';
+import { executionFees, parseCommissionSchedule } from '@/lib/commission-schedule';
 
 export async function GET(request: NextRequest) {
   try {
@@ -38,7 +41,8 @@ export async function GET(request: NextRequest) {
         }, { status: 404 });
       }
 
-      return NextResponse.json(trade[0], { status: 200 });
+      const flags = await washSaleFlags([trade[0].id]);
+      return NextResponse.json({ ...trade[0], washSale: flags.get(trade[0].id) ?? null }, { status: 200 });
     }
 
     // List trades with pagination - filtered by authenticated user
@@ -52,7 +56,13 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset);
 
-    return NextResponse.json(results, { status: 200 });
+    // Flag sales with disallowed losses and purchases that absorbed them
+    const flags = await washSaleFlags(results.map(trade => trade.id));
+
+    return NextResponse.json(
+      results.map(trade => ({ ...trade, washSale: flags.get(trade.id) ?? null })),
+      { status: 200 }
+    );
 
   } catch (error) {
     console.error('GET error:', error);
@@ -102,7 +112,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate tradeType
-    const validTradeTypes = ['buy', 'sell', 'roll', 'hedge'];
+    const validTradeTypes = ['buy', 'sell', 'roll', 'hedge', 'exercise', 'assignment', 'expire'];
     if (!validTradeTypes.includes(body.tradeType)) {
       return NextResponse.json({ 
         error: `tradeType must be one of: ${validTradeTypes.join(', ')}`,
@@ -110,6 +120,60 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Specific-lot identification for a closing buy or sell
+    if (body.lotIds !== undefined) {
+      if (body.tradeType !== 'buy' && body.tradeType !== 'sell') {
+        return NextResponse.json({ 
+          error: "lotIds can only be given for buy and sell trades",
+          code: "INVALID_LOT_IDS" 
+        }, { status: 400 });
+      }
+
+      const lotError = await validateLotSelection(body.lotIds, {
+        userId: user.id,
+        paperAccountId: null,
+        assetId: body.assetId,
+        positionId: (await tradeInstrument(body.positionId)).positionId,
+        side: body.tradeType,
+      });
+
+      if (lotError) {
+        return NextResponse.json({ 
+          error: lotError,
+          code: "INVALID_LOT_IDS" 
+        }, { status: 400 });
+      }
+    }
+
+    // Commission and fees come from a schedule (object or preset name)
+    // unless given explicitly; only buys and sells are charged
+    const price = body.price || body.entryPrice || 0;
+    let commission = body.commission !== undefined ? body.commission : 0;
+    let fees = body.fees !== undefined ? body.fees : 0;
+
+    if (body.commissionSchedule !== undefined) {
+      const parsed = parseCommissionSchedule(body.commissionSchedule);
+      if ('error' in parsed) {
+        return NextResponse.json({ 
+          error: parsed.error,
+          code: "INVALID_COMMISSION_SCHEDULE" 
+        }, { status: 400 });
+      }
+
+      if (body.tradeType === 'buy' || body.tradeType === 'sell') {
+        const { multiplier } = await tradeInstrument(body.positionId);
+        const charged = executionFees(parsed.schedule, {
+          side: body.tradeType,
+          quantity: body.quantity,
+          price,
+          isOption: multiplier > 1,
+          multiplier,
+        });
+        if (body.commission === undefined) commission = charged.commission;
+        if (body.fees === undefined) fees = charged.fees;
+      }
+    }
+
     // Prepare insert data with defaults and auto-generated fields (matching trades schema)
     const now = new Date().toISOString();
     const insertData = {
@@ -118,16 +182,23 @@ export async function POST(request: NextRequest) {
       assetId: body.assetId,
       tradeType: body.tradeType,
       quantity: body.quantity,
-      price: body.price || body.entryPrice || 0,
-      commission: body.commission !== undefined ? body.commission : 0,
+      price,
+      commission,
+      fees,
       pnl: body.pnl || body.realizedPnl || 0,
       executedAt: now,
       createdAt: now,
     };
 
-    const newTrade = await db.insert(trades)
-      .values(insertData)
-      .returning();
+    // The trade and its tax lots are written together
+    const newTrade = await db.transaction(async (tx) => {
+      const inserted = await tx.insert(trades)
+        .values(insertData)
+        .returning();
+
+      await applyTradeLots(inserted[0], body.lotIds, tx);
+      return inserted;
+    });
 
     return NextResponse.json(newTrade[0], { status: 201 });
 
@@ -184,7 +255,7 @@ export async function PUT(request: NextRequest) {
 
     // Validate tradeType if provided
     if (body.tradeType) {
-      const validTradeTypes = ['buy', 'sell', 'roll', 'hedge'];
+      const validTradeTypes = ['buy', 'sell', 'roll', 'hedge', 'exercise', 'assignment', 'expire'];
       if (!validTradeTypes.includes(body.tradeType)) {
         return NextResponse.json({ 
           error: `tradeType must be one of: ${validTradeTypes.join(', ')}`,
@@ -193,6 +264,17 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    // Fields the tax-lot ledger was built from are fixed once it has been;
+    // record an offsetting trade instead
+    const lotFields = ['assetId', 'positionId', 'tradeType', 'quantity'] as const;
+    const changesLots = lotFields.some(field => body[field] !== undefined && body[field] !== existingTrade[0][field]);
+    if (changesLots && await tradeHasLots(existingTrade[0].id)) {
+      return NextResponse.json({ 
+        error: `${lotFields.join(', ')} cannot be changed on a trade that has tax lots; record an offsetting trade instead`,
+        code: "TRADE_HAS_TAX_LOTS" 
+      }, { status: 400 });
+    }
+
     // Prepare update data
     const updateData: any = {};
     
@@ -208,13 +290,23 @@ export async function PUT(request: NextRequest) {
     if (body.expirationDate !== undefined) updateData.expirationDate = body.expirationDate;
     if (body.realizedPnl !== undefined) updateData.realizedPnl = body.realizedPnl;
     if (body.commission !== undefined) updateData.commission = body.commission;
+    if (body.fees !== undefined) updateData.fees = body.fees;
     if (body.slippage !== undefined) updateData.slippage = body.slippage;
     if (body.closedAt !== undefined) updateData.closedAt = body.closedAt;
 
-    const updated = await db.update(trades)
-      .set(updateData)
-      .where(eq(trades.id, parseInt(id)))
-      .returning();
+    // A trade that had no lots may now be one that does, e.g. a hedge
+    // corrected to a buy
+    const updated = await db.transaction(async (tx) => {
+      const rows = await tx.update(trades)
+        .set(updateData)
+        .where(eq(trades.id, parseInt(id)))
+        .returning();
+
+      if (changesLots && rows.length > 0) {
+        await applyTradeLots(rows[0], undefined, tx);
+      }
+      return rows;
+    });
 
     if (updated.length === 0) {
       return NextResponse.json({ 
@@ -266,6 +358,13 @@ export async function DELETE(request: NextRequest) {
       }, { status: 404 });
     }
 
+    if (await tradeHasLots(existingTrade[0].id)) {
+      return NextResponse.json({ 
+        error: 'A trade that has tax lots cannot be deleted; record an offsetting trade instead',
+        code: "TRADE_HAS_TAX_LOTS" 
+      }, { status: 400 });
+    }
+
     const deleted = await db.delete(trades)
       .where(eq(trades.id, parseInt(id)))
       .returning();
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { openLots } from '@/lib/tax-lots';
+
+/**
+ * GET /api/trades/tax-lots
+ * Open tax lots from the current user's recorded trades
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const lots = await openLots(user.id, null);
+
+    return NextResponse.json({ lots });
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
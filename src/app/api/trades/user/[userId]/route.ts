@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { trades } from '@/db/schema';
 import { eq, desc } from 'drizzle-orm';
 import { getCurrentUser } from '@/lib/auth';
+import { washSaleFlags } from '@/lib/wash-sales';
 
 export async function GET(
   request: NextRequest,
@@ -43,8 +44,13 @@ export async function GET(
       .limit(limit)
       .offset(offset);
 
+    const flags = await washSaleFlags(userTrades.map(trade => trade.id));
+
     // Return empty array if no trades found
-    return NextResponse.json(userTrades, { status: 200 });
+    return NextResponse.json(
+      userTrades.map(trade => ({ ...trade, washSale: flags.get(trade.id) ?? null })),
+      { status: 200 }
+    );
   } catch (error) {
     console.error('GET trades error:', error);
     return NextResponse.json(
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { washSaleSummary } from '@/lib/wash-sales';
+
+/**
+ * GET /api/trades/wash-sales?year=
+ * Year-end wash-sale summary for the current user's recorded trades:
+ * every flagged sale, totals by symbol, and losses still deferred in open lots
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const year = request.nextUrl.searchParams.get('year') ?? String(new Date().getUTCFullYear());
+    if (!/^\d{4}$/.test(year)) {
+      return NextResponse.json({ 
+        error: 'year must be a four-digit year',
+        code: 'INVALID_YEAR' 
+      }, { status: 400 });
+    }
+
+    const summary = await washSaleSummary(user.id, null, year);
+
+    return NextResponse.json(summary);
+
+  } catch (error) {
+    console.error('GET error:', error);
+    return NextResponse.json({ 
+      error: 'Internal server error: ' + error 
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { user } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { getCurrentUser } from "@/lib/auth";
+import { LOT_METHODS, type LotMethod } from "@/lib/tax-lots";
 
 export async function GET(
   request: NextRequest,
@@ -101,7 +102,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { email, name, portfolioBalance, riskTolerance, executionMode } = body;
+    const { email, name, portfolioBalance, riskTolerance, executionMode, taxLotMethod } = body;
 
     const updates: {
       email?: string;
@@ -109,6 +110,7 @@ export async function PUT(
       portfolioBalance?: number;
       riskTolerance?: string;
       executionMode?: string;
+      taxLotMethod?: LotMethod;
       updatedAt: string;
     } = {
       updatedAt: new Date().toISOString()
@@ -181,6 +183,19 @@ export async function PUT(
       updates.executionMode = executionMode;
     }
 
+    if (taxLotMethod !== undefined) {
+      if (!LOT_METHODS.includes(taxLotMethod)) {
+        return NextResponse.json(
+          { 
+            error: `Tax lot method must be one of: ${LOT_METHODS.join(', ')}`,
+            code: "INVALID_TAX_LOT_METHOD" 
+          },
+          { status: 400 }
+        );
+      }
+      updates.taxLotMethod = taxLotMethod;
+    }
+
     const updatedUser = await db.update(user)
       .set(updates)
       .where(eq(user.id, id))
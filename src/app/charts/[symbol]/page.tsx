@@ -65,26 +65,60 @@ export default function ChartsPage() {
           return data;
         };
 
-        const mockData: ChartData = {
+        // Split-adjusted bars: intraday for 1D, daily for the rest
+        const fetchBars = async (timeframe: '5Min' | '1Day', days: number) => {
+          try {
+            const start = new Date();
+            start.setDate(start.getDate() - days);
+            const params = new URLSearchParams({
+              symbol: symbol.toUpperCase(),
+              timeframe,
+              start: start.toISOString()
+            });
+            const response = await fetch(`/api/market-data/bars?${params}`);
+            if (!response.ok) return [];
+
+            const { bars } = await response.json();
+            return (bars || []).map((bar: any) => ({
+              time: timeframe === '1Day' ? bar.t.split('T')[0] : bar.t,
+              price: bar.c,
+              volume: bar.v
+            }));
+          } catch {
+            return [];
+          }
+        };
+
+        const [intraday, daily] = await Promise.all([fetchBars('5Min', 1), fetchBars('1Day', 365)]);
+        const sinceDays = (days: number) => {
+          const cutoff = new Date();
+          cutoff.setDate(cutoff.getDate() - days);
+          const cutoffDate = cutoff.toISOString().split('T')[0];
+          const data = daily.filter((point: { time: string }) => point.time >= cutoffDate);
+          return data.length > 0 ? data : generateMockData(days);
+        };
+
+        const timeframes: ChartData['timeframes'] = {
+          '1D': { data: intraday.length > 0 ? intraday : generateMockData(1) },
+          '1W': { data: sinceDays(7) },
+          '1M': { data: sinceDays(30) },
+          '3M': { data: sinceDays(90) },
+          '1Y': { data: daily.length > 0 ? daily : generateMockData(365) }
+        };
+
+        const last = daily[daily.length - 1];
+        const previous = daily[daily.length - 2];
+        const loaded: ChartData = {
           symbol: symbol.toUpperCase(),
           name: `${symbol.toUpperCase()} Corporation`,
-          currentPrice: 150.25,
-          change: 2.15,
-          changePercent: 1.45,
-          volume: 2500000,
-          timeframes: {
-            '1D': { data: generateMockData(1) },
-            '1W': { data: generateMockData(7) },
-            '1M': { data: generateMockData(30) },
-            '3M': { data: generateMockData(90) },
-            '1Y': { data: generateMockData(365) }
-          }
+          currentPrice: last ? last.price : 150.25,
+          change: last && previous ? last.price - previous.price : 2.15,
+          changePercent: last && previous ? (last.price - previous.price) / previous.price * 100 : 1.45,
+          volume: last ? last.volume : 2500000,
+          timeframes
         };
 
-        // Simulate API delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        setChartData(mockData);
+        setChartData(loaded);
       } catch (error) {
         console.error('Error loading chart data:', error);
         setError('Failed to load chart data');
@@ -567,7 +567,13 @@ export default function ContractAnalyzerPage() {
                   </div>
                   <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
                     <span>IV Rank</span>
-                    <span className="font-bold">{analysis.volatility.ivRank}</span>
+                    <span className="font-bold">{analysis.volatility.ivRank ?? 'N/A'}</span>
+                  </div>
+                  <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                    <span>Realized Volatility (20d)</span>
+                    <span className="font-bold">
+                      {analysis.volatility.historicalVolatility !== null ? `${analysis.volatility.historicalVolatility}%` : 'N/A'}
+                    </span>
                   </div>
                   <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
                     <span>Evaluation</span>
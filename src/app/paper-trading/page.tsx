@@ -22,6 +22,8 @@ import { toast } from "sonner";
 interface PaperAccount {
   id: number;
   userId: number;
+  name: string;
+  runNumber: number;
   cashBalance: number;
   initialBalance: number;
   totalEquity: number;
@@ -41,6 +43,7 @@ interface Position {
   marketValue: number;
   unrealizedPnl: number;
   percentageReturn: number;
+  optionSymbol?: string | null;
 }
 
 interface Order {
@@ -59,6 +62,7 @@ export default function PaperTradingPage() {
   const isPending = status === 'loading';
   const router = useRouter();
   const [account, setAccount] = useState<PaperAccount | null>(null);
+  const [accounts, setAccounts] = useState<PaperAccount[]>([]);
   const [positions, setPositions] = useState<Position[]>([]);
   const [recentOrders, setRecentOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -83,7 +87,7 @@ export default function PaperTradingPage() {
     }
   }, [session]);
 
-  const loadPaperTradingData = async () => {
+  const loadPaperTradingData = async (accountId?: number) => {
     if (!session?.user) return;
     
     try {
@@ -92,11 +96,12 @@ export default function PaperTradingPage() {
       const userId = (session.user as any).id;
 
       // Fetch or create paper trading account
-      const accountRes = await fetch(`/api/paper-trading/accounts?userId=${userId}`, {
+      const accountRes = await fetch(`/api/paper-trading/accounts?userId=${userId}&limit=100`, {
         headers: { Authorization: `Bearer ${token}` }
       });
       
       let accountData = await accountRes.json();
+      setAccounts(Array.isArray(accountData) ? accountData : []);
       
       if (Array.isArray(accountData) && accountData.length === 0) {
         // Initialize new account
@@ -110,8 +115,11 @@ export default function PaperTradingPage() {
         });
         const initData = await initRes.json();
         accountData = initData.account;
+        setAccounts([initData.account]);
       } else if (Array.isArray(accountData)) {
-        accountData = accountData[0];
+        // Stay on the selected account across reloads
+        const selectedId = accountId ?? account?.id;
+        accountData = accountData.find((a: PaperAccount) => a.id === selectedId) ?? accountData[0];
       }
 
       setAccount(accountData);
@@ -198,7 +206,7 @@ export default function PaperTradingPage() {
       });
 
       if (res.ok) {
-        toast.success("Order executed successfully!");
+        toast.success(res.status === 202 ? "Order placed and working" : "Order executed successfully!");
         setOrderForm({
           symbol: "",
           side: "buy",
@@ -218,8 +226,44 @@ export default function PaperTradingPage() {
     }
   };
 
+  const handleCreateAccount = async () => {
+    if (!session?.user) return;
+
+    const name = prompt("Name for the new paper account (e.g. the strategy it trades)");
+    if (!name?.trim()) return;
+
+    const balance = parseFloat(prompt("Starting balance", "100000") || "");
+    if (isNaN(balance)) {
+      toast.error("Please enter a valid starting balance");
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const res = await fetch("/api/paper-trading/accounts/initialize", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ userId: (session.user as any).id, name: name.trim(), initialBalance: balance })
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Created ${data.account.name}`);
+        loadPaperTradingData(data.account.id);
+      } else {
+        toast.error(data.error || "Failed to create account");
+      }
+    } catch (error) {
+      console.error("Error creating account:", error);
+      toast.error("Failed to create account");
+    }
+  };
+
   const handleResetAccount = async () => {
-    if (!account || !confirm("Are you sure you want to reset your paper trading account? This will delete all positions and orders.")) {
+    if (!account || !confirm("Are you sure you want to reset this paper trading account? Positions are closed out and the current run is archived.")) {
       return;
     }
 
@@ -257,9 +301,28 @@ export default function PaperTradingPage() {
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b border-border">
-        <div className="container mx-auto px-4 py-4">
-          <h1 className="text-2xl font-bold">Paper Trading</h1>
-          <p className="text-sm text-muted-foreground">Practice trading with virtual money</p>
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Paper Trading</h1>
+            <p className="text-sm text-muted-foreground">Practice trading with virtual money</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Paper account"
+              className="px-3 py-2 border border-input rounded-md bg-background"
+              value={account?.id ?? ""}
+              onChange={(e) => loadPaperTradingData(parseInt(e.target.value))}
+            >
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} (run {a.runNumber})
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" onClick={handleCreateAccount}>
+              New Account
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -435,7 +498,7 @@ export default function PaperTradingPage() {
                       <div className="flex-1">
                         <div className="font-medium">{position.symbol}</div>
                         <div className="text-sm text-muted-foreground">
-                          {position.quantity} shares @ ${position.averageCost.toFixed(2)}
+                          {Math.abs(position.quantity)} {position.optionSymbol ? "contracts" : "shares"}{position.quantity < 0 ? " short" : ""} @ ${position.averageCost.toFixed(2)}
                         </div>
                       </div>
                       <div className="text-right">
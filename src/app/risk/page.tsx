@@ -17,6 +17,7 @@ import {
 import { useSession } from "@/lib/auth-client";
 import { useRouter } from "next/navigation";
 import { ThemeToggle } from "@/components/theme-toggle";
+import type { PortfolioGreeks } from "@/lib/greeks-calculator";
 
 interface Position {
   id: number;
@@ -50,6 +51,7 @@ export default function RiskPage() {
 
   const [positions, setPositions] = useState<Position[]>([]);
   const [riskMetrics, setRiskMetrics] = useState<RiskMetric | null>(null);
+  const [portfolioGreeks, setPortfolioGreeks] = useState<PortfolioGreeks | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
@@ -88,13 +90,15 @@ export default function RiskPage() {
     if (!userId) return;
     
     try {
-      const [positionsData, riskData] = await Promise.all([
+      const [positionsData, riskData, greeksData] = await Promise.all([
         fetch(`/api/positions/user/${userId}/open`).then(res => res.json()),
-        fetch(`/api/risk-metrics/user/${userId}/latest`).then(res => res.json())
+        fetch(`/api/risk-metrics/user/${userId}/latest`).then(res => res.json()),
+        fetch(`/api/positions/user/${userId}/greeks`).then(res => res.json())
       ]);
 
       setPositions(Array.isArray(positionsData) ? positionsData : []);
       setRiskMetrics(riskData);
+      setPortfolioGreeks(greeksData && Array.isArray(greeksData.byUnderlying) ? greeksData : null);
       setIsLoading(false);
     } catch (error) {
       console.error("Error loading risk data:", error);
@@ -102,6 +106,12 @@ export default function RiskPage() {
     }
   };
 
+  // Live aggregation when available, otherwise the latest stored risk metrics
+  const netDelta = portfolioGreeks?.netDelta ?? riskMetrics?.portfolio_delta;
+  const netGamma = portfolioGreeks?.netGamma ?? riskMetrics?.portfolio_gamma;
+  const netTheta = portfolioGreeks?.netTheta ?? riskMetrics?.portfolio_theta;
+  const netVega = portfolioGreeks?.netVega ?? riskMetrics?.portfolio_vega;
+
   const totalExposure = Array.isArray(positions) ? positions.reduce((sum, pos) => sum + Math.abs(pos.quantity * pos.current_price), 0) : 0;
   const maxPortfolioRisk = 50000; // Example max risk
   const riskUtilization = (totalExposure / maxPortfolioRisk) * 100;
@@ -379,7 +389,10 @@ export default function RiskPage() {
         <Card className="border border-border bg-gradient-to-br from-card to-card/50 shadow-sm">
           <CardHeader>
             <CardTitle className="text-lg font-bold">Portfolio Greeks</CardTitle>
-            <CardDescription className="text-xs">Aggregate options Greeks across all positions</CardDescription>
+            <CardDescription className="text-xs">
+              Aggregate Greeks across all positions
+              {portfolioGreeks?.benchmark && `, beta-weighted to ${portfolioGreeks.benchmark.symbol}`}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -388,7 +401,7 @@ export default function RiskPage() {
                   <span className="text-sm font-medium text-muted-foreground">Delta (Δ)</span>
                   <Activity className="h-4 w-4 text-blue-500" />
                 </div>
-                <div className="text-2xl font-bold mb-1">{riskMetrics?.portfolio_delta?.toFixed(2) || "0.00"}</div>
+                <div className="text-2xl font-bold mb-1">{netDelta?.toFixed(2) || "0.00"}</div>
                 <p className="text-xs text-muted-foreground">Directional sensitivity</p>
               </div>
 
@@ -397,7 +410,7 @@ export default function RiskPage() {
                   <span className="text-sm font-medium text-muted-foreground">Gamma (Γ)</span>
                   <TrendingUp className="h-4 w-4 text-green-500" />
                 </div>
-                <div className="text-2xl font-bold mb-1">{riskMetrics?.portfolio_gamma?.toFixed(4) || "0.0000"}</div>
+                <div className="text-2xl font-bold mb-1">{netGamma?.toFixed(4) || "0.0000"}</div>
                 <p className="text-xs text-muted-foreground">Delta rate of change</p>
               </div>
 
@@ -406,7 +419,7 @@ export default function RiskPage() {
                   <span className="text-sm font-medium text-muted-foreground">Theta (Θ)</span>
                   <TrendingDown className="h-4 w-4 text-orange-500" />
                 </div>
-                <div className="text-2xl font-bold mb-1">{riskMetrics?.portfolio_theta?.toFixed(2) || "0.00"}</div>
+                <div className="text-2xl font-bold mb-1">{netTheta?.toFixed(2) || "0.00"}</div>
                 <p className="text-xs text-muted-foreground">Time decay per day</p>
               </div>
 
@@ -415,10 +428,78 @@ export default function RiskPage() {
                   <span className="text-sm font-medium text-muted-foreground">Vega (ν)</span>
                   <Activity className="h-4 w-4 text-purple-500" />
                 </div>
-                <div className="text-2xl font-bold mb-1">{riskMetrics?.portfolio_vega?.toFixed(2) || "0.00"}</div>
+                <div className="text-2xl font-bold mb-1">{netVega?.toFixed(2) || "0.00"}</div>
                 <p className="text-xs text-muted-foreground">Volatility sensitivity</p>
               </div>
             </div>
+
+            {portfolioGreeks && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Delta $</p>
+                    <p className="text-lg font-bold font-mono">${portfolioGreeks.deltaDollars.toFixed(0)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Gamma $ per 1%</p>
+                    <p className="text-lg font-bold font-mono">${portfolioGreeks.gammaDollars.toFixed(0)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">
+                      β-Weighted Delta{portfolioGreeks.benchmark ? ` (${portfolioGreeks.benchmark.symbol})` : ''}
+                    </p>
+                    <p className="text-lg font-bold font-mono">{portfolioGreeks.betaWeightedDelta?.toFixed(2) ?? "N/A"}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Rho (ρ)</p>
+                    <p className="text-lg font-bold font-mono">{portfolioGreeks.netRho.toFixed(2)}</p>
+                  </div>
+                </div>
+
+                {portfolioGreeks.byUnderlying.length > 0 && (
+                  <div className="overflow-x-auto mt-6">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-border text-xs text-muted-foreground">
+                          <th className="text-left py-2 px-2">Underlying</th>
+                          <th className="text-right py-2 px-2">Δ</th>
+                          <th className="text-right py-2 px-2">Γ</th>
+                          <th className="text-right py-2 px-2">Θ</th>
+                          <th className="text-right py-2 px-2">ν</th>
+                          <th className="text-right py-2 px-2">Vanna</th>
+                          <th className="text-right py-2 px-2">Volga</th>
+                          <th className="text-right py-2 px-2">Charm</th>
+                          <th className="text-right py-2 px-2">Speed</th>
+                          <th className="text-right py-2 px-2">Color</th>
+                          <th className="text-right py-2 px-2">Veta</th>
+                          <th className="text-right py-2 px-2">Δ $</th>
+                          <th className="text-right py-2 px-2">β-Δ</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {portfolioGreeks.byUnderlying.map(group => (
+                          <tr key={group.underlyingSymbol} className="border-b border-border/50">
+                            <td className="py-2 px-2 font-sans font-bold">{group.underlyingSymbol}</td>
+                            <td className="text-right py-2 px-2">{group.delta.toFixed(2)}</td>
+                            <td className="text-right py-2 px-2">{group.gamma.toFixed(4)}</td>
+                            <td className="text-right py-2 px-2">{group.theta.toFixed(2)}</td>
+                            <td className="text-right py-2 px-2">{group.vega.toFixed(2)}</td>
+                            <td className="text-right py-2 px-2">{group.vanna.toFixed(4)}</td>
+                            <td className="text-right py-2 px-2">{group.volga.toFixed(4)}</td>
+                            <td className="text-right py-2 px-2">{group.charm.toFixed(4)}</td>
+                            <td className="text-right py-2 px-2">{group.speed.toFixed(6)}</td>
+                            <td className="text-right py-2 px-2">{group.color.toFixed(6)}</td>
+                            <td className="text-right py-2 px-2">{group.veta.toFixed(4)}</td>
+                            <td className="text-right py-2 px-2">${group.deltaDollars.toFixed(0)}</td>
+                            <td className="text-right py-2 px-2">{group.betaWeightedDelta?.toFixed(2) ?? "N/A"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
           </CardContent>
         </Card>
 
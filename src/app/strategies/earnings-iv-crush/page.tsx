@@ -1,12 +1,20 @@
 "use client";
 
 import Link from "next/link";
-import { ArrowLeft, Play, Pause, Save, TrendingUp } from "lucide-react";
+import { ArrowLeft, Play, Pause, Save, TrendingUp, Loader2, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
+import type { VolatilityReport } from "@/lib/volatility-summary";
+
+interface ScreenerRow {
+  symbol: string;
+  report: VolatilityReport | null;
+  error?: string;
+}
 
 export default function EarningsIVCrushPage() {
   const [isActive, setIsActive] = useState(false);
@@ -48,10 +56,51 @@ export default function EarningsIVCrushPage() {
     minBeta: 0.5,
   });
 
+  const [screener, setScreener] = useState<ScreenerRow[]>([]);
+  const [screening, setScreening] = useState(false);
+
   const updateConfig = (key: string, value: any) => {
     setConfig(prev => ({ ...prev, [key]: value }));
   };
 
+  const runScreener = async () => {
+    const symbols = config.liquidityTickers
+      .split(',')
+      .map(symbol => symbol.trim().toUpperCase())
+      .filter(Boolean);
+
+    setScreening(true);
+    try {
+      const rows = await Promise.all(symbols.map(async (symbol): Promise<ScreenerRow> => {
+        try {
+          const res = await fetch(`/api/market-data/volatility-summary?symbol=${encodeURIComponent(symbol)}`);
+          const data = await res.json();
+          return res.ok ? { symbol, report: data } : { symbol, report: null, error: data.error };
+        } catch (error) {
+          return { symbol, report: null, error: String(error) };
+        }
+      }));
+      setScreener(rows);
+    } finally {
+      setScreening(false);
+    }
+  };
+
+  // IV30 / RV20 and front-back spread (vol points) against the signal thresholds
+  const screenSignals = (report: VolatilityReport) => {
+    const { atmIv30, realizedVol20, termSpread } = report.summary;
+    const ivPremium = realizedVol20 ? atmIv30 / realizedVol20 : null;
+    const spreadPoints = termSpread !== null ? termSpread * 100 : null;
+    return {
+      ivPremium,
+      spreadPoints,
+      passes: ivPremium !== null && ivPremium >= config.ivPremiumThreshold
+        && spreadPoints !== null && spreadPoints >= config.ivWeeklyDiffThreshold,
+    };
+  };
+
+  const formatVol = (value: number | null) => value !== null ? `${(value * 100).toFixed(1)}%` : '—';
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -129,6 +178,88 @@ export default function EarningsIVCrushPage() {
           </CardContent>
         </Card>
 
+        {/* Screener */}
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle>Screener</CardTitle>
+                <CardDescription>
+                  Base tickers against the IV premium and term spread thresholds, from the latest daily volatility summaries
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={runScreener} disabled={screening}>
+                {screening ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Search className="h-4 w-4 mr-2" />
+                )}
+                Run Screener
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {screener.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Run the screener to load volatility summaries for the base tickers.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                      <th className="py-2 pr-4">Symbol</th>
+                      <th className="py-2 pr-4">Date</th>
+                      <th className="py-2 pr-4 text-right">IV30</th>
+                      <th className="py-2 pr-4 text-right">RV20</th>
+                      <th className="py-2 pr-4 text-right">IV30 / RV20</th>
+                      <th className="py-2 pr-4 text-right">Term Spread</th>
+                      <th className="py-2 pr-4 text-right">25Δ Skew</th>
+                      <th className="py-2 pr-4 text-right">IV Rank</th>
+                      <th className="py-2 pr-4 text-right">IV Pctl</th>
+                      <th className="py-2">Signal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {screener.map(({ symbol, report, error }) => {
+                      if (!report) {
+                        return (
+                          <tr key={symbol} className="border-b border-border">
+                            <td className="py-2 pr-4 font-medium">{symbol}</td>
+                            <td colSpan={9} className="py-2 text-xs text-muted-foreground">{error || 'No volatility summary'}</td>
+                          </tr>
+                        );
+                      }
+
+                      const { ivPremium, spreadPoints, passes } = screenSignals(report);
+                      return (
+                        <tr key={symbol} className="border-b border-border">
+                          <td className="py-2 pr-4 font-medium">{symbol}</td>
+                          <td className="py-2 pr-4 text-muted-foreground">{report.summary.summaryDate}</td>
+                          <td className="py-2 pr-4 text-right">{formatVol(report.summary.atmIv30)}</td>
+                          <td className="py-2 pr-4 text-right">{formatVol(report.summary.realizedVol20)}</td>
+                          <td className={`py-2 pr-4 text-right ${ivPremium !== null && ivPremium >= config.ivPremiumThreshold ? 'text-green-500' : ''}`}>
+                            {ivPremium !== null ? ivPremium.toFixed(2) : '—'}
+                          </td>
+                          <td className={`py-2 pr-4 text-right ${spreadPoints !== null && spreadPoints >= config.ivWeeklyDiffThreshold ? 'text-green-500' : ''}`}>
+                            {spreadPoints !== null ? `${spreadPoints.toFixed(1)} pts` : '—'}
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {report.summary.skew25 !== null ? `${(report.summary.skew25 * 100).toFixed(1)} pts` : '—'}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{report.ivRank !== null ? report.ivRank.toFixed(0) : '—'}</td>
+                          <td className="py-2 pr-4 text-right">{report.ivPercentile !== null ? report.ivPercentile.toFixed(0) : '—'}</td>
+                          <td className="py-2">
+                            <Badge variant={passes ? 'default' : 'secondary'}>{passes ? 'PASS' : 'NO SIGNAL'}</Badge>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <div className="grid grid-cols-2 gap-6">
           {/* Universe Selection */}
           <Card>
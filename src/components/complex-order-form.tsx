@@ -12,202 +12,131 @@ interface ComplexOrderFormProps {
   onOrderPlaced: () => void;
 }
 
+interface BuiltLeg {
+  optionSymbol: string;
+  side: "buy" | "sell";
+  quantity: number;
+  optionType: "call" | "put";
+  strikePrice: number;
+  expirationDate: string;
+  bid: number | null;
+  ask: number | null;
+  price: number;
+  delta: number;
+}
+
+interface BuiltStrategy {
+  template: string;
+  underlyingPrice: number;
+  legs: BuiltLeg[];
+  pricing: { units: number; mid: number; natural: number };
+  netDelta: number;
+  order: Record<string, unknown>;
+}
+
+const TEMPLATES: { value: string; label: string; description: string }[] = [
+  { value: "vertical", label: "Vertical Spread", description: "Directional spread with defined max loss" },
+  { value: "straddle", label: "Straddle", description: "Call + put at the same strike (volatility play)" },
+  { value: "strangle", label: "Strangle", description: "OTM call + OTM put, cheaper than a straddle" },
+  { value: "iron_condor", label: "Iron Condor", description: "Sell a put spread and a call spread (defined risk income)" },
+  { value: "iron_fly", label: "Iron Fly", description: "Iron condor with both short strikes at the money" },
+  { value: "butterfly", label: "Butterfly", description: "1:2:1 spread, limited risk/reward at the middle strike" },
+  { value: "calendar", label: "Calendar Spread", description: "Sell near-term, buy far-term at one strike (theta capture)" },
+  { value: "diagonal", label: "Diagonal Spread", description: "Calendar with the near-term leg further out of the money" },
+  { value: "jade_lizard", label: "Jade Lizard", description: "Short put + short call spread, no upside risk" },
+  { value: "ratio_spread", label: "Ratio Spread", description: "Buy one, sell several further out of the money" },
+];
+
+// Templates that take a single option type
+const SINGLE_TYPE = ["vertical", "butterfly", "calendar", "diagonal", "ratio_spread"];
+
+const formatNet = (price: number) => `${Math.abs(price).toFixed(2)} ${price > 0 ? "debit" : "credit"}`;
+
 export function ComplexOrderForm({ paperAccountId, onOrderPlaced }: ComplexOrderFormProps) {
-  const [spreadType, setSpreadType] = useState("straddle");
+  const [spreadType, setSpreadType] = useState("vertical");
   const [underlyingSymbol, setUnderlyingSymbol] = useState("");
-  const [strikePrice, setStrikePrice] = useState("");
   const [quantity, setQuantity] = useState("1");
-  const [expiration, setExpiration] = useState("");
+  const [optionType, setOptionType] = useState("call");
+  const [direction, setDirection] = useState("bull");
+  const [side, setSide] = useState("");
+  const [dte, setDte] = useState("30");
+  const [strike, setStrike] = useState("");
+  const [delta, setDelta] = useState("");
+  const [width, setWidth] = useState("5");
+  const [orderType, setOrderType] = useState("market");
+  const [limitPrice, setLimitPrice] = useState("");
+  const [priceEffect, setPriceEffect] = useState("debit");
+  const [strategy, setStrategy] = useState<BuiltStrategy | null>(null);
+  const [building, setBuilding] = useState(false);
   const [submitting, setSubmitting] = useState(false);
 
-  const handleSubmit = async () => {
-    if (!underlyingSymbol || !strikePrice || !quantity) {
+  // Any change to the inputs invalidates the built legs
+  const update = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setStrategy(null);
+  };
+
+  const handleBuild = async () => {
+    if (!underlyingSymbol || !quantity) {
       toast.error("Please fill in all required fields");
       return;
     }
 
-    setSubmitting(true);
+    setBuilding(true);
 
     try {
       const token = localStorage.getItem("bearer_token");
-      
-      // Fetch asset by symbol
-      const assetsRes = await fetch(`/api/assets`, {
-        headers: { Authorization: `Bearer ${token}` }
+      const res = await fetch("/api/paper-trading/strategy-builder", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          underlyingSymbol: underlyingSymbol.toUpperCase(),
+          template: spreadType,
+          quantity: parseInt(quantity),
+          optionType,
+          direction,
+          side: side || undefined,
+          dte: dte || undefined,
+          strike: strike || undefined,
+          delta: delta || undefined,
+          width: width || undefined
+        })
       });
-      const assets = await assetsRes.json();
-      const asset = assets.find((a: any) => a.symbol === underlyingSymbol.toUpperCase());
-      
-      if (!asset) {
-        toast.error("Asset not found");
-        setSubmitting(false);
+
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to build strategy");
+        setStrategy(null);
         return;
       }
 
-      const strike = parseFloat(strikePrice);
-      const qty = parseInt(quantity);
-      const marketPrice = strike; // Mock market price
-
-      let legs: any[] = [];
-
-      switch (spreadType) {
-        case "straddle":
-          // Buy call + Buy put at same strike
-          legs = [
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "put"
-            }
-          ];
-          break;
-
-        case "strangle":
-          // Buy OTM call + Buy OTM put
-          legs = [
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike + 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike - 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "put"
-            }
-          ];
-          break;
-
-        case "calendar":
-          // Sell near-term + Buy far-term at same strike
-          legs = [
-            {
-              assetId: asset.id,
-              side: "sell",
-              quantity: qty,
-              strikePrice: strike,
-              expirationDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike,
-              expirationDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            }
-          ];
-          break;
+      setStrategy(data);
+      // Start the limit at the mid
+      setLimitPrice(Math.abs(data.pricing.mid).toFixed(2));
+      setPriceEffect(data.pricing.mid > 0 ? "debit" : "credit");
+    } catch (error) {
+      console.error("Error building strategy:", error);
+      toast.error("Failed to build strategy");
+    } finally {
+      setBuilding(false);
+    }
+  };
 
-        case "iron_condor":
-          // Sell call spread + Sell put spread
-          legs = [
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike - 10,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "put"
-            },
-            {
-              assetId: asset.id,
-              side: "sell",
-              quantity: qty,
-              strikePrice: strike - 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "put"
-            },
-            {
-              assetId: asset.id,
-              side: "sell",
-              quantity: qty,
-              strikePrice: strike + 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike + 10,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            }
-          ];
-          break;
+  const handleSubmit = async () => {
+    if (!strategy) return;
 
-        case "butterfly":
-          // Buy 1 lower + Sell 2 middle + Buy 1 higher
-          legs = [
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike - 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "sell",
-              quantity: qty * 2,
-              strikePrice: strike,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike + 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            }
-          ];
-          break;
+    if (orderType === "limit" && !limitPrice) {
+      toast.error("Enter a net limit price");
+      return;
+    }
 
-        case "vertical":
-          // Bull call spread: Buy lower + Sell higher
-          legs = [
-            {
-              assetId: asset.id,
-              side: "buy",
-              quantity: qty,
-              strikePrice: strike,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            },
-            {
-              assetId: asset.id,
-              side: "sell",
-              quantity: qty,
-              strikePrice: strike + 5,
-              expirationDate: expiration || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              optionType: "call"
-            }
-          ];
-          break;
-      }
+    setSubmitting(true);
 
+    try {
+      const token = localStorage.getItem("bearer_token");
       const res = await fetch("/api/paper-trading/orders/complex", {
         method: "POST",
         headers: {
@@ -215,24 +144,32 @@ export function ComplexOrderForm({ paperAccountId, onOrderPlaced }: ComplexOrder
           Authorization: `Bearer ${token}`
         },
         body: JSON.stringify({
+          ...strategy.order,
           paperAccountId,
-          spreadType,
-          underlyingSymbol: underlyingSymbol.toUpperCase(),
-          legs,
-          marketPrice
+          orderType,
+          ...(orderType === "limit" && {
+            limitPrice: parseFloat(limitPrice),
+            priceEffect
+          })
         })
       });
 
       if (res.ok) {
-        const data = await res.json();
-        toast.success(`${spreadType.charAt(0).toUpperCase() + spreadType.slice(1)} executed successfully!`);
-        setUnderlyingSymbol("");
-        setStrikePrice("");
+        const label = TEMPLATES.find((t) => t.value === spreadType)?.label ?? spreadType;
+        toast.success(`${label} executed successfully!`);
+        setStrategy(null);
         setQuantity("1");
         onOrderPlaced();
       } else {
         const error = await res.json();
-        toast.error(error.error || "Order execution failed");
+        if (error.pricing) {
+          // Not marketable at the limit: show where the package is quoted
+          toast.error(error.error, {
+            description: `Mid ${formatNet(error.pricing.mid)}, natural ${formatNet(error.pricing.natural)}`
+          });
+        } else {
+          toast.error(error.error || "Order execution failed");
+        }
       }
     } catch (error) {
       console.error("Error placing complex order:", error);
@@ -242,75 +179,233 @@ export function ComplexOrderForm({ paperAccountId, onOrderPlaced }: ComplexOrder
     }
   };
 
+  const template = TEMPLATES.find((t) => t.value === spreadType);
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Complex Spread Orders</CardTitle>
-        <CardDescription>Execute multi-leg options strategies</CardDescription>
+        <CardDescription>Build multi-leg options strategies from the options chain</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         <div>
-          <Label htmlFor="spreadType">Spread Type</Label>
+          <Label htmlFor="spreadType">Strategy</Label>
           <select
             id="spreadType"
             className="w-full px-3 py-2 border border-input rounded-md bg-background"
             value={spreadType}
-            onChange={(e) => setSpreadType(e.target.value)}
+            onChange={(e) => update(setSpreadType)(e.target.value)}
           >
-            <option value="straddle">Straddle (Long)</option>
-            <option value="strangle">Strangle (Long)</option>
-            <option value="calendar">Calendar Spread</option>
-            <option value="iron_condor">Iron Condor</option>
-            <option value="butterfly">Butterfly</option>
-            <option value="vertical">Vertical Spread</option>
+            {TEMPLATES.map((t) => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
           </select>
         </div>
 
-        <div>
-          <Label htmlFor="underlyingSymbol">Underlying Symbol</Label>
-          <Input
-            id="underlyingSymbol"
-            placeholder="SPY, AAPL, etc."
-            value={underlyingSymbol}
-            onChange={(e) => setUnderlyingSymbol(e.target.value.toUpperCase())}
-          />
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="underlyingSymbol">Underlying Symbol</Label>
+            <Input
+              id="underlyingSymbol"
+              placeholder="SPY, AAPL, etc."
+              value={underlyingSymbol}
+              onChange={(e) => update(setUnderlyingSymbol)(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div>
+            <Label htmlFor="quantity">Quantity (Spreads)</Label>
+            <Input
+              id="quantity"
+              type="number"
+              min="1"
+              value={quantity}
+              onChange={(e) => update(setQuantity)(e.target.value)}
+            />
+          </div>
         </div>
 
-        <div>
-          <Label htmlFor="strikePrice">Strike Price (ATM)</Label>
-          <Input
-            id="strikePrice"
-            type="number"
-            step="0.01"
-            placeholder="450.00"
-            value={strikePrice}
-            onChange={(e) => setStrikePrice(e.target.value)}
-          />
+        <div className="grid grid-cols-2 gap-2">
+          {SINGLE_TYPE.includes(spreadType) && (
+            <div>
+              <Label htmlFor="optionType">Option Type</Label>
+              <select
+                id="optionType"
+                className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                value={optionType}
+                onChange={(e) => update(setOptionType)(e.target.value)}
+              >
+                <option value="call">Calls</option>
+                <option value="put">Puts</option>
+              </select>
+            </div>
+          )}
+          {spreadType === "vertical" ? (
+            <div>
+              <Label htmlFor="direction">Direction</Label>
+              <select
+                id="direction"
+                className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                value={direction}
+                onChange={(e) => update(setDirection)(e.target.value)}
+              >
+                <option value="bull">Bullish</option>
+                <option value="bear">Bearish</option>
+              </select>
+            </div>
+          ) : spreadType !== "jade_lizard" && (
+            <div>
+              <Label htmlFor="side">Side</Label>
+              <select
+                id="side"
+                className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                value={side}
+                onChange={(e) => update(setSide)(e.target.value)}
+              >
+                <option value="">Default</option>
+                <option value="long">Long (buy)</option>
+                <option value="short">Short (sell)</option>
+              </select>
+            </div>
+          )}
         </div>
 
-        <div>
-          <Label htmlFor="quantity">Quantity (Contracts)</Label>
-          <Input
-            id="quantity"
-            type="number"
-            value={quantity}
-            onChange={(e) => setQuantity(e.target.value)}
-          />
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="dte">Days to Expiration</Label>
+            <Input
+              id="dte"
+              type="number"
+              min="0"
+              value={dte}
+              onChange={(e) => update(setDte)(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="width">Wing Width</Label>
+            <Input
+              id="width"
+              type="number"
+              step="0.5"
+              value={width}
+              onChange={(e) => update(setWidth)(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="strike">Strike (optional)</Label>
+            <Input
+              id="strike"
+              type="number"
+              step="0.01"
+              placeholder="At the money"
+              value={strike}
+              onChange={(e) => update(setStrike)(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="delta">Target Delta (optional)</Label>
+            <Input
+              id="delta"
+              type="number"
+              step="0.01"
+              placeholder="0.16"
+              value={delta}
+              onChange={(e) => update(setDelta)(e.target.value)}
+            />
+          </div>
         </div>
 
         <div className="p-3 bg-muted/50 rounded text-xs space-y-1">
-          <p className="font-medium">Strategy: {spreadType.charAt(0).toUpperCase() + spreadType.slice(1)}</p>
-          {spreadType === "straddle" && <p>• Buy call + put at same strike (neutral volatility play)</p>}
-          {spreadType === "strangle" && <p>• Buy OTM call + OTM put (lower cost than straddle)</p>}
-          {spreadType === "calendar" && <p>• Sell near-term + buy far-term (theta capture)</p>}
-          {spreadType === "iron_condor" && <p>• Sell call spread + put spread (defined risk income)</p>}
-          {spreadType === "butterfly" && <p>• Limited risk/reward at middle strike</p>}
-          {spreadType === "vertical" && <p>• Directional spread with defined max loss</p>}
+          <p className="font-medium">Strategy: {template?.label}</p>
+          <p>• {template?.description}</p>
         </div>
 
-        <Button onClick={handleSubmit} disabled={submitting} className="w-full">
-          {submitting ? "Executing..." : "Execute Spread"}
+        <Button onClick={handleBuild} disabled={building} variant="outline" className="w-full">
+          {building ? "Building..." : "Build Legs"}
         </Button>
+
+        {strategy && (
+          <>
+            <div className="rounded border text-xs">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="p-2 text-left">Side</th>
+                    <th className="p-2 text-left">Contract</th>
+                    <th className="p-2 text-right">Bid / Ask</th>
+                    <th className="p-2 text-right">Delta</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {strategy.legs.map((leg) => (
+                    <tr key={leg.optionSymbol} className="border-t">
+                      <td className="p-2">{leg.side === "buy" ? "Buy" : "Sell"} {leg.quantity}</td>
+                      <td className="p-2">
+                        {leg.expirationDate} {leg.strikePrice} {leg.optionType === "call" ? "C" : "P"}
+                      </td>
+                      <td className="p-2 text-right">
+                        {leg.bid !== null && leg.ask !== null
+                          ? `${leg.bid.toFixed(2)} / ${leg.ask.toFixed(2)}`
+                          : leg.price.toFixed(2)}
+                      </td>
+                      <td className="p-2 text-right">{leg.delta.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="border-t p-2 flex justify-between">
+                <span>Mid {formatNet(strategy.pricing.mid)}</span>
+                <span>Natural {formatNet(strategy.pricing.natural)}</span>
+                <span>Δ {strategy.netDelta.toFixed(0)}</span>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="orderType">Order Type</Label>
+              <select
+                id="orderType"
+                className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                value={orderType}
+                onChange={(e) => setOrderType(e.target.value)}
+              >
+                <option value="market">Market</option>
+                <option value="limit">Net Limit</option>
+              </select>
+            </div>
+
+            {orderType === "limit" && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="limitPrice">Net Price (per spread)</Label>
+                  <Input
+                    id="limitPrice"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="1.50"
+                    value={limitPrice}
+                    onChange={(e) => setLimitPrice(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="priceEffect">Debit / Credit</Label>
+                  <select
+                    id="priceEffect"
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                    value={priceEffect}
+                    onChange={(e) => setPriceEffect(e.target.value)}
+                  >
+                    <option value="debit">Debit (pay at most)</option>
+                    <option value="credit">Credit (receive at least)</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <Button onClick={handleSubmit} disabled={submitting} className="w-full">
+              {submitting ? "Executing..." : "Execute Spread"}
+            </Button>
+          </>
+        )}
       </CardContent>
     </Card>
   );
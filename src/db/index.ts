@@ -1,5 +1,6 @@
 import { drizzle } from 'drizzle-orm/libsql';
-import { createClient } from '@libsql/client';
+import { createClient, type ResultSet } from '@libsql/client';
+import type { BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core';
 import * as schema from '@/db/schema';
 
 // Be resilient during builds: fall back to a local file DB if env vars
@@ -20,6 +21,18 @@ const client = createClient(
     : { url }
 );
 
+// Local database files use write-ahead logging so reads on other
+// connections don't block an order transaction from committing
+if (url.startsWith('file:')) {
+  client.execute('PRAGMA journal_mode = WAL').catch((error) => {
+    console.error('Failed to enable WAL mode:', error);
+  });
+}
+
 export const db = drizzle(client, { schema });
 
 export type Database = typeof db;
+
+// The database or an open transaction on it. Helpers that take part in a
+// larger atomic write accept one so callers can pass their transaction.
+export type DbExecutor = BaseSQLiteDatabase<'async', ResultSet, typeof schema>;
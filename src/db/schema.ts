@@ -13,6 +13,7 @@ export const user = sqliteTable("user", {
   portfolioBalance: real("portfolio_balance").default(100000),
   riskTolerance: text("risk_tolerance").default("moderate"),
   executionMode: text("execution_mode").default("manual"),
+  taxLotMethod: text("tax_lot_method").notNull().default("fifo"), // Lot relief for recorded trades: 'fifo' | 'lifo' | 'hifo' | 'specific'
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
@@ -43,6 +44,7 @@ export const assets = sqliteTable("assets", {
   description: text("description"),
   website: text("website"),
   logoUrl: text("logo_url"),
+  borrowRate: real("borrow_rate"), // Annual stock borrow fee as a decimal; general collateral rate when null
   isActive: integer("is_active", { mode: "boolean" }).default(true),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
@@ -93,10 +95,11 @@ export const trades = sqliteTable("trades", {
   userId: text("user_id").notNull().references(() => user.id),
   positionId: integer("position_id").references(() => positions.id),
   assetId: integer("asset_id").references(() => assets.id),
-  tradeType: text("trade_type").notNull(), // 'buy', 'sell', 'open', 'close'
+  tradeType: text("trade_type").notNull(), // 'buy', 'sell', 'open', 'close', 'exercise', 'assignment', 'expire'
   quantity: integer("quantity").notNull(),
   price: real("price").notNull(),
   commission: real("commission").default(0),
+  fees: real("fees").notNull().default(0), // Regulatory and exchange fees
   pnl: real("pnl").default(0),
   executedAt: text("executed_at").notNull(),
   createdAt: text("created_at").notNull(),
@@ -106,15 +109,48 @@ export const trades = sqliteTable("trades", {
 export const paperTradingAccounts = sqliteTable("paper_trading_accounts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   userId: text("user_id").notNull().references(() => user.id),
+  name: text("name").notNull().default("Paper Account"), // Unique per user, e.g. one account per strategy
   cashBalance: real("cash_balance").notNull().default(100000),
   initialBalance: real("initial_balance").notNull().default(100000),
   totalEquity: real("total_equity").notNull().default(100000),
   totalPnl: real("total_pnl").notNull().default(0),
   isActive: integer("is_active", { mode: "boolean" }).default(true),
+  fillModel: text("fill_model"), // JSON FillModelConfig; default fill model when null
+  marginMode: text("margin_mode").notNull().default("reg_t"), // 'reg_t' | 'portfolio'
+  version: integer("version").notNull().default(0), // Bumped on every balance change for optimistic locking
+  taxLotMethod: text("tax_lot_method").notNull().default("fifo"), // 'fifo' | 'lifo' | 'hifo' | 'specific'
+  commissionSchedule: text("commission_schedule"), // JSON CommissionSchedule; commission-free when null
+  runNumber: integer("run_number").notNull().default(1), // Bumped by every reset; earlier runs are archived in paperAccountRuns
+  runStartedAt: text("run_started_at").notNull(),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
 
+// A finished run of a paper account, archived when the account is reset.
+// Orders, cash entries and snapshots stay in their tables; the run's time
+// range (and runNumber on snapshots) tells them apart.
+export const paperAccountRuns = sqliteTable("paper_account_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  paperAccountId: integer("paper_account_id").notNull().references(() => paperTradingAccounts.id),
+  runNumber: integer("run_number").notNull(),
+  startedAt: text("started_at").notNull(),
+  endedAt: text("ended_at").notNull(),
+  initialBalance: real("initial_balance").notNull(),
+  finalCash: real("final_cash").notNull(),
+  finalEquity: real("final_equity").notNull(),
+  totalPnl: real("total_pnl").notNull(),
+  timeWeightedReturn: real("time_weighted_return"), // From the run's equity snapshots; null without any
+  maxDrawdown: real("max_drawdown"),
+  sharpeRatio: real("sharpe_ratio"),
+  orderCount: integer("order_count").notNull(),
+  filledOrderCount: integer("filled_order_count").notNull(),
+  totalCommission: real("total_commission").notNull().default(0),
+  totalFees: real("total_fees").notNull().default(0),
+  commissionSchedule: text("commission_schedule"), // JSON, as configured during the run
+  positions: text("positions").notNull(), // JSON snapshot of the positions held at the reset
+  createdAt: text("created_at").notNull(),
+});
+
 // Paper trading positions table
 export const paperPositions = sqliteTable("paper_positions", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -125,6 +161,16 @@ export const paperPositions = sqliteTable("paper_positions", {
   currentPrice: real("current_price"),
   unrealizedPnl: real("unrealized_pnl").notNull().default(0),
   realizedPnl: real("realized_pnl").notNull().default(0),
+  // Option contract details; null for stock positions
+  optionSymbol: text("option_symbol"), // OCC symbol, e.g. 'AAPL250117C00150000'
+  underlyingSymbol: text("underlying_symbol"),
+  optionType: text("option_type"), // 'call' | 'put'
+  strikePrice: real("strike_price"),
+  expirationDate: text("expiration_date"),
+  multiplier: integer("multiplier").notNull().default(1), // 100 for standard option contracts
+  complexOrderId: text("complex_order_id"), // Multi-leg order that opened the position
+  borrowFees: real("borrow_fees").notNull().default(0), // Stock borrow fees charged while short
+  borrowFeesAccruedAt: text("borrow_fees_accrued_at"), // Market date fees are charged through; null unless short stock
   lastUpdated: text("last_updated").notNull(),
 });
 
@@ -133,19 +179,172 @@ export const paperOrders = sqliteTable("paper_orders", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   paperAccountId: integer("paper_account_id").notNull().references(() => paperTradingAccounts.id),
   assetId: integer("asset_id").notNull().references(() => assets.id),
-  orderType: text("order_type").notNull(), // 'market' | 'limit' | 'stop'
+  orderType: text("order_type").notNull(), // 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop', or 'exercise' | 'assignment' | 'expiration' for settlements
   side: text("side").notNull(), // 'buy' | 'sell'
   quantity: integer("quantity").notNull(),
   limitPrice: real("limit_price"),
-  stopPrice: real("stop_price"),
+  stopPrice: real("stop_price"), // Current trigger price; follows the market for trailing stops
+  trailAmount: real("trail_amount"),
+  trailPercent: real("trail_percent"),
+  highWaterMark: real("high_water_mark"), // Best price seen by a trailing stop
+  triggeredAt: text("triggered_at"), // When a stop-limit or trailing stop was triggered
+  timeInForce: text("time_in_force").notNull().default("day"), // 'day' | 'gtc' | 'ioc' | 'fok' | 'opg' | 'cls'
+  expiresAt: text("expires_at"),
   status: text("status").notNull().default("pending"),
   filledQuantity: integer("filled_quantity").notNull().default(0),
   filledPrice: real("filled_price"),
   filledAt: text("filled_at"),
+  orderClass: text("order_class").notNull().default("simple"), // 'simple' | 'bracket' | 'oco' | 'oto' | 'multileg'
+  parentOrderId: integer("parent_order_id"), // Order whose fill activates this one
+  ocoGroupId: text("oco_group_id"), // Orders sharing a group cancel each other on fill
+  // Option contract details; null for stock orders
+  optionSymbol: text("option_symbol"),
+  underlyingSymbol: text("underlying_symbol"),
+  optionType: text("option_type"), // 'call' | 'put'
+  strikePrice: real("strike_price"),
+  expirationDate: text("expiration_date"),
+  multiplier: integer("multiplier").notNull().default(1),
+  complexOrderId: text("complex_order_id"), // Shared by the legs of a multi-leg order
+  lotIds: text("lot_ids"), // JSON array of tax lot ids to relieve first (specific identification)
+  commission: real("commission").notNull().default(0), // Charged so far across the order's fills
+  fees: real("fees").notNull().default(0), // Regulatory and exchange fees charged so far
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
 
+// Responses to order submissions that carried an idempotency key, replayed
+// when the same request is retried
+export const paperOrderRequests = sqliteTable("paper_order_requests", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  paperAccountId: integer("paper_account_id").notNull().references(() => paperTradingAccounts.id),
+  idempotencyKey: text("idempotency_key").notNull(), // Unique per account
+  endpoint: text("endpoint").notNull(), // 'execute' | 'complex'
+  requestHash: text("request_hash").notNull(), // SHA-256 of the request body
+  responseStatus: integer("response_status").notNull(),
+  responseBody: text("response_body").notNull(), // JSON
+  createdAt: text("created_at").notNull(),
+});
+
+// Every change to a paper order: creation, fills, cancels, replaces and
+// group activations, with the order's terms after the change
+export const paperOrderEvents = sqliteTable("paper_order_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  paperOrderId: integer("paper_order_id").notNull().references(() => paperOrders.id),
+  paperAccountId: integer("paper_account_id").notNull().references(() => paperTradingAccounts.id),
+  eventType: text("event_type").notNull(), // 'created' | 'activated' | 'triggered' | 'partially_filled' | 'filled' | 'replaced' | 'updated' | 'canceled' | 'expired' | 'rejected'
+  fromStatus: text("from_status"), // Null when the order was just created
+  toStatus: text("to_status").notNull(),
+  quantity: integer("quantity").notNull(),
+  filledQuantity: integer("filled_quantity").notNull(),
+  limitPrice: real("limit_price"),
+  stopPrice: real("stop_price"),
+  details: text("details"), // JSON, e.g. fill price or the terms a replace changed
+  createdAt: text("created_at").notNull(),
+});
+
+// Append-only record of every change to a paper account's cash, with the
+// balance after it. Statements rebuild balances from these entries.
+export const paperCashLedger = sqliteTable("paper_cash_ledger", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  paperAccountId: integer("paper_account_id").notNull().references(() => paperTradingAccounts.id),
+  entryType: text("entry_type").notNull(), // 'deposit' | 'trade' | 'option_premium' | 'exercise' | 'assignment' | 'commission' | 'fee' | 'borrow_fee' | 'dividend' | 'reset' | 'adjustment'
+  amount: real("amount").notNull(), // Signed: credits above zero, debits below
+  balanceAfter: real("balance_after").notNull(),
+  paperOrderId: integer("paper_order_id").references(() => paperOrders.id),
+  assetId: integer("asset_id").references(() => assets.id),
+  quantity: real("quantity"),
+  price: real("price"),
+  description: text("description").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+// End-of-day mark of each paper account. dailyReturn is time-weighted:
+// deposits and adjustments since the previous snapshot are taken out.
+export const paperEquitySnapshots = sqliteTable("paper_equity_snapshots", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  paperAccountId: integer("paper_account_id").notNull().references(() => paperTradingAccounts.id),
+  runNumber: integer("run_number").notNull().default(1),
+  snapshotDate: text("snapshot_date").notNull(), // Market date, YYYY-MM-DD; one snapshot per account run per day
+  equity: real("equity").notNull(),
+  cash: real("cash").notNull(),
+  positionsValue: real("positions_value").notNull(),
+  longExposure: real("long_exposure").notNull(),
+  shortExposure: real("short_exposure").notNull(), // Absolute market value of short positions
+  netFlow: real("net_flow").notNull().default(0), // External cash added since the previous snapshot
+  dailyReturn: real("daily_return").notNull().default(0),
+  openPositions: integer("open_positions").notNull(),
+  netDelta: real("net_delta"),
+  netGamma: real("net_gamma"),
+  netTheta: real("net_theta"),
+  netVega: real("net_vega"),
+  benchmarkSymbol: text("benchmark_symbol"),
+  benchmarkPrice: real("benchmark_price"),
+  createdAt: text("created_at").notNull(), // When the snapshot was taken
+});
+
+// Tax lots opened by paper fills (paperAccountId set) and by recorded
+// trades (paperAccountId null). Closing fills relieve lots by the account's
+// method and write a realization per lot touched. Paper lots belong to the
+// account run they were opened in; a reset closes the run's open lots and
+// keeps its realizations.
+export const taxLots = sqliteTable("tax_lots", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => user.id),
+  paperAccountId: integer("paper_account_id").references(() => paperTradingAccounts.id),
+  runNumber: integer("run_number"), // Paper account run; null for recorded trades
+  assetId: integer("asset_id").notNull().references(() => assets.id),
+  positionId: integer("position_id").references(() => positions.id), // Option position for recorded trades; null for stock
+  optionSymbol: text("option_symbol"),
+  side: text("side").notNull(), // 'long' | 'short'
+  quantity: integer("quantity").notNull(),
+  remainingQuantity: integer("remaining_quantity").notNull(),
+  openPrice: real("open_price").notNull(), // Per share or contract; cost for longs, proceeds for shorts
+  multiplier: integer("multiplier").notNull().default(1),
+  basisAdjustment: real("basis_adjustment").notNull().default(0), // Wash-sale losses added to the lot's total basis
+  openedAt: text("opened_at").notNull(),
+  closedAt: text("closed_at"),
+  sourceType: text("source_type").notNull(), // 'paper_order' | 'trade'
+  sourceId: integer("source_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const taxLotRealizations = sqliteTable("tax_lot_realizations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  lotId: integer("lot_id").notNull().references(() => taxLots.id),
+  userId: text("user_id").notNull().references(() => user.id),
+  paperAccountId: integer("paper_account_id").references(() => paperTradingAccounts.id),
+  runNumber: integer("run_number"), // Run of the lot closed; null for recorded trades
+  assetId: integer("asset_id").notNull().references(() => assets.id),
+  side: text("side").notNull(), // Side of the lot closed
+  quantity: integer("quantity").notNull(),
+  openedAt: text("opened_at").notNull(),
+  closedAt: text("closed_at").notNull(),
+  proceeds: real("proceeds").notNull(),
+  costBasis: real("cost_basis").notNull(),
+  gain: real("gain").notNull(),
+  disallowedLoss: real("disallowed_loss").notNull().default(0), // Part of a loss deferred by wash sales
+  term: text("term").notNull(), // 'short' | 'long'
+  method: text("method").notNull(), // Relief method that picked the lot
+  sourceType: text("source_type").notNull(), // Closing fill: 'paper_order' | 'trade'
+  sourceId: integer("source_id").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+// A loss realization matched to a replacement lot bought within 30 days of
+// the sale; the disallowed loss moves into the replacement lot's basis
+export const washSales = sqliteTable("wash_sales", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => user.id),
+  paperAccountId: integer("paper_account_id").references(() => paperTradingAccounts.id),
+  realizationId: integer("realization_id").notNull().references(() => taxLotRealizations.id),
+  replacementLotId: integer("replacement_lot_id").notNull().references(() => taxLots.id),
+  quantity: real("quantity").notNull(), // Share equivalents matched (contracts x multiplier)
+  disallowedLoss: real("disallowed_loss").notNull(),
+  saleDate: text("sale_date").notNull(),
+  replacementDate: text("replacement_date").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
 // Risk metrics table
 export const riskMetrics = sqliteTable("risk_metrics", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -162,6 +361,24 @@ export const riskMetrics = sqliteTable("risk_metrics", {
   createdAt: text("created_at").notNull(),
 });
 
+// Pre-trade risk limits set by admins, one row per user; null limits are not enforced
+export const riskLimits = sqliteTable("risk_limits", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull().references(() => user.id),
+  maxOrderNotional: real("max_order_notional"),
+  maxContractsPerLeg: integer("max_contracts_per_leg"),
+  maxConcentrationPercent: real("max_concentration_percent"), // One underlying's gross exposure, % of equity
+  maxPortfolioDelta: real("max_portfolio_delta"), // Net share-equivalent delta
+  maxPortfolioVega: real("max_portfolio_vega"),   // Net dollar vega per vol point
+  restrictedSymbols: text("restricted_symbols"),  // JSON array of symbols and underlyings
+  priceBandPercent: real("price_band_percent"),   // Allowed distance from the last quote
+  maxDailyLoss: real("max_daily_loss"),
+  lockedOn: text("locked_on"), // Market date the daily loss lock tripped
+  updatedBy: text("updated_by"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
 // Alerts table
 export const alerts = sqliteTable("alerts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -433,6 +650,70 @@ export const ivSurfaceSnapshots = sqliteTable("iv_surface_snapshots", {
   createdAt: text("created_at").notNull(),
 });
 
+// Parametric fits of a day's IV surface snapshot: one SVI row per
+// expiration and one SSVI row across expirations
+export const ivSurfaceFits = sqliteTable("iv_surface_fits", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  symbol: text("symbol").notNull(),
+  snapshotDate: text("snapshot_date").notNull(),
+  model: text("model").notNull(), // 'svi' | 'ssvi'
+  expirationDate: text("expiration_date"), // SVI slices only
+  timeToExpiry: real("time_to_expiry"), // Years from the snapshot date, SVI slices only
+  forwardPrice: real("forward_price"), // SVI slices only
+  underlyingPrice: real("underlying_price").notNull(),
+  riskFreeRate: real("risk_free_rate").notNull(),
+  parameters: text("parameters").notNull(), // JSON of the model's parameters
+  points: integer("points").notNull(),
+  rmse: real("rmse").notNull(), // Root mean squared volatility error
+  maxError: real("max_error").notNull(),
+  butterflyArbitrage: integer("butterfly_arbitrage", { mode: "boolean" }).notNull().default(false),
+  calendarArbitrage: integer("calendar_arbitrage", { mode: "boolean" }).notNull().default(false),
+  residuals: text("residuals").notNull(), // JSON of each point's market and fitted volatility
+  createdAt: text("created_at").notNull(),
+});
+
+// Daily volatility summary per underlying: ATM implied volatility, skew
+// and term structure from the day's surface, and realized volatility from
+// daily underlying closes. IV rank and percentile are read off this history.
+export const volatilitySummaries = sqliteTable("volatility_summaries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  symbol: text("symbol").notNull(),
+  summaryDate: text("summary_date").notNull(), // Market date, YYYY-MM-DD
+  source: text("source").notNull(), // 'surface' (fitted) | 'snapshot' (raw points)
+  underlyingPrice: real("underlying_price").notNull(),
+  atmIv30: real("atm_iv_30").notNull(), // At-the-money forward volatility at 30 days
+  skew25: real("skew_25"), // 25-delta put less 25-delta call volatility at 30 days
+  frontExpiration: text("front_expiration"),
+  frontIv: real("front_iv"),
+  backExpiration: text("back_expiration"),
+  backIv: real("back_iv"),
+  termSpread: real("term_spread"), // Front less back ATM volatility
+  realizedVol10: real("realized_vol_10"),
+  realizedVol20: real("realized_vol_20"),
+  realizedVol60: real("realized_vol_60"),
+  createdAt: text("created_at").notNull(),
+});
+
+// Splits, cash dividends and ticker changes. Pending actions are applied
+// to positions, lots, orders and assets once their ex-date arrives.
+export const corporateActions = sqliteTable("corporate_actions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  assetId: integer("asset_id").notNull().references(() => assets.id),
+  symbol: text("symbol").notNull(), // Symbol when the action was announced
+  actionType: text("action_type").notNull(), // 'split' | 'cash_dividend' | 'symbol_change'
+  exDate: text("ex_date").notNull(), // Market date, YYYY-MM-DD, the action takes effect
+  payDate: text("pay_date"),
+  splitRatio: real("split_ratio"), // New shares per old share: 2 for a 2-for-1, 0.1 for a 1-for-10 reverse split
+  cashAmount: real("cash_amount"), // Dividend per share
+  newSymbol: text("new_symbol"),
+  status: text("status").notNull().default("pending"), // 'pending' | 'processed' | 'failed'
+  summary: text("summary"), // JSON of what processing changed
+  errorMessage: text("error_message"),
+  processedAt: text("processed_at"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
 // Market data fetch logs (tracks external data pulls)
 export const marketDataFetches = sqliteTable("market_data_fetches", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -533,6 +814,11 @@ export type NewStrategy = typeof strategies.$inferInsert;
 
 export type RiskMetrics = typeof riskMetrics.$inferSelect;
 export type NewRiskMetrics = typeof riskMetrics.$inferInsert;
+export type RiskLimitsRow = typeof riskLimits.$inferSelect;
+export type CorporateAction = typeof corporateActions.$inferSelect;
+export type IvSurfaceFit = typeof ivSurfaceFits.$inferSelect;
+export type NewIvSurfaceFit = typeof ivSurfaceFits.$inferInsert;
+export type VolatilitySummary = typeof volatilitySummaries.$inferSelect;
 
 export type Alert = typeof alerts.$inferSelect;
 export type NewAlert = typeof alerts.$inferInsert;
@@ -565,4 +851,27 @@ export type MLTrainingRun = typeof mlTrainingRuns.$inferSelect;
 export type NewMLTrainingRun = typeof mlTrainingRuns.$inferInsert;
 
 export type MLPrediction = typeof mlPredictions.$inferSelect;
-export type NewMLPrediction = typeof mlPredictions.$inferInsert;
\ No newline at end of file
+export type NewMLPrediction = typeof mlPredictions.$inferInsert;
+export type PaperTradingAccount = typeof paperTradingAccounts.$inferSelect;
+export type NewPaperTradingAccount = typeof paperTradingAccounts.$inferInsert;
+export type PaperAccountRun = typeof paperAccountRuns.$inferSelect;
+
+export type PaperPosition = typeof paperPositions.$inferSelect;
+export type NewPaperPosition = typeof paperPositions.$inferInsert;
+
+export type PaperOrder = typeof paperOrders.$inferSelect;
+export type NewPaperOrder = typeof paperOrders.$inferInsert;
+export type PaperOrderRequest = typeof paperOrderRequests.$inferSelect;
+
+export type PaperOrderEvent = typeof paperOrderEvents.$inferSelect;
+export type NewPaperOrderEvent = typeof paperOrderEvents.$inferInsert;
+
+export type PaperCashLedgerEntry = typeof paperCashLedger.$inferSelect;
+export type NewPaperCashLedgerEntry = typeof paperCashLedger.$inferInsert;
+
+export type PaperEquitySnapshot = typeof paperEquitySnapshots.$inferSelect;
+
+export type TaxLot = typeof taxLots.$inferSelect;
+export type NewTaxLot = typeof taxLots.$inferInsert;
+export type TaxLotRealization = typeof taxLotRealizations.$inferSelect;
+export type WashSale = typeof washSales.$inferSelect;
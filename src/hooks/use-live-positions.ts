@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from "react";
-import { calculateGreeks } from "@/lib/greeks-calculator";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { calculateGreeks, calculatePortfolioGreeks, underlyingGreeks, type Greeks, type PortfolioGreeks, type PortfolioGreeksPosition } from "@/lib/greeks-calculator";
 
 interface Position {
   id: number;
@@ -8,13 +8,22 @@ interface Position {
   positionType: string;
   quantity: number;
   entryPrice: number;
-  currentPrice: number;
+  currentPrice: number;              // Premium for options, share price for stock
+  underlyingPrice?: number | null;   // Underlying's last price (assets.currentPrice)
+  beta?: number | null;              // Underlying's beta to the benchmark
   strikePrice?: number;
   expirationDate?: string;
+  multiplier?: number;
   delta?: number;
   gamma?: number;
   theta?: number;
   vega?: number;
+  vanna?: number;
+  volga?: number;
+  charm?: number;
+  speed?: number;
+  color?: number;
+  veta?: number;
   iv?: number;
   unrealizedPnl: number;
   status: string;
@@ -28,12 +37,56 @@ interface UseLivePositionsOptions {
 
 interface UseLivePositionsReturn {
   positions: Position[];
+  portfolioGreeks: PortfolioGreeks;
   isLiveUpdating: boolean;
   toggleLiveUpdates: () => void;
   manualRefresh: () => void;
   lastUpdate: Date;
 }
 
+function isOption(position: Position): boolean {
+  return Boolean(position.strikePrice && position.expirationDate);
+}
+
+/**
+ * Underlying price a position's Greeks are taken at: the stock's own price,
+ * or the underlying's for an option. Null for an option without one, since
+ * its premium is not a spot price.
+ */
+function underlyingPriceOf(position: Position): number | null {
+  if (!isOption(position)) return position.currentPrice || position.entryPrice;
+  return position.underlyingPrice || null;
+}
+
+/**
+ * Greeks per contract (or per share for stock) at the given underlying price
+ */
+function positionGreeks(position: Position, spotPrice: number): Greeks {
+  if (!position.strikePrice || !position.expirationDate) {
+    return underlyingGreeks(spotPrice);
+  }
+
+  // Calculate time to expiry in years
+  const expiryDate = new Date(position.expirationDate);
+  const now = new Date();
+  const timeToExpiry = Math.max(
+    (expiryDate.getTime() - now.getTime()) / (365.25 * 24 * 60 * 60 * 1000),
+    0.001 // Minimum 1 day
+  );
+
+  // Determine option type from position type
+  const optionType = position.positionType.toLowerCase().includes("call") ? "call" : "put";
+
+  return calculateGreeks({
+    spotPrice,
+    strikePrice: position.strikePrice,
+    timeToExpiry,
+    riskFreeRate: 0.05,
+    volatility: position.iv || 0.3,
+    optionType,
+  });
+}
+
 /**
  * Hook for managing live position updates with real-time Greeks calculations
  */
@@ -47,50 +100,40 @@ export function useLivePositions({
   const [lastUpdate, setLastUpdate] = useState(new Date());
 
   /**
-   * Calculate live Greeks for a position
+   * Calculate live Greeks for a position at a new underlying price
    */
-  const calculateLiveGreeks = useCallback((position: Position, currentPrice: number): Position => {
+  const calculateLiveGreeks = useCallback((position: Position, spotPrice: number): Position => {
     // For non-options positions, just update price and P&L
-    if (!position.strikePrice || !position.expirationDate) {
+    if (!isOption(position)) {
       return {
         ...position,
-        currentPrice,
-        unrealizedPnl: (currentPrice - position.entryPrice) * position.quantity,
+        currentPrice: spotPrice,
+        unrealizedPnl: (spotPrice - position.entryPrice) * position.quantity,
       };
     }
 
-    // Calculate time to expiry in years
-    const expiryDate = new Date(position.expirationDate);
-    const now = new Date();
-    const timeToExpiry = Math.max(
-      (expiryDate.getTime() - now.getTime()) / (365.25 * 24 * 60 * 60 * 1000),
-      0.001 // Minimum 1 day
-    );
-
-    // Determine option type from position type
-    const optionType = position.positionType.toLowerCase().includes("call") ? "call" : "put";
-
-    // Calculate Greeks
-    const greeks = calculateGreeks({
-      spotPrice: currentPrice,
-      strikePrice: position.strikePrice,
-      timeToExpiry,
-      riskFreeRate: 0.05,
-      volatility: position.iv || 0.3,
-      optionType,
-    });
+    // Greeks and the theoretical premium at the underlying's price
+    const greeks = positionGreeks(position, spotPrice);
+    const currentPrice = greeks.price;
 
     // Calculate unrealized P&L (for options: (current - entry) * quantity * 100)
-    const multiplier = position.strikePrice ? 100 : 1;
+    const multiplier = position.multiplier ?? 100;
     const unrealizedPnl = (currentPrice - position.entryPrice) * position.quantity * multiplier;
 
     return {
       ...position,
       currentPrice,
+      underlyingPrice: spotPrice,
       delta: greeks.delta,
       gamma: greeks.gamma,
       theta: greeks.theta,
       vega: greeks.vega,
+      vanna: greeks.vanna,
+      volga: greeks.volga,
+      charm: greeks.charm,
+      speed: greeks.speed,
+      color: greeks.color,
+      veta: greeks.veta,
       unrealizedPnl,
     };
   }, []);
@@ -101,8 +144,11 @@ export function useLivePositions({
   const updatePositionsWithLivePrices = useCallback(() => {
     setPositions(prev =>
       prev.map(position => {
+        // Options move with their underlying; without its price they are left as fetched
+        const basePrice = underlyingPriceOf(position);
+        if (basePrice === null) return position;
+
         // Simulate price movement (±0.5% random walk)
-        const basePrice = position.currentPrice || position.entryPrice;
         const volatility = 0.01; // 1% volatility
         const priceChange = basePrice * (Math.random() * volatility * 2 - volatility);
         const newPrice = Math.max(0.01, basePrice + priceChange); // Prevent negative prices
@@ -171,6 +217,26 @@ export function useLivePositions({
     return () => clearInterval(apiInterval);
   }, [isLiveUpdating, refreshInterval, fetchPositions]);
 
+  /**
+   * Portfolio Greeks grouped by underlying, recalculated with each price update
+   */
+  const portfolioGreeks = useMemo(() => calculatePortfolioGreeks(
+    positions
+      .filter(position => position.status === "open" && position.quantity !== 0)
+      .flatMap((position): PortfolioGreeksPosition[] => {
+        const spotPrice = underlyingPriceOf(position);
+        if (spotPrice === null) return [];
+        return [{
+          underlyingSymbol: position.symbol ?? String(position.assetId),
+          quantity: position.quantity,
+          multiplier: position.multiplier ?? (isOption(position) ? 100 : 1),
+          spotPrice,
+          beta: position.beta,
+          greeks: positionGreeks(position, spotPrice),
+        }];
+      })
+  ), [positions]);
+
   // Update positions when initialPositions change
   useEffect(() => {
     setPositions(initialPositions);
@@ -178,6 +244,7 @@ export function useLivePositions({
 
   return {
     positions,
+    portfolioGreeks,
     isLiveUpdating,
     toggleLiveUpdates,
     manualRefresh,
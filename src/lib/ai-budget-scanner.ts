@@ -2,6 +2,11 @@
 import { modelService } from './ml/model-service';
 import { featureEngine } from './ml/feature-engine';
 import { getRLAgent } from './rl-agent';
+import { calculateGreeks } from './greeks-calculator';
+import { loadFittedSurface, surfaceVolatility, type FittedSurface } from './iv-surface-fit';
+import { loadVolatilityReport } from './volatility-summary';
+
+const DEFAULT_VOLATILITY = 0.3;
 
 export interface BudgetScanRequest {
   budget: number;
@@ -31,7 +36,7 @@ export interface ContractRecommendation {
   mlSignals: {
     priceTarget: number;
     currentPrice: number;
-    ivRank: number;
+    ivRank: number | null;  // Null without enough stored volatility history
     technicalScore: number;
     volumeLiquidity: string;
   };
@@ -70,7 +75,7 @@ interface StockCandidate {
   priceTarget: number;
   confidence: number;
   technicalScore: number;
-  ivRank: number;
+  ivRank: number | null;
 }
 
 interface OptionsContract {
@@ -237,13 +242,16 @@ class AIBudgetScanner {
     const direction = Math.random() > 0.5 ? 1 : -1;
     const priceTarget = basePrice * (1 + (direction * multiplier * (0.5 + Math.random() * 0.5)));
 
+    // IV rank from the stored daily summaries; null without enough history
+    const report = await loadVolatilityReport(symbol);
+
     return {
       symbol,
       currentPrice: basePrice,
       priceTarget,
       confidence: 0.65 + Math.random() * 0.25, // 65-90% confidence
       technicalScore: 0.60 + Math.random() * 0.30, // 60-90% score
-      ivRank: Math.random() * 100 // 0-100
+      ivRank: report?.ivRank ?? null // 0-100
     };
   }
 
@@ -281,7 +289,8 @@ class AIBudgetScanner {
   }
 
   /**
-   * Get options chain for a stock (simulated - in production, call Alpaca API)
+   * Get options chain for a stock (simulated - in production, call Alpaca API),
+   * priced off the stock's fitted volatility surface when one is stored
    */
   private async getOptionsChain(
     stock: StockCandidate,
@@ -296,9 +305,10 @@ class AIBudgetScanner {
 
     // Generate strike prices around current price
     const strikes = this.generateStrikes(stock.currentPrice, type);
+    const surface = await loadFittedSurface(stock.symbol);
 
     for (const strike of strikes) {
-      const contract = this.generateContract(stock, strike, expirationDate, type);
+      const contract = this.generateContract(stock, strike, expirationDate, type, surface);
       contracts.push(contract);
     }
 
@@ -355,12 +365,47 @@ class AIBudgetScanner {
     stock: StockCandidate,
     strike: number,
     expiration: string,
-    type: 'call' | 'put'
+    type: 'call' | 'put',
+    surface: FittedSurface | null = null
   ): OptionsContract {
     const daysToExpiry = Math.max(1, Math.floor(
       (new Date(expiration).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
     ));
 
+    // Read the surface at the same moneyness, since the scan's prices are simulated
+    const fitted = surface && surfaceVolatility(surface, {
+      strikePrice: strike * surface.underlyingPrice / stock.currentPrice,
+      expirationDate: expiration,
+    });
+    if (fitted) {
+      const greeks = calculateGreeks({
+        spotPrice: stock.currentPrice,
+        strikePrice: strike,
+        timeToExpiry: daysToExpiry / 365,
+        volatility: fitted.volatility,
+        riskFreeRate: 0.05,
+        optionType: type,
+      });
+      const spread = Math.max(0.05, greeks.price * 0.02);
+
+      return {
+        symbol: stock.symbol,
+        strikePrice: strike,
+        expirationDate: expiration,
+        type,
+        price: Math.max(0.10, greeks.price),
+        bid: Math.max(0.05, greeks.price - spread),
+        ask: greeks.price + spread,
+        volume: Math.floor(Math.random() * 10000) + 1000,
+        openInterest: Math.floor(Math.random() * 50000) + 5000,
+        impliedVolatility: fitted.volatility,
+        delta: greeks.delta,
+        gamma: greeks.gamma,
+        theta: greeks.theta,
+        vega: greeks.vega
+      };
+    }
+
     // Calculate moneyness
     const moneyness = type === 'call' 
       ? (strike - stock.currentPrice) / stock.currentPrice
@@ -391,7 +436,7 @@ class AIBudgetScanner {
       ask: price + 0.15,
       volume: Math.floor(Math.random() * 10000) + 1000,
       openInterest: Math.floor(Math.random() * 50000) + 5000,
-      impliedVolatility: stock.ivRank / 100 * 0.8,
+      impliedVolatility: stock.ivRank !== null ? stock.ivRank / 100 * 0.8 : DEFAULT_VOLATILITY,
       delta,
       gamma: 0.05 * Math.exp(-Math.abs(moneyness) * 2),
       theta: -price / daysToExpiry * 0.3,
@@ -530,9 +575,11 @@ class AIBudgetScanner {
     const returnScore = Math.min(1, Math.max(0, expectedReturn / allocation + 0.5));
     const winScore = winProbability;
     const liquidityScore = Math.min(1, contract.volume / 10000);
-    const ivScore = request.riskTolerance === 'low' 
-      ? (100 - stock.ivRank) / 100  // Low IV preferred
-      : stock.ivRank / 100;           // High IV preferred
+    const ivScore = stock.ivRank === null
+      ? null
+      : request.riskTolerance === 'low'
+        ? (100 - stock.ivRank) / 100  // Low IV preferred
+        : stock.ivRank / 100;           // High IV preferred
     const riskRewardScore = expectedReturn > 0 ? Math.min(1, expectedReturn / allocation) : 0;
 
     const totalScore = 
@@ -540,10 +587,11 @@ class AIBudgetScanner {
       weights.expectedReturn * returnScore +
       weights.winProbability * winScore +
       weights.liquidity * liquidityScore +
-      weights.ivRank * ivScore +
+      weights.ivRank * (ivScore ?? 0) +
       weights.riskReward * riskRewardScore;
 
-    return totalScore;
+    // Without an IV rank the other factors carry its weight
+    return ivScore === null ? totalScore / (1 - weights.ivRank) : totalScore;
   }
 
   /**
@@ -563,9 +611,9 @@ class AIBudgetScanner {
       `ML predicts ${Math.abs(parseFloat(movePercent))}% ${moveDirection} to $${stock.priceTarget.toFixed(2)}`
     );
 
-    if (stock.ivRank < 30) {
+    if (stock.ivRank !== null && stock.ivRank < 30) {
       reasoning.push('IV Rank at ' + stock.ivRank.toFixed(0) + '% - good entry for buying options');
-    } else if (stock.ivRank > 70) {
+    } else if (stock.ivRank !== null && stock.ivRank > 70) {
       reasoning.push('IV Rank at ' + stock.ivRank.toFixed(0) + '% - elevated volatility');
     }
 
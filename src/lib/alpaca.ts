@@ -201,7 +201,8 @@ export async function fetchHistoricalBars(
   symbol: string,
   timeframe: "1Min" | "5Min" | "15Min" | "1Hour" | "1Day" = "1Day",
   startDate: string,
-  endDate?: string
+  endDate?: string,
+  adjustment: "raw" | "split" | "all" = "raw"
 ) {
   try {
     const url = new URL(`${ALPACA_BASE_URL}/v2/stocks/${symbol}/bars`);
@@ -210,6 +211,7 @@ export async function fetchHistoricalBars(
     if (endDate) {
       url.searchParams.append("end", endDate);
     }
+    url.searchParams.append("adjustment", adjustment);
     url.searchParams.append("limit", "10000");
 
     const response = await fetch(url.toString(), {
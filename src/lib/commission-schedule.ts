@@ -0,0 +1,209 @@
+/**
+ * Commission Schedule
+ * Broker commissions and pass-through fees charged on simulated
+ * executions, shared by the paper engine, complex orders, recorded trades
+ * and the backtesting engine:
+ * - Commission: a flat fee per order, a rate per share for stock and per
+ *   contract for options, a minimum per order and optional caps (flat or a
+ *   percentage of trade value). Each leg of a complex order is its own
+ *   order, so minimums and caps apply per leg.
+ * - Regulatory fees: SEC Section 31 and FINRA TAF on sells, the Options
+ *   Regulatory Fee and OCC clearing fee on every option contract.
+ * - Exchange fees per share or contract.
+ * Fees accrue fill by fill, so an order filled in pieces pays the same as
+ * one filled at once.
+ */
+
+export interface CommissionSchedule {
+  perOrder: number;            // Flat fee per order
+  perShare: number;            // Stock, per share
+  perContract: number;         // Options, per contract
+  minimum: number;             // Minimum commission per order
+  maximum: number;             // Cap on the commission per order, 0 for none
+  maximumPercent: number;      // Cap as a percentage of trade value, 0 for none
+  secFeeRate: number;          // SEC fee per dollar of sale proceeds
+  tafPerShare: number;         // FINRA TAF on stock sells, per share
+  tafPerContract: number;      // FINRA TAF on option sells, per contract
+  tafMaximum: number;          // Cap on the TAF per order, 0 for none
+  orfPerContract: number;      // Options Regulatory Fee, per contract
+  occPerContract: number;      // OCC clearing fee, per contract
+  occMaximum: number;          // Cap on the OCC fee per order, 0 for none
+  exchangePerShare: number;    // Exchange fee, per share
+  exchangePerContract: number; // Exchange fee, per contract
+}
+
+export interface FeeableExecution {
+  side: 'buy' | 'sell';
+  quantity: number;     // Shares or contracts
+  price: number;        // Per share, or per contract before the multiplier
+  isOption: boolean;
+  multiplier?: number;  // Options; defaults to 100
+}
+
+export interface ExecutionFees {
+  commission: number;
+  secFee: number;
+  tafFee: number;
+  orfFee: number;
+  occFee: number;
+  exchangeFee: number;
+  fees: number;         // Everything but the commission
+  total: number;
+}
+
+// Commission-free, as the paper engine has always been
+export const DEFAULT_COMMISSION_SCHEDULE: CommissionSchedule = {
+  perOrder: 0,
+  perShare: 0,
+  perContract: 0,
+  minimum: 0,
+  maximum: 0,
+  maximumPercent: 0,
+  secFeeRate: 0,
+  tafPerShare: 0,
+  tafPerContract: 0,
+  tafMaximum: 0,
+  orfPerContract: 0,
+  occPerContract: 0,
+  occMaximum: 0,
+  exchangePerShare: 0,
+  exchangePerContract: 0,
+};
+
+// Published regulatory rates at the time of writing; they change a few
+// times a year, so schedules can override each one
+export const REGULATORY_FEES: Pick<
+  CommissionSchedule,
+  'secFeeRate' | 'tafPerShare' | 'tafPerContract' | 'tafMaximum' | 'orfPerContract' | 'occPerContract' | 'occMaximum'
+> = {
+  secFeeRate: 0.0000278,
+  tafPerShare: 0.000166,
+  tafPerContract: 0.00279,
+  tafMaximum: 8.30,
+  orfPerContract: 0.02295,
+  occPerContract: 0.02,
+  occMaximum: 55,
+};
+
+// Schedules modeled after common broker pricing
+export const COMMISSION_PRESETS: Record<string, CommissionSchedule> = {
+  // No commission or fees
+  zero: DEFAULT_COMMISSION_SCHEDULE,
+  // Commission-free stock, flat per-contract options pricing
+  retail: {
+    ...DEFAULT_COMMISSION_SCHEDULE,
+    ...REGULATORY_FEES,
+    perContract: 0.65,
+  },
+  // Per-share stock pricing with a minimum and a 1% cap, per-contract
+  // options with a minimum, exchange fees passed through
+  per_share: {
+    ...DEFAULT_COMMISSION_SCHEDULE,
+    ...REGULATORY_FEES,
+    perShare: 0.005,
+    perContract: 0.65,
+    minimum: 1,
+    maximumPercent: 1,
+    exchangePerShare: 0.003,
+    exchangePerContract: 0.2,
+  },
+};
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// A cap of 0 means none
+function capped(value: number, cap: number): number {
+  return cap > 0 ? Math.min(value, cap) : value;
+}
+
+/**
+ * Commission and fees for an order once `quantity` of it has filled at an
+ * average of `price`
+ */
+export function executionFees(schedule: CommissionSchedule, execution: FeeableExecution): ExecutionFees {
+  const { side, quantity, price, isOption } = execution;
+
+  if (quantity <= 0) {
+    return { commission: 0, secFee: 0, tafFee: 0, orfFee: 0, occFee: 0, exchangeFee: 0, fees: 0, total: 0 };
+  }
+
+  const tradeValue = Math.abs(price) * quantity * (isOption ? execution.multiplier ?? 100 : 1);
+  const isSell = side === 'sell';
+
+  const variable = quantity * (isOption ? schedule.perContract : schedule.perShare);
+  let commission = Math.max(schedule.perOrder + variable, schedule.minimum);
+  commission = capped(commission, schedule.maximum);
+  if (schedule.maximumPercent > 0) {
+    commission = Math.min(commission, tradeValue * schedule.maximumPercent / 100);
+  }
+
+  const secFee = isSell ? tradeValue * schedule.secFeeRate : 0;
+  const tafFee = isSell
+    ? capped(quantity * (isOption ? schedule.tafPerContract : schedule.tafPerShare), schedule.tafMaximum)
+    : 0;
+  const orfFee = isOption ? quantity * schedule.orfPerContract : 0;
+  const occFee = isOption ? capped(quantity * schedule.occPerContract, schedule.occMaximum) : 0;
+  const exchangeFee = quantity * (isOption ? schedule.exchangePerContract : schedule.exchangePerShare);
+
+  const result = {
+    commission: roundCents(commission),
+    secFee: roundCents(secFee),
+    tafFee: roundCents(tafFee),
+    orfFee: roundCents(orfFee),
+    occFee: roundCents(occFee),
+    exchangeFee: roundCents(exchangeFee),
+  };
+  const fees = result.secFee + result.tafFee + result.orfFee + result.occFee + result.exchangeFee;
+
+  return { ...result, fees: roundCents(fees), total: roundCents(result.commission + fees) };
+}
+
+/**
+ * Validate an untrusted commission schedule (request body or stored JSON).
+ * Accepts a preset name, or an object whose optional `preset` supplies the
+ * starting values for the fields it leaves out; otherwise missing fields
+ * are zero.
+ */
+export function parseCommissionSchedule(raw: any): { schedule: CommissionSchedule } | { error: string } {
+  if (typeof raw === 'string') raw = { preset: raw };
+
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'commissionSchedule must be an object or preset name' };
+  }
+
+  let base = DEFAULT_COMMISSION_SCHEDULE;
+  if (raw.preset !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(COMMISSION_PRESETS, raw.preset)) {
+      return { error: `commissionSchedule.preset must be one of: ${Object.keys(COMMISSION_PRESETS).join(', ')}` };
+    }
+    base = COMMISSION_PRESETS[raw.preset];
+  }
+
+  const schedule = { ...base };
+  for (const field of Object.keys(DEFAULT_COMMISSION_SCHEDULE) as (keyof CommissionSchedule)[]) {
+    const value = raw[field] ?? base[field];
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      return { error: `commissionSchedule.${field} must be a non-negative number` };
+    }
+    schedule[field] = value;
+  }
+
+  return { schedule };
+}
+
+/**
+ * Read a commission schedule stored as JSON, falling back to the default
+ * when it is missing or invalid
+ */
+export function loadCommissionSchedule(stored: string | null | undefined): CommissionSchedule {
+  if (!stored) return DEFAULT_COMMISSION_SCHEDULE;
+
+  try {
+    const parsed = parseCommissionSchedule(JSON.parse(stored));
+    return 'schedule' in parsed ? parsed.schedule : DEFAULT_COMMISSION_SCHEDULE;
+  } catch {
+    return DEFAULT_COMMISSION_SCHEDULE;
+  }
+}
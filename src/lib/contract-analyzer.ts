@@ -2,6 +2,15 @@
 import { featureEngine } from './ml/feature-engine';
 import { modelService } from './ml/model-service';
 import { alpacaOptionsData, getDataSourceInfo, type DataSourceInfo } from './alpaca-options-data';
+import { calculateGreeks as optionGreeks, impliedVolatility, type ImpliedVolatilityInput } from './greeks-calculator';
+import { loadFittedSurface, surfaceVolatility } from './iv-surface-fit';
+import { loadVolatilityReport, type VolatilityReport } from './volatility-summary';
+
+const RISK_FREE_RATE = 0.05;
+// Listed equity options exercise American-style
+const PRICING_MODEL = 'binomial';
+// Volatility assumed when there is no price to solve from
+const DEFAULT_VOLATILITY = 0.3;
 
 export interface ContractAnalysisRequest {
   symbol: string;
@@ -57,6 +66,7 @@ export interface ContractAnalysisResult {
     gamma: number;
     theta: number;
     vega: number;
+    earlyExercisePremium?: number; // Value of American exercise over the European price
     explanation: {
       delta: string;
       theta: string;
@@ -66,9 +76,10 @@ export interface ContractAnalysisResult {
   
   volatility: {
     impliedVolatility: number;
-    ivRank: number;
-    ivPercentile: number;
-    historicalVolatility: number;
+    source: 'market' | 'solved' | 'surface' | 'assumed'; // Provider's figure, solved from the contract price, read from the fitted surface, or the default
+    ivRank: number | null;                // From the stored daily summaries; null without enough history
+    ivPercentile: number | null;
+    historicalVolatility: number | null;  // 20-day realized volatility of the underlying
     evaluation: 'underpriced' | 'fairly-priced' | 'overpriced';
   };
   
@@ -119,7 +130,15 @@ class ContractAnalyzer {
     }
     
     // Try to get real contract data from Alpaca
-    let contractPrice: number;
+    const pricingInput: ImpliedVolatilityInput = {
+      spotPrice: stockPrice,
+      strikePrice: request.strikePrice,
+      timeToExpiry: this.yearsToExpiry(request.expirationDate),
+      riskFreeRate: RISK_FREE_RATE,
+      optionType: request.optionType,
+      model: PRICING_MODEL
+    };
+    let contractPrice: number | null = null;
     let realGreeks: any = null;
     let realIV: number | null = null;
     
@@ -139,25 +158,41 @@ class ContractAnalyzer {
           theta: alpacaContract.theta,
           vega: alpacaContract.vega
         };
-        realIV = alpacaContract.impliedVolatility;
+        realIV = alpacaContract.impliedVolatility || null;
         console.log(`✅ Using live Alpaca contract data: $${contractPrice}`);
       } else {
-        contractPrice = request.contractPrice || this.estimateContractPrice(
-          stockPrice,
-          request.strikePrice,
-          request.expirationDate,
-          request.optionType
-        );
-        console.log(`⚠️ Contract not found in Alpaca, using estimated price: $${contractPrice}`);
+        console.log(`⚠️ Contract not found in Alpaca`);
       }
     } else {
-      contractPrice = request.contractPrice || this.estimateContractPrice(
-        stockPrice,
-        request.strikePrice,
-        request.expirationDate,
-        request.optionType
-      );
-      console.log(`⚠️ Alpaca not configured, using estimated price: $${contractPrice}`);
+      console.log(`⚠️ Alpaca not configured`);
+    }
+    contractPrice = contractPrice || request.contractPrice || null;
+    
+    // Volatility: the provider's, else implied by the contract price, else
+    // the fitted surface's, else assumed; without a price it is theoretical
+    let iv: number;
+    let ivSource: 'market' | 'solved' | 'surface' | 'assumed';
+    const solved = contractPrice ? impliedVolatility(contractPrice, pricingInput) : null;
+    const surface = realIV || solved?.volatility ? null : await loadFittedSurface(request.symbol);
+    const fitted = surface ? surfaceVolatility(surface, request) : null;
+    if (realIV) {
+      iv = realIV;
+      ivSource = 'market';
+    } else if (solved?.volatility) {
+      iv = solved.volatility;
+      ivSource = 'solved';
+    } else if (fitted) {
+      iv = fitted.volatility;
+      ivSource = 'surface';
+    } else {
+      iv = DEFAULT_VOLATILITY;
+      ivSource = 'assumed';
+      if (solved) console.log(`⚠️ No implied volatility for $${contractPrice} (${solved.reason}), assuming ${DEFAULT_VOLATILITY}`);
+    }
+    
+    if (!contractPrice) {
+      contractPrice = Math.max(0.01, optionGreeks({ ...pricingInput, volatility: iv }).price);
+      console.log(`⚠️ Using theoretical price at ${Math.round(iv * 100)}% IV: $${contractPrice}`);
     }
     
     const quantity = request.quantity || 1;
@@ -181,14 +216,8 @@ class ContractAnalyzer {
       request.optionType,
       quantity
     );
-    const greeks = realGreeks || this.calculateGreeks(
-      stockPrice,
-      request.strikePrice,
-      request.expirationDate,
-      request.optionType,
-      contractPrice
-    );
-    const volatility = this.analyzeVolatility(request.symbol, contractPrice, request.expirationDate);
+    const greeks = realGreeks || this.calculateGreeks({ ...pricingInput, volatility: iv });
+    const volatility = this.analyzeVolatility(iv, ivSource, await loadVolatilityReport(request.symbol));
     const timeAnalysis = this.analyzeTime(request.expirationDate, greeks.theta, contractPrice);
     const recommendation = this.generateRecommendation(
       probabilities,
@@ -257,31 +286,8 @@ class ContractAnalyzer {
     return prices[symbol] || 100;
   }
   
-  private estimateContractPrice(
-    stockPrice: number,
-    strikePrice: number,
-    expirationDate: string,
-    optionType: 'call' | 'put'
-  ): number {
-    const daysToExpiry = Math.max(1, Math.floor(
-      (new Date(expirationDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-    ));
-    
-    // Calculate moneyness
-    const moneyness = optionType === 'call'
-      ? (strikePrice - stockPrice) / stockPrice
-      : (stockPrice - strikePrice) / stockPrice;
-    
-    // Intrinsic value
-    const intrinsic = optionType === 'call'
-      ? Math.max(0, stockPrice - strikePrice)
-      : Math.max(0, strikePrice - stockPrice);
-    
-    // Time value
-    const timeValue = (stockPrice * 0.02 * Math.sqrt(daysToExpiry / 365)) * 
-                     Math.exp(-Math.abs(moneyness) * 2);
-    
-    return Math.max(0.10, intrinsic + timeValue);
+  private yearsToExpiry(expirationDate: string): number {
+    return Math.max(0, new Date(expirationDate).getTime() - Date.now()) / (365.25 * 24 * 60 * 60 * 1000);
   }
   
   private async analyzeStock(symbol: string, expirationDate: string): Promise<any> {
@@ -393,38 +399,16 @@ class ContractAnalyzer {
     };
   }
   
-  private calculateGreeks(
-    stockPrice: number,
-    strikePrice: number,
-    expirationDate: string,
-    optionType: 'call' | 'put',
-    contractPrice: number
-  ): any {
-    const daysToExpiry = Math.max(1, Math.floor(
-      (new Date(expirationDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-    ));
-    
-    const moneyness = Math.abs(strikePrice - stockPrice) / stockPrice;
-    
-    // Delta
-    const delta = optionType === 'call'
-      ? 0.30 + (0.50 * Math.exp(-moneyness * 3))
-      : -(0.30 + (0.50 * Math.exp(-moneyness * 3)));
-    
-    // Gamma
-    const gamma = 0.05 * Math.exp(-moneyness * 2);
-    
-    // Theta (time decay per day)
-    const theta = -(contractPrice / daysToExpiry) * 0.3;
-    
-    // Vega
-    const vega = stockPrice * 0.01 * Math.sqrt(daysToExpiry / 365);
+  private calculateGreeks(input: ImpliedVolatilityInput & { volatility: number }): any {
+    const { delta, gamma, theta, vega, earlyExercisePremium } = optionGreeks(input);
+    const optionType = input.optionType;
     
     return {
       delta: Math.round(delta * 1000) / 1000,
       gamma: Math.round(gamma * 1000) / 1000,
       theta: Math.round(theta * 100) / 100,
       vega: Math.round(vega * 100) / 100,
+      earlyExercisePremium,
       explanation: {
         delta: `For every $1 move in ${optionType === 'call' ? 'up' : 'down'}, option gains ~$${Math.abs(delta).toFixed(2)}`,
         theta: `Loses ~$${Math.abs(theta).toFixed(2)} per day due to time decay`,
@@ -433,27 +417,39 @@ class ContractAnalyzer {
     };
   }
   
-  private analyzeVolatility(symbol: string, contractPrice: number, expirationDate: string): any {
-    // Simulated volatility analysis
-    const ivRank = Math.random() * 100;
-    const ivPercentile = Math.random() * 100;
-    const impliedVolatility = 0.20 + Math.random() * 0.60;
-    const historicalVolatility = impliedVolatility * (0.8 + Math.random() * 0.4);
-    
-    let evaluation: 'underpriced' | 'fairly-priced' | 'overpriced';
-    if (impliedVolatility < historicalVolatility * 0.9) {
-      evaluation = 'underpriced';
-    } else if (impliedVolatility > historicalVolatility * 1.1) {
-      evaluation = 'overpriced';
-    } else {
-      evaluation = 'fairly-priced';
+  private analyzeVolatility(
+    impliedVolatility: number,
+    source: 'market' | 'solved' | 'surface' | 'assumed',
+    report: VolatilityReport | null
+  ): any {
+    // Rank and realized volatility come from the underlying's daily summary;
+    // the contract's IV is judged against realized volatility, else against
+    // its own history, else left as fairly priced
+    const ivRank = report?.ivRank ?? null;
+    const ivPercentile = report?.ivPercentile ?? null;
+    const historicalVolatility = report?.summary.realizedVol20 ?? null;
+    
+    let evaluation: 'underpriced' | 'fairly-priced' | 'overpriced' = 'fairly-priced';
+    if (historicalVolatility) {
+      if (impliedVolatility < historicalVolatility * 0.9) {
+        evaluation = 'underpriced';
+      } else if (impliedVolatility > historicalVolatility * 1.1) {
+        evaluation = 'overpriced';
+      }
+    } else if (ivRank !== null) {
+      if (ivRank < 30) {
+        evaluation = 'underpriced';
+      } else if (ivRank > 70) {
+        evaluation = 'overpriced';
+      }
     }
     
     return {
       impliedVolatility: Math.round(impliedVolatility * 100),
-      ivRank: Math.round(ivRank),
-      ivPercentile: Math.round(ivPercentile),
-      historicalVolatility: Math.round(historicalVolatility * 100),
+      source,
+      ivRank: ivRank !== null ? Math.round(ivRank) : null,
+      ivPercentile: ivPercentile !== null ? Math.round(ivPercentile) : null,
+      historicalVolatility: historicalVolatility !== null ? Math.round(historicalVolatility * 100) : null,
       evaluation
     };
   }
@@ -0,0 +1,685 @@
+/**
+ * Corporate Actions
+ * Splits, cash dividends and ticker changes, applied once their ex-date
+ * arrives:
+ * - Splits scale share quantities, cost basis and prices by the ratio,
+ *   paying fractional shares out as cash in lieu. Options follow OCC
+ *   practice: whole-number forward splits multiply the contracts and
+ *   divide the strike; any other ratio keeps the contract count and
+ *   changes the deliverable (the multiplier) instead. Open paper orders on
+ *   the stock and its options are canceled.
+ * - Cash dividends credit long paper stock positions and debit shorts.
+ * - Ticker changes rename the asset, its option contracts and their
+ *   stored quotes.
+ * Price history is split-adjusted when read: bars before a split's
+ * ex-date are divided by its ratio and their volume multiplied.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import {
+  corporateActions,
+  assets,
+  paperPositions,
+  paperOrders,
+  paperTradingAccounts,
+  positions,
+  taxLots,
+  optionsQuotes,
+} from '@/db/schema';
+import type { CorporateAction, PaperPosition } from '@/db/schema';
+import { eq, and, ne, gt, lte, asc, isNull, isNotNull, inArray, or, like } from 'drizzle-orm';
+import { runAtomically, cancelOrder, updateAccountValuation } from '@/lib/paper-trading/order-execution';
+import { OPEN_ORDER_STATUSES } from '@/lib/paper-trading/order-groups';
+import { recordCashEntry } from '@/lib/paper-trading/cash-ledger';
+import { marketDate } from '@/lib/paper-trading/market-session';
+import { parseOccSymbol, formatOccSymbol, resolveContractAsset } from '@/lib/paper-trading/option-contracts';
+
+export const CORPORATE_ACTION_TYPES = ['split', 'cash_dividend', 'symbol_change'] as const;
+export type CorporateActionType = typeof CORPORATE_ACTION_TYPES[number];
+
+export interface CorporateActionInput {
+  actionType: CorporateActionType;
+  exDate: string;
+  payDate: string | null;
+  splitRatio: number | null;
+  cashAmount: number | null;
+  newSymbol: string | null;
+}
+
+export interface CorporateActionSummary {
+  paperPositions: number;     // Paper positions adjusted or paid
+  recordedPositions: number;
+  taxLots: number;
+  canceledOrders: number;
+  cashInLieu: number;         // Paid for fractional shares, net across accounts
+  dividends: number;          // Credited to longs less debited from shorts
+  renamedContracts: number;
+  unadjusted: string[];       // Holdings left for a manual adjustment
+}
+
+export interface CorporateActionResult {
+  actionId: number;
+  symbol: string;
+  actionType: string;
+  exDate: string;
+  status: 'processed' | 'failed';
+  summary?: CorporateActionSummary;
+  error?: string;
+}
+
+export interface PriceBar {
+  t: string;   // Bar start, ISO timestamp
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  vw?: number;
+}
+
+export interface SplitEvent {
+  exDate: string;
+  splitRatio: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Roots an OCC option symbol can carry
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.]{0,5}$/;
+// Share counts closer than this to a whole number are that number
+const SHARE_TOLERANCE = 1e-6;
+
+/**
+ * Validate an untrusted corporate action (request body)
+ */
+export function parseCorporateAction(raw: any): { action: CorporateActionInput } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'Corporate action must be an object' };
+  }
+
+  const { actionType, exDate, payDate } = raw;
+  if (!CORPORATE_ACTION_TYPES.includes(actionType)) {
+    return { error: `actionType must be one of: ${CORPORATE_ACTION_TYPES.join(', ')}` };
+  }
+  if (typeof exDate !== 'string' || !DATE_PATTERN.test(exDate)) {
+    return { error: 'exDate must be a YYYY-MM-DD date' };
+  }
+  if (payDate !== undefined && payDate !== null && (typeof payDate !== 'string' || !DATE_PATTERN.test(payDate))) {
+    return { error: 'payDate must be a YYYY-MM-DD date' };
+  }
+
+  const action: CorporateActionInput = {
+    actionType,
+    exDate,
+    payDate: payDate ?? null,
+    splitRatio: null,
+    cashAmount: null,
+    newSymbol: null,
+  };
+
+  switch (actionType as CorporateActionType) {
+    case 'split': {
+      const ratio = Number(raw.splitRatio);
+      if (!isFinite(ratio) || ratio <= 0 || ratio === 1) {
+        return { error: 'splitRatio must be a positive number other than 1 (new shares per old share)' };
+      }
+      action.splitRatio = ratio;
+      break;
+    }
+    case 'cash_dividend': {
+      const amount = Number(raw.cashAmount);
+      if (!isFinite(amount) || amount <= 0) {
+        return { error: 'cashAmount must be a positive amount per share' };
+      }
+      action.cashAmount = amount;
+      break;
+    }
+    case 'symbol_change': {
+      const newSymbol = typeof raw.newSymbol === 'string' ? raw.newSymbol.trim().toUpperCase() : '';
+      if (!SYMBOL_PATTERN.test(newSymbol)) {
+        return { error: 'newSymbol must be a ticker of up to 6 characters' };
+      }
+      action.newSymbol = newSymbol;
+      break;
+    }
+  }
+
+  return { action };
+}
+
+/**
+ * Whether a split is handled by multiplying option contracts (2-for-1,
+ * 3-for-1, ...) rather than by changing their deliverable
+ */
+export function isStandardOptionSplit(ratio: number): boolean {
+  return ratio > 1 && Number.isInteger(ratio);
+}
+
+// Whole shares after a split, rounded toward zero, and the fraction left over
+function splitShares(quantity: number, ratio: number): { whole: number; fraction: number } {
+  const scaled = Math.round(quantity * ratio / SHARE_TOLERANCE) * SHARE_TOLERANCE;
+  const whole = Math.trunc(scaled);
+  return { whole, fraction: scaled - whole };
+}
+
+function emptySummary(): CorporateActionSummary {
+  return {
+    paperPositions: 0,
+    recordedPositions: 0,
+    taxLots: 0,
+    canceledOrders: 0,
+    cashInLieu: 0,
+    dividends: 0,
+    renamedContracts: 0,
+    unadjusted: [],
+  };
+}
+
+function splitLabel(ratio: number): string {
+  return ratio >= 1 ? `${ratio}-for-1` : `1-for-${Math.round(1 / ratio * 1000) / 1000}`;
+}
+
+/**
+ * Apply every pending action whose ex-date is on or before the market
+ * date of `asOf`, oldest first. Each action is applied in its own
+ * transaction; one that fails is marked failed and the rest still run.
+ */
+export async function processCorporateActions(asOf: Date = new Date()): Promise<{
+  asOf: string;
+  results: CorporateActionResult[];
+}> {
+  const timestamp = asOf.toISOString();
+
+  const due = await db.select()
+    .from(corporateActions)
+    .where(and(
+      eq(corporateActions.status, 'pending'),
+      lte(corporateActions.exDate, marketDate(asOf))
+    ))
+    .orderBy(asc(corporateActions.exDate), asc(corporateActions.id));
+
+  const results: CorporateActionResult[] = [];
+
+  for (const action of due) {
+    const result = { actionId: action.id, symbol: action.symbol, actionType: action.actionType, exDate: action.exDate };
+
+    try {
+      const summary = await runAtomically(async (tx) => {
+        const summary = await applyCorporateAction(action, timestamp, tx);
+        await tx.update(corporateActions)
+          .set({
+            status: 'processed',
+            summary: JSON.stringify(summary),
+            errorMessage: null,
+            processedAt: timestamp,
+            updatedAt: timestamp,
+          })
+          .where(eq(corporateActions.id, action.id));
+        return summary;
+      });
+      results.push({ ...result, status: 'processed', summary });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await db.update(corporateActions)
+        .set({ status: 'failed', errorMessage: message, updatedAt: timestamp })
+        .where(eq(corporateActions.id, action.id));
+      results.push({ ...result, status: 'failed', error: message });
+    }
+  }
+
+  return { asOf: timestamp, results };
+}
+
+async function applyCorporateAction(
+  action: CorporateAction,
+  timestamp: string,
+  tx: DbExecutor
+): Promise<CorporateActionSummary> {
+  const asset = await tx.select()
+    .from(assets)
+    .where(eq(assets.id, action.assetId))
+    .limit(1);
+
+  if (asset.length === 0) {
+    throw new Error(`Asset ${action.assetId} not found`);
+  }
+
+  switch (action.actionType) {
+    case 'split':
+      return applySplit(asset[0].id, asset[0].symbol, asset[0].currentPrice, action.splitRatio!, timestamp, tx);
+    case 'cash_dividend':
+      return applyDividend(asset[0].id, asset[0].symbol, action.cashAmount!, timestamp, tx);
+    case 'symbol_change':
+      return applySymbolChange(asset[0].id, asset[0].symbol, action.newSymbol!, timestamp, tx);
+    default:
+      throw new Error(`Unknown corporate action type: ${action.actionType}`);
+  }
+}
+
+async function applySplit(
+  assetId: number,
+  symbol: string,
+  currentPrice: number | null,
+  ratio: number,
+  timestamp: string,
+  tx: DbExecutor
+): Promise<CorporateActionSummary> {
+  const summary = emptySummary();
+  const label = splitLabel(ratio);
+
+  // Working orders were priced and sized for the old shares
+  const open = await tx.select({ id: paperOrders.id })
+    .from(paperOrders)
+    .where(and(
+      inArray(paperOrders.status, OPEN_ORDER_STATUSES),
+      or(eq(paperOrders.assetId, assetId), eq(paperOrders.underlyingSymbol, symbol))
+    ));
+  for (const order of open) {
+    await cancelOrder(order.id, timestamp, 'canceled', tx, `${label} split of ${symbol}`);
+    summary.canceledOrders++;
+  }
+
+  // Paper stock positions, with cash in lieu of fractional shares
+  const stock = await tx.select()
+    .from(paperPositions)
+    .where(and(eq(paperPositions.assetId, assetId), isNull(paperPositions.optionSymbol)));
+
+  const touchedAccounts = new Set<number>();
+  for (const position of stock) {
+    const { whole, fraction } = splitShares(position.quantity, ratio);
+    const averageCost = position.averageCost / ratio;
+    const price = (position.currentPrice ?? position.averageCost) / ratio;
+
+    if (whole === 0) {
+      await tx.delete(paperPositions).where(eq(paperPositions.id, position.id));
+    } else {
+      await tx.update(paperPositions)
+        .set({
+          quantity: whole,
+          averageCost,
+          currentPrice: position.currentPrice !== null ? price : null,
+          unrealizedPnl: (price - averageCost) * whole * position.multiplier,
+          realizedPnl: position.realizedPnl + (price - averageCost) * fraction * position.multiplier,
+          lastUpdated: timestamp,
+        })
+        .where(eq(paperPositions.id, position.id));
+    }
+    summary.paperPositions++;
+
+    if (Math.abs(fraction) > SHARE_TOLERANCE) {
+      const cash = fraction * price;
+      const account = await tx.select()
+        .from(paperTradingAccounts)
+        .where(eq(paperTradingAccounts.id, position.paperAccountId))
+        .limit(1);
+
+      await recordCashEntry({
+        paperAccountId: position.paperAccountId,
+        entryType: 'trade',
+        amount: cash,
+        balanceAfter: account[0].cashBalance + cash,
+        assetId,
+        quantity: Math.abs(fraction),
+        price,
+        description: `Cash in lieu of ${Math.abs(fraction).toFixed(4)} ${symbol} shares (${label} split)`,
+        timestamp,
+      }, tx);
+      await tx.update(paperTradingAccounts)
+        .set({ cashBalance: account[0].cashBalance + cash })
+        .where(eq(paperTradingAccounts.id, position.paperAccountId));
+
+      summary.cashInLieu += cash;
+      touchedAccounts.add(position.paperAccountId);
+    }
+  }
+
+  // Open stock lots, paper and recorded
+  const stockLots = await tx.select()
+    .from(taxLots)
+    .where(and(
+      eq(taxLots.assetId, assetId),
+      isNull(taxLots.optionSymbol),
+      isNull(taxLots.positionId),
+      gt(taxLots.remainingQuantity, 0)
+    ));
+  for (const lot of stockLots) {
+    await tx.update(taxLots)
+      .set({
+        quantity: splitShares(lot.quantity, ratio).whole,
+        remainingQuantity: splitShares(lot.remainingQuantity, ratio).whole,
+        openPrice: lot.openPrice / ratio,
+      })
+      .where(eq(taxLots.id, lot.id));
+    summary.taxLots++;
+  }
+
+  // Paper option positions on the stock
+  const options = await tx.select()
+    .from(paperPositions)
+    .where(and(eq(paperPositions.underlyingSymbol, symbol), isNotNull(paperPositions.optionSymbol)));
+  for (const position of options) {
+    await splitOptionPosition(position, ratio, timestamp, tx, summary);
+  }
+
+  // Recorded positions: stock, and options when the split only multiplies
+  // contracts (they carry no deliverable to change)
+  const recorded = await tx.select()
+    .from(positions)
+    .where(and(eq(positions.assetId, assetId), eq(positions.status, 'open')));
+  for (const position of recorded) {
+    const isOption = position.strikePrice !== null;
+    if (isOption && !isStandardOptionSplit(ratio)) {
+      summary.unadjusted.push(`Recorded option position ${position.id}`);
+      continue;
+    }
+
+    const quantity = splitShares(position.quantity, ratio).whole;
+    await tx.update(positions)
+      .set({
+        quantity,
+        entryPrice: position.entryPrice / ratio,
+        currentPrice: position.currentPrice !== null ? position.currentPrice / ratio : null,
+        strikePrice: isOption ? position.strikePrice! / ratio : null,
+        stopLoss: position.stopLoss !== null ? position.stopLoss / ratio : null,
+        takeProfit: position.takeProfit !== null ? position.takeProfit / ratio : null,
+        updatedAt: timestamp,
+      })
+      .where(eq(positions.id, position.id));
+    summary.recordedPositions++;
+
+    // Recorded option lots are kept per position in contracts
+    if (isOption) {
+      const lots = await tx.select()
+        .from(taxLots)
+        .where(and(eq(taxLots.positionId, position.id), gt(taxLots.remainingQuantity, 0)));
+      for (const lot of lots) {
+        await tx.update(taxLots)
+          .set({
+            quantity: lot.quantity * ratio,
+            remainingQuantity: lot.remainingQuantity * ratio,
+            openPrice: lot.openPrice / ratio,
+          })
+          .where(eq(taxLots.id, lot.id));
+        summary.taxLots++;
+      }
+    }
+  }
+
+  await tx.update(assets)
+    .set({
+      currentPrice: currentPrice !== null ? currentPrice / ratio : null,
+      updatedAt: timestamp,
+    })
+    .where(eq(assets.id, assetId));
+
+  for (const accountId of touchedAccounts) {
+    const account = await tx.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, accountId))
+      .limit(1);
+    await updateAccountValuation(accountId, account[0].cashBalance, account[0].initialBalance, timestamp, tx);
+  }
+
+  return summary;
+}
+
+async function splitOptionPosition(
+  position: PaperPosition,
+  ratio: number,
+  timestamp: string,
+  tx: DbExecutor,
+  summary: CorporateActionSummary
+): Promise<void> {
+  const averageCost = position.averageCost / ratio;
+  const currentPrice = position.currentPrice !== null ? position.currentPrice / ratio : null;
+  const strikePrice = position.strikePrice! / ratio;
+  // Only this account's lots: other holders' are adjusted with their own positions
+  const lots = await tx.select()
+    .from(taxLots)
+    .where(and(
+      eq(taxLots.paperAccountId, position.paperAccountId),
+      eq(taxLots.optionSymbol, position.optionSymbol!),
+      gt(taxLots.remainingQuantity, 0)
+    ));
+
+  if (isStandardOptionSplit(ratio)) {
+    // More contracts at a lower strike, under the adjusted strike's symbol
+    const contract = parseOccSymbol(position.optionSymbol!);
+    if (!contract) {
+      summary.unadjusted.push(`Paper option position ${position.id}`);
+      return;
+    }
+    const adjusted = parseOccSymbol(formatOccSymbol({ ...contract, strikePrice }))!;
+    const asset = await resolveContractAsset(adjusted, tx);
+
+    await tx.update(paperPositions)
+      .set({
+        assetId: asset.id,
+        optionSymbol: adjusted.optionSymbol,
+        strikePrice: adjusted.strikePrice,
+        quantity: position.quantity * ratio,
+        averageCost,
+        currentPrice,
+        lastUpdated: timestamp,
+      })
+      .where(eq(paperPositions.id, position.id));
+
+    for (const lot of lots) {
+      await tx.update(taxLots)
+        .set({
+          assetId: asset.id,
+          optionSymbol: adjusted.optionSymbol,
+          quantity: lot.quantity * ratio,
+          remainingQuantity: lot.remainingQuantity * ratio,
+          openPrice: lot.openPrice / ratio,
+        })
+        .where(eq(taxLots.id, lot.id));
+      summary.taxLots++;
+    }
+  } else {
+    // Same contracts, each now delivering `ratio` times the shares at a
+    // proportionally lower strike, so value and exercise cost are unchanged
+    await tx.update(paperPositions)
+      .set({
+        multiplier: Math.round(position.multiplier * ratio),
+        strikePrice,
+        averageCost,
+        currentPrice,
+        lastUpdated: timestamp,
+      })
+      .where(eq(paperPositions.id, position.id));
+
+    for (const lot of lots) {
+      await tx.update(taxLots)
+        .set({
+          multiplier: Math.round(lot.multiplier * ratio),
+          openPrice: lot.openPrice / ratio,
+        })
+        .where(eq(taxLots.id, lot.id));
+      summary.taxLots++;
+    }
+  }
+
+  summary.paperPositions++;
+}
+
+async function applyDividend(
+  assetId: number,
+  symbol: string,
+  cashAmount: number,
+  timestamp: string,
+  tx: DbExecutor
+): Promise<CorporateActionSummary> {
+  const summary = emptySummary();
+
+  // Holders of record at the ex-date; shorts owe the dividend to the lender
+  const holders = await tx.select()
+    .from(paperPositions)
+    .where(and(
+      eq(paperPositions.assetId, assetId),
+      isNull(paperPositions.optionSymbol),
+      ne(paperPositions.quantity, 0)
+    ));
+
+  for (const position of holders) {
+    const amount = position.quantity * cashAmount;
+    const account = await tx.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, position.paperAccountId))
+      .limit(1);
+
+    await tx.update(paperPositions)
+      .set({
+        realizedPnl: position.realizedPnl + amount,
+        lastUpdated: timestamp,
+      })
+      .where(eq(paperPositions.id, position.id));
+
+    await recordCashEntry({
+      paperAccountId: position.paperAccountId,
+      entryType: 'dividend',
+      amount,
+      balanceAfter: account[0].cashBalance + amount,
+      assetId,
+      quantity: position.quantity,
+      price: cashAmount,
+      description: position.quantity > 0
+        ? `${symbol} dividend of ${cashAmount} per share`
+        : `${symbol} dividend of ${cashAmount} per share owed on short`,
+      timestamp,
+    }, tx);
+
+    await updateAccountValuation(
+      position.paperAccountId,
+      account[0].cashBalance + amount,
+      account[0].initialBalance,
+      timestamp,
+      tx,
+      account[0].version
+    );
+
+    summary.paperPositions++;
+    summary.dividends += amount;
+  }
+
+  return summary;
+}
+
+async function applySymbolChange(
+  assetId: number,
+  symbol: string,
+  newSymbol: string,
+  timestamp: string,
+  tx: DbExecutor
+): Promise<CorporateActionSummary> {
+  const summary = emptySummary();
+
+  const taken = await tx.select({ id: assets.id })
+    .from(assets)
+    .where(eq(assets.symbol, newSymbol))
+    .limit(1);
+  if (taken.length > 0) {
+    throw new Error(`${newSymbol} is already used by asset ${taken[0].id}`);
+  }
+
+  await tx.update(assets)
+    .set({ symbol: newSymbol, updatedAt: timestamp })
+    .where(eq(assets.id, assetId));
+
+  // Every option contract on the old ticker, whether it has an asset row,
+  // stored quotes or both
+  const contractAssets = await tx.select({ id: assets.id, symbol: assets.symbol, name: assets.name })
+    .from(assets)
+    .where(like(assets.symbol, `${symbol}%`));
+  const quoted = await tx.selectDistinct({ optionSymbol: optionsQuotes.optionSymbol })
+    .from(optionsQuotes)
+    .where(eq(optionsQuotes.symbol, symbol));
+
+  const renames = new Map<string, string>();
+  for (const optionSymbol of [...contractAssets.map(a => a.symbol), ...quoted.map(q => q.optionSymbol)]) {
+    const contract = parseOccSymbol(optionSymbol);
+    if (contract && contract.underlyingSymbol === symbol) {
+      renames.set(optionSymbol, formatOccSymbol({ ...contract, underlyingSymbol: newSymbol }));
+    }
+  }
+
+  for (const contractAsset of contractAssets) {
+    const renamed = renames.get(contractAsset.symbol);
+    if (!renamed) continue;
+    await tx.update(assets)
+      .set({
+        symbol: renamed,
+        name: contractAsset.name.replace(symbol, newSymbol),
+        updatedAt: timestamp,
+      })
+      .where(eq(assets.id, contractAsset.id));
+  }
+
+  for (const [from, to] of renames) {
+    const moved = await tx.update(paperPositions)
+      .set({ optionSymbol: to, underlyingSymbol: newSymbol, lastUpdated: timestamp })
+      .where(eq(paperPositions.optionSymbol, from))
+      .returning({ id: paperPositions.id });
+    summary.paperPositions += moved.length;
+
+    await tx.update(paperOrders)
+      .set({ optionSymbol: to, underlyingSymbol: newSymbol })
+      .where(eq(paperOrders.optionSymbol, from));
+
+    const lots = await tx.update(taxLots)
+      .set({ optionSymbol: to })
+      .where(eq(taxLots.optionSymbol, from))
+      .returning({ id: taxLots.id });
+    summary.taxLots += lots.length;
+
+    await tx.update(optionsQuotes)
+      .set({ symbol: newSymbol, optionSymbol: to })
+      .where(eq(optionsQuotes.optionSymbol, from));
+  }
+  summary.renamedContracts = renames.size;
+
+  return summary;
+}
+
+/**
+ * Splits recorded for an asset, oldest first. Failed actions are left out.
+ */
+export async function loadSplits(assetId: number, executor: DbExecutor = db): Promise<SplitEvent[]> {
+  const rows = await executor.select({ exDate: corporateActions.exDate, splitRatio: corporateActions.splitRatio })
+    .from(corporateActions)
+    .where(and(
+      eq(corporateActions.assetId, assetId),
+      eq(corporateActions.actionType, 'split'),
+      ne(corporateActions.status, 'failed')
+    ))
+    .orderBy(asc(corporateActions.exDate));
+
+  return rows
+    .filter(row => row.splitRatio !== null)
+    .map(row => ({ exDate: row.exDate, splitRatio: row.splitRatio! }));
+}
+
+/**
+ * Restate raw bars in today's shares: every bar before a split's ex-date
+ * is divided by the ratio, and its volume multiplied
+ */
+export function splitAdjustBars<T extends PriceBar>(bars: T[], splits: SplitEvent[]): T[] {
+  if (splits.length === 0) return bars;
+
+  return bars.map(bar => {
+    const date = bar.t.slice(0, 10);
+    const factor = splits
+      .filter(split => date < split.exDate)
+      .reduce((product, split) => product * split.splitRatio, 1);
+    if (factor === 1) return bar;
+
+    return {
+      ...bar,
+      o: bar.o / factor,
+      h: bar.h / factor,
+      l: bar.l / factor,
+      c: bar.c / factor,
+      v: Math.round(bar.v * factor),
+      ...(bar.vw !== undefined ? { vw: bar.vw / factor } : {}),
+    };
+  });
+}
@@ -0,0 +1,245 @@
+/**
+ * Fill Model
+ * Prices and sizes simulated executions. Shared by the paper trading
+ * matcher and the backtesting engine so both fill orders the same way.
+ *
+ * Slippage models:
+ * - fixed_bps:   a flat number of basis points against the reference
+ *                price; any quoted spread is ignored
+ * - spread:      cross the bid/ask, falling back to fixed bps without a quote
+ * - sqrt_impact: half the spread plus square-root market impact,
+ *                coefficient * volatility * sqrt(quantity / volume)
+ *
+ * Quantity is capped at a share of the displayed volume, so large orders
+ * fill over several quotes (or bars) instead of all at once.
+ */
+
+export const SLIPPAGE_MODEL_TYPES = ['fixed_bps', 'spread', 'sqrt_impact'] as const;
+export type SlippageModelType = typeof SLIPPAGE_MODEL_TYPES[number];
+
+export type SlippageModelConfig =
+  | {
+      type: 'fixed_bps';
+      bps: number;
+      stopBps?: number;      // Extra cost for stops triggering into a moving market
+    }
+  | {
+      type: 'spread';
+      fallbackBps: number;   // Used when no bid/ask is available
+    }
+  | {
+      type: 'sqrt_impact';
+      coefficient: number;   // Impact scale, ~1 for liquid equities
+      volatility: number;    // Daily volatility as a decimal, used when the quote has none
+      fallbackBps: number;   // Used when neither spread nor volume is known
+    };
+
+export interface FillModelConfig {
+  slippage: SlippageModelConfig;
+  maxVolumeShare: number; // Share (0-1] of displayed volume one fill may take
+}
+
+// Matches the fixed rates the paper engine has always used
+export const DEFAULT_FILL_MODEL: FillModelConfig = {
+  slippage: { type: 'fixed_bps', bps: 10, stopBps: 15 },
+  maxVolumeShare: 1,
+};
+
+export interface FillContext {
+  side: 'buy' | 'sell';
+  quantity: number;           // Quantity still to fill
+  price: number;              // Reference price (last trade or mid)
+  bidPrice?: number | null;
+  askPrice?: number | null;
+  volume?: number | null;     // Displayed / traded volume available to the order
+  volatility?: number | null; // Daily volatility as a decimal
+  isStop?: boolean;           // Triggered stop executing at market
+}
+
+export interface FillEstimate {
+  fillPrice: number;
+  fillQuantity: number;
+  slippage: number;    // Per-unit cost versus the reference price
+  slippageBps: number;
+}
+
+export interface SlippageModel {
+  type: SlippageModelType;
+  /** Per-unit execution price for a marketable order of the given size */
+  price(context: FillContext, quantity: number): number;
+}
+
+function applyBps(side: 'buy' | 'sell', price: number, bps: number): number {
+  return side === 'buy'
+    ? price * (1 + bps / 10000)
+    : price * (1 - bps / 10000);
+}
+
+// Buys lift the ask and sells hit the bid when both sides are quoted
+function touchPrice(context: FillContext): number | null {
+  const { bidPrice, askPrice } = context;
+  if (!bidPrice || !askPrice || bidPrice <= 0 || askPrice < bidPrice) {
+    return null;
+  }
+  return context.side === 'buy' ? askPrice : bidPrice;
+}
+
+// The bps is the whole cost: use the spread model to cross the bid/ask
+export function fixedBpsSlippage(bps: number, stopBps: number = bps): SlippageModel {
+  return {
+    type: 'fixed_bps',
+    price: (context) => applyBps(context.side, context.price, context.isStop ? stopBps : bps),
+  };
+}
+
+export function spreadCrossingSlippage(fallbackBps: number): SlippageModel {
+  return {
+    type: 'spread',
+    price: (context) => touchPrice(context) ?? applyBps(context.side, context.price, fallbackBps),
+  };
+}
+
+export function squareRootImpactSlippage(
+  coefficient: number,
+  volatility: number,
+  fallbackBps: number
+): SlippageModel {
+  return {
+    type: 'sqrt_impact',
+    price: (context, quantity) => {
+      const touch = touchPrice(context);
+      const volume = context.volume;
+
+      if (!volume || volume <= 0) {
+        return touch ?? applyBps(context.side, context.price, fallbackBps);
+      }
+
+      const sigma = context.volatility ?? volatility;
+      const impact = coefficient * sigma * Math.sqrt(quantity / volume);
+      const start = touch ?? context.price;
+      return context.side === 'buy'
+        ? start * (1 + impact)
+        : start * Math.max(0, 1 - impact);
+    },
+  };
+}
+
+/**
+ * Build a slippage model from its stored configuration
+ */
+export function createSlippageModel(config: SlippageModelConfig): SlippageModel {
+  switch (config.type) {
+    case 'fixed_bps':
+      return fixedBpsSlippage(config.bps, config.stopBps ?? config.bps);
+    case 'spread':
+      return spreadCrossingSlippage(config.fallbackBps);
+    case 'sqrt_impact':
+      return squareRootImpactSlippage(config.coefficient, config.volatility, config.fallbackBps);
+  }
+}
+
+/**
+ * Largest quantity one fill may take given the displayed volume.
+ * Unknown volume does not limit the fill.
+ */
+export function volumeCap(config: FillModelConfig, volume?: number | null): number {
+  if (volume === undefined || volume === null) {
+    return Infinity;
+  }
+  return Math.max(0, Math.floor(volume * config.maxVolumeShare));
+}
+
+/**
+ * Price and size a marketable order
+ */
+export function estimateFill(config: FillModelConfig, context: FillContext): FillEstimate {
+  const fillQuantity = Math.min(context.quantity, volumeCap(config, context.volume));
+  const fillPrice = createSlippageModel(config.slippage).price(context, Math.max(fillQuantity, 1));
+  const slippage = Math.abs(fillPrice - context.price);
+
+  return {
+    fillPrice,
+    fillQuantity,
+    slippage,
+    slippageBps: context.price > 0 ? (slippage / context.price) * 10000 : 0,
+  };
+}
+
+/**
+ * Validate an untrusted fill model configuration (request body or stored
+ * JSON). Missing fields take the defaults of their model type.
+ */
+export function parseFillModelConfig(raw: any): { config: FillModelConfig } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'fillModel must be an object' };
+  }
+
+  const slippage = raw.slippage ?? DEFAULT_FILL_MODEL.slippage;
+  const maxVolumeShare = raw.maxVolumeShare ?? DEFAULT_FILL_MODEL.maxVolumeShare;
+
+  if (typeof maxVolumeShare !== 'number' || maxVolumeShare <= 0 || maxVolumeShare > 1) {
+    return { error: 'maxVolumeShare must be a number in (0, 1]' };
+  }
+
+  if (!slippage || !SLIPPAGE_MODEL_TYPES.includes(slippage.type)) {
+    return { error: `slippage.type must be one of: ${SLIPPAGE_MODEL_TYPES.join(', ')}` };
+  }
+
+  const nonNegative = (value: any, fallback: number, field: string) => {
+    const result = value ?? fallback;
+    if (typeof result !== 'number' || isNaN(result) || result < 0) {
+      throw new Error(`slippage.${field} must be a non-negative number`);
+    }
+    return result;
+  };
+
+  try {
+    switch (slippage.type as SlippageModelType) {
+      case 'fixed_bps': {
+        const bps = nonNegative(slippage.bps, 10, 'bps');
+        return {
+          config: {
+            slippage: { type: 'fixed_bps', bps, stopBps: nonNegative(slippage.stopBps, bps, 'stopBps') },
+            maxVolumeShare,
+          },
+        };
+      }
+      case 'spread':
+        return {
+          config: {
+            slippage: { type: 'spread', fallbackBps: nonNegative(slippage.fallbackBps, 10, 'fallbackBps') },
+            maxVolumeShare,
+          },
+        };
+      case 'sqrt_impact':
+        return {
+          config: {
+            slippage: {
+              type: 'sqrt_impact',
+              coefficient: nonNegative(slippage.coefficient, 1, 'coefficient'),
+              volatility: nonNegative(slippage.volatility, 0.02, 'volatility'),
+              fallbackBps: nonNegative(slippage.fallbackBps, 10, 'fallbackBps'),
+            },
+            maxVolumeShare,
+          },
+        };
+    }
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+/**
+ * Read a fill model stored as JSON, falling back to the default when it is
+ * missing or invalid
+ */
+export function loadFillModel(stored: string | null | undefined): FillModelConfig {
+  if (!stored) return DEFAULT_FILL_MODEL;
+
+  try {
+    const parsed = parseFillModelConfig(JSON.parse(stored));
+    return 'config' in parsed ? parsed.config : DEFAULT_FILL_MODEL;
+  } catch {
+    return DEFAULT_FILL_MODEL;
+  }
+}
@@ -1,10 +1,13 @@
 /**
- * Black-Scholes Greeks Calculator
- * Calculates option Greeks (Delta, Gamma, Theta, Vega, Rho)
+ * Greeks Calculator
+ * Calculates option Greeks (Delta, Gamma, Theta, Vega, Rho) with
+ * Black-Scholes-Merton for European exercise, or a binomial tree or the
+ * Bjerksund-Stensland approximation for American exercise, and solves for
+ * the implied volatility behind a market price
  */
 
 // Standard normal cumulative distribution function
-function normCDF(x: number): number {
+export function normCDF(x: number): number {
   const t = 1 / (1 + 0.2316419 * Math.abs(x));
   const d = 0.3989423 * Math.exp(-x * x / 2);
   const prob = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
@@ -16,6 +19,14 @@ function normPDF(x: number): number {
   return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
 }
 
+export const PRICING_MODELS = ['black_scholes', 'binomial', 'bjerksund_stensland'] as const;
+export type PricingModel = typeof PRICING_MODELS[number];
+
+export interface Dividend {
+  time: number;     // Years until the ex-date
+  amount: number;   // Cash per share
+}
+
 export interface GreeksInput {
   spotPrice: number;          // Current underlying price
   strikePrice: number;        // Option strike price
@@ -23,6 +34,10 @@ export interface GreeksInput {
   volatility: number;         // Implied volatility (as decimal, e.g., 0.30 for 30%)
   riskFreeRate: number;       // Risk-free interest rate (as decimal, e.g., 0.05 for 5%)
   optionType: 'call' | 'put'; // Option type
+  dividendYield?: number;     // Continuous dividend yield (as decimal), default 0
+  dividends?: Dividend[];     // Discrete cash dividends; those after expiry are ignored
+  model?: PricingModel;       // Default black_scholes (European); the others price American exercise
+  binomialSteps?: number;     // Tree steps for the binomial model, default 200
 }
 
 export interface Greeks {
@@ -31,31 +46,49 @@ export interface Greeks {
   theta: number;    // Rate of change of option price with respect to time (per day)
   vega: number;     // Rate of change of option price with respect to volatility (per 1% change)
   rho: number;      // Rate of change of option price with respect to interest rate (per 1% change)
+  vanna: number;    // Rate of change of delta with respect to volatility (per 1% change)
+  volga: number;    // Rate of change of vega with respect to volatility (per 1% change), a.k.a. vomma
+  charm: number;    // Rate of change of delta with respect to time (per day)
+  speed: number;    // Rate of change of gamma with respect to underlying price
+  color: number;    // Rate of change of gamma with respect to time (per day)
+  veta: number;     // Rate of change of vega with respect to time (per day)
   price: number;    // Theoretical option price
+  model?: PricingModel;
+  europeanPrice?: number;         // Black-Scholes price with the same dividends (American models)
+  earlyExercisePremium?: number;  // American price less the European price
 }
 
+const DEFAULT_BINOMIAL_STEPS = 200;
+const DAY_IN_YEARS = 1 / 365;
+
 export function calculateGreeks(input: GreeksInput): Greeks {
-  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, optionType } = input;
+  const { strikePrice, timeToExpiry, volatility, riskFreeRate, optionType } = input;
 
   // Handle edge cases
   if (timeToExpiry <= 0) {
+    const { spotPrice } = input;
     const intrinsicValue = optionType === 'call' 
       ? Math.max(spotPrice - strikePrice, 0)
       : Math.max(strikePrice - spotPrice, 0);
     
     return {
+      ...underlyingGreeks(intrinsicValue),
       delta: optionType === 'call' ? (spotPrice > strikePrice ? 1 : 0) : (spotPrice < strikePrice ? -1 : 0),
-      gamma: 0,
-      theta: 0,
-      vega: 0,
-      rho: 0,
-      price: intrinsicValue,
     };
   }
 
-  // Black-Scholes d1 and d2
+  const model = input.model ?? 'black_scholes';
+  if (model !== 'black_scholes') {
+    return americanGreeks(input, model);
+  }
+
+  // Black-Scholes-Merton on the spot less the present value of discrete
+  // dividends, with the continuous yield discounting the rest
+  const spotPrice = input.spotPrice - dividendsPresentValue(input);
+  const q = input.dividendYield ?? 0;
+  const carry = Math.exp(-q * timeToExpiry);
   const sqrtT = Math.sqrt(timeToExpiry);
-  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / (volatility * sqrtT);
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - q + 0.5 * volatility * volatility) * timeToExpiry) / (volatility * sqrtT);
   const d2 = d1 - volatility * sqrtT;
 
   // Calculate price
@@ -64,27 +97,40 @@ export function calculateGreeks(input: GreeksInput): Greeks {
   let rho: number;
 
   if (optionType === 'call') {
-    price = spotPrice * normCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(d2);
-    delta = normCDF(d1);
+    price = spotPrice * carry * normCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(d2);
+    delta = carry * normCDF(d1);
     rho = strikePrice * timeToExpiry * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(d2) / 100;
   } else {
-    price = strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(-d2) - spotPrice * normCDF(-d1);
-    delta = normCDF(d1) - 1;
+    price = strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(-d2) - spotPrice * carry * normCDF(-d1);
+    delta = carry * (normCDF(d1) - 1);
     rho = -strikePrice * timeToExpiry * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(-d2) / 100;
   }
 
   // Calculate Gamma (same for calls and puts)
-  const gamma = normPDF(d1) / (spotPrice * volatility * sqrtT);
+  const gamma = carry * normPDF(d1) / (spotPrice * volatility * sqrtT);
 
   // Calculate Theta (per day)
   const thetaAnnual = optionType === 'call'
-    ? (-spotPrice * normPDF(d1) * volatility / (2 * sqrtT) - riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(d2))
-    : (-spotPrice * normPDF(d1) * volatility / (2 * sqrtT) + riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(-d2));
+    ? (-spotPrice * carry * normPDF(d1) * volatility / (2 * sqrtT) - riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(d2) + q * spotPrice * carry * normCDF(d1))
+    : (-spotPrice * carry * normPDF(d1) * volatility / (2 * sqrtT) + riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normCDF(-d2) - q * spotPrice * carry * normCDF(-d1));
   
   const theta = thetaAnnual / 365; // Convert to per-day
 
   // Calculate Vega (per 1% change in volatility)
-  const vega = spotPrice * normPDF(d1) * sqrtT / 100;
+  const vega = spotPrice * carry * normPDF(d1) * sqrtT / 100;
+
+  // Higher-order Greeks, per 1% of volatility and per calendar day
+  const drift = (2 * (riskFreeRate - q) * timeToExpiry - d2 * volatility * sqrtT) / (2 * timeToExpiry * volatility * sqrtT);
+  const vanna = -carry * normPDF(d1) * d2 / volatility / 100;
+  const volga = vega * d1 * d2 / volatility / 100;
+  const charm = (optionType === 'call'
+    ? q * carry * normCDF(d1) - carry * normPDF(d1) * drift
+    : -q * carry * normCDF(-d1) - carry * normPDF(d1) * drift) / 365;
+  const speed = -gamma / spotPrice * (d1 / (volatility * sqrtT) + 1);
+  const color = carry * normPDF(d1) / (2 * spotPrice * timeToExpiry * volatility * sqrtT)
+    * (2 * q * timeToExpiry + 1 + (2 * (riskFreeRate - q) * timeToExpiry - d2 * volatility * sqrtT) / (volatility * sqrtT) * d1) / 365;
+  const veta = spotPrice * carry * normPDF(d1) * sqrtT
+    * (q + (riskFreeRate - q) * d1 / (volatility * sqrtT) - (1 + d1 * d2) / (2 * timeToExpiry)) / 100 / 365;
 
   return {
     delta: Number(delta.toFixed(4)),
@@ -92,30 +138,537 @@ export function calculateGreeks(input: GreeksInput): Greeks {
     theta: Number(theta.toFixed(4)),
     vega: Number(vega.toFixed(4)),
     rho: Number(rho.toFixed(4)),
+    ...roundHigherOrder({ vanna, volga, charm, speed, color, veta }),
     price: Number(price.toFixed(2)),
   };
 }
 
+/**
+ * Greeks of a share of the underlying itself: delta 1, nothing else
+ */
+export function underlyingGreeks(price: number): Greeks {
+  return { delta: 1, gamma: 0, theta: 0, vega: 0, rho: 0, vanna: 0, volga: 0, charm: 0, speed: 0, color: 0, veta: 0, price };
+}
+
+type HigherOrderGreeks = Pick<Greeks, 'vanna' | 'volga' | 'charm' | 'speed' | 'color' | 'veta'>;
+
+// Higher-order Greeks are small; keep more digits than the first order
+function roundHigherOrder(greeks: HigherOrderGreeks): HigherOrderGreeks {
+  return {
+    vanna: Number(greeks.vanna.toFixed(6)),
+    volga: Number(greeks.volga.toFixed(6)),
+    charm: Number(greeks.charm.toFixed(6)),
+    speed: Number(greeks.speed.toFixed(6)),
+    color: Number(greeks.color.toFixed(6)),
+    veta: Number(greeks.veta.toFixed(6)),
+  };
+}
+
+/**
+ * Greeks of an American option by central finite differences on the
+ * model price: spot bumped 1% (3% for speed and color), volatility and
+ * rate 1 point, and one day of time (dividends move a day closer). Time
+ * Greeks are tomorrow's value less today's.
+ */
+function americanGreeks(input: GreeksInput, model: Exclude<PricingModel, 'black_scholes'>): Greeks {
+  const { spotPrice, volatility, riskFreeRate, timeToExpiry } = input;
+  const price = (changes: Partial<GreeksInput>) => americanPrice({ ...input, ...changes }, model);
+
+  const h = spotPrice * 0.01;
+  const k = Math.min(0.01, volatility / 2);
+  const timeStep = Math.min(DAY_IN_YEARS, timeToExpiry);
+  const tomorrow: Partial<GreeksInput> = {
+    timeToExpiry: timeToExpiry - timeStep,
+    dividends: input.dividends
+      ?.map(dividend => ({ ...dividend, time: dividend.time - timeStep }))
+      .filter(dividend => dividend.time > 0),
+  };
+  const perDay = DAY_IN_YEARS / timeStep;
+
+  // Delta, gamma and vega (per 1%) at a point in time
+  const sensitivities = (time: Partial<GreeksInput>) => {
+    const value = price(time);
+    const up = price({ ...time, spotPrice: spotPrice + h });
+    const down = price({ ...time, spotPrice: spotPrice - h });
+    const volatilityUp = price({ ...time, volatility: volatility + k });
+    const volatilityDown = price({ ...time, volatility: volatility - k });
+    return {
+      value,
+      delta: (up - down) / (2 * h),
+      gamma: (up - 2 * value + down) / (h * h),
+      vega: (volatilityUp - volatilityDown) / (2 * k) / 100,
+      volga: (volatilityUp - 2 * value + volatilityDown) / (k * k) / 10000,
+    };
+  };
+
+  const today = sensitivities({});
+  const next = timeStep > 0 ? sensitivities(tomorrow) : today;
+  const europeanPrice = blackScholesPrice(input, volatility);
+  // The same tree without early exercise, so discretization error cancels
+  const europeanValue = model === 'binomial' ? binomialPrice(input, false) : europeanPrice;
+
+  const rho = (price({ riskFreeRate: riskFreeRate + 0.01 }) - price({ riskFreeRate: riskFreeRate - 0.01 })) / 2;
+  const vanna = (
+    price({ spotPrice: spotPrice + h, volatility: volatility + k }) - price({ spotPrice: spotPrice + h, volatility: volatility - k })
+    - price({ spotPrice: spotPrice - h, volatility: volatility + k }) + price({ spotPrice: spotPrice - h, volatility: volatility - k })
+  ) / (4 * h * k) / 100;
+  // Third-order Greeks amplify what discretization noise is left in the
+  // price, so they bump spot further
+  const H = spotPrice * 0.03;
+  const wideGamma = (time: Partial<GreeksInput>) =>
+    (price({ ...time, spotPrice: spotPrice + H }) - 2 * price(time) + price({ ...time, spotPrice: spotPrice - H })) / (H * H);
+  const speed = (
+    price({ spotPrice: spotPrice + 2 * H }) - 2 * price({ spotPrice: spotPrice + H })
+    + 2 * price({ spotPrice: spotPrice - H }) - price({ spotPrice: spotPrice - 2 * H })
+  ) / (2 * H * H * H);
+
+  return {
+    delta: Number(today.delta.toFixed(4)),
+    gamma: Number(today.gamma.toFixed(4)),
+    theta: Number(((next.value - today.value) * perDay).toFixed(4)),
+    vega: Number(today.vega.toFixed(4)),
+    rho: Number(rho.toFixed(4)),
+    ...roundHigherOrder({
+      vanna,
+      volga: today.volga,
+      charm: (next.delta - today.delta) * perDay,
+      speed,
+      color: (wideGamma(tomorrow) - wideGamma({})) * perDay,
+      veta: (next.vega - today.vega) * perDay,
+    }),
+    price: Number(today.value.toFixed(2)),
+    model,
+    europeanPrice: Number(europeanPrice.toFixed(2)),
+    earlyExercisePremium: Number(Math.max(today.value - europeanValue, 0).toFixed(4)),
+  };
+}
+
+// Present value of the discrete dividends paid before expiry
+function dividendsPresentValue(input: Pick<GreeksInput, 'dividends' | 'riskFreeRate' | 'timeToExpiry'>, from = 0): number {
+  return (input.dividends ?? [])
+    .filter(dividend => dividend.time > from && dividend.time <= input.timeToExpiry)
+    .reduce((total, dividend) => total + dividend.amount * Math.exp(-input.riskFreeRate * (dividend.time - from)), 0);
+}
+
+function intrinsicValue(optionType: 'call' | 'put', spotPrice: number, strikePrice: number): number {
+  return optionType === 'call' ? Math.max(spotPrice - strikePrice, 0) : Math.max(strikePrice - spotPrice, 0);
+}
+
+// Unrounded price under the input's model
+function modelPrice(input: Omit<GreeksInput, 'volatility'>, volatility: number): number {
+  const model = input.model ?? 'black_scholes';
+  return model === 'black_scholes'
+    ? blackScholesPrice(input, volatility)
+    : americanPrice({ ...input, volatility }, model);
+}
+
+function americanPrice(input: GreeksInput, model: Exclude<PricingModel, 'black_scholes'>): number {
+  if (input.timeToExpiry <= 0) {
+    return intrinsicValue(input.optionType, input.spotPrice, input.strikePrice);
+  }
+  return model === 'binomial' ? binomialPrice(input) : bjerksundStenslandPrice(input);
+}
+
+/**
+ * Cox-Ross-Rubinstein tree with early exercise checked at every node
+ * (unless `american` is false). Discrete dividends are escrowed: the tree
+ * models the spot less their present value, and each node adds back the
+ * dividends still to come.
+ *
+ * The last step is priced with Black-Scholes rather than the payoff, and
+ * the result extrapolated from trees of N and N/2 steps (Broadie-Detemple
+ * BBSR). A plain tree's price is piecewise linear in spot, so finite
+ * difference gamma would jump with spot and step parity; this price is
+ * smooth, and the Greeks bumped off it are usable.
+ */
+function binomialPrice(input: GreeksInput, american = true): number {
+  const steps = Math.max(Math.round(input.binomialSteps ?? DEFAULT_BINOMIAL_STEPS), 2);
+  const half = Math.round(steps / 2);
+  return 2 * smoothedTreePrice(input, steps, american) - smoothedTreePrice(input, half, american);
+}
+
+function smoothedTreePrice(input: GreeksInput, steps: number, american: boolean): number {
+  const { strikePrice, timeToExpiry, volatility, riskFreeRate, optionType } = input;
+  const q = input.dividendYield ?? 0;
+
+  const dt = timeToExpiry / steps;
+  const up = Math.exp(volatility * Math.sqrt(dt));
+  const down = 1 / up;
+  const probability = Math.min(Math.max((Math.exp((riskFreeRate - q) * dt) - down) / (up - down), 0), 1);
+  const discount = Math.exp(-riskFreeRate * dt);
+  const base = input.spotPrice - dividendsPresentValue(input);
+  if (base <= 0) return intrinsicValue(optionType, input.spotPrice, strikePrice);
+
+  // The escrowed spot has no dividends of its own, so the last step is a
+  // plain European option on it
+  const values: number[] = [];
+  for (let i = steps - 1, j = 0; j <= i; j++) {
+    const treeSpot = base * Math.pow(up, 2 * j - i);
+    const hold = blackScholesPrice({ spotPrice: treeSpot, strikePrice, timeToExpiry: dt, riskFreeRate, dividendYield: q, optionType }, volatility);
+    const spot = treeSpot + dividendsPresentValue(input, i * dt);
+    values.push(american ? Math.max(hold, intrinsicValue(optionType, spot, strikePrice)) : hold);
+  }
+
+  for (let i = steps - 2; i >= 0; i--) {
+    const escrowed = dividendsPresentValue(input, i * dt);
+    for (let j = 0; j <= i; j++) {
+      const hold = discount * (probability * values[j + 1] + (1 - probability) * values[j]);
+      const spot = base * Math.pow(up, 2 * j - i) + escrowed;
+      values[j] = american ? Math.max(hold, intrinsicValue(optionType, spot, strikePrice)) : hold;
+    }
+  }
+
+  return values[0];
+}
+
+/**
+ * Bjerksund-Stensland (1993) closed-form approximation with a flat
+ * exercise boundary. Puts use the put-call transformation
+ * P(S, K, r, q) = C(K, S, q, r). Discrete dividends are folded into an
+ * equivalent continuous yield, so the boundary still sees the carry they
+ * give up.
+ */
+function bjerksundStenslandPrice(input: GreeksInput): number {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate } = input;
+  const dividendsValue = dividendsPresentValue(input);
+  if (spotPrice - dividendsValue <= 0) return intrinsicValue(input.optionType, spotPrice, strikePrice);
+
+  const q = (input.dividendYield ?? 0) + Math.log(spotPrice / (spotPrice - dividendsValue)) / timeToExpiry;
+  const american = input.optionType === 'call'
+    ? bjerksundStenslandCall(spotPrice, strikePrice, timeToExpiry, riskFreeRate, q, volatility)
+    : bjerksundStenslandCall(strikePrice, spotPrice, timeToExpiry, q, riskFreeRate, volatility);
+
+  return Math.max(american, blackScholesPrice(input, volatility), intrinsicValue(input.optionType, spotPrice, strikePrice));
+}
+
+function bjerksundStenslandCall(S: number, K: number, T: number, r: number, q: number, sigma: number): number {
+  const b = r - q; // Cost of carry
+  const variance = sigma * sigma;
+
+  // Without a dividend to capture, early exercise never pays
+  if (b >= r) {
+    return blackScholesPrice({ spotPrice: S, strikePrice: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, optionType: 'call' }, sigma);
+  }
+
+  const beta = (0.5 - b / variance) + Math.sqrt(Math.pow(b / variance - 0.5, 2) + 2 * r / variance);
+  const boundaryInfinity = beta / (beta - 1) * K;
+  const boundaryZero = Math.max(K, r / (r - b) * K);
+  const h = -(b * T + 2 * sigma * Math.sqrt(T)) * boundaryZero / (boundaryInfinity - boundaryZero);
+  const boundary = boundaryZero + (boundaryInfinity - boundaryZero) * (1 - Math.exp(h));
+
+  if (S >= boundary) return S - K;
+
+  const alpha = (boundary - K) * Math.pow(boundary, -beta);
+  const phi = (gamma: number, H: number) => {
+    const lambda = (-r + gamma * b + 0.5 * gamma * (gamma - 1) * variance) * T;
+    const d = -(Math.log(S / H) + (b + (gamma - 0.5) * variance) * T) / (sigma * Math.sqrt(T));
+    const kappa = 2 * b / variance + (2 * gamma - 1);
+    return Math.exp(lambda) * Math.pow(S, gamma)
+      * (normCDF(d) - Math.pow(boundary / S, kappa) * normCDF(d - 2 * Math.log(boundary / S) / (sigma * Math.sqrt(T))));
+  };
+
+  return alpha * Math.pow(S, beta) - alpha * phi(beta, boundary)
+    + phi(1, boundary) - phi(1, K) - K * phi(0, boundary) + K * phi(0, K);
+}
+
+// Volatilities the solver searches between (0.01% to 500%)
+const MIN_VOLATILITY = 0.0001;
+const MAX_VOLATILITY = 5;
+const PRICE_TOLERANCE = 1e-6;
+const VOLATILITY_TOLERANCE = 1e-8;
+const MAX_NEWTON_ITERATIONS = 50;
+const MAX_BRENT_ITERATIONS = 100;
+
+export type ImpliedVolatilityInput = Omit<GreeksInput, 'volatility'>;
+
+export type ImpliedVolatilityFailure =
+  | 'invalid_input'          // Non-positive prices or strike
+  | 'expired'                // No time left for volatility to matter
+  | 'below_intrinsic'        // Price under the discounted intrinsic value (or intrinsic, if American)
+  | 'above_upper_bound'      // Price at or over the underlying (call) or strike (put, discounted if European)
+  | 'below_min_volatility'   // No time value left to solve for
+  | 'above_max_volatility'   // Needs more than 500% volatility
+  | 'no_convergence';
+
+export interface ImpliedVolatilityResult {
+  volatility: number | null;
+  method: 'newton' | 'brent' | null;
+  iterations: number;
+  reason?: ImpliedVolatilityFailure;  // Set when volatility is null
+}
+
+// Unrounded Black-Scholes-Merton price, with discrete dividends off the spot
+function blackScholesPrice(input: Omit<GreeksInput, 'volatility'>, volatility: number): number {
+  const { strikePrice, timeToExpiry, riskFreeRate, optionType } = input;
+  const spotPrice = input.spotPrice - dividendsPresentValue(input);
+  const q = input.dividendYield ?? 0;
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - q + 0.5 * volatility * volatility) * timeToExpiry) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const forwardSpot = spotPrice * Math.exp(-q * timeToExpiry);
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+
+  return optionType === 'call'
+    ? forwardSpot * normCDF(d1) - discountedStrike * normCDF(d2)
+    : discountedStrike * normCDF(-d2) - forwardSpot * normCDF(-d1);
+}
+
+// Black-Scholes price sensitivity to a change of 1.0 in volatility
+function blackScholesVega(input: ImpliedVolatilityInput, volatility: number): number {
+  const { strikePrice, timeToExpiry, riskFreeRate } = input;
+  const spotPrice = input.spotPrice - dividendsPresentValue(input);
+  const q = input.dividendYield ?? 0;
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - q + 0.5 * volatility * volatility) * timeToExpiry) / (volatility * sqrtT);
+  return spotPrice * Math.exp(-q * timeToExpiry) * normPDF(d1) * sqrtT;
+}
+
+/**
+ * Volatility at which the input's pricing model reproduces `price`.
+ * Newton steps (on Black-Scholes vega, a close guide for American prices
+ * too) start from the Manaster-Koehler point and continue while they stay
+ * inside a bracket around the root; when vega vanishes (deep in or out of
+ * the money, or close to expiry) or a step leaves the bracket, Brent's
+ * method finishes on that bracket. Prices outside the no-arbitrage
+ * bounds, or that need a volatility outside 0.01%-500%, return a null
+ * volatility with the reason.
+ */
+export function impliedVolatility(price: number, input: ImpliedVolatilityInput): ImpliedVolatilityResult {
+  const { spotPrice, strikePrice, timeToExpiry, riskFreeRate, optionType } = input;
+  const fail = (reason: ImpliedVolatilityFailure, iterations = 0): ImpliedVolatilityResult =>
+    ({ volatility: null, method: null, iterations, reason });
+
+  if (!(price > 0) || !(spotPrice > 0) || !(strikePrice > 0) || !isFinite(riskFreeRate)) {
+    return fail('invalid_input');
+  }
+  if (!(timeToExpiry > 0)) {
+    return fail('expired');
+  }
+
+  const american = (input.model ?? 'black_scholes') !== 'black_scholes';
+  const forwardSpot = (spotPrice - dividendsPresentValue(input)) * Math.exp(-(input.dividendYield ?? 0) * timeToExpiry);
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const europeanLowerBound = optionType === 'call'
+    ? Math.max(forwardSpot - discountedStrike, 0)
+    : Math.max(discountedStrike - forwardSpot, 0);
+  const lowerBound = american
+    ? Math.max(europeanLowerBound, intrinsicValue(optionType, spotPrice, strikePrice))
+    : europeanLowerBound;
+  const upperBound = optionType === 'call' ? spotPrice : american ? strikePrice : discountedStrike;
+
+  if (price < lowerBound - PRICE_TOLERANCE) return fail('below_intrinsic');
+  if (price >= upperBound) return fail('above_upper_bound');
+
+  // Price rises with volatility, so the root is bracketed by [low, high]
+  const objective = (volatility: number) => modelPrice(input, volatility) - price;
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  const fLow = objective(low);
+  const fHigh = objective(high);
+  if (fLow >= -PRICE_TOLERANCE) return fail('below_min_volatility');
+  if (fHigh < 0) return fail('above_max_volatility');
+
+  let volatility = Math.sqrt(2 * Math.abs(Math.log(forwardSpot / discountedStrike)) / timeToExpiry);
+  if (!(volatility > MIN_VOLATILITY && volatility < MAX_VOLATILITY)) volatility = 0.3;
+
+  let iterations = 0;
+  while (iterations < MAX_NEWTON_ITERATIONS) {
+    iterations++;
+    const f = objective(volatility);
+    if (Math.abs(f) <= PRICE_TOLERANCE) {
+      return { volatility, method: 'newton', iterations };
+    }
+    if (f > 0) high = volatility; else low = volatility;
+
+    const vega = blackScholesVega(input, volatility);
+    if (vega < 1e-8) break;
+
+    const next = volatility - f / vega;
+    if (!(next > low && next < high)) break;
+    if (Math.abs(next - volatility) <= VOLATILITY_TOLERANCE) {
+      return { volatility: next, method: 'newton', iterations };
+    }
+    volatility = next;
+  }
+
+  const brent = brentRoot(objective, low, high);
+  if (brent.root === null) return fail('no_convergence', iterations + brent.iterations);
+  return { volatility: brent.root, method: 'brent', iterations: iterations + brent.iterations };
+}
+
+// Brent's method on a bracket where f(a) and f(b) differ in sign
+function brentRoot(f: (x: number) => number, a: number, b: number): { root: number | null; iterations: number } {
+  let fa = f(a);
+  let fb = f(b);
+  if (fa * fb > 0) return { root: null, iterations: 0 };
+
+  if (Math.abs(fa) < Math.abs(fb)) {
+    [a, b] = [b, a];
+    [fa, fb] = [fb, fa];
+  }
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let bisected = true;
+
+  for (let iteration = 1; iteration <= MAX_BRENT_ITERATIONS; iteration++) {
+    if (Math.abs(fb) <= PRICE_TOLERANCE || Math.abs(b - a) <= VOLATILITY_TOLERANCE) {
+      return { root: b, iterations: iteration };
+    }
+
+    let s: number;
+    if (fa !== fc && fb !== fc) {
+      // Inverse quadratic interpolation
+      s = a * fb * fc / ((fa - fb) * (fa - fc))
+        + b * fa * fc / ((fb - fa) * (fb - fc))
+        + c * fa * fb / ((fc - fa) * (fc - fb));
+    } else {
+      // Secant
+      s = b - fb * (b - a) / (fb - fa);
+    }
+
+    const between = (s - (3 * a + b) / 4) * (s - b) < 0;
+    if (
+      !between ||
+      (bisected && Math.abs(s - b) >= Math.abs(b - c) / 2) ||
+      (!bisected && Math.abs(s - b) >= Math.abs(c - d) / 2) ||
+      (bisected && Math.abs(b - c) < VOLATILITY_TOLERANCE) ||
+      (!bisected && Math.abs(c - d) < VOLATILITY_TOLERANCE)
+    ) {
+      s = (a + b) / 2;
+      bisected = true;
+    } else {
+      bisected = false;
+    }
+
+    const fs = f(s);
+    d = c;
+    c = b;
+    fc = fb;
+    if (fa * fs < 0) {
+      b = s;
+      fb = fs;
+    } else {
+      a = s;
+      fa = fs;
+    }
+    if (Math.abs(fa) < Math.abs(fb)) {
+      [a, b] = [b, a];
+      [fa, fb] = [fb, fa];
+    }
+  }
+
+  return { root: null, iterations: MAX_BRENT_ITERATIONS };
+}
+
+export interface PortfolioGreeksPosition {
+  underlyingSymbol: string;
+  quantity: number;     // Contracts or shares, negative when short
+  multiplier?: number;  // Shares per contract, default 1
+  spotPrice: number;    // Underlying price
+  beta?: number | null; // Underlying's beta to the benchmark, default 1
+  greeks: Greeks;       // Per contract or share
+}
+
+export interface PositionGreekTotals {
+  delta: number;        // Share equivalents
+  gamma: number;
+  theta: number;        // Dollars per day
+  vega: number;         // Dollars per 1% of volatility
+  rho: number;
+  vanna: number;
+  volga: number;
+  charm: number;
+  speed: number;
+  color: number;
+  veta: number;
+  deltaDollars: number; // Delta times the underlying price
+  gammaDollars: number; // Change in delta dollars for a 1% move in the underlying
+}
+
+export interface UnderlyingGreeks extends PositionGreekTotals {
+  underlyingSymbol: string;
+  spotPrice: number;
+  beta: number;
+  betaWeightedDelta: number | null; // Benchmark share equivalents
+}
+
 export interface PortfolioGreeks {
+  // Share-equivalent sums across every position; only meaningful when all
+  // positions share one underlying (see byUnderlying)
   netDelta: number;
   netGamma: number;
   netTheta: number;
   netVega: number;
   netRho: number;
+  deltaDollars: number;
+  gammaDollars: number;
+  betaWeightedDelta: number | null;  // Benchmark share equivalents, null without a benchmark price
+  betaWeightedGamma: number | null;  // Change in betaWeightedDelta for a 1-point benchmark move
+  benchmark: { symbol: string; price: number } | null;
+  byUnderlying: UnderlyingGreeks[];
 }
 
-export function calculatePortfolioGreeks(positions: Array<{
-  quantity: number;
-  greeks: Greeks;
-}>): PortfolioGreeks {
-  return positions.reduce(
-    (acc, pos) => ({
-      netDelta: acc.netDelta + pos.quantity * pos.greeks.delta,
-      netGamma: acc.netGamma + pos.quantity * pos.greeks.gamma,
-      netTheta: acc.netTheta + pos.quantity * pos.greeks.theta,
-      netVega: acc.netVega + pos.quantity * pos.greeks.vega,
-      netRho: acc.netRho + pos.quantity * pos.greeks.rho,
-    }),
-    { netDelta: 0, netGamma: 0, netTheta: 0, netVega: 0, netRho: 0 }
-  );
+const GREEK_KEYS = ['delta', 'gamma', 'theta', 'vega', 'rho', 'vanna', 'volga', 'charm', 'speed', 'color', 'veta'] as const;
+
+/**
+ * Position Greeks scaled by quantity and multiplier, grouped by
+ * underlying and beta-weighted to the benchmark: a 1-point benchmark move
+ * is taken to move each underlying by beta x spot / benchmark price
+ */
+export function calculatePortfolioGreeks(
+  positions: PortfolioGreeksPosition[],
+  benchmark: { symbol: string; price: number } | null = null
+): PortfolioGreeks {
+  const groups = new Map<string, UnderlyingGreeks>();
+
+  for (const position of positions) {
+    const size = position.quantity * (position.multiplier ?? 1);
+    let group = groups.get(position.underlyingSymbol);
+    if (!group) {
+      group = {
+        underlyingSymbol: position.underlyingSymbol,
+        spotPrice: position.spotPrice,
+        beta: position.beta ?? 1,
+        delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0,
+        vanna: 0, volga: 0, charm: 0, speed: 0, color: 0, veta: 0,
+        deltaDollars: 0, gammaDollars: 0,
+        betaWeightedDelta: null,
+      };
+      groups.set(position.underlyingSymbol, group);
+    }
+
+    for (const key of GREEK_KEYS) {
+      group[key] += size * position.greeks[key];
+    }
+  }
+
+  const byUnderlying = [...groups.values()].map(group => {
+    const ratio = benchmark && benchmark.price > 0 ? group.beta * group.spotPrice / benchmark.price : null;
+    return {
+      ...group,
+      deltaDollars: group.delta * group.spotPrice,
+      gammaDollars: group.gamma * group.spotPrice * group.spotPrice / 100,
+      betaWeightedDelta: ratio !== null ? group.delta * ratio : null,
+    };
+  });
+
+  const sum = (pick: (group: UnderlyingGreeks) => number) => byUnderlying.reduce((total, group) => total + pick(group), 0);
+  const weighted = benchmark && benchmark.price > 0;
+
+  return {
+    netDelta: sum(group => group.delta),
+    netGamma: sum(group => group.gamma),
+    netTheta: sum(group => group.theta),
+    netVega: sum(group => group.vega),
+    netRho: sum(group => group.rho),
+    deltaDollars: sum(group => group.deltaDollars),
+    gammaDollars: sum(group => group.gammaDollars),
+    betaWeightedDelta: weighted ? sum(group => group.betaWeightedDelta!) : null,
+    betaWeightedGamma: weighted
+      ? sum(group => group.gamma * Math.pow(group.beta * group.spotPrice / benchmark!.price, 2))
+      : null,
+    benchmark: weighted ? benchmark : null,
+    byUnderlying,
+  };
 }
@@ -0,0 +1,642 @@
+/**
+ * IV Surface Fitting
+ * Calibrates a raw SVI smile to each expiration of an IV surface snapshot
+ * and one SSVI surface across expirations, checks both for butterfly and
+ * calendar arbitrage, and stores the parameters so volatility can be read
+ * at any strike, delta or tenor. Smiles are fitted in total implied
+ * variance (w = vol^2 x t) against log-moneyness to the forward.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { ivSurfaceSnapshots, ivSurfaceFits, optionsQuotes, type IvSurfaceFit, type NewIvSurfaceFit } from '@/db/schema';
+import { eq, and, asc, desc, lte } from 'drizzle-orm';
+import { normCDF } from '@/lib/greeks-calculator';
+import { parseOccSymbol, type OptionContract } from '@/lib/paper-trading/option-contracts';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RISK_FREE_RATE = 0.05;
+const MIN_SLICE_POINTS = 5;          // SVI has five parameters
+const MAX_FIT_ITERATIONS = 400;
+// Log-moneyness range and step the arbitrage checks sample
+const ARBITRAGE_GRID = { from: -1.5, to: 1.5, step: 0.01 };
+const ARBITRAGE_TOLERANCE = 1e-6;
+
+export const SURFACE_MODELS = ['svi', 'ssvi'] as const;
+export type SurfaceModel = typeof SURFACE_MODELS[number];
+
+// Raw SVI: w(k) = a + b (rho (k - m) + sqrt((k - m)^2 + sigma^2))
+export interface SviParameters {
+  a: number;
+  b: number;
+  rho: number;
+  m: number;
+  sigma: number;
+}
+
+// SSVI: w(k, theta) = theta / 2 (1 + rho phi k + sqrt((phi k + rho)^2 + 1 - rho^2))
+// with the power-law phi(theta) = eta / (theta^gamma (1 + theta)^(1 - gamma))
+export interface SsviParameters {
+  rho: number;
+  eta: number;
+  gamma: number;
+  atmVariance: { timeToExpiry: number; theta: number }[];  // ATM total variance by tenor
+}
+
+export interface FitResidual {
+  expirationDate: string;
+  strikePrice: number;
+  optionType: string;
+  logMoneyness: number;
+  marketVolatility: number;
+  fittedVolatility: number;
+  error: number;  // Fitted less market
+}
+
+export interface SurfaceSlice {
+  expirationDate: string;
+  timeToExpiry: number;
+  forwardPrice: number;
+  parameters: SviParameters;
+}
+
+export interface FittedSurface {
+  symbol: string;
+  snapshotDate: string;
+  underlyingPrice: number;
+  riskFreeRate: number;
+  slices: SurfaceSlice[];  // Shortest tenor first
+  ssvi: SsviParameters | null;
+}
+
+export interface SurfaceFitSummary {
+  symbol: string;
+  snapshotDate: string;
+  underlyingPrice: number;
+  fits: {
+    model: SurfaceModel;
+    expirationDate: string | null;
+    points: number;
+    rmse: number;
+    maxError: number;
+    butterflyArbitrage: boolean;
+    calendarArbitrage: boolean;
+  }[];
+  skipped: { expirationDate: string; reason: 'too_few_points' | 'expired' }[];
+}
+
+export interface SurfaceVolatility {
+  volatility: number;
+  strikePrice: number;
+  timeToExpiry: number;
+  model: SurfaceModel;
+}
+
+interface SmilePoint {
+  expirationDate: string;
+  strikePrice: number;
+  optionType: string;
+  timeToExpiry: number;
+  k: number;
+  variance: number;  // Total implied variance
+  volatility: number;
+}
+
+/**
+ * Total implied variance of an SVI smile at log-moneyness `k`
+ */
+export function sviVariance(k: number, p: SviParameters): number {
+  const x = k - p.m;
+  return p.a + p.b * (p.rho * x + Math.sqrt(x * x + p.sigma * p.sigma));
+}
+
+/**
+ * Total implied variance of an SSVI surface at log-moneyness `k` and ATM
+ * total variance `theta`
+ */
+export function ssviVariance(k: number, theta: number, p: Pick<SsviParameters, 'rho' | 'eta' | 'gamma'>): number {
+  if (theta <= 0) return 0;
+  const phi = p.eta / (Math.pow(theta, p.gamma) * Math.pow(1 + theta, 1 - p.gamma));
+  return theta / 2 * (1 + p.rho * phi * k + Math.sqrt(Math.pow(phi * k + p.rho, 2) + 1 - p.rho * p.rho));
+}
+
+// ATM total variance at a tenor: linear between fitted tenors, constant
+// ATM volatility beyond them
+function atmVariance(p: SsviParameters, t: number): number {
+  const nodes = p.atmVariance;
+  if (nodes.length === 0) return 0;
+  if (t <= nodes[0].timeToExpiry) return nodes[0].theta * t / nodes[0].timeToExpiry;
+
+  for (let i = 1; i < nodes.length; i++) {
+    if (t <= nodes[i].timeToExpiry) {
+      const weight = (t - nodes[i - 1].timeToExpiry) / (nodes[i].timeToExpiry - nodes[i - 1].timeToExpiry);
+      return nodes[i - 1].theta + weight * (nodes[i].theta - nodes[i - 1].theta);
+    }
+  }
+
+  const last = nodes[nodes.length - 1];
+  return last.theta * t / last.timeToExpiry;
+}
+
+/**
+ * Durrleman's condition: a smile is free of butterfly arbitrage when
+ * g(k) = (1 - k w' / 2w)^2 - w'^2 / 4 (1 / w + 1 / 4) + w'' / 2 >= 0
+ * and w > 0 across the grid
+ */
+export function hasButterflyArbitrage(variance: (k: number) => number): boolean {
+  const h = 1e-4;
+  for (let k = ARBITRAGE_GRID.from; k <= ARBITRAGE_GRID.to; k += ARBITRAGE_GRID.step) {
+    const w = variance(k);
+    if (w <= 0) return true;
+    const up = variance(k + h);
+    const down = variance(k - h);
+    const slope = (up - down) / (2 * h);
+    const curvature = (up - 2 * w + down) / (h * h);
+    const g = Math.pow(1 - k * slope / (2 * w), 2) - slope * slope / 4 * (1 / w + 0.25) + curvature / 2;
+    if (g < -ARBITRAGE_TOLERANCE) return true;
+  }
+  return false;
+}
+
+/**
+ * A longer tenor must carry at least the total variance of a shorter one
+ * at every log-moneyness
+ */
+export function hasCalendarArbitrage(shorter: (k: number) => number, longer: (k: number) => number): boolean {
+  for (let k = ARBITRAGE_GRID.from; k <= ARBITRAGE_GRID.to; k += ARBITRAGE_GRID.step) {
+    if (longer(k) < shorter(k) - ARBITRAGE_TOLERANCE) return true;
+  }
+  return false;
+}
+
+// Nelder-Mead simplex minimisation
+function minimize(f: (x: number[]) => number, start: number[], step: number[]): { x: number[]; value: number } {
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step[i] : v)))]
+    .map(x => ({ x, value: f(x) }));
+
+  for (let iteration = 0; iteration < MAX_FIT_ITERATIONS; iteration++) {
+    simplex.sort((p, q) => p.value - q.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (Math.abs(worst.value - best.value) <= 1e-14 * (1 + Math.abs(best.value))) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, -1).reduce((sum, p) => sum + p.x[j], 0) / (simplex.length - 1));
+    const toward = (scale: number) => {
+      const x = centroid.map((c, j) => c + scale * (worst.x[j] - c));
+      return { x, value: f(x) };
+    };
+
+    const reflected = toward(-1);
+    if (reflected.value < best.value) {
+      const expanded = toward(-2);
+      simplex[simplex.length - 1] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < simplex[simplex.length - 2].value) {
+      simplex[simplex.length - 1] = reflected;
+    } else {
+      const contracted = toward(0.5);
+      if (contracted.value < worst.value) {
+        simplex[simplex.length - 1] = contracted;
+      } else {
+        simplex = simplex.map(p => {
+          const x = p.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((p, q) => p.value - q.value);
+  return simplex[0];
+}
+
+// Least-squares a, d, c of w = a + d y + c sqrt(y^2 + 1) for fixed m and
+// sigma (y = (k - m) / sigma), held to b >= 0, |rho| < 1, non-negative
+// variance and wings no steeper than Lee's moment bound of 2
+function sviForShape(points: SmilePoint[], m: number, sigma: number): { parameters: SviParameters; error: number } {
+  const rows = points.map(point => {
+    const y = (point.k - m) / sigma;
+    return { y, z: Math.sqrt(y * y + 1), w: point.variance };
+  });
+
+  // Normal equations for [a, d, c]
+  const n = rows.length;
+  const s = (pick: (row: typeof rows[number]) => number) => rows.reduce((sum, row) => sum + pick(row), 0);
+  const matrix = [
+    [n, s(r => r.y), s(r => r.z)],
+    [s(r => r.y), s(r => r.y * r.y), s(r => r.y * r.z)],
+    [s(r => r.z), s(r => r.y * r.z), s(r => r.z * r.z)],
+  ];
+  const vector = [s(r => r.w), s(r => r.y * r.w), s(r => r.z * r.w)];
+  const solved = solveLinear(matrix, vector);
+
+  let c = Math.max(solved ? solved[2] : 0, 0);
+  let d = solved ? Math.max(Math.min(solved[1], 0.999 * c), -0.999 * c) : 0;
+  if (c + Math.abs(d) > 2 * sigma) {
+    const scale = 2 * sigma / (c + Math.abs(d));
+    c *= scale;
+    d *= scale;
+  }
+  const a = Math.max(
+    rows.reduce((sum, row) => sum + row.w - d * row.y - c * row.z, 0) / n,
+    -Math.sqrt(c * c - d * d)
+  );
+
+  const error = rows.reduce((sum, row) => sum + Math.pow(a + d * row.y + c * row.z - row.w, 2), 0);
+  return {
+    parameters: { a, b: c / sigma, rho: c > 0 ? d / c : 0, m, sigma },
+    error,
+  };
+}
+
+function solveLinear(matrix: number[][], vector: number[]): number[] | null {
+  const size = vector.length;
+  const augmented = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-14) return null;
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col] / augmented[col][col];
+      for (let j = col; j <= size; j++) augmented[row][j] -= factor * augmented[col][j];
+    }
+  }
+
+  return augmented.map((row, i) => row[size] / row[i]);
+}
+
+/**
+ * Calibrate SVI to one expiration's smile: a simplex search over m and
+ * sigma with a, b and rho solved by least squares at each step
+ */
+export function fitSviSlice(points: SmilePoint[]): SviParameters {
+  const lowest = points.reduce((min, point) => (point.variance < min.variance ? point : min), points[0]);
+  const objective = ([m, logSigma]: number[]) => sviForShape(points, m, Math.exp(logSigma)).error;
+
+  let best: { x: number[]; value: number } | null = null;
+  for (const sigma of [0.05, 0.2, 0.5]) {
+    const result = minimize(objective, [lowest.k, Math.log(sigma)], [0.1, 0.5]);
+    if (!best || result.value < best.value) best = result;
+  }
+
+  return sviForShape(points, best!.x[0], Math.exp(best!.x[1])).parameters;
+}
+
+/**
+ * Calibrate SSVI across tenors given each tenor's ATM total variance.
+ * rho, eta and gamma are mapped so that eta (1 + |rho|) <= 2 and
+ * gamma <= 1/2, which rules out butterfly arbitrage, and ATM variance is
+ * held non-decreasing in tenor, which rules out calendar arbitrage.
+ */
+export function fitSsviSurface(points: SmilePoint[], atm: SsviParameters['atmVariance']): SsviParameters {
+  const nodes: SsviParameters['atmVariance'] = [];
+  for (const node of [...atm].sort((p, q) => p.timeToExpiry - q.timeToExpiry)) {
+    nodes.push({ timeToExpiry: node.timeToExpiry, theta: Math.max(node.theta, nodes[nodes.length - 1]?.theta ?? 0) });
+  }
+
+  const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+  const toParameters = ([x, y, z]: number[]) => {
+    const rho = 0.999 * Math.tanh(x);
+    return { rho, eta: 2 / (1 + Math.abs(rho)) * sigmoid(y), gamma: 0.5 * sigmoid(z) };
+  };
+
+  const objective = (x: number[]) => {
+    const p = toParameters(x);
+    return points.reduce((sum, point) => {
+      const w = ssviVariance(point.k, atmVariance({ ...p, atmVariance: nodes }, point.timeToExpiry), p);
+      return sum + Math.pow(Math.sqrt(Math.max(w, 0) / point.timeToExpiry) - point.volatility, 2);
+    }, 0);
+  };
+
+  const best = minimize(objective, [-0.5, 0, 0], [0.5, 1, 1]);
+  return { ...toParameters(best.x), atmVariance: nodes };
+}
+
+function residuals(points: SmilePoint[], variance: (point: SmilePoint) => number) {
+  const items: FitResidual[] = points.map(point => {
+    const fitted = Math.sqrt(Math.max(variance(point), 0) / point.timeToExpiry);
+    return {
+      expirationDate: point.expirationDate,
+      strikePrice: point.strikePrice,
+      optionType: point.optionType,
+      logMoneyness: Number(point.k.toFixed(6)),
+      marketVolatility: point.volatility,
+      fittedVolatility: Number(fitted.toFixed(6)),
+      error: Number((fitted - point.volatility).toFixed(6)),
+    };
+  });
+
+  return {
+    items,
+    rmse: Math.sqrt(items.reduce((sum, item) => sum + item.error * item.error, 0) / Math.max(items.length, 1)),
+    maxError: items.reduce((max, item) => Math.max(max, Math.abs(item.error)), 0),
+  };
+}
+
+/**
+ * Replace the fits for `symbol`'s snapshot on `snapshotDate` with ones
+ * calibrated to its points. Out-of-the-money contracts are fitted (puts
+ * below the forward, calls above) since their quotes carry the most time
+ * value. The underlying price is recovered from each point's moneyness
+ * (strike / spot). Null when no snapshot is stored.
+ */
+export async function fitIvSurface(
+  underlyingSymbol: string,
+  snapshotDate: string,
+  executor: DbExecutor = db
+): Promise<SurfaceFitSummary | null> {
+  const symbol = underlyingSymbol.toUpperCase();
+  const rows = await executor.select()
+    .from(ivSurfaceSnapshots)
+    .where(and(eq(ivSurfaceSnapshots.symbol, symbol), eq(ivSurfaceSnapshots.snapshotDate, snapshotDate)));
+
+  if (rows.length === 0) return null;
+
+  const spots = rows.map(row => row.strikePrice / row.moneyness).sort((p, q) => p - q);
+  const underlyingPrice = spots[Math.floor(spots.length / 2)];
+  const summary: SurfaceFitSummary = { symbol, snapshotDate, underlyingPrice, fits: [], skipped: [] };
+  const byExpiration = new Map<string, typeof rows>();
+  for (const row of rows) {
+    byExpiration.set(row.expirationDate, [...(byExpiration.get(row.expirationDate) ?? []), row]);
+  }
+
+  const slices: (SurfaceSlice & { points: SmilePoint[] })[] = [];
+  for (const [expirationDate, group] of [...byExpiration.entries()].sort(([p], [q]) => p.localeCompare(q))) {
+    const timeToExpiry = group[0].daysToExpiration / 365;
+    if (timeToExpiry <= 0) {
+      summary.skipped.push({ expirationDate, reason: 'expired' });
+      continue;
+    }
+
+    const forwardPrice = underlyingPrice * Math.exp(RISK_FREE_RATE * timeToExpiry);
+    const all = group
+      .filter(row => row.impliedVolatility > 0)
+      .map(row => ({
+        expirationDate,
+        strikePrice: row.strikePrice,
+        optionType: row.optionType,
+        timeToExpiry,
+        k: Math.log(row.strikePrice / forwardPrice),
+        variance: row.impliedVolatility * row.impliedVolatility * timeToExpiry,
+        volatility: row.impliedVolatility,
+      }));
+    const outOfTheMoney = all.filter(point => (point.optionType === 'call' ? point.k >= 0 : point.k < 0));
+    const points = outOfTheMoney.length >= MIN_SLICE_POINTS ? outOfTheMoney : all;
+
+    if (points.length < MIN_SLICE_POINTS) {
+      summary.skipped.push({ expirationDate, reason: 'too_few_points' });
+      continue;
+    }
+
+    slices.push({ expirationDate, timeToExpiry, forwardPrice, parameters: fitSviSlice(points), points });
+  }
+
+  await executor.delete(ivSurfaceFits)
+    .where(and(eq(ivSurfaceFits.symbol, symbol), eq(ivSurfaceFits.snapshotDate, snapshotDate)));
+  if (slices.length === 0) return summary;
+
+  const now = new Date().toISOString();
+  const records: NewIvSurfaceFit[] = slices.map((slice, i) => {
+    const fit = residuals(slice.points, point => sviVariance(point.k, slice.parameters));
+    const previous = slices[i - 1];
+    return {
+      symbol,
+      snapshotDate,
+      model: 'svi',
+      expirationDate: slice.expirationDate,
+      timeToExpiry: slice.timeToExpiry,
+      forwardPrice: slice.forwardPrice,
+      underlyingPrice,
+      riskFreeRate: RISK_FREE_RATE,
+      parameters: JSON.stringify(slice.parameters),
+      points: slice.points.length,
+      rmse: fit.rmse,
+      maxError: fit.maxError,
+      butterflyArbitrage: hasButterflyArbitrage(k => sviVariance(k, slice.parameters)),
+      calendarArbitrage: previous
+        ? hasCalendarArbitrage(k => sviVariance(k, previous.parameters), k => sviVariance(k, slice.parameters))
+        : false,
+      residuals: JSON.stringify(fit.items),
+      createdAt: now,
+    };
+  });
+
+  if (slices.length > 1) {
+    const points = slices.flatMap(slice => slice.points);
+    const ssvi = fitSsviSurface(points, slices.map(slice => ({
+      timeToExpiry: slice.timeToExpiry,
+      theta: sviVariance(0, slice.parameters),
+    })));
+    const fit = residuals(points, point => ssviVariance(point.k, atmVariance(ssvi, point.timeToExpiry), ssvi));
+    const tenors = ssvi.atmVariance;
+
+    records.push({
+      symbol,
+      snapshotDate,
+      model: 'ssvi',
+      underlyingPrice,
+      riskFreeRate: RISK_FREE_RATE,
+      parameters: JSON.stringify(ssvi),
+      points: points.length,
+      rmse: fit.rmse,
+      maxError: fit.maxError,
+      butterflyArbitrage: tenors.some(node => hasButterflyArbitrage(k => ssviVariance(k, node.theta, ssvi))),
+      calendarArbitrage: tenors.slice(1).some((node, i) => hasCalendarArbitrage(
+        k => ssviVariance(k, tenors[i].theta, ssvi),
+        k => ssviVariance(k, node.theta, ssvi)
+      )),
+      residuals: JSON.stringify(fit.items),
+      createdAt: now,
+    });
+  }
+
+  await executor.insert(ivSurfaceFits).values(records);
+
+  summary.fits = records.map(record => ({
+    model: record.model as SurfaceModel,
+    expirationDate: record.expirationDate ?? null,
+    points: record.points,
+    rmse: record.rmse,
+    maxError: record.maxError,
+    butterflyArbitrage: record.butterflyArbitrage ?? false,
+    calendarArbitrage: record.calendarArbitrage ?? false,
+  }));
+  return summary;
+}
+
+/**
+ * Latest fit rows for `symbol` on or before `asOf`'s market date
+ */
+export async function loadSurfaceFits(
+  underlyingSymbol: string,
+  asOf: Date | string = new Date(),
+  executor: DbExecutor = db
+): Promise<IvSurfaceFit[]> {
+  const symbol = underlyingSymbol.toUpperCase();
+  const date = typeof asOf === 'string' ? asOf : marketDate(asOf);
+  const latest = await executor.select({ snapshotDate: ivSurfaceFits.snapshotDate })
+    .from(ivSurfaceFits)
+    .where(and(eq(ivSurfaceFits.symbol, symbol), lte(ivSurfaceFits.snapshotDate, date)))
+    .orderBy(desc(ivSurfaceFits.snapshotDate))
+    .limit(1);
+
+  if (latest.length === 0) return [];
+
+  return executor.select()
+    .from(ivSurfaceFits)
+    .where(and(eq(ivSurfaceFits.symbol, symbol), eq(ivSurfaceFits.snapshotDate, latest[0].snapshotDate)))
+    .orderBy(desc(ivSurfaceFits.model), asc(ivSurfaceFits.timeToExpiry));
+}
+
+/**
+ * The latest fitted surface for `symbol` on or before `asOf`, or null when
+ * none has been fitted
+ */
+export async function loadFittedSurface(
+  underlyingSymbol: string,
+  asOf: Date | string = new Date(),
+  executor: DbExecutor = db
+): Promise<FittedSurface | null> {
+  const rows = await loadSurfaceFits(underlyingSymbol, asOf, executor);
+  if (rows.length === 0) return null;
+
+  const ssvi = rows.find(row => row.model === 'ssvi');
+  return {
+    symbol: rows[0].symbol,
+    snapshotDate: rows[0].snapshotDate,
+    underlyingPrice: rows[0].underlyingPrice,
+    riskFreeRate: rows[0].riskFreeRate,
+    slices: rows
+      .filter(row => row.model === 'svi')
+      .map(row => ({
+        expirationDate: row.expirationDate!,
+        timeToExpiry: row.timeToExpiry!,
+        forwardPrice: row.forwardPrice!,
+        parameters: JSON.parse(row.parameters) as SviParameters,
+      }))
+      .sort((p, q) => p.timeToExpiry - q.timeToExpiry),
+    ssvi: ssvi ? JSON.parse(ssvi.parameters) as SsviParameters : null,
+  };
+}
+
+/**
+ * Volatility from a fitted surface at a strike or a delta (calls
+ * positive, puts negative) and an expiration date or tenor in years.
+ * Listed expirations read their SVI slice; other tenors read the SSVI
+ * surface, or the nearest slice at constant total variance per year when
+ * only one expiration was fitted. An expiration date is measured from
+ * `asOf`'s market date when given, else from the snapshot date. Null when
+ * the tenor has passed.
+ */
+export function surfaceVolatility(
+  surface: FittedSurface,
+  query: { strikePrice?: number; delta?: number; expirationDate?: string; timeToExpiry?: number; asOf?: Date }
+): SurfaceVolatility | null {
+  const from = query.asOf ? marketDate(query.asOf) : surface.snapshotDate;
+  const timeToExpiry = query.expirationDate
+    ? (new Date(`${query.expirationDate.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS / 365
+    : query.timeToExpiry ?? 0;
+  if (!(timeToExpiry > 0) || surface.slices.length === 0) return null;
+
+  const listed = surface.slices.find(slice =>
+    (query.expirationDate && slice.expirationDate === query.expirationDate.slice(0, 10)) ||
+    Math.abs(slice.timeToExpiry - timeToExpiry) < 0.5 / 365
+  );
+  let model: SurfaceModel = 'svi';
+  let variance: (k: number) => number;
+
+  if (listed) {
+    variance = k => sviVariance(k, listed.parameters);
+  } else if (surface.ssvi) {
+    const ssvi = surface.ssvi;
+    const theta = atmVariance(ssvi, timeToExpiry);
+    variance = k => ssviVariance(k, theta, ssvi);
+    model = 'ssvi';
+  } else {
+    const slice = surface.slices.reduce((best, s) =>
+      Math.abs(s.timeToExpiry - timeToExpiry) < Math.abs(best.timeToExpiry - timeToExpiry) ? s : best
+    );
+    variance = k => sviVariance(k, slice.parameters) * timeToExpiry / slice.timeToExpiry;
+  }
+
+  const forwardPrice = surface.underlyingPrice * Math.exp(surface.riskFreeRate * timeToExpiry);
+  let k: number;
+  if (query.strikePrice !== undefined) {
+    k = Math.log(query.strikePrice / forwardPrice);
+  } else if (query.delta !== undefined) {
+    // Forward call delta N(d1) falls as strike rises; a put's is 1 + delta
+    const target = query.delta > 0 ? query.delta : 1 + query.delta;
+    const callDelta = (x: number) => {
+      const w = Math.max(variance(x), 1e-12);
+      return normCDF((-x + w / 2) / Math.sqrt(w));
+    };
+    let low = ARBITRAGE_GRID.from * 2;
+    let high = ARBITRAGE_GRID.to * 2;
+    for (let i = 0; i < 100; i++) {
+      const mid = (low + high) / 2;
+      if (callDelta(mid) > target) low = mid;
+      else high = mid;
+    }
+    k = (low + high) / 2;
+  } else {
+    k = 0;
+  }
+
+  const w = variance(k);
+  if (!(w > 0)) return null;
+
+  return {
+    volatility: Math.sqrt(w / timeToExpiry),
+    strikePrice: forwardPrice * Math.exp(k),
+    timeToExpiry,
+    model,
+  };
+}
+
+/**
+ * Volatility for an option contract as of `asOf`: the fitted surface at its
+ * strike and expiration, else its latest quote's implied volatility. A
+ * surface from an earlier market day is only used when no quote with an
+ * implied volatility is newer than it. Null when neither is stored.
+ */
+export async function contractVolatility(
+  contract: Pick<OptionContract, 'underlyingSymbol' | 'optionSymbol' | 'strikePrice' | 'expirationDate'>,
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<number | null> {
+  const quote = await executor.select({ impliedVolatility: optionsQuotes.impliedVolatility, timestamp: optionsQuotes.timestamp })
+    .from(optionsQuotes)
+    .where(and(eq(optionsQuotes.optionSymbol, contract.optionSymbol), lte(optionsQuotes.timestamp, asOf.toISOString())))
+    .orderBy(desc(optionsQuotes.timestamp))
+    .limit(1);
+  const quoted = quote[0]?.impliedVolatility ? quote[0] : null;
+
+  const surface = await loadFittedSurface(contract.underlyingSymbol, asOf, executor);
+  const current = surface !== null && (
+    surface.snapshotDate === marketDate(asOf) ||
+    !quoted || marketDate(new Date(quoted.timestamp)) <= surface.snapshotDate
+  );
+  const fitted = current
+    ? surfaceVolatility(surface, { strikePrice: contract.strikePrice, expirationDate: contract.expirationDate, asOf })
+    : null;
+  if (fitted) return fitted.volatility;
+
+  return quoted?.impliedVolatility ?? null;
+}
+
+/**
+ * contractVolatility for an OCC symbol
+ */
+export async function optionSymbolVolatility(
+  optionSymbol: string,
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<number | null> {
+  const contract = parseOccSymbol(optionSymbol);
+  return contract ? contractVolatility(contract, asOf, executor) : null;
+}
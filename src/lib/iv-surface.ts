@@ -0,0 +1,113 @@
+/**
+ * IV Surface Builder
+ * Builds a day's implied volatility surface for an underlying from the
+ * latest stored quote of each unexpired contract. Volatility is solved
+ * from the quote's mid (or last price) so every point comes from the same
+ * model; the provider's figure is used only for contracts without a
+ * price. Contracts with no solution are reported, not stored.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { optionsQuotes, ivSurfaceSnapshots, assets } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import type { ImpliedVolatilityFailure } from '@/lib/greeks-calculator';
+import { contractImpliedVolatility, parseOccSymbol } from '@/lib/paper-trading/option-contracts';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IvSurfaceBuild {
+  symbol: string;
+  snapshotDate: string;
+  underlyingPrice: number;
+  points: number;
+  solved: number;       // Points solved from a quoted price
+  provided: number;     // Points using the provider's volatility
+  skipped: { optionSymbol: string; reason: ImpliedVolatilityFailure | 'no_price' }[];
+}
+
+/**
+ * Replace the snapshot for `symbol` on the market date of `asOf` with one
+ * built from stored quotes. Null when no quotes or underlying price are
+ * stored.
+ */
+export async function buildIvSurface(
+  underlyingSymbol: string,
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<IvSurfaceBuild | null> {
+  const symbol = underlyingSymbol.toUpperCase();
+  const snapshotDate = marketDate(asOf);
+
+  const rows = await executor.select()
+    .from(optionsQuotes)
+    .where(eq(optionsQuotes.symbol, symbol))
+    .orderBy(desc(optionsQuotes.timestamp));
+
+  const asset = await executor.select({ currentPrice: assets.currentPrice })
+    .from(assets)
+    .where(eq(assets.symbol, symbol))
+    .limit(1);
+  const underlyingPrice = rows.find(row => row.underlyingPrice)?.underlyingPrice
+    ?? asset[0]?.currentPrice
+    ?? null;
+
+  if (rows.length === 0 || !underlyingPrice) return null;
+
+  const latest = new Map<string, typeof rows[number]>();
+  for (const row of rows) {
+    if (!latest.has(row.optionSymbol)) latest.set(row.optionSymbol, row);
+  }
+
+  const build: IvSurfaceBuild = { symbol, snapshotDate, underlyingPrice, points: 0, solved: 0, provided: 0, skipped: [] };
+  const now = new Date().toISOString();
+  const points = [];
+
+  for (const row of latest.values()) {
+    const contract = parseOccSymbol(row.optionSymbol);
+    if (!contract || contract.expirationDate < snapshotDate) continue;
+
+    const spot = row.underlyingPrice ?? underlyingPrice;
+    const price = row.bid && row.ask ? (row.bid + row.ask) / 2 : row.lastPrice;
+    let volatility: number | null = null;
+
+    if (price) {
+      const result = contractImpliedVolatility(contract, price, spot, new Date(row.timestamp));
+      volatility = result.volatility;
+      if (volatility === null) {
+        build.skipped.push({ optionSymbol: row.optionSymbol, reason: result.reason! });
+        continue;
+      }
+      build.solved++;
+    } else if (row.impliedVolatility) {
+      volatility = row.impliedVolatility;
+      build.provided++;
+    } else {
+      build.skipped.push({ optionSymbol: row.optionSymbol, reason: 'no_price' });
+      continue;
+    }
+
+    points.push({
+      symbol,
+      snapshotDate,
+      expirationDate: contract.expirationDate,
+      strikePrice: contract.strikePrice,
+      daysToExpiration: Math.round(
+        (new Date(`${contract.expirationDate}T00:00:00Z`).getTime() - new Date(`${snapshotDate}T00:00:00Z`).getTime()) / DAY_MS
+      ),
+      moneyness: contract.strikePrice / spot,
+      impliedVolatility: volatility,
+      optionType: contract.optionType,
+      createdAt: now,
+    });
+  }
+
+  await executor.delete(ivSurfaceSnapshots)
+    .where(and(eq(ivSurfaceSnapshots.symbol, symbol), eq(ivSurfaceSnapshots.snapshotDate, snapshotDate)));
+  if (points.length > 0) {
+    await executor.insert(ivSurfaceSnapshots).values(points);
+  }
+
+  build.points = points.length;
+  return build;
+}
@@ -1,5 +1,7 @@
 // Production-ready backtesting engine for ML trading strategies
 import { TechnicalFeatures, VolatilityFeatures } from './feature-engine';
+import { estimateFill, type FillModelConfig } from '@/lib/fill-model';
+import { executionFees, DEFAULT_COMMISSION_SCHEDULE, type CommissionSchedule } from '@/lib/commission-schedule';
 
 export interface BacktestConfig {
   name: string;
@@ -14,6 +16,8 @@ export interface BacktestConfig {
   takeProfit: number; // Percentage
   commission: number; // Per trade
   slippage: number; // Percentage
+  fillModel?: FillModelConfig; // Overrides slippage; same model the paper engine uses
+  commissionSchedule?: CommissionSchedule; // Overrides commission; same schedule the paper engine uses
 }
 
 export interface Trade {
@@ -27,7 +31,7 @@ export interface Trade {
   exitTime: number;
   pnl: number;
   pnlPercent: number;
-  commission: number;
+  commission: number; // Commission and fees, entry and exit
   slippage: number;
   reason: 'stop_loss' | 'take_profit' | 'model_signal' | 'end_of_data';
   modelPrediction: number;
@@ -143,32 +147,71 @@ export class BacktestingEngine {
     return this.backtests.delete(backtestId);
   }
 
+  /**
+   * Daily bars for each symbol, split-adjusted so a split inside the
+   * window doesn't read as a price gap. Symbols without history fall
+   * back to simulated data.
+   */
   private async loadHistoricalData(config: BacktestConfig): Promise<any[]> {
-    // This would load real historical data
-    // For now, return simulated data
+    const data: any[] = [];
+
+    for (const symbol of config.symbols) {
+      const bars = await this.fetchSplitAdjustedBars(symbol, config);
+      data.push(...(bars.length > 0 ? bars : this.simulateHistoricalData(symbol, config)));
+    }
+
+    return data.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private async fetchSplitAdjustedBars(symbol: string, config: BacktestConfig): Promise<any[]> {
+    try {
+      const params = new URLSearchParams({
+        symbol,
+        timeframe: '1Day',
+        start: config.startDate.toISOString(),
+        end: config.endDate.toISOString(),
+      });
+      const response = await fetch(`/api/market-data/bars?${params}`);
+      if (!response.ok) return [];
+
+      const { bars } = await response.json();
+      return (bars || []).map((bar: any) => ({
+        symbol,
+        timestamp: new Date(bar.t).getTime(),
+        open: bar.o,
+        high: bar.h,
+        low: bar.l,
+        close: bar.c,
+        volume: bar.v
+      }));
+    } catch (error) {
+      console.error(`Failed to load historical bars for ${symbol}:`, error);
+      return [];
+    }
+  }
+
+  private simulateHistoricalData(symbol: string, config: BacktestConfig): any[] {
     const data: any[] = [];
     const startTime = config.startDate.getTime();
     const endTime = config.endDate.getTime();
     const interval = 24 * 60 * 60 * 1000; // Daily data
     
     for (let time = startTime; time <= endTime; time += interval) {
-      for (const symbol of config.symbols) {
-        const basePrice = 100 + Math.random() * 100;
-        const change = (Math.random() - 0.5) * 4;
-        
-        data.push({
-          symbol,
-          timestamp: time,
-          open: basePrice,
-          high: basePrice + Math.random() * 2,
-          low: basePrice - Math.random() * 2,
-          close: basePrice + change,
-          volume: Math.floor(Math.random() * 1000000) + 100000
-        });
-      }
+      const basePrice = 100 + Math.random() * 100;
+      const change = (Math.random() - 0.5) * 4;
+      
+      data.push({
+        symbol,
+        timestamp: time,
+        open: basePrice,
+        high: basePrice + Math.random() * 2,
+        low: basePrice - Math.random() * 2,
+        close: basePrice + change,
+        volume: Math.floor(Math.random() * 1000000) + 100000
+      });
     }
     
-    return data.sort((a, b) => a.timestamp - b.timestamp);
+    return data;
   }
 
   private async generateFeatures(historicalData: any[]): Promise<any[]> {
@@ -186,6 +229,25 @@ export class BacktestingEngine {
     }));
   }
 
+  /**
+   * Commission schedule for a backtest: the configured one, or the legacy
+   * flat per-trade commission charged on entry and on exit
+   */
+  private getCommissionSchedule(config: BacktestConfig): CommissionSchedule {
+    return config.commissionSchedule ?? { ...DEFAULT_COMMISSION_SCHEDULE, perOrder: config.commission };
+  }
+
+  /**
+   * Fill model for a backtest: the configured one, or fixed slippage
+   * derived from the legacy percentage setting
+   */
+  private getFillModel(config: BacktestConfig): FillModelConfig {
+    return config.fillModel ?? {
+      slippage: { type: 'fixed_bps', bps: config.slippage * 10000 },
+      maxVolumeShare: 1,
+    };
+  }
+
   private async runSimulation(
     result: BacktestResult, 
     features: any[], 
@@ -197,6 +259,10 @@ export class BacktestingEngine {
     
     const equityCurve: Array<{ timestamp: number; equity: number; drawdown: number }> = [];
     let peakEquity = capital;
+    const fillModel = this.getFillModel(result.config);
+    const commissionSchedule = this.getCommissionSchedule(result.config);
+    const stockFees = (side: 'buy' | 'sell', quantity: number, price: number) =>
+      executionFees(commissionSchedule, { side, quantity, price, isOption: false }).total;
     
     for (let i = 0; i < features.length; i++) {
       const data = features[i];
@@ -224,12 +290,21 @@ export class BacktestingEngine {
           
           if (shouldExit) {
             // Close position
-            const exitPrice = currentPrice * (1 + (Math.random() - 0.5) * result.config.slippage);
+            const exitFill = estimateFill(fillModel, {
+              side: position.type === 'long' ? 'sell' : 'buy',
+              quantity: position.quantity,
+              price: currentPrice,
+              volume: data.volume,
+              isStop: exitReason === 'stop_loss',
+            });
+            const exitPrice = exitFill.fillPrice;
             const pnl = position.type === 'long'
               ? (exitPrice - position.entryPrice) * position.quantity
               : (position.entryPrice - exitPrice) * position.quantity;
             
-            const commission = result.config.commission * 2; // Entry + exit
+            // Entry fees were taken from capital when the position opened
+            const exitFees = stockFees(position.type === 'long' ? 'sell' : 'buy', position.quantity, exitPrice);
+            const commission = position.commission + exitFees;
             const netPnl = pnl - commission;
             
             position.exitPrice = exitPrice;
@@ -237,10 +312,10 @@ export class BacktestingEngine {
             position.pnl = netPnl;
             position.pnlPercent = pnlPercent;
             position.commission = commission;
-            position.slippage = Math.abs(exitPrice - currentPrice) / currentPrice;
+            position.slippage += exitFill.slippage / currentPrice;
             position.reason = exitReason;
             
-            capital += netPnl;
+            capital += pnl - exitFees;
             positions.delete(symbol);
             result.trades.push(position);
           }
@@ -255,28 +330,39 @@ export class BacktestingEngine {
         
         if (Math.abs(prediction) > 0.3 && confidence > 0.6) {
           const positionSize = capital * result.config.positionSize;
-          const quantity = positionSize / currentPrice;
+          // Entry size is capped by the bar's volume
+          const entryFill = estimateFill(fillModel, {
+            side: prediction > 0 ? 'buy' : 'sell',
+            quantity: positionSize / currentPrice,
+            price: currentPrice,
+            volume: data.volume,
+          });
+          const quantity = entryFill.fillQuantity;
           
-          const trade: Trade = {
-            id: `trade_${tradeId++}`,
-            symbol: data.symbol,
-            type: prediction > 0 ? 'long' : 'short',
-            entryPrice: currentPrice,
-            exitPrice: 0,
-            quantity,
-            entryTime: timestamp,
-            exitTime: 0,
-            pnl: 0,
-            pnlPercent: 0,
-            commission: result.config.commission,
-            slippage: 0,
-            reason: 'model_signal',
-            modelPrediction: prediction,
-            confidence
-          };
+          if (quantity > 0) {
+            const entryFees = stockFees(prediction > 0 ? 'buy' : 'sell', quantity, entryFill.fillPrice);
+
+            const trade: Trade = {
+              id: `trade_${tradeId++}`,
+              symbol: data.symbol,
+              type: prediction > 0 ? 'long' : 'short',
+              entryPrice: entryFill.fillPrice,
+              exitPrice: 0,
+              quantity,
+              entryTime: timestamp,
+              exitTime: 0,
+              pnl: 0,
+              pnlPercent: 0,
+              commission: entryFees,
+              slippage: entryFill.slippage / currentPrice,
+              reason: 'model_signal',
+              modelPrediction: prediction,
+              confidence
+            };
           
-          positions.set(data.symbol, trade);
-          capital -= result.config.commission;
+            positions.set(data.symbol, trade);
+            capital -= entryFees;
+          }
         }
       }
       
@@ -305,7 +391,14 @@ export class BacktestingEngine {
     for (const [symbol, position] of positions) {
       if (position.exitTime === 0) {
         const lastData = features[features.length - 1];
-        position.exitPrice = lastData.close;
+        const exitFill = estimateFill(fillModel, {
+          side: position.type === 'long' ? 'sell' : 'buy',
+          quantity: position.quantity,
+          price: lastData.close,
+          volume: lastData.volume,
+        });
+        position.exitPrice = exitFill.fillPrice;
+        position.slippage += exitFill.slippage / lastData.close;
         position.exitTime = lastData.timestamp;
         position.reason = 'end_of_data';
         
@@ -313,6 +406,7 @@ export class BacktestingEngine {
           ? (position.exitPrice - position.entryPrice) * position.quantity
           : (position.entryPrice - position.exitPrice) * position.quantity;
         
+        position.commission += stockFees(position.type === 'long' ? 'sell' : 'buy', position.quantity, position.exitPrice);
         position.pnl = pnl - position.commission;
         position.pnlPercent = position.type === 'long'
           ? (position.exitPrice - position.entryPrice) / position.entryPrice
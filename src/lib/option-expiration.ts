@@ -0,0 +1,662 @@
+/**
+ * Option Expiration Processing
+ * End-of-day settlement of expiring option positions, for both paper
+ * positions and tracked `positions`:
+ * - long ITM options at or above the exercise threshold are exercised
+ * - short ITM options are assigned into stock
+ * - everything else expires worthless
+ * Short calls are also assigned early ahead of an ex-dividend date when
+ * their remaining time value is worth less than the dividend.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { assets, paperPositions, paperOrders, paperTradingAccounts, positions, trades, optionsQuotes } from '@/db/schema';
+import type { PaperPosition, Position } from '@/db/schema';
+import { eq, and, desc, inArray, isNotNull, lte } from 'drizzle-orm';
+import { applyFill, cancelOrder, runAtomically } from '@/lib/paper-trading/order-execution';
+import { recordOrderEvent } from '@/lib/paper-trading/order-history';
+import { applyTradeLots } from '@/lib/tax-lots';
+import { OPEN_ORDER_STATUSES } from '@/lib/paper-trading/order-groups';
+import { contractExpiry, OPTION_MULTIPLIER } from '@/lib/paper-trading/option-contracts';
+import { getNextSession, marketDate } from '@/lib/paper-trading/market-session';
+
+// OCC exercise-by-exception: long options $0.01 or more in the money are exercised
+export const DEFAULT_EXERCISE_THRESHOLD = 0.01;
+
+export type ExpirationAction = 'exercised' | 'assigned' | 'early_assigned' | 'expired' | 'cash_settled';
+
+export interface ExDividend {
+  symbol: string;
+  exDate: string; // YYYY-MM-DD
+  amount: number; // Per share
+}
+
+export interface ExpirationOptions {
+  asOf?: string;
+  exerciseThreshold?: number;
+  settlementPrices?: Record<string, number>; // Underlying closing prices; assets.currentPrice otherwise
+  exDividends?: ExDividend[];
+}
+
+export interface ExpirationEvent {
+  source: 'paper' | 'positions';
+  positionId: number;
+  optionSymbol: string | null;
+  underlyingSymbol: string;
+  optionType: 'call' | 'put';
+  strikePrice: number;
+  quantity: number;          // Signed contracts; negative for shorts
+  settlementPrice: number;
+  intrinsicValue: number;
+  action: ExpirationAction;
+  deliveredShares: number;   // Signed shares received (+) or delivered (-)
+  cashFlow: number;          // Cash received (+) or paid (-) on settlement
+  realizedPnl: number;       // P&L realized on the option leg
+}
+
+export interface EarlyAssignmentRisk {
+  source: 'paper' | 'positions';
+  positionId: number;
+  underlyingSymbol: string;
+  strikePrice: number;
+  exDate: string;
+  dividend: number;
+  extrinsicValue: number;
+  assigned: boolean;
+}
+
+export interface ExpirationSummary {
+  asOf: string;
+  events: ExpirationEvent[];
+  earlyAssignmentRisks: EarlyAssignmentRisk[];
+  skipped: Array<{ source: 'paper' | 'positions'; positionId: number; reason: string }>;
+}
+
+export function intrinsicValue(optionType: 'call' | 'put', strikePrice: number, spotPrice: number): number {
+  return optionType === 'call'
+    ? Math.max(spotPrice - strikePrice, 0)
+    : Math.max(strikePrice - spotPrice, 0);
+}
+
+/**
+ * What happens to an expiring position. Shorts are assigned whenever
+ * they finish in the money; longs only at or above the threshold.
+ */
+export function expirationAction(
+  quantity: number,
+  intrinsic: number,
+  threshold: number = DEFAULT_EXERCISE_THRESHOLD
+): 'exercised' | 'assigned' | 'expired' {
+  if (quantity > 0) {
+    return intrinsic >= threshold ? 'exercised' : 'expired';
+  }
+  return intrinsic > 0 ? 'assigned' : 'expired';
+}
+
+/**
+ * Whether a short call is likely to be assigned the session before an
+ * ex-dividend date: the holder gives up less time value than the dividend
+ * they capture by exercising.
+ */
+export function shouldEarlyAssign(extrinsicValue: number, dividend: number): boolean {
+  return dividend > 0 && extrinsicValue < dividend;
+}
+
+// Ex-dividend dates falling on the next trading session after asOf
+function upcomingExDividends(asOf: Date, exDividends: ExDividend[]): Map<string, ExDividend> {
+  const today = marketDate(asOf);
+  const todayClose = contractExpiry(today);
+  const nextSession = marketDate(getNextSession(new Date(Math.max(todayClose.getTime(), asOf.getTime()) + 1)).open);
+
+  const upcoming = new Map<string, ExDividend>();
+  for (const dividend of exDividends) {
+    if (dividend.exDate > today && dividend.exDate <= nextSession) {
+      upcoming.set(dividend.symbol.toUpperCase(), dividend);
+    }
+  }
+  return upcoming;
+}
+
+async function underlyingPrice(
+  symbol: string,
+  settlementPrices: Record<string, number>
+): Promise<number | null> {
+  const override = settlementPrices[symbol.toUpperCase()];
+  if (override !== undefined) return override;
+
+  const asset = await db.select({ currentPrice: assets.currentPrice })
+    .from(assets)
+    .where(eq(assets.symbol, symbol.toUpperCase()))
+    .limit(1);
+  return asset[0]?.currentPrice ?? null;
+}
+
+// Latest mid (or last) price of a contract, used for its remaining time value
+async function optionMark(optionSymbol: string | null, fallback: number | null): Promise<number | null> {
+  if (optionSymbol) {
+    const quote = await db.select()
+      .from(optionsQuotes)
+      .where(eq(optionsQuotes.optionSymbol, optionSymbol))
+      .orderBy(desc(optionsQuotes.timestamp))
+      .limit(1);
+
+    if (quote.length > 0) {
+      const { bid, ask, lastPrice } = quote[0];
+      if (bid && ask) return (bid + ask) / 2;
+      if (lastPrice) return lastPrice;
+    }
+  }
+  return fallback;
+}
+
+async function resolveUnderlyingAsset(symbol: string, executor: DbExecutor = db) {
+  const existing = await executor.select()
+    .from(assets)
+    .where(eq(assets.symbol, symbol))
+    .limit(1);
+
+  if (existing.length > 0) return existing[0];
+
+  const now = new Date().toISOString();
+  const created = await executor.insert(assets)
+    .values({ symbol, name: symbol, createdAt: now, updatedAt: now })
+    .returning();
+  return created[0];
+}
+
+/**
+ * Record a settlement as a filled paper order and apply it to the account
+ */
+async function settlePaperOrder(
+  position: PaperPosition,
+  values: {
+    assetId: number;
+    side: 'buy' | 'sell';
+    quantity: number;
+    price: number;
+    markPrice?: number;
+    orderType: 'exercise' | 'assignment' | 'expiration';
+    option: boolean;
+  },
+  timestamp: string,
+  tx: DbExecutor
+) {
+  const order = await tx.insert(paperOrders)
+    .values({
+      paperAccountId: position.paperAccountId,
+      assetId: values.assetId,
+      orderType: values.orderType,
+      side: values.side,
+      quantity: values.quantity,
+      status: 'pending',
+      filledQuantity: 0,
+      timeInForce: 'day',
+      ...(values.option
+        ? {
+            optionSymbol: position.optionSymbol,
+            underlyingSymbol: position.underlyingSymbol,
+            optionType: position.optionType,
+            strikePrice: position.strikePrice,
+            expirationDate: position.expirationDate,
+            multiplier: position.multiplier,
+          }
+        : {}),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    })
+    .returning();
+
+  await recordOrderEvent({ order: order[0], eventType: 'created', fromStatus: null, timestamp }, tx);
+
+  return applyFill({
+    order: order[0],
+    fillPrice: values.price,
+    marketPrice: values.markPrice ?? values.price,
+    timestamp,
+    forced: true,
+  }, tx);
+}
+
+/**
+ * Settle one paper option position: close the contract and, for
+ * exercise or assignment, deliver the underlying at the strike
+ */
+async function settlePaperPosition(
+  position: PaperPosition,
+  action: ExpirationAction,
+  settlementPrice: number,
+  timestamp: string,
+  tx: DbExecutor
+): Promise<ExpirationEvent> {
+  const optionType = position.optionType as 'call' | 'put';
+  const strikePrice = position.strikePrice!;
+  const multiplier = position.multiplier || OPTION_MULTIPLIER;
+  const contracts = Math.abs(position.quantity);
+  const intrinsic = intrinsicValue(optionType, strikePrice, settlementPrice);
+  const closingSide = position.quantity > 0 ? 'sell' : 'buy';
+
+  const orderType = action === 'expired'
+    ? 'expiration'
+    : action === 'exercised' || action === 'cash_settled' ? 'exercise' : 'assignment';
+
+  // Cash-settled longs close at intrinsic value; everything else at zero
+  await settlePaperOrder(position, {
+    assetId: position.assetId,
+    side: closingSide,
+    quantity: contracts,
+    price: action === 'cash_settled' ? intrinsic : 0,
+    orderType,
+    option: true,
+  }, timestamp, tx);
+
+  const realizedPnl = (action === 'cash_settled' ? intrinsic : 0) * contracts * multiplier
+    - position.averageCost * position.quantity * multiplier;
+  let cashFlow = action === 'cash_settled' ? intrinsic * contracts * multiplier : 0;
+  let deliveredShares = 0;
+
+  if (action === 'exercised' || action === 'assigned' || action === 'early_assigned') {
+    // Long calls and short puts take the shares; long puts and short calls deliver them
+    const receives = (position.quantity > 0) === (optionType === 'call');
+    const shares = contracts * multiplier;
+    const underlying = await resolveUnderlyingAsset(position.underlyingSymbol!, tx);
+
+    await settlePaperOrder(position, {
+      assetId: underlying.id,
+      side: receives ? 'buy' : 'sell',
+      quantity: shares,
+      price: strikePrice,
+      markPrice: settlementPrice,
+      orderType,
+      option: false,
+    }, timestamp, tx);
+
+    deliveredShares = receives ? shares : -shares;
+    cashFlow = receives ? -strikePrice * shares : strikePrice * shares;
+  }
+
+  return {
+    source: 'paper',
+    positionId: position.id,
+    optionSymbol: position.optionSymbol,
+    underlyingSymbol: position.underlyingSymbol!,
+    optionType,
+    strikePrice,
+    quantity: position.quantity,
+    settlementPrice,
+    intrinsicValue: intrinsic,
+    action,
+    deliveredShares,
+    cashFlow,
+    realizedPnl,
+  };
+}
+
+/**
+ * Settle expiring paper option positions and assign short calls at risk
+ * ahead of an ex-dividend date
+ */
+export async function processPaperExpirations(options: ExpirationOptions = {}): Promise<ExpirationSummary> {
+  const asOf = options.asOf || new Date().toISOString();
+  const asOfDate = new Date(asOf);
+  const threshold = options.exerciseThreshold ?? DEFAULT_EXERCISE_THRESHOLD;
+  const settlementPrices = options.settlementPrices || {};
+  const exDividends = upcomingExDividends(asOfDate, options.exDividends || []);
+  const summary: ExpirationSummary = { asOf, events: [], earlyAssignmentRisks: [], skipped: [] };
+
+  const optionPositions = await db.select()
+    .from(paperPositions)
+    .where(and(
+      isNotNull(paperPositions.optionSymbol),
+      isNotNull(paperPositions.expirationDate)
+    ));
+
+  for (const position of optionPositions) {
+    if (!position.underlyingSymbol || !position.strikePrice || !position.optionType || position.quantity === 0) {
+      summary.skipped.push({ source: 'paper', positionId: position.id, reason: 'Incomplete contract details' });
+      continue;
+    }
+
+    const expiring = contractExpiry(position.expirationDate!) <= asOfDate;
+    const dividend = exDividends.get(position.underlyingSymbol);
+    const earlyCandidate = !expiring && dividend && position.quantity < 0 && position.optionType === 'call';
+    if (!expiring && !earlyCandidate) continue;
+
+    const spot = await underlyingPrice(position.underlyingSymbol, settlementPrices);
+    if (spot === null) {
+      summary.skipped.push({ source: 'paper', positionId: position.id, reason: 'No underlying price' });
+      continue;
+    }
+
+    const intrinsic = intrinsicValue(position.optionType as 'call' | 'put', position.strikePrice, spot);
+
+    if (earlyCandidate) {
+      if (intrinsic <= 0) continue;
+
+      const mark = await optionMark(position.optionSymbol, position.currentPrice);
+      const extrinsicValue = Math.max((mark ?? intrinsic) - intrinsic, 0);
+      const assigned = shouldEarlyAssign(extrinsicValue, dividend!.amount);
+
+      summary.earlyAssignmentRisks.push({
+        source: 'paper',
+        positionId: position.id,
+        underlyingSymbol: position.underlyingSymbol,
+        strikePrice: position.strikePrice,
+        exDate: dividend!.exDate,
+        dividend: dividend!.amount,
+        extrinsicValue,
+        assigned,
+      });
+
+      if (assigned) {
+        summary.events.push(await runAtomically(tx => settlePaperPosition(position, 'early_assigned', spot, asOf, tx)));
+      }
+      continue;
+    }
+
+    // The cash check, the settlement and the cleanup of orders on the
+    // contract commit together
+    summary.events.push(await runAtomically(async (tx) => {
+      let action: ExpirationAction = expirationAction(position.quantity, intrinsic, threshold);
+
+      // Long calls the account cannot pay for are closed at intrinsic value instead
+      if (action === 'exercised' && position.optionType === 'call') {
+        const account = await tx.select()
+          .from(paperTradingAccounts)
+          .where(eq(paperTradingAccounts.id, position.paperAccountId))
+          .limit(1);
+        const exerciseCost = position.strikePrice! * position.quantity * (position.multiplier || OPTION_MULTIPLIER);
+        if (!account[0] || account[0].cashBalance < exerciseCost) {
+          action = 'cash_settled';
+        }
+      }
+
+      const event = await settlePaperPosition(position, action, spot, asOf, tx);
+
+      // Orders on the expired contract can no longer work
+      const openOrders = await tx.select({ id: paperOrders.id })
+        .from(paperOrders)
+        .where(and(
+          eq(paperOrders.paperAccountId, position.paperAccountId),
+          eq(paperOrders.optionSymbol, position.optionSymbol!),
+          inArray(paperOrders.status, OPEN_ORDER_STATUSES)
+        ));
+      for (const order of openOrders) {
+        await cancelOrder(order.id, asOf, 'expired', tx);
+      }
+
+      return event;
+    }));
+  }
+
+  return summary;
+}
+
+// Direction and type of a tracked position, e.g. 'call', 'buy_put', 'sell_call'
+function parsePositionType(positionType: string): { optionType: 'call' | 'put'; short: boolean } | null {
+  const match = /^(buy_|sell_)?(call|put)$/.exec(positionType.toLowerCase());
+  if (!match) return null;
+  return { optionType: match[2] as 'call' | 'put', short: match[1] === 'sell_' };
+}
+
+/**
+ * Settle one tracked position: mark the option closed, write its trades
+ * and move the delivered shares into the user's stock position. Run it in
+ * a transaction so the option never closes without its delivery and lots.
+ */
+async function settleTrackedPosition(
+  position: Position,
+  contract: { optionType: 'call' | 'put'; short: boolean },
+  symbol: string,
+  action: ExpirationAction,
+  settlementPrice: number,
+  timestamp: string,
+  tx: DbExecutor
+): Promise<ExpirationEvent> {
+  const strikePrice = position.strikePrice!;
+  const contracts = Math.abs(position.quantity);
+  const signedContracts = contract.short ? -contracts : contracts;
+  const intrinsic = intrinsicValue(contract.optionType, strikePrice, settlementPrice);
+  const premium = position.entryPrice * contracts * OPTION_MULTIPLIER;
+  // The contract leaves the book at zero: longs lose the premium, shorts keep it
+  const realizedPnl = contract.short ? premium : -premium;
+
+  await tx.update(positions)
+    .set({
+      status: action === 'early_assigned' ? 'assigned' : action,
+      currentPrice: 0,
+      unrealizedPnl: 0,
+      updatedAt: timestamp,
+    })
+    .where(eq(positions.id, position.id));
+
+  const closingTrade = await tx.insert(trades).values({
+    userId: position.userId,
+    positionId: position.id,
+    assetId: position.assetId,
+    tradeType: action === 'expired' ? 'expire' : action === 'exercised' ? 'exercise' : 'assignment',
+    quantity: contracts,
+    price: 0,
+    commission: 0,
+    pnl: realizedPnl,
+    executedAt: timestamp,
+    createdAt: timestamp,
+  }).returning();
+  await applyTradeLots(closingTrade[0], undefined, tx);
+
+  let deliveredShares = 0;
+  let cashFlow = 0;
+
+  if (action !== 'expired') {
+    const receives = !contract.short === (contract.optionType === 'call');
+    const shares = contracts * OPTION_MULTIPLIER;
+    deliveredShares = receives ? shares : -shares;
+    cashFlow = receives ? -strikePrice * shares : strikePrice * shares;
+
+    // Fold the delivery into an open stock position on the same asset
+    const stock = await tx.select()
+      .from(positions)
+      .where(and(
+        eq(positions.userId, position.userId),
+        eq(positions.assetId, position.assetId!),
+        eq(positions.positionType, 'stock'),
+        eq(positions.status, 'open')
+      ))
+      .limit(1);
+
+    let stockPositionId: number;
+    if (stock.length > 0) {
+      const current = stock[0];
+      const newQuantity = current.quantity + deliveredShares;
+      const adding = Math.sign(current.quantity) === Math.sign(deliveredShares);
+      const entryPrice = adding
+        ? (current.entryPrice * Math.abs(current.quantity) + strikePrice * shares) / Math.abs(newQuantity)
+        : current.entryPrice;
+
+      await tx.update(positions)
+        .set({
+          quantity: newQuantity,
+          entryPrice,
+          status: newQuantity === 0 ? 'closed' : 'open',
+          updatedAt: timestamp,
+        })
+        .where(eq(positions.id, current.id));
+      stockPositionId = current.id;
+    } else {
+      const created = await tx.insert(positions)
+        .values({
+          userId: position.userId,
+          strategyId: position.strategyId,
+          assetId: position.assetId,
+          positionType: 'stock',
+          quantity: deliveredShares,
+          entryPrice: strikePrice,
+          currentPrice: settlementPrice,
+          unrealizedPnl: (settlementPrice - strikePrice) * deliveredShares,
+          status: 'open',
+          openedAt: timestamp,
+          updatedAt: timestamp,
+        })
+        .returning();
+      stockPositionId = created[0].id;
+    }
+
+    const deliveryTrade = await tx.insert(trades).values({
+      userId: position.userId,
+      positionId: stockPositionId,
+      assetId: position.assetId,
+      tradeType: receives ? 'buy' : 'sell',
+      quantity: shares,
+      price: strikePrice,
+      commission: 0,
+      pnl: 0,
+      executedAt: timestamp,
+      createdAt: timestamp,
+    }).returning();
+    await applyTradeLots(deliveryTrade[0], undefined, tx);
+  }
+
+  return {
+    source: 'positions',
+    positionId: position.id,
+    optionSymbol: null,
+    underlyingSymbol: symbol,
+    optionType: contract.optionType,
+    strikePrice,
+    quantity: signedContracts,
+    settlementPrice,
+    intrinsicValue: intrinsic,
+    action,
+    deliveredShares,
+    cashFlow,
+    realizedPnl,
+  };
+}
+
+/**
+ * Settle expiring single-leg option positions in `positions` and assign
+ * short calls at risk ahead of an ex-dividend date. Multi-leg rows such
+ * as 'straddle' or 'spread' carry no per-leg contract and are skipped.
+ */
+export async function processPositionExpirations(options: ExpirationOptions = {}): Promise<ExpirationSummary> {
+  const asOf = options.asOf || new Date().toISOString();
+  const asOfDate = new Date(asOf);
+  const threshold = options.exerciseThreshold ?? DEFAULT_EXERCISE_THRESHOLD;
+  const settlementPrices = options.settlementPrices || {};
+  const exDividends = upcomingExDividends(asOfDate, options.exDividends || []);
+  const summary: ExpirationSummary = { asOf, events: [], earlyAssignmentRisks: [], skipped: [] };
+
+  // Only positions expiring within the next session can be affected
+  const horizon = getNextSession(new Date(asOfDate.getTime() + 1)).close.toISOString();
+
+  const openOptions = await db.select({
+    position: positions,
+    symbol: assets.symbol,
+    currentPrice: assets.currentPrice,
+  })
+    .from(positions)
+    .innerJoin(assets, eq(positions.assetId, assets.id))
+    .where(and(
+      eq(positions.status, 'open'),
+      isNotNull(positions.strikePrice),
+      isNotNull(positions.expirationDate),
+      lte(positions.expirationDate, horizon)
+    ));
+
+  for (const { position, symbol, currentPrice } of openOptions) {
+    const contract = parsePositionType(position.positionType);
+    if (!contract) {
+      summary.skipped.push({ source: 'positions', positionId: position.id, reason: `Unsupported position type '${position.positionType}'` });
+      continue;
+    }
+
+    const expiring = contractExpiry(position.expirationDate!) <= asOfDate;
+    const dividend = exDividends.get(symbol.toUpperCase());
+    const earlyCandidate = !expiring && dividend && contract.short && contract.optionType === 'call';
+    if (!expiring && !earlyCandidate) continue;
+
+    const spot = settlementPrices[symbol.toUpperCase()] ?? currentPrice;
+    if (spot === null || spot === undefined) {
+      summary.skipped.push({ source: 'positions', positionId: position.id, reason: 'No underlying price' });
+      continue;
+    }
+
+    const intrinsic = intrinsicValue(contract.optionType, position.strikePrice!, spot);
+
+    if (earlyCandidate) {
+      if (intrinsic <= 0) continue;
+
+      const extrinsicValue = Math.max((position.currentPrice ?? intrinsic) - intrinsic, 0);
+      const assigned = shouldEarlyAssign(extrinsicValue, dividend!.amount);
+
+      summary.earlyAssignmentRisks.push({
+        source: 'positions',
+        positionId: position.id,
+        underlyingSymbol: symbol,
+        strikePrice: position.strikePrice!,
+        exDate: dividend!.exDate,
+        dividend: dividend!.amount,
+        extrinsicValue,
+        assigned,
+      });
+
+      if (assigned) {
+        summary.events.push(await runAtomically(tx => settleTrackedPosition(position, contract, symbol, 'early_assigned', spot, asOf, tx)));
+      }
+      continue;
+    }
+
+    const action = expirationAction(contract.short ? -1 : 1, intrinsic, threshold);
+    summary.events.push(await runAtomically(tx => settleTrackedPosition(position, contract, symbol, action, spot, asOf, tx)));
+  }
+
+  return summary;
+}
+
+/**
+ * Validate the body of an expiration job request
+ */
+export function parseExpirationOptions(raw: any): { options: ExpirationOptions } | { error: string; code: string } {
+  const body = raw && typeof raw === 'object' ? raw : {};
+  const options: ExpirationOptions = {};
+
+  if (body.asOf !== undefined) {
+    if (isNaN(new Date(body.asOf).getTime())) {
+      return { error: 'asOf must be a valid ISO timestamp', code: 'INVALID_AS_OF' };
+    }
+    options.asOf = new Date(body.asOf).toISOString();
+  }
+
+  if (body.exerciseThreshold !== undefined) {
+    if (typeof body.exerciseThreshold !== 'number' || body.exerciseThreshold < 0) {
+      return { error: 'exerciseThreshold must be a non-negative number', code: 'INVALID_EXERCISE_THRESHOLD' };
+    }
+    options.exerciseThreshold = body.exerciseThreshold;
+  }
+
+  if (body.settlementPrices !== undefined) {
+    if (typeof body.settlementPrices !== 'object' || body.settlementPrices === null) {
+      return { error: 'settlementPrices must map symbols to prices', code: 'INVALID_SETTLEMENT_PRICES' };
+    }
+    options.settlementPrices = {};
+    for (const [symbol, price] of Object.entries(body.settlementPrices)) {
+      if (typeof price !== 'number' || price < 0) {
+        return { error: `Settlement price for ${symbol} must be a non-negative number`, code: 'INVALID_SETTLEMENT_PRICES' };
+      }
+      options.settlementPrices[symbol.toUpperCase()] = price;
+    }
+  }
+
+  if (body.exDividends !== undefined) {
+    if (!Array.isArray(body.exDividends)) {
+      return { error: 'exDividends must be an array of { symbol, exDate, amount }', code: 'INVALID_EX_DIVIDENDS' };
+    }
+    for (const dividend of body.exDividends) {
+      if (!dividend?.symbol || !/^\d{4}-\d{2}-\d{2}$/.test(dividend.exDate || '') || typeof dividend.amount !== 'number' || dividend.amount < 0) {
+        return { error: 'Each ex-dividend needs a symbol, an exDate (YYYY-MM-DD) and a non-negative amount', code: 'INVALID_EX_DIVIDENDS' };
+      }
+    }
+    options.exDividends = body.exDividends;
+  }
+
+  return { options };
+}
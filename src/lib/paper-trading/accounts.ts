@@ -0,0 +1,274 @@
+/**
+ * Paper Accounts and Runs
+ * A user can hold several named paper accounts, each with its own starting
+ * balance and commission schedule. Resetting an account ends its current
+ * run: the run's results and final positions are archived, and orders,
+ * cash entries and equity snapshots stay where they are, told apart by the
+ * run's time range, so attempts can be compared side by side.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperTradingAccounts, paperAccountRuns, paperOrders, paperPositions, assets } from '@/db/schema';
+import type { PaperTradingAccount, PaperAccountRun, PaperOrder } from '@/db/schema';
+import { eq, and, ne, gte, lt, asc, sql } from 'drizzle-orm';
+import { recordCashEntry } from './cash-ledger';
+import { performanceHistory, type EquityCurvePoint, type PerformanceMetrics } from './equity-snapshots';
+
+export const DEFAULT_ACCOUNT_NAME = 'Paper Account';
+export const MAX_ACCOUNT_NAME_LENGTH = 100;
+
+export interface NewAccountInput {
+  userId: string;
+  name: string;
+  cashBalance: number;
+  initialBalance: number;
+  commissionSchedule?: string | null; // JSON CommissionSchedule
+}
+
+export interface ArchivedPosition {
+  symbol: string | null;
+  optionSymbol: string | null;
+  quantity: number;
+  averageCost: number;
+  currentPrice: number | null;
+  multiplier: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+}
+
+export type RunSummary = Omit<PaperAccountRun, 'positions' | 'commissionSchedule'> & {
+  positions: ArchivedPosition[];
+  commissionSchedule: Record<string, number> | null;
+};
+
+/**
+ * Validate an account name: trimmed, non-empty and at most 100 characters
+ */
+export function parseAccountName(raw: unknown): { name: string } | { error: string } {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return { error: 'name must be a non-empty string' };
+  }
+  if (raw.trim().length > MAX_ACCOUNT_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_ACCOUNT_NAME_LENGTH} characters` };
+  }
+  return { name: raw.trim() };
+}
+
+/**
+ * Whether the user already has an account with this name
+ */
+export async function isAccountNameTaken(
+  userId: string,
+  name: string,
+  excludeAccountId?: number,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  const existing = await executor.select({ id: paperTradingAccounts.id })
+    .from(paperTradingAccounts)
+    .where(and(
+      eq(paperTradingAccounts.userId, userId),
+      eq(paperTradingAccounts.name, name),
+      excludeAccountId !== undefined ? ne(paperTradingAccounts.id, excludeAccountId) : undefined
+    ))
+    .limit(1);
+
+  return existing.length > 0;
+}
+
+/**
+ * First free default name for a user: "Paper Account", then
+ * "Paper Account 2", "Paper Account 3", ...
+ */
+export async function defaultAccountName(userId: string, executor: DbExecutor = db): Promise<string> {
+  const existing = await executor.select({ name: paperTradingAccounts.name })
+    .from(paperTradingAccounts)
+    .where(eq(paperTradingAccounts.userId, userId));
+
+  const taken = new Set(existing.map(({ name }) => name));
+  let name = DEFAULT_ACCOUNT_NAME;
+  for (let n = 2; taken.has(name); n++) {
+    name = `${DEFAULT_ACCOUNT_NAME} ${n}`;
+  }
+
+  return name;
+}
+
+/**
+ * Create an account and book its opening deposit
+ */
+export async function createPaperAccount(input: NewAccountInput): Promise<PaperTradingAccount> {
+  const now = new Date().toISOString();
+
+  return db.transaction(async (tx) => {
+    const created = await tx.insert(paperTradingAccounts)
+      .values({
+        userId: input.userId,
+        name: input.name,
+        cashBalance: input.cashBalance,
+        initialBalance: input.initialBalance,
+        totalEquity: input.cashBalance,
+        totalPnl: 0,
+        isActive: true,
+        commissionSchedule: input.commissionSchedule ?? null,
+        runNumber: 1,
+        runStartedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    await recordCashEntry({
+      paperAccountId: created[0].id,
+      entryType: 'deposit',
+      amount: input.cashBalance,
+      balanceAfter: input.cashBalance,
+      description: 'Opening deposit',
+      timestamp: now,
+    }, tx);
+
+    return created[0];
+  });
+}
+
+/**
+ * Archive the account's current run as it stands at `endedAt`. Call before
+ * the reset clears its positions.
+ */
+export async function archiveAccountRun(
+  account: PaperTradingAccount,
+  endedAt: string,
+  tx: DbExecutor
+): Promise<PaperAccountRun> {
+  const held = await tx.select({ position: paperPositions, symbol: assets.symbol })
+    .from(paperPositions)
+    .leftJoin(assets, eq(paperPositions.assetId, assets.id))
+    .where(eq(paperPositions.paperAccountId, account.id));
+
+  const positions: ArchivedPosition[] = held.map(({ position, symbol }) => ({
+    symbol,
+    optionSymbol: position.optionSymbol,
+    quantity: position.quantity,
+    averageCost: position.averageCost,
+    currentPrice: position.currentPrice,
+    multiplier: position.multiplier,
+    unrealizedPnl: position.unrealizedPnl,
+    realizedPnl: position.realizedPnl,
+  }));
+
+  const orderStats = await tx.select({
+    orderCount: sql<number>`count(*)`,
+    filledOrderCount: sql<number>`coalesce(sum(case when ${paperOrders.filledQuantity} > 0 then 1 else 0 end), 0)`,
+    totalCommission: sql<number>`coalesce(sum(${paperOrders.commission}), 0)`,
+    totalFees: sql<number>`coalesce(sum(${paperOrders.fees}), 0)`,
+  })
+    .from(paperOrders)
+    .where(and(
+      eq(paperOrders.paperAccountId, account.id),
+      gte(paperOrders.createdAt, account.runStartedAt),
+      lt(paperOrders.createdAt, endedAt)
+    ));
+
+  const { equityCurve, performance } = await performanceHistory(account, {}, tx);
+
+  const run = await tx.insert(paperAccountRuns)
+    .values({
+      paperAccountId: account.id,
+      runNumber: account.runNumber,
+      startedAt: account.runStartedAt,
+      endedAt,
+      initialBalance: account.initialBalance,
+      finalCash: account.cashBalance,
+      finalEquity: account.totalEquity,
+      totalPnl: account.totalPnl,
+      timeWeightedReturn: equityCurve.length > 0 ? performance.timeWeightedReturn : null,
+      maxDrawdown: equityCurve.length > 0 ? performance.maxDrawdown : null,
+      sharpeRatio: equityCurve.length > 0 ? performance.sharpeRatio : null,
+      orderCount: orderStats[0].orderCount,
+      filledOrderCount: orderStats[0].filledOrderCount,
+      totalCommission: orderStats[0].totalCommission,
+      totalFees: orderStats[0].totalFees,
+      commissionSchedule: account.commissionSchedule,
+      positions: JSON.stringify(positions),
+      createdAt: endedAt,
+    })
+    .returning();
+
+  return run[0];
+}
+
+function summarizeRun(run: PaperAccountRun): RunSummary {
+  return {
+    ...run,
+    positions: JSON.parse(run.positions),
+    commissionSchedule: run.commissionSchedule ? JSON.parse(run.commissionSchedule) : null,
+  };
+}
+
+/**
+ * Every archived run of an account, oldest first
+ */
+export async function listAccountRuns(accountId: number, executor: DbExecutor = db): Promise<RunSummary[]> {
+  const runs = await executor.select()
+    .from(paperAccountRuns)
+    .where(eq(paperAccountRuns.paperAccountId, accountId))
+    .orderBy(asc(paperAccountRuns.runNumber));
+
+  return runs.map(summarizeRun);
+}
+
+/**
+ * One run of an account (archived or current) with its orders, equity
+ * curve and performance. Returns null for an unknown run number.
+ */
+export async function accountRunDetail(
+  account: PaperTradingAccount,
+  runNumber: number,
+  executor: DbExecutor = db
+): Promise<{
+  run: RunSummary | null; // Null for the current run
+  startedAt: string;
+  endedAt: string | null;
+  orders: (PaperOrder & { symbol: string | null })[];
+  equityCurve: EquityCurvePoint[];
+  performance: PerformanceMetrics;
+} | null> {
+  let run: RunSummary | null = null;
+  let startedAt = account.runStartedAt;
+  let endedAt: string | null = null;
+
+  if (runNumber !== account.runNumber) {
+    const archived = await executor.select()
+      .from(paperAccountRuns)
+      .where(and(
+        eq(paperAccountRuns.paperAccountId, account.id),
+        eq(paperAccountRuns.runNumber, runNumber)
+      ))
+      .limit(1);
+    if (archived.length === 0) return null;
+
+    run = summarizeRun(archived[0]);
+    startedAt = run.startedAt;
+    endedAt = run.endedAt;
+  }
+
+  const orders = await executor.select({ order: paperOrders, symbol: assets.symbol })
+    .from(paperOrders)
+    .leftJoin(assets, eq(paperOrders.assetId, assets.id))
+    .where(and(
+      eq(paperOrders.paperAccountId, account.id),
+      gte(paperOrders.createdAt, startedAt),
+      endedAt ? lt(paperOrders.createdAt, endedAt) : undefined
+    ))
+    .orderBy(asc(paperOrders.createdAt));
+
+  const { equityCurve, performance } = await performanceHistory(account, { runNumber }, executor);
+
+  return {
+    run,
+    startedAt,
+    endedAt,
+    orders: orders.map(({ order, symbol }) => ({ ...order, symbol })),
+    equityCurve,
+    performance,
+  };
+}
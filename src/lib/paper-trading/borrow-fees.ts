@@ -0,0 +1,143 @@
+/**
+ * Stock Borrow Fees
+ * Daily accrual of borrow fees on short paper stock positions. Fees are
+ * charged for every calendar day a short is held at the asset's annual
+ * borrow rate on a 360-day year, debited from cash and booked against the
+ * position's realized P&L.
+ */
+
+import type { DbExecutor } from '@/db';
+import { paperPositions, paperTradingAccounts, assets } from '@/db/schema';
+import { eq, and, lt, isNull, isNotNull } from 'drizzle-orm';
+import { runAtomically, updateAccountValuation } from './order-execution';
+import { marketDate } from './market-session';
+import { recordCashEntry } from './cash-ledger';
+
+// General collateral rate for easy-to-borrow stock
+export const DEFAULT_BORROW_RATE = 0.0025;
+
+const DAY_COUNT = 360;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BorrowFeeAccrual {
+  positionId: number;
+  paperAccountId: number;
+  symbol: string;
+  quantity: number;
+  price: number;
+  borrowRate: number;
+  days: number;
+  fee: number;
+}
+
+export interface BorrowFeeSummary {
+  asOf: string;
+  accruals: BorrowFeeAccrual[];
+  totalFees: number;
+}
+
+/**
+ * Fee for borrowing shares worth `marketValue` over a number of days
+ */
+export function borrowFee(marketValue: number, borrowRate: number, days: number): number {
+  return Math.abs(marketValue) * borrowRate * days / DAY_COUNT;
+}
+
+// Calendar days between two YYYY-MM-DD dates
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Charge borrow fees on every short stock position up to the market date
+ * of `asOf`. Each position is charged once per day, so running the job
+ * again on the same day charges nothing. Positions and cash are updated
+ * in one transaction.
+ */
+export async function accrueBorrowFees(asOf: Date = new Date()): Promise<BorrowFeeSummary> {
+  return runAtomically(tx => accrueInTransaction(tx, asOf));
+}
+
+async function accrueInTransaction(tx: DbExecutor, asOf: Date): Promise<BorrowFeeSummary> {
+  const timestamp = asOf.toISOString();
+  const today = marketDate(asOf);
+
+  const shorts = await tx.select({
+    position: paperPositions,
+    symbol: assets.symbol,
+    borrowRate: assets.borrowRate,
+  })
+    .from(paperPositions)
+    .leftJoin(assets, eq(paperPositions.assetId, assets.id))
+    .where(and(
+      lt(paperPositions.quantity, 0),
+      isNull(paperPositions.optionSymbol),
+      isNotNull(paperPositions.borrowFeesAccruedAt)
+    ));
+
+  const accruals: BorrowFeeAccrual[] = [];
+  const feesByAccount = new Map<number, number>();
+
+  for (const { position, symbol, borrowRate } of shorts) {
+    const days = daysBetween(position.borrowFeesAccruedAt!, today);
+    if (days <= 0) continue;
+
+    const price = position.currentPrice || position.averageCost;
+    const rate = borrowRate ?? DEFAULT_BORROW_RATE;
+    const fee = borrowFee(price * position.quantity * (position.multiplier || 1), rate, days);
+
+    await tx.update(paperPositions)
+      .set({
+        borrowFees: position.borrowFees + fee,
+        realizedPnl: (position.realizedPnl || 0) - fee,
+        borrowFeesAccruedAt: today,
+        lastUpdated: timestamp,
+      })
+      .where(eq(paperPositions.id, position.id));
+
+    feesByAccount.set(position.paperAccountId, (feesByAccount.get(position.paperAccountId) ?? 0) + fee);
+    accruals.push({
+      positionId: position.id,
+      paperAccountId: position.paperAccountId,
+      symbol: symbol ?? String(position.assetId),
+      quantity: position.quantity,
+      price,
+      borrowRate: rate,
+      days,
+      fee,
+    });
+  }
+
+  // Debit each account once for all of its shorts
+  for (const [accountId, fees] of feesByAccount) {
+    const account = await tx.select()
+      .from(paperTradingAccounts)
+      .where(eq(paperTradingAccounts.id, accountId))
+      .limit(1);
+    if (account.length === 0) continue;
+
+    await recordCashEntry({
+      paperAccountId: accountId,
+      entryType: 'borrow_fee',
+      amount: -fees,
+      balanceAfter: account[0].cashBalance - fees,
+      description: `Stock borrow fees through ${today}`,
+      timestamp,
+    }, tx);
+
+    await updateAccountValuation(
+      accountId,
+      account[0].cashBalance - fees,
+      account[0].initialBalance,
+      timestamp,
+      tx,
+      account[0].version
+    );
+  }
+
+  return {
+    asOf: timestamp,
+    accruals,
+    totalFees: accruals.reduce((sum, accrual) => sum + accrual.fee, 0),
+  };
+}
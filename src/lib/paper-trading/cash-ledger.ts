@@ -0,0 +1,215 @@
+/**
+ * Paper Cash Ledger
+ * Append-only record of why a paper account's cash moved: fills, option
+ * premium, exercise and assignment deliveries, commissions, regulatory and
+ * exchange fees, borrow fees, dividends, deposits, resets and manual
+ * adjustments. Entries are written in the same transaction as the balance
+ * change they explain, and monthly statements rebuild the balance from them
+ * to catch any drift from the stored cashBalance.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperCashLedger, assets } from '@/db/schema';
+import type { PaperOrder, PaperTradingAccount, PaperCashLedgerEntry } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+
+export const CASH_ENTRY_TYPES = [
+  'deposit',
+  'trade',
+  'option_premium',
+  'exercise',
+  'assignment',
+  'commission',
+  'fee',
+  'borrow_fee',
+  'dividend',
+  'reset',
+  'adjustment',
+] as const;
+export type CashEntryType = typeof CASH_ENTRY_TYPES[number];
+
+// Differences below half a cent are rounding, not a mismatch
+export const CASH_TOLERANCE = 0.005;
+
+export interface CashEntryInput {
+  paperAccountId: number;
+  entryType: CashEntryType;
+  amount: number;       // Signed: credits above zero, debits below
+  balanceAfter: number;
+  description: string;
+  timestamp: string;
+  paperOrderId?: number | null;
+  assetId?: number | null;
+  quantity?: number | null;
+  price?: number | null;
+}
+
+export interface StatementEntry extends PaperCashLedgerEntry {
+  symbol: string | null;
+  runningBalance: number; // Balance rebuilt from the ledger after this entry
+}
+
+export interface CashMismatch {
+  entryId: number;
+  recordedBalance: number;
+  rebuiltBalance: number;
+  difference: number;
+}
+
+export interface AccountStatement {
+  accountId: number;
+  month: string;
+  from: string;
+  to: string;
+  openingBalance: number;
+  closingBalance: number;
+  credits: number;
+  debits: number;
+  netChange: number;
+  totalsByType: Partial<Record<CashEntryType, number>>;
+  entries: StatementEntry[];
+  mismatches: CashMismatch[]; // Entries this month whose recorded balance disagrees with the rebuild
+  reconciliation: {
+    ledgerBalance: number;  // Every entry to date, summed
+    storedBalance: number;  // The account's cashBalance
+    difference: number;
+    balanced: boolean;
+  };
+}
+
+export async function recordCashEntries(
+  entries: CashEntryInput[],
+  executor: DbExecutor = db
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  await executor.insert(paperCashLedger)
+    .values(entries.map(({ timestamp, ...entry }) => ({ ...entry, createdAt: timestamp })));
+}
+
+export async function recordCashEntry(
+  entry: CashEntryInput,
+  executor: DbExecutor = db
+): Promise<void> {
+  await recordCashEntries([entry], executor);
+}
+
+/**
+ * Ledger entry type for a fill: settlement deliveries keep their order
+ * type, other option fills are premium, everything else is a trade
+ */
+export function fillEntryType(order: Pick<PaperOrder, 'orderType' | 'optionSymbol'>): CashEntryType {
+  if (order.orderType === 'exercise' || order.orderType === 'assignment') return order.orderType;
+  return order.optionSymbol ? 'option_premium' : 'trade';
+}
+
+export function fillDescription(
+  order: Pick<PaperOrder, 'orderType' | 'optionSymbol' | 'side'>,
+  quantity: number,
+  price: number
+): string {
+  const units = order.optionSymbol ? (quantity === 1 ? 'contract' : 'contracts') : (quantity === 1 ? 'share' : 'shares');
+  const fill = `${order.side === 'buy' ? 'Bought' : 'Sold'} ${quantity} ${units} at ${price.toFixed(2)}`;
+
+  if (order.orderType === 'exercise') return `Exercise: ${fill}`;
+  if (order.orderType === 'assignment') return `Assignment: ${fill}`;
+  return fill;
+}
+
+/**
+ * Parse a statement month (YYYY-MM, defaulting to the current month) into
+ * an ISO range
+ */
+export function parseStatementMonth(
+  month: string | null
+): { month: string; from: string; to: string } | { error: string; code: string } {
+  const value = month ?? new Date().toISOString().slice(0, 7);
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+
+  if (!match || parseInt(match[2]) < 1 || parseInt(match[2]) > 12) {
+    return { error: 'month must be in YYYY-MM format', code: 'INVALID_MONTH' };
+  }
+
+  const year = parseInt(match[1]);
+  const monthIndex = parseInt(match[2]) - 1;
+
+  return {
+    month: value,
+    from: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+    to: new Date(Date.UTC(year, monthIndex + 1, 1)).toISOString(),
+  };
+}
+
+/**
+ * Monthly activity statement for an account. Balances come from summing
+ * ledger entries in the order they were written; the recorded balance of
+ * each entry and the account's stored cash are checked against them.
+ */
+export async function buildStatement(
+  account: PaperTradingAccount,
+  range: { month: string; from: string; to: string },
+  executor: DbExecutor = db
+): Promise<AccountStatement> {
+  const rows = await executor.select({ entry: paperCashLedger, symbol: assets.symbol })
+    .from(paperCashLedger)
+    .leftJoin(assets, eq(paperCashLedger.assetId, assets.id))
+    .where(eq(paperCashLedger.paperAccountId, account.id))
+    .orderBy(asc(paperCashLedger.id));
+
+  const openingBalance = rows
+    .filter(({ entry }) => entry.createdAt < range.from)
+    .reduce((sum, { entry }) => sum + entry.amount, 0);
+
+  const entries: StatementEntry[] = [];
+  const mismatches: CashMismatch[] = [];
+  const totalsByType: Partial<Record<CashEntryType, number>> = {};
+  let ledgerBalance = 0;
+  let runningBalance = openingBalance;
+  let credits = 0;
+  let debits = 0;
+
+  for (const { entry, symbol } of rows) {
+    ledgerBalance += entry.amount;
+    if (entry.createdAt < range.from || entry.createdAt >= range.to) continue;
+
+    runningBalance += entry.amount;
+    entries.push({ ...entry, symbol, runningBalance });
+
+    const type = entry.entryType as CashEntryType;
+    totalsByType[type] = (totalsByType[type] ?? 0) + entry.amount;
+    if (entry.amount > 0) credits += entry.amount;
+    else debits += entry.amount;
+
+    if (Math.abs(entry.balanceAfter - ledgerBalance) > CASH_TOLERANCE) {
+      mismatches.push({
+        entryId: entry.id,
+        recordedBalance: entry.balanceAfter,
+        rebuiltBalance: ledgerBalance,
+        difference: entry.balanceAfter - ledgerBalance,
+      });
+    }
+  }
+
+  const difference = account.cashBalance - ledgerBalance;
+
+  return {
+    accountId: account.id,
+    month: range.month,
+    from: range.from,
+    to: range.to,
+    openingBalance,
+    closingBalance: runningBalance,
+    credits,
+    debits,
+    netChange: runningBalance - openingBalance,
+    totalsByType,
+    entries,
+    mismatches,
+    reconciliation: {
+      ledgerBalance,
+      storedBalance: account.cashBalance,
+      difference,
+      balanced: Math.abs(difference) <= CASH_TOLERANCE,
+    },
+  };
+}
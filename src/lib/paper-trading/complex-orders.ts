@@ -0,0 +1,347 @@
+/**
+ * Paper Trading Complex Orders
+ * Multi-leg option orders priced and filled as one package
+ *
+ * - Legs must actually form the declared spread: strikes, expiries, sides
+ *   and ratios are checked against the strategy's shape
+ * - The package price is quoted per unit of the spread (leg quantities
+ *   divided by their common factor), per share before the multiplier.
+ *   Positive prices are net debits, negative prices net credits.
+ * - Mid prices every leg at its bid/ask midpoint; natural buys at the ask
+ *   and sells at the bid
+ * - A limit order carries one net debit or credit and fills only when the
+ *   package's net fill price is at or better than it
+ */
+
+import type { OptionContract } from './option-contracts';
+
+export const SPREAD_TYPES = [
+  'straddle',
+  'strangle',
+  'calendar',
+  'diagonal',
+  'iron_condor',
+  'iron_fly',
+  'butterfly',
+  'vertical',
+  'jade_lizard',
+  'ratio_spread',
+] as const;
+export type SpreadType = typeof SPREAD_TYPES[number];
+
+export const COMPLEX_ORDER_TYPES = ['market', 'limit'] as const;
+export type ComplexOrderType = typeof COMPLEX_ORDER_TYPES[number];
+
+export const PRICE_EFFECTS = ['debit', 'credit'] as const;
+export type PriceEffect = typeof PRICE_EFFECTS[number];
+
+export interface SpreadLegContract {
+  contract: OptionContract;
+  side: 'buy' | 'sell';
+  quantity: number;
+}
+
+export interface QuotedLeg {
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;        // Mid, or the fallback value without a quote
+  bidPrice?: number | null;
+  askPrice?: number | null;
+  fillPrice: number;    // Price after slippage
+}
+
+export interface NetLimit {
+  orderType: ComplexOrderType;
+  limitPrice: number | null;      // Net per unit, always non-negative
+  priceEffect: PriceEffect | null;
+}
+
+export interface PackagePricing {
+  units: number;        // Spreads in the order
+  mid: number;          // Signed: positive is a debit
+  natural: number;
+  netPrice: number;     // What the package fills at after slippage
+  limitPrice: number | null;
+  priceEffect: PriceEffect | null;
+}
+
+// Strikes closer than this are treated as equal
+const STRIKE_TOLERANCE = 1e-6;
+// Allowance for floating point error when comparing net prices
+const PRICE_TOLERANCE = 1e-9;
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function sameStrike(a: number, b: number): boolean {
+  return Math.abs(a - b) < STRIKE_TOLERANCE;
+}
+
+function allEqual<T>(values: T[]): boolean {
+  return values.every(value => value === values[0]);
+}
+
+function byStrike(a: SpreadLegContract, b: SpreadLegContract): number {
+  return a.contract.strikePrice - b.contract.strikePrice;
+}
+
+/**
+ * Number of spreads in an order: the common factor of its leg quantities
+ */
+export function spreadUnits(legs: { quantity: number }[]): number {
+  return legs.reduce((units, leg) => gcd(units, leg.quantity), 0);
+}
+
+/**
+ * Check that the legs form the declared spread. Returns a description of
+ * the first problem found, or null when they do.
+ */
+export function validateSpreadLegs(
+  spreadType: SpreadType,
+  legs: SpreadLegContract[],
+  underlyingSymbol: string
+): string | null {
+  const underlying = underlyingSymbol.toUpperCase();
+  if (legs.some(leg => leg.contract.underlyingSymbol !== underlying)) {
+    return `Every leg must be an option on ${underlying}`;
+  }
+
+  const types = legs.map(leg => leg.contract.optionType);
+  const expiries = legs.map(leg => leg.contract.expirationDate);
+  const sides = legs.map(leg => leg.side);
+  const quantities = legs.map(leg => leg.quantity);
+
+  const expect = (count: number) => legs.length === count
+    ? null
+    : `spreadType ${spreadType} takes ${count} legs, got ${legs.length}`;
+
+  switch (spreadType) {
+    case 'vertical': {
+      const problem = expect(2);
+      if (problem) return problem;
+      if (!allEqual(types)) return 'Vertical legs must both be calls or both be puts';
+      if (!allEqual(expiries)) return 'Vertical legs must share an expiration date';
+      if (sameStrike(legs[0].contract.strikePrice, legs[1].contract.strikePrice)) {
+        return 'Vertical legs must have different strikes';
+      }
+      if (allEqual(sides)) return 'A vertical buys one leg and sells the other';
+      if (!allEqual(quantities)) return 'Vertical legs must have equal quantities';
+      return null;
+    }
+
+    case 'straddle':
+    case 'strangle': {
+      const problem = expect(2);
+      if (problem) return problem;
+      const call = legs.find(leg => leg.contract.optionType === 'call');
+      const put = legs.find(leg => leg.contract.optionType === 'put');
+      const name = spreadType === 'straddle' ? 'Straddle' : 'Strangle';
+      if (!call || !put) return `A ${spreadType} pairs a call with a put`;
+      if (!allEqual(expiries)) return `${name} legs must share an expiration date`;
+      if (!allEqual(sides)) return `Both ${spreadType} legs must be bought or both sold`;
+      if (!allEqual(quantities)) return `${name} legs must have equal quantities`;
+      if (spreadType === 'straddle' && !sameStrike(call.contract.strikePrice, put.contract.strikePrice)) {
+        return 'Straddle legs must share a strike';
+      }
+      if (spreadType === 'strangle' && put.contract.strikePrice >= call.contract.strikePrice) {
+        return 'A strangle\'s put strike must be below its call strike';
+      }
+      return null;
+    }
+
+    case 'calendar': {
+      const problem = expect(2);
+      if (problem) return problem;
+      if (!allEqual(types)) return 'Calendar legs must both be calls or both be puts';
+      if (!sameStrike(legs[0].contract.strikePrice, legs[1].contract.strikePrice)) {
+        return 'Calendar legs must share a strike';
+      }
+      if (allEqual(expiries)) return 'Calendar legs must have different expiration dates';
+      if (allEqual(sides)) return 'A calendar buys one expiry and sells the other';
+      if (!allEqual(quantities)) return 'Calendar legs must have equal quantities';
+      return null;
+    }
+
+    case 'diagonal': {
+      const problem = expect(2);
+      if (problem) return problem;
+      if (!allEqual(types)) return 'Diagonal legs must both be calls or both be puts';
+      if (sameStrike(legs[0].contract.strikePrice, legs[1].contract.strikePrice)) {
+        return 'Diagonal legs must have different strikes';
+      }
+      if (allEqual(expiries)) return 'Diagonal legs must have different expiration dates';
+      if (allEqual(sides)) return 'A diagonal buys one leg and sells the other';
+      if (!allEqual(quantities)) return 'Diagonal legs must have equal quantities';
+      return null;
+    }
+
+    // An iron fly is an iron condor whose short strikes meet
+    case 'iron_condor':
+    case 'iron_fly': {
+      const name = spreadType === 'iron_condor' ? 'iron condor' : 'iron fly';
+      const problem = expect(4);
+      if (problem) return problem;
+      const puts = legs.filter(leg => leg.contract.optionType === 'put').sort(byStrike);
+      const calls = legs.filter(leg => leg.contract.optionType === 'call').sort(byStrike);
+      if (puts.length !== 2 || calls.length !== 2) return `An ${name} has two puts and two calls`;
+      if (!allEqual(expiries)) return `All ${name} legs must share an expiration date`;
+      if (!allEqual(quantities)) return `All ${name} legs must have equal quantities`;
+
+      const [putWing, putBody] = puts;
+      const [callBody, callWing] = calls;
+      if (sameStrike(putWing.contract.strikePrice, putBody.contract.strikePrice)
+        || sameStrike(callBody.contract.strikePrice, callWing.contract.strikePrice)) {
+        return `Each side of an ${name} must have two different strikes`;
+      }
+      if (spreadType === 'iron_condor' && putBody.contract.strikePrice >= callBody.contract.strikePrice) {
+        return 'An iron condor\'s put strikes must be below its call strikes';
+      }
+      if (spreadType === 'iron_fly' && !sameStrike(putBody.contract.strikePrice, callBody.contract.strikePrice)) {
+        return 'An iron fly\'s inner put and call must share a strike';
+      }
+      if (putBody.side !== callBody.side || putWing.side !== callWing.side || putBody.side === putWing.side) {
+        return `An ${name} trades its inner strikes one way and its outer strikes the other`;
+      }
+      return null;
+    }
+
+    case 'butterfly': {
+      const problem = expect(3);
+      if (problem) return problem;
+      if (!allEqual(types)) return 'Butterfly legs must all be calls or all be puts';
+      if (!allEqual(expiries)) return 'Butterfly legs must share an expiration date';
+
+      const [lower, body, upper] = [...legs].sort(byStrike);
+      const lowerWidth = body.contract.strikePrice - lower.contract.strikePrice;
+      const upperWidth = upper.contract.strikePrice - body.contract.strikePrice;
+      if (lowerWidth < STRIKE_TOLERANCE || upperWidth < STRIKE_TOLERANCE) {
+        return 'Butterfly legs must have three different strikes';
+      }
+      if (!sameStrike(lowerWidth, upperWidth)) return 'Butterfly wings must be equidistant from the body';
+      if (lower.quantity !== upper.quantity || body.quantity !== lower.quantity * 2) {
+        return 'A butterfly trades its legs in a 1:2:1 ratio';
+      }
+      if (lower.side !== upper.side || body.side === lower.side) {
+        return 'A butterfly trades its wings one way and its body the other';
+      }
+      return null;
+    }
+
+    // Short put plus a short call spread
+    case 'jade_lizard': {
+      const problem = expect(3);
+      if (problem) return problem;
+      const put = legs.find(leg => leg.contract.optionType === 'put');
+      const calls = legs.filter(leg => leg.contract.optionType === 'call').sort(byStrike);
+      if (!put || calls.length !== 2) return 'A jade lizard has one put and two calls';
+      if (!allEqual(expiries)) return 'Jade lizard legs must share an expiration date';
+      if (!allEqual(quantities)) return 'Jade lizard legs must have equal quantities';
+
+      const [shortCall, longCall] = calls;
+      if (put.side !== 'sell' || shortCall.side !== 'sell' || longCall.side !== 'buy') {
+        return 'A jade lizard sells the put and the lower call and buys the higher call';
+      }
+      if (sameStrike(shortCall.contract.strikePrice, longCall.contract.strikePrice)) {
+        return 'Jade lizard calls must have different strikes';
+      }
+      if (put.contract.strikePrice >= shortCall.contract.strikePrice) {
+        return 'A jade lizard\'s put strike must be below its call strikes';
+      }
+      return null;
+    }
+
+    case 'ratio_spread': {
+      const problem = expect(2);
+      if (problem) return problem;
+      if (!allEqual(types)) return 'Ratio spread legs must both be calls or both be puts';
+      if (!allEqual(expiries)) return 'Ratio spread legs must share an expiration date';
+      if (sameStrike(legs[0].contract.strikePrice, legs[1].contract.strikePrice)) {
+        return 'Ratio spread legs must have different strikes';
+      }
+      if (allEqual(sides)) return 'A ratio spread buys one leg and sells the other';
+      if (allEqual(quantities)) return 'A ratio spread trades its legs in unequal quantities';
+      return null;
+    }
+  }
+}
+
+/**
+ * Validate the net price terms of a complex order. Market orders take no
+ * limit; limit orders need a non-negative net limitPrice and whether it is
+ * a debit paid or a credit received.
+ */
+export function parseNetLimit(raw: {
+  orderType?: any;
+  limitPrice?: any;
+  priceEffect?: any;
+}): NetLimit | { error: string; code: string } {
+  const orderType = raw.orderType ?? 'market';
+  if (!COMPLEX_ORDER_TYPES.includes(orderType)) {
+    return { error: `orderType must be one of: ${COMPLEX_ORDER_TYPES.join(', ')}`, code: 'INVALID_ORDER_TYPE' };
+  }
+
+  if (orderType === 'market') {
+    return { orderType, limitPrice: null, priceEffect: null };
+  }
+
+  if (raw.limitPrice === undefined || raw.limitPrice === null || raw.limitPrice === '') {
+    return { error: 'limitPrice is required for limit orders', code: 'MISSING_LIMIT_PRICE' };
+  }
+  const limitPrice = parseFloat(raw.limitPrice);
+  if (isNaN(limitPrice) || limitPrice < 0) {
+    return { error: 'limitPrice must be a non-negative net price per spread', code: 'INVALID_LIMIT_PRICE' };
+  }
+
+  if (!PRICE_EFFECTS.includes(raw.priceEffect)) {
+    return { error: `priceEffect must be one of: ${PRICE_EFFECTS.join(', ')}`, code: 'INVALID_PRICE_EFFECT' };
+  }
+
+  return { orderType, limitPrice, priceEffect: raw.priceEffect };
+}
+
+/**
+ * Mid, natural and fill prices of the whole package, per spread
+ */
+export function packagePricing(legs: QuotedLeg[], limit: NetLimit): PackagePricing {
+  const units = spreadUnits(legs) || 1;
+  let mid = 0;
+  let natural = 0;
+  let netPrice = 0;
+
+  for (const leg of legs) {
+    const sign = leg.side === 'buy' ? 1 : -1;
+    const ratio = leg.quantity / units;
+    const hasQuote = Boolean(leg.bidPrice && leg.askPrice);
+    const naturalPrice = hasQuote
+      ? (leg.side === 'buy' ? leg.askPrice! : leg.bidPrice!)
+      : leg.price;
+
+    mid += sign * ratio * leg.price;
+    natural += sign * ratio * naturalPrice;
+    netPrice += sign * ratio * leg.fillPrice;
+  }
+
+  // Sub-cent precision keeps slippage visible without float noise
+  const round = (price: number) => Math.round(price * 10000) / 10000;
+
+  return {
+    units,
+    mid: round(mid),
+    natural: round(natural),
+    netPrice: round(netPrice),
+    limitPrice: limit.limitPrice,
+    priceEffect: limit.priceEffect,
+  };
+}
+
+/**
+ * Whether the package fills within its limit: a debit of at most the
+ * limit, or a credit of at least it. Market orders always do.
+ */
+export function isNetPriceMarketable(pricing: PackagePricing): boolean {
+  if (pricing.limitPrice === null) return true;
+
+  const signedLimit = pricing.priceEffect === 'credit' ? -pricing.limitPrice : pricing.limitPrice;
+  return pricing.netPrice <= signedLimit + PRICE_TOLERANCE;
+}
@@ -0,0 +1,361 @@
+/**
+ * Paper Equity Snapshots
+ * End-of-day job that marks every active paper account to market and
+ * records its equity, cash, exposure and net Greeks, and the performance
+ * history built from those snapshots: time-weighted return, drawdown,
+ * Sharpe ratio and a curve relative to a benchmark.
+ *
+ * Daily returns take out external cash flows (deposits and manual
+ * adjustments) so they measure trading alone. Each run of an account (see
+ * accounts.ts) has its own curve, starting from the run's initial balance.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperTradingAccounts, paperPositions, paperCashLedger, paperEquitySnapshots, assets, optionsQuotes } from '@/db/schema';
+import type { PaperTradingAccount, PaperEquitySnapshot } from '@/db/schema';
+import { eq, and, gt, lte, gte, lt, desc, asc, inArray } from 'drizzle-orm';
+import { calculatePortfolioGreeks, underlyingGreeks, type Greeks, type PortfolioGreeksPosition } from '@/lib/greeks-calculator';
+import { contractGreeks } from './option-contracts';
+import { optionSymbolVolatility } from '@/lib/iv-surface-fit';
+import { runAtomically, updateAccountValuation } from './order-execution';
+import { marketDate } from './market-session';
+import type { CashEntryType } from './cash-ledger';
+
+export const DEFAULT_BENCHMARK = 'SPY';
+
+const TRADING_DAYS = 252;
+
+// Implied volatility assumed when no fitted surface or quote covers the contract
+const DEFAULT_VOLATILITY = 0.3;
+
+// Ledger entries that bring cash in or out of the account rather than
+// coming from trading
+const EXTERNAL_FLOW_TYPES: CashEntryType[] = ['deposit', 'adjustment'];
+
+export interface SnapshotSummary {
+  asOf: string;
+  snapshotDate: string;
+  benchmarkSymbol: string;
+  snapshots: PaperEquitySnapshot[];
+}
+
+export interface EquityCurvePoint {
+  date: string;
+  equity: number;
+  cash: number;
+  longExposure: number;
+  shortExposure: number;
+  netFlow: number;
+  dailyReturn: number;
+  cumulativeReturn: number;   // Time-weighted, from the run's start or the first snapshot in range
+  drawdown: number;           // Below the running peak of the return index, as a fraction
+  benchmarkReturn: number | null;
+  relativeReturn: number | null; // Growth relative to the benchmark's
+  netDelta: number | null;
+  netGamma: number | null;
+  netTheta: number | null;
+  netVega: number | null;
+}
+
+export interface PerformanceMetrics {
+  days: number;
+  timeWeightedReturn: number;
+  annualizedReturn: number;
+  volatility: number;          // Annualized standard deviation of daily returns
+  sharpeRatio: number;
+  maxDrawdown: number;
+  maxDrawdownDate: string | null;
+  currentDrawdown: number;
+  benchmarkSymbol: string | null;
+  benchmarkReturn: number | null;
+  excessReturn: number | null;
+}
+
+/**
+ * Mark every active account to market and write its snapshot for the
+ * market date of `asOf`. Running the job again on the same day replaces
+ * that day's snapshot.
+ */
+export async function takeEquitySnapshots(
+  asOf: Date = new Date(),
+  benchmarkSymbol: string = DEFAULT_BENCHMARK
+): Promise<SnapshotSummary> {
+  const accounts = await db.select()
+    .from(paperTradingAccounts)
+    .where(eq(paperTradingAccounts.isActive, true));
+
+  const benchmark = await db.select({ currentPrice: assets.currentPrice })
+    .from(assets)
+    .where(eq(assets.symbol, benchmarkSymbol))
+    .limit(1);
+  const benchmarkPrice = benchmark[0]?.currentPrice ?? null;
+
+  const snapshots: PaperEquitySnapshot[] = [];
+  for (const account of accounts) {
+    snapshots.push(await runAtomically(tx => snapshotAccount(tx, account.id, asOf, benchmarkSymbol, benchmarkPrice)));
+  }
+
+  return { asOf: asOf.toISOString(), snapshotDate: marketDate(asOf), benchmarkSymbol, snapshots };
+}
+
+// Latest mark for an option contract: quote midpoint, else last trade,
+// with volatility from the fitted surface, else the quote
+async function optionMark(tx: DbExecutor, optionSymbol: string, asOf: Date) {
+  const quote = await tx.select()
+    .from(optionsQuotes)
+    .where(eq(optionsQuotes.optionSymbol, optionSymbol))
+    .orderBy(desc(optionsQuotes.timestamp))
+    .limit(1);
+
+  const volatility = (await optionSymbolVolatility(optionSymbol, asOf, tx)) || DEFAULT_VOLATILITY;
+  if (quote.length === 0) return { price: null, volatility };
+
+  const { bid, ask, lastPrice } = quote[0];
+  const price = bid && ask ? (bid + ask) / 2 : lastPrice;
+  return { price: price || null, volatility };
+}
+
+async function snapshotAccount(
+  tx: DbExecutor,
+  accountId: number,
+  asOf: Date,
+  benchmarkSymbol: string,
+  benchmarkPrice: number | null
+): Promise<PaperEquitySnapshot> {
+  const timestamp = asOf.toISOString();
+  const snapshotDate = marketDate(asOf);
+
+  const account = await tx.select()
+    .from(paperTradingAccounts)
+    .where(eq(paperTradingAccounts.id, accountId))
+    .limit(1);
+
+  const rows = await tx.select({ position: paperPositions, symbol: assets.symbol, assetPrice: assets.currentPrice })
+    .from(paperPositions)
+    .leftJoin(assets, eq(paperPositions.assetId, assets.id))
+    .where(eq(paperPositions.paperAccountId, accountId));
+
+  const underlyingSymbols = [...new Set(rows.map(({ position }) => position.underlyingSymbol).filter((s): s is string => !!s))];
+  const underlyingPrices = new Map<string, number>();
+  if (underlyingSymbols.length > 0) {
+    const underlyings = await tx.select({ symbol: assets.symbol, currentPrice: assets.currentPrice })
+      .from(assets)
+      .where(inArray(assets.symbol, underlyingSymbols));
+    for (const row of underlyings) underlyingPrices.set(row.symbol, row.currentPrice || 0);
+  }
+
+  let longExposure = 0;
+  let shortExposure = 0;
+  const greeksByPosition: PortfolioGreeksPosition[] = [];
+
+  for (const { position, symbol, assetPrice } of rows) {
+    const multiplier = position.multiplier || 1;
+    let price = position.currentPrice || position.averageCost;
+    let greeks: Greeks | null = null;
+
+    if (position.optionSymbol) {
+      const mark = await optionMark(tx, position.optionSymbol, asOf);
+      price = mark.price ?? price;
+
+      const spotPrice = position.underlyingSymbol ? underlyingPrices.get(position.underlyingSymbol) : 0;
+      if (position.optionType && position.strikePrice && position.expirationDate && spotPrice) {
+        greeks = contractGreeks(
+          {
+            optionType: position.optionType as 'call' | 'put',
+            strikePrice: position.strikePrice,
+            expirationDate: position.expirationDate,
+          },
+          spotPrice,
+          mark.volatility,
+          asOf
+        );
+      }
+    } else {
+      price = assetPrice || price;
+      greeks = underlyingGreeks(price);
+    }
+
+    if (greeks) {
+      greeksByPosition.push({
+        underlyingSymbol: position.underlyingSymbol ?? symbol ?? '',
+        quantity: position.quantity,
+        multiplier,
+        spotPrice: position.underlyingSymbol ? underlyingPrices.get(position.underlyingSymbol)! : price,
+        greeks,
+      });
+    }
+
+    const marketValue = price * position.quantity * multiplier;
+    if (marketValue > 0) longExposure += marketValue;
+    else shortExposure -= marketValue;
+
+    await tx.update(paperPositions)
+      .set({
+        currentPrice: price,
+        unrealizedPnl: (price - position.averageCost) * position.quantity * multiplier,
+        lastUpdated: timestamp,
+      })
+      .where(eq(paperPositions.id, position.id));
+  }
+
+  const { totalEquity } = await updateAccountValuation(
+    accountId,
+    account[0].cashBalance,
+    account[0].initialBalance,
+    timestamp,
+    tx,
+    account[0].version
+  );
+
+  // Return since the previous snapshot, net of cash added in between
+  const previous = await tx.select()
+    .from(paperEquitySnapshots)
+    .where(and(
+      eq(paperEquitySnapshots.paperAccountId, accountId),
+      eq(paperEquitySnapshots.runNumber, account[0].runNumber),
+      lt(paperEquitySnapshots.snapshotDate, snapshotDate)
+    ))
+    .orderBy(desc(paperEquitySnapshots.snapshotDate))
+    .limit(1);
+
+  const flows = await tx.select({ amount: paperCashLedger.amount })
+    .from(paperCashLedger)
+    .where(and(
+      eq(paperCashLedger.paperAccountId, accountId),
+      gt(paperCashLedger.createdAt, previous[0]?.createdAt ?? account[0].runStartedAt),
+      lte(paperCashLedger.createdAt, timestamp),
+      inArray(paperCashLedger.entryType, EXTERNAL_FLOW_TYPES)
+    ));
+
+  // The first snapshot of a run measures from the run's starting balance
+  const previousEquity = previous[0]?.equity ?? account[0].initialBalance;
+  const netFlow = flows.reduce((sum, flow) => sum + flow.amount, 0);
+  const dailyReturn = previousEquity + netFlow > 0
+    ? (totalEquity - previousEquity - netFlow) / (previousEquity + netFlow)
+    : 0;
+
+  const greeks = calculatePortfolioGreeks(greeksByPosition);
+  const values = {
+    paperAccountId: accountId,
+    runNumber: account[0].runNumber,
+    snapshotDate,
+    equity: totalEquity,
+    cash: account[0].cashBalance,
+    positionsValue: totalEquity - account[0].cashBalance,
+    longExposure,
+    shortExposure,
+    netFlow,
+    dailyReturn,
+    openPositions: rows.filter(({ position }) => position.quantity !== 0).length,
+    netDelta: greeks.netDelta,
+    netGamma: greeks.netGamma,
+    netTheta: greeks.netTheta,
+    netVega: greeks.netVega,
+    benchmarkSymbol: benchmarkPrice !== null ? benchmarkSymbol : null,
+    benchmarkPrice,
+    createdAt: timestamp,
+  };
+
+  const snapshot = await tx.insert(paperEquitySnapshots)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [paperEquitySnapshots.paperAccountId, paperEquitySnapshots.runNumber, paperEquitySnapshots.snapshotDate],
+      set: values,
+    })
+    .returning();
+
+  return snapshot[0];
+}
+
+/**
+ * Equity curve and performance metrics for one run of an account (the
+ * current run by default) between two market dates (inclusive). The
+ * risk-free rate is annual.
+ */
+export async function performanceHistory(
+  account: PaperTradingAccount,
+  options: { from?: string | null; to?: string | null; riskFreeRate?: number; runNumber?: number } = {},
+  executor: DbExecutor = db
+): Promise<{ equityCurve: EquityCurvePoint[]; performance: PerformanceMetrics }> {
+  const snapshots = await executor.select()
+    .from(paperEquitySnapshots)
+    .where(and(
+      eq(paperEquitySnapshots.paperAccountId, account.id),
+      eq(paperEquitySnapshots.runNumber, options.runNumber ?? account.runNumber),
+      options.from ? gte(paperEquitySnapshots.snapshotDate, options.from.slice(0, 10)) : undefined,
+      options.to ? lte(paperEquitySnapshots.snapshotDate, options.to.slice(0, 10)) : undefined
+    ))
+    .orderBy(asc(paperEquitySnapshots.snapshotDate));
+
+  const benchmarkSymbol = snapshots.find(s => s.benchmarkPrice)?.benchmarkSymbol ?? null;
+  const benchmarkBase = snapshots.find(s => s.benchmarkSymbol === benchmarkSymbol && s.benchmarkPrice)?.benchmarkPrice ?? null;
+
+  const equityCurve: EquityCurvePoint[] = [];
+  let index = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  let maxDrawdownDate: string | null = null;
+
+  snapshots.forEach((snapshot, i) => {
+    const dailyReturn = i === 0 && options.from ? 0 : snapshot.dailyReturn;
+    index *= 1 + dailyReturn;
+    peak = Math.max(peak, index);
+    const drawdown = peak > 0 ? (peak - index) / peak : 0;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownDate = snapshot.snapshotDate;
+    }
+
+    const benchmarkReturn = benchmarkBase && snapshot.benchmarkPrice && snapshot.benchmarkSymbol === benchmarkSymbol
+      ? snapshot.benchmarkPrice / benchmarkBase - 1
+      : null;
+
+    equityCurve.push({
+      date: snapshot.snapshotDate,
+      equity: snapshot.equity,
+      cash: snapshot.cash,
+      longExposure: snapshot.longExposure,
+      shortExposure: snapshot.shortExposure,
+      netFlow: snapshot.netFlow,
+      dailyReturn,
+      cumulativeReturn: index - 1,
+      drawdown,
+      benchmarkReturn,
+      relativeReturn: benchmarkReturn !== null ? index / (1 + benchmarkReturn) - 1 : null,
+      netDelta: snapshot.netDelta,
+      netGamma: snapshot.netGamma,
+      netTheta: snapshot.netTheta,
+      netVega: snapshot.netVega,
+    });
+  });
+
+  // The first point in a date range is only the base of the curve
+  const returns = (options.from ? equityCurve.slice(1) : equityCurve).map(point => point.dailyReturn);
+  const mean = returns.length > 0 ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0;
+  const variance = returns.length > 1
+    ? returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1)
+    : 0;
+  const dailyRiskFree = (options.riskFreeRate ?? 0) / TRADING_DAYS;
+  const volatility = Math.sqrt(variance) * Math.sqrt(TRADING_DAYS);
+
+  const timeWeightedReturn = index - 1;
+  const last = equityCurve[equityCurve.length - 1];
+  const benchmarkReturn = last?.benchmarkReturn ?? null;
+
+  return {
+    equityCurve,
+    performance: {
+      days: returns.length,
+      timeWeightedReturn,
+      annualizedReturn: returns.length > 0 ? Math.pow(index, TRADING_DAYS / returns.length) - 1 : 0,
+      volatility,
+      sharpeRatio: variance > 0 ? ((mean - dailyRiskFree) * TRADING_DAYS) / volatility : 0,
+      maxDrawdown,
+      maxDrawdownDate,
+      currentDrawdown: last?.drawdown ?? 0,
+      benchmarkSymbol,
+      benchmarkReturn,
+      excessReturn: benchmarkReturn !== null ? timeWeightedReturn - benchmarkReturn : null,
+    },
+  };
+}
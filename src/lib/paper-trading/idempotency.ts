@@ -0,0 +1,110 @@
+/**
+ * Idempotent Order Submission
+ * Order routes accept an Idempotency-Key header (or an idempotencyKey body
+ * field). The first response for a key is stored in the same transaction
+ * as the order it created, and retries of the request get that response
+ * back instead of placing the order again.
+ */
+
+import { createHash } from 'crypto';
+import { paperOrderRequests } from '@/db/schema';
+import type { DbExecutor } from '@/db';
+import { eq, and } from 'drizzle-orm';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface OrderResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export class IdempotencyKeyReusedError extends Error {
+  constructor(key: string) {
+    super(`Idempotency key '${key}' was already used for a different request`);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
+/**
+ * Read the key from the header, falling back to the body field
+ */
+export function readIdempotencyKey(
+  header: string | null,
+  bodyValue: unknown
+): { key: string | null } | { error: string; code: string } {
+  const key = header ?? bodyValue;
+  if (key === undefined || key === null || key === '') {
+    return { key: null };
+  }
+
+  if (typeof key !== 'string' || key.length > MAX_KEY_LENGTH) {
+    return {
+      error: `Idempotency key must be a string of at most ${MAX_KEY_LENGTH} characters`,
+      code: 'INVALID_IDEMPOTENCY_KEY',
+    };
+  }
+
+  return { key };
+}
+
+/**
+ * Fingerprint of a request body, ignoring the key itself
+ */
+export function hashRequest(body: Record<string, unknown>): string {
+  const { idempotencyKey: _key, ...rest } = body;
+  return createHash('sha256').update(JSON.stringify(rest)).digest('hex');
+}
+
+/**
+ * Stored response for a key, or null the first time it is seen. A key
+ * reused with a different request body is an error.
+ */
+export async function findStoredResponse(
+  executor: DbExecutor,
+  paperAccountId: number,
+  key: string,
+  requestHash: string
+): Promise<OrderResponse | null> {
+  const stored = await executor.select()
+    .from(paperOrderRequests)
+    .where(and(
+      eq(paperOrderRequests.paperAccountId, paperAccountId),
+      eq(paperOrderRequests.idempotencyKey, key)
+    ))
+    .limit(1);
+
+  if (stored.length === 0) {
+    return null;
+  }
+
+  if (stored[0].requestHash !== requestHash) {
+    throw new IdempotencyKeyReusedError(key);
+  }
+
+  return {
+    status: stored[0].responseStatus,
+    body: JSON.parse(stored[0].responseBody),
+  };
+}
+
+export async function storeResponse(
+  executor: DbExecutor,
+  paperAccountId: number,
+  key: string,
+  endpoint: 'execute' | 'complex',
+  requestHash: string,
+  response: OrderResponse
+): Promise<void> {
+  await executor.insert(paperOrderRequests)
+    .values({
+      paperAccountId,
+      idempotencyKey: key,
+      endpoint,
+      requestHash,
+      responseStatus: response.status,
+      responseBody: JSON.stringify(response.body),
+      createdAt: new Date().toISOString(),
+    });
+}
@@ -0,0 +1,621 @@
+/**
+ * Paper Trading Margin
+ * Margin requirements and buying power for paper accounts
+ *
+ * Reg-T mode prices each position by strategy:
+ * - stock:          50% initial / 25% maintenance long, 50% / 30% short
+ * - long options:   paid in full
+ * - covered calls:  no requirement beyond the stock
+ * - spreads:        maximum loss of the pair
+ * - naked options:  20% of the underlying less the out-of-the-money amount,
+ *                   at least 10% of the underlying (calls) or strike (puts)
+ *
+ * Portfolio mode stress-tests each underlying across +/-15% price moves and
+ * requires the worst loss, with a per-contract minimum on short options.
+ *
+ * Requirements are stated against account equity (cash plus the signed
+ * market value of every position), which already carries short positions
+ * as liabilities, so sale proceeds and option premium are not counted twice.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperPositions, assets } from '@/db/schema';
+import type { PaperOrder, PaperTradingAccount } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { contractGreeks } from './option-contracts';
+import { optionSymbolVolatility } from '@/lib/iv-surface-fit';
+
+export const MARGIN_MODES = ['reg_t', 'portfolio'] as const;
+export type MarginMode = typeof MARGIN_MODES[number];
+
+export const REG_T_RATES = {
+  longStockInitial: 0.5,
+  longStockMaintenance: 0.25,
+  shortStockInitial: 0.5,
+  shortStockMaintenance: 0.3,
+  nakedOption: 0.2,
+  nakedOptionMinimum: 0.1,
+};
+
+export const PORTFOLIO_MARGIN = {
+  priceShock: 0.15,          // Largest move tested either way
+  scenarios: 10,             // Evenly spaced moves between -shock and +shock
+  minimumPerContract: 37.5,  // Floor per short option contract
+};
+
+// Implied volatility assumed when no fitted surface or quote covers the contract
+const DEFAULT_VOLATILITY = 0.3;
+
+export type MarginStrategy =
+  | 'long_stock'
+  | 'short_stock'
+  | 'long_option'
+  | 'covered_call'
+  | 'spread'
+  | 'naked_call'
+  | 'naked_put'
+  | 'portfolio';
+
+export interface MarginPosition {
+  assetId: number;
+  symbol: string;
+  quantity: number;          // Signed: long above zero, short below
+  price: number;             // Mark per share or per contract unit
+  multiplier: number;
+  optionType?: 'call' | 'put' | null;
+  strikePrice?: number | null;
+  expirationDate?: string | null;
+  underlyingSymbol: string;  // The symbol itself for stock
+  underlyingPrice: number;
+  volatility?: number;
+}
+
+export interface MarginRequirement {
+  strategy: MarginStrategy;
+  underlyingSymbol: string;
+  symbols: string[];
+  quantity: number;          // Shares or contracts covered by the requirement
+  marketValue: number;
+  initial: number;
+  maintenance: number;
+  description: string;
+}
+
+export interface MarginSummary {
+  mode: MarginMode;
+  cashBalance: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+  equity: number;
+  initialRequirement: number;
+  maintenanceRequirement: number;
+  excessEquity: number;        // Equity above the initial requirement
+  maintenanceExcess: number;   // Equity above the maintenance requirement
+  buyingPower: number;         // Stock purchasable with the excess equity
+  optionBuyingPower: number;   // Options are not marginable, so excess equity one for one
+  marginLoan: number;
+  marginCall: boolean;
+  requirements: MarginRequirement[];
+}
+
+export interface MarginCheck {
+  approved: boolean;
+  before: MarginSummary;
+  after: MarginSummary;
+  additionalRequirement: number;
+}
+
+function isOption(position: MarginPosition): boolean {
+  return !!position.optionType && !!position.strikePrice;
+}
+
+// Group positions by underlying so stock and options on it are margined together
+function byUnderlying(positions: MarginPosition[]): Map<string, MarginPosition[]> {
+  const groups = new Map<string, MarginPosition[]>();
+  for (const position of positions) {
+    if (position.quantity === 0) continue;
+    const group = groups.get(position.underlyingSymbol) ?? [];
+    group.push(position);
+    groups.set(position.underlyingSymbol, group);
+  }
+  return groups;
+}
+
+// Underlying price for a group: the stock's own mark when held, otherwise
+// the price looked up for the options
+function groupSpot(group: MarginPosition[]): number {
+  const stock = group.find(position => !isOption(position));
+  return stock?.price || group.find(position => position.underlyingPrice > 0)?.underlyingPrice || 0;
+}
+
+function marketValue(position: MarginPosition, quantity: number = position.quantity): number {
+  return position.price * quantity * position.multiplier;
+}
+
+/**
+ * Per-contract Reg-T requirement for an uncovered short option
+ */
+export function nakedOptionRequirement(
+  optionType: 'call' | 'put',
+  strikePrice: number,
+  underlyingPrice: number
+): number {
+  const outOfTheMoney = optionType === 'call'
+    ? Math.max(strikePrice - underlyingPrice, 0)
+    : Math.max(underlyingPrice - strikePrice, 0);
+  const minimumBase = optionType === 'call' ? underlyingPrice : strikePrice;
+
+  return Math.max(
+    REG_T_RATES.nakedOption * underlyingPrice - outOfTheMoney,
+    REG_T_RATES.nakedOptionMinimum * minimumBase
+  );
+}
+
+/**
+ * Per-unit amount a short option paired with a long one can lose at the
+ * short leg's expiration: the strike width when the spread was sold for a
+ * credit, nothing when it was bought for a debit
+ */
+export function spreadMaxLoss(
+  optionType: 'call' | 'put',
+  shortStrike: number,
+  longStrike: number
+): number {
+  return optionType === 'call'
+    ? Math.max(longStrike - shortStrike, 0)
+    : Math.max(shortStrike - longStrike, 0);
+}
+
+// Reg-T requirements for one underlying: pair stock and options into
+// strategies, then margin whatever is left on its own
+function regTGroupRequirements(underlyingSymbol: string, group: MarginPosition[]): MarginRequirement[] {
+  const requirements: MarginRequirement[] = [];
+  const remaining = new Map(group.map(position => [position, Math.abs(position.quantity)]));
+  const underlyingPrice = groupSpot(group);
+
+  const stock = group.filter(position => !isOption(position));
+  const shortOptions = group
+    .filter(position => isOption(position) && position.quantity < 0)
+    .sort((a, b) => (a.expirationDate ?? '').localeCompare(b.expirationDate ?? ''));
+  const longOptions = group.filter(position => isOption(position) && position.quantity > 0);
+
+  // Short calls covered by long shares
+  let coveringShares = stock
+    .filter(position => position.quantity > 0)
+    .reduce((sum, position) => sum + position.quantity * position.multiplier, 0);
+
+  for (const short of shortOptions) {
+    if (short.optionType !== 'call' || coveringShares <= 0) continue;
+
+    const covered = Math.min(remaining.get(short)!, Math.floor(coveringShares / short.multiplier));
+    if (covered <= 0) continue;
+
+    coveringShares -= covered * short.multiplier;
+    remaining.set(short, remaining.get(short)! - covered);
+    requirements.push({
+      strategy: 'covered_call',
+      underlyingSymbol,
+      symbols: [short.symbol],
+      quantity: covered,
+      marketValue: -marketValue(short, covered),
+      initial: 0,
+      maintenance: 0,
+      description: `${covered} short ${short.symbol} covered by ${covered * short.multiplier} shares`,
+    });
+  }
+
+  // Short options paired with longs of the same type expiring no earlier,
+  // cheapest pairing first
+  for (const short of shortOptions) {
+    while (remaining.get(short)! > 0) {
+      let best: { long: MarginPosition; loss: number } | null = null;
+
+      for (const long of longOptions) {
+        if (remaining.get(long)! <= 0 || long.optionType !== short.optionType) continue;
+        if ((long.expirationDate ?? '') < (short.expirationDate ?? '')) continue;
+
+        const loss = spreadMaxLoss(short.optionType!, short.strikePrice!, long.strikePrice!);
+        if (!best || loss < best.loss) {
+          best = { long, loss };
+        }
+      }
+
+      if (!best) break;
+
+      const paired = Math.min(remaining.get(short)!, remaining.get(best.long)!);
+      remaining.set(short, remaining.get(short)! - paired);
+      remaining.set(best.long, remaining.get(best.long)! - paired);
+
+      // Requirement is the drop from today's value to the worst case
+      const value = marketValue(best.long, paired) - marketValue(short, paired);
+      const requirement = Math.max(best.loss * paired * short.multiplier + value, 0);
+
+      requirements.push({
+        strategy: 'spread',
+        underlyingSymbol,
+        symbols: [short.symbol, best.long.symbol],
+        quantity: paired,
+        marketValue: value,
+        initial: requirement,
+        maintenance: requirement,
+        description: best.loss > 0
+          ? `${paired} credit spread, max loss ${best.loss.toFixed(2)} per share`
+          : `${paired} debit spread, paid in full`,
+      });
+    }
+  }
+
+  for (const short of shortOptions) {
+    const quantity = remaining.get(short)!;
+    if (quantity <= 0) continue;
+
+    const perShare = nakedOptionRequirement(short.optionType!, short.strikePrice!, underlyingPrice || short.strikePrice!);
+    const requirement = perShare * quantity * short.multiplier;
+
+    requirements.push({
+      strategy: short.optionType === 'call' ? 'naked_call' : 'naked_put',
+      underlyingSymbol,
+      symbols: [short.symbol],
+      quantity,
+      marketValue: -marketValue(short, quantity),
+      initial: requirement,
+      maintenance: requirement,
+      description: `${quantity} uncovered short ${short.optionType}, ${perShare.toFixed(2)} per share`,
+    });
+  }
+
+  for (const long of longOptions) {
+    const quantity = remaining.get(long)!;
+    if (quantity <= 0) continue;
+
+    const value = marketValue(long, quantity);
+    requirements.push({
+      strategy: 'long_option',
+      underlyingSymbol,
+      symbols: [long.symbol],
+      quantity,
+      marketValue: value,
+      initial: value,
+      maintenance: value,
+      description: `${quantity} long ${long.optionType}, paid in full`,
+    });
+  }
+
+  for (const position of stock) {
+    const value = marketValue(position);
+    const isLong = position.quantity > 0;
+
+    requirements.push({
+      strategy: isLong ? 'long_stock' : 'short_stock',
+      underlyingSymbol,
+      symbols: [position.symbol],
+      quantity: Math.abs(position.quantity),
+      marketValue: value,
+      initial: Math.abs(value) * (isLong ? REG_T_RATES.longStockInitial : REG_T_RATES.shortStockInitial),
+      maintenance: Math.abs(value) * (isLong ? REG_T_RATES.longStockMaintenance : REG_T_RATES.shortStockMaintenance),
+      description: isLong
+        ? `${position.quantity} shares long`
+        : `${Math.abs(position.quantity)} shares short`,
+    });
+  }
+
+  return requirements;
+}
+
+/**
+ * Reg-T strategy-based requirements for a set of positions
+ */
+export function regTRequirements(positions: MarginPosition[]): MarginRequirement[] {
+  const requirements: MarginRequirement[] = [];
+  for (const [underlyingSymbol, group] of byUnderlying(positions)) {
+    requirements.push(...regTGroupRequirements(underlyingSymbol, group));
+  }
+  return requirements;
+}
+
+// Theoretical value of a position with the underlying at the given price
+function scenarioValue(position: MarginPosition, underlyingPrice: number, asOf: Date): number {
+  if (!isOption(position)) {
+    return underlyingPrice * position.quantity * position.multiplier;
+  }
+
+  const price = contractGreeks(
+    {
+      optionType: position.optionType!,
+      strikePrice: position.strikePrice!,
+      expirationDate: position.expirationDate ?? asOf.toISOString(),
+    },
+    underlyingPrice,
+    position.volatility || DEFAULT_VOLATILITY,
+    asOf
+  ).price;
+
+  return price * position.quantity * position.multiplier;
+}
+
+/**
+ * Portfolio margin: worst loss per underlying across the price scenarios
+ */
+export function portfolioMarginRequirements(
+  positions: MarginPosition[],
+  asOf: Date = new Date()
+): MarginRequirement[] {
+  const requirements: MarginRequirement[] = [];
+  const { priceShock, scenarios, minimumPerContract } = PORTFOLIO_MARGIN;
+
+  for (const [underlyingSymbol, group] of byUnderlying(positions)) {
+    const spot = groupSpot(group) || group[0].strikePrice || group[0].price;
+    const current = group.reduce((sum, position) => sum + scenarioValue(position, spot, asOf), 0);
+
+    let worstLoss = 0;
+    let worstMove = 0;
+    for (let step = 0; step <= scenarios; step++) {
+      const move = -priceShock + (2 * priceShock * step) / scenarios;
+      const value = group.reduce((sum, position) => sum + scenarioValue(position, spot * (1 + move), asOf), 0);
+      if (current - value > worstLoss) {
+        worstLoss = current - value;
+        worstMove = move;
+      }
+    }
+
+    const shortContracts = group
+      .filter(position => isOption(position) && position.quantity < 0)
+      .reduce((sum, position) => sum + Math.abs(position.quantity), 0);
+    const requirement = Math.max(worstLoss, shortContracts * minimumPerContract);
+
+    requirements.push({
+      strategy: 'portfolio',
+      underlyingSymbol,
+      symbols: group.map(position => position.symbol),
+      quantity: group.reduce((sum, position) => sum + Math.abs(position.quantity), 0),
+      marketValue: group.reduce((sum, position) => sum + marketValue(position), 0),
+      initial: requirement,
+      maintenance: requirement,
+      description: worstLoss > 0
+        ? `Worst loss at a ${(worstMove * 100).toFixed(1)}% move in ${underlyingSymbol}`
+        : 'No loss across the tested price moves',
+    });
+  }
+
+  return requirements;
+}
+
+/**
+ * Requirements, equity and buying power for an account's positions
+ */
+export function summarizeMargin(
+  mode: MarginMode,
+  cashBalance: number,
+  positions: MarginPosition[],
+  asOf: Date = new Date()
+): MarginSummary {
+  const requirements = mode === 'portfolio'
+    ? portfolioMarginRequirements(positions, asOf)
+    : regTRequirements(positions);
+
+  let longMarketValue = 0;
+  let shortMarketValue = 0;
+  for (const position of positions) {
+    const value = marketValue(position);
+    if (value >= 0) {
+      longMarketValue += value;
+    } else {
+      shortMarketValue += value;
+    }
+  }
+
+  const equity = cashBalance + longMarketValue + shortMarketValue;
+  const initialRequirement = requirements.reduce((sum, requirement) => sum + requirement.initial, 0);
+  const maintenanceRequirement = requirements.reduce((sum, requirement) => sum + requirement.maintenance, 0);
+  const excessEquity = equity - initialRequirement;
+  const stockRate = mode === 'portfolio' ? PORTFOLIO_MARGIN.priceShock : REG_T_RATES.longStockInitial;
+
+  return {
+    mode,
+    cashBalance,
+    longMarketValue,
+    shortMarketValue,
+    equity,
+    initialRequirement,
+    maintenanceRequirement,
+    excessEquity,
+    maintenanceExcess: equity - maintenanceRequirement,
+    buyingPower: Math.max(excessEquity, 0) / stockRate,
+    optionBuyingPower: Math.max(excessEquity, 0),
+    marginLoan: Math.max(-cashBalance, 0),
+    marginCall: equity < maintenanceRequirement,
+    requirements,
+  };
+}
+
+export function parseMarginMode(value: string | null | undefined): MarginMode {
+  return MARGIN_MODES.includes(value as MarginMode) ? value as MarginMode : 'reg_t';
+}
+
+async function underlyingPrice(
+  executor: DbExecutor,
+  symbol: string,
+  prices: Map<string, number>
+): Promise<number> {
+  if (!prices.has(symbol)) {
+    const row = await executor.select({ currentPrice: assets.currentPrice })
+      .from(assets)
+      .where(eq(assets.symbol, symbol))
+      .limit(1);
+    prices.set(symbol, row[0]?.currentPrice || 0);
+  }
+  return prices.get(symbol)!;
+}
+
+async function impliedVolatility(executor: DbExecutor, optionSymbol: string): Promise<number> {
+  return (await optionSymbolVolatility(optionSymbol, new Date(), executor)) || DEFAULT_VOLATILITY;
+}
+
+/**
+ * Load an account's open positions in the form the margin rules price
+ */
+export async function loadMarginPositions(
+  accountId: number,
+  executor: DbExecutor = db
+): Promise<MarginPosition[]> {
+  const rows = await executor.select({
+    position: paperPositions,
+    symbol: assets.symbol,
+  })
+    .from(paperPositions)
+    .leftJoin(assets, eq(paperPositions.assetId, assets.id))
+    .where(eq(paperPositions.paperAccountId, accountId));
+
+  const prices = new Map<string, number>();
+  const positions: MarginPosition[] = [];
+
+  for (const { position, symbol } of rows) {
+    if (position.quantity === 0) continue;
+
+    const price = position.currentPrice || position.averageCost;
+    const underlyingSymbol = position.underlyingSymbol ?? symbol ?? String(position.assetId);
+
+    positions.push({
+      assetId: position.assetId,
+      symbol: position.optionSymbol ?? symbol ?? String(position.assetId),
+      quantity: position.quantity,
+      price,
+      multiplier: position.multiplier || 1,
+      optionType: position.optionType as 'call' | 'put' | null,
+      strikePrice: position.strikePrice,
+      expirationDate: position.expirationDate,
+      underlyingSymbol,
+      underlyingPrice: position.optionSymbol ? await underlyingPrice(executor, underlyingSymbol, prices) : price,
+      volatility: position.optionSymbol ? await impliedVolatility(executor, position.optionSymbol) : undefined,
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Current margin summary for an account
+ */
+export async function accountMargin(
+  account: Pick<PaperTradingAccount, 'id' | 'cashBalance' | 'marginMode'>,
+  asOf: Date = new Date()
+): Promise<MarginSummary> {
+  const positions = await loadMarginPositions(account.id);
+  return summarizeMargin(parseMarginMode(account.marginMode), account.cashBalance, positions, asOf);
+}
+
+export interface ProposedFill {
+  order: Pick<
+    PaperOrder,
+    | 'assetId' | 'side' | 'optionSymbol' | 'underlyingSymbol'
+    | 'optionType' | 'strikePrice' | 'expirationDate' | 'multiplier'
+  >;
+  quantity: number;
+  fillPrice: number;
+}
+
+/**
+ * Whether a fill trades an existing position: the same asset and, where
+ * positions share an asset with their underlying, the same contract
+ */
+export function isSameInstrument(position: MarginPosition, order: ProposedFill['order']): boolean {
+  return position.assetId === order.assetId &&
+    (position.strikePrice ?? null) === (order.strikePrice ?? null) &&
+    (position.optionType ?? null) === (order.optionType ?? null) &&
+    (position.expirationDate ?? null) === (order.expirationDate ?? null);
+}
+
+/**
+ * Positions as they would stand after the fills, and the cash the fills
+ * would move
+ */
+export async function projectFills(
+  positions: MarginPosition[],
+  fills: ProposedFill[],
+  executor: DbExecutor = db
+): Promise<{ positions: MarginPosition[]; cashChange: number }> {
+  const proposed = positions.map(position => ({ ...position }));
+  const prices = new Map<string, number>();
+  let cashChange = 0;
+
+  for (const { order, quantity, fillPrice } of fills) {
+    const multiplier = order.multiplier || 1;
+    const signedQuantity = order.side === 'buy' ? quantity : -quantity;
+    cashChange -= fillPrice * signedQuantity * multiplier;
+
+    const existing = proposed.find(position => isSameInstrument(position, order));
+    if (existing) {
+      existing.quantity += signedQuantity;
+      continue;
+    }
+
+    let symbol = order.optionSymbol;
+    if (!symbol) {
+      const asset = await executor.select({ symbol: assets.symbol })
+        .from(assets)
+        .where(eq(assets.id, order.assetId))
+        .limit(1);
+      symbol = asset[0]?.symbol ?? String(order.assetId);
+    }
+    const underlyingSymbol = order.underlyingSymbol ?? symbol;
+
+    proposed.push({
+      assetId: order.assetId,
+      symbol,
+      quantity: signedQuantity,
+      price: fillPrice,
+      multiplier,
+      optionType: order.optionType as 'call' | 'put' | null,
+      strikePrice: order.strikePrice,
+      expirationDate: order.expirationDate,
+      underlyingSymbol,
+      underlyingPrice: order.optionSymbol ? await underlyingPrice(executor, underlyingSymbol, prices) : fillPrice,
+      volatility: order.optionSymbol ? await impliedVolatility(executor, order.optionSymbol) : undefined,
+    });
+  }
+
+  return { positions: proposed, cashChange };
+}
+
+/**
+ * Check whether fills would leave the account within its initial margin.
+ * Fills that lower the requirement are always allowed so positions can
+ * be closed or hedged while under water.
+ */
+export async function checkOrderMargin(
+  account: Pick<PaperTradingAccount, 'id' | 'cashBalance' | 'marginMode'>,
+  fills: ProposedFill[],
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<MarginCheck> {
+  const mode = parseMarginMode(account.marginMode);
+  const positions = await loadMarginPositions(account.id, executor);
+  const before = summarizeMargin(mode, account.cashBalance, positions, asOf);
+
+  const proposed = await projectFills(positions, fills, executor);
+  const after = summarizeMargin(mode, account.cashBalance + proposed.cashChange, proposed.positions, asOf);
+  const additionalRequirement = after.initialRequirement - before.initialRequirement;
+
+  return {
+    approved: after.excessEquity >= 0 || additionalRequirement <= 0,
+    before,
+    after,
+    additionalRequirement,
+  };
+}
+
+/**
+ * Requirement breakdown returned with rejected orders
+ */
+export function marginRejection(check: MarginCheck) {
+  return {
+    mode: check.after.mode,
+    equity: check.after.equity,
+    initialRequirement: check.after.initialRequirement,
+    additionalRequirement: check.additionalRequirement,
+    excessEquity: check.before.excessEquity,
+    shortfall: -check.after.excessEquity,
+    buyingPower: check.before.buyingPower,
+    requirements: check.after.requirements,
+  };
+}
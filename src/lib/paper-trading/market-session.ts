@@ -0,0 +1,138 @@
+/**
+ * US Equity Market Session Calendar
+ * Regular session times (9:30-16:00 America/New_York, weekdays) and
+ * time-in-force expiry rules for paper orders.
+ * Exchange holidays and early closes are not modeled.
+ */
+
+export const TIME_IN_FORCE = ['day', 'gtc', 'ioc', 'fok', 'opg', 'cls'] as const;
+export type TimeInForce = typeof TIME_IN_FORCE[number];
+
+const MARKET_TIME_ZONE = 'America/New_York';
+const OPEN_MINUTES = 9 * 60 + 30;
+const CLOSE_MINUTES = 16 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of the simulated opening and closing auctions
+export const AUCTION_WINDOW_MS = 60 * 1000;
+
+export interface MarketSession {
+  open: Date;
+  close: Date;
+}
+
+const partsFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+// Wall-clock parts of a date in New York
+function marketParts(date: Date) {
+  const parts: Record<string, number> = {};
+  for (const part of partsFormatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+// Convert a New York wall-clock time to a UTC Date, honoring DST
+function fromMarketTime(year: number, month: number, day: number, minutes: number): Date {
+  const guess = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  const parts = marketParts(new Date(guess));
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return new Date(guess - (asUtc - guess));
+}
+
+/**
+ * New York calendar date (YYYY-MM-DD) of a moment
+ */
+export function marketDate(date: Date): string {
+  const { year, month, day } = marketParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Session for the New York calendar day containing the date, or null on weekends
+ */
+export function getSession(date: Date): MarketSession | null {
+  const { year, month, day } = marketParts(date);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  if (weekday === 0 || weekday === 6) {
+    return null;
+  }
+
+  return {
+    open: fromMarketTime(year, month, day, OPEN_MINUTES),
+    close: fromMarketTime(year, month, day, CLOSE_MINUTES),
+  };
+}
+
+/**
+ * The current session if it has not closed yet, otherwise the next one
+ */
+export function getNextSession(date: Date): MarketSession {
+  for (let offset = 0; offset < 8; offset++) {
+    const session = getSession(new Date(date.getTime() + offset * DAY_MS));
+    if (session && session.close.getTime() > date.getTime()) {
+      return session;
+    }
+  }
+  throw new Error(`No trading session found after ${date.toISOString()}`);
+}
+
+export function isMarketOpen(date: Date): boolean {
+  const session = getSession(date);
+  return !!session && date >= session.open && date < session.close;
+}
+
+/**
+ * When an order with the given time-in-force stops working.
+ * Returns null for orders that never expire on their own (GTC) or that
+ * are resolved at submission (IOC/FOK).
+ */
+export function computeOrderExpiry(timeInForce: TimeInForce, submittedAt: Date): string | null {
+  switch (timeInForce) {
+    case 'day':
+    case 'cls':
+      return getNextSession(submittedAt).close.toISOString();
+    case 'opg': {
+      // Orders placed after today's opening auction roll to the next session
+      const session = getNextSession(submittedAt);
+      const auctionEnd = new Date(session.open.getTime() + AUCTION_WINDOW_MS);
+      if (auctionEnd > submittedAt) {
+        return auctionEnd.toISOString();
+      }
+      return new Date(getNextSession(session.close).open.getTime() + AUCTION_WINDOW_MS).toISOString();
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether an order may execute at the given time. Opening and closing
+ * auction orders only execute inside their auction window.
+ */
+export function isExecutableAt(timeInForce: string, at: Date): boolean {
+  if (timeInForce !== 'opg' && timeInForce !== 'cls') {
+    return true;
+  }
+
+  const session = getSession(at);
+  if (!session) return false;
+
+  if (timeInForce === 'opg') {
+    return at >= session.open && at.getTime() < session.open.getTime() + AUCTION_WINDOW_MS;
+  }
+
+  return at.getTime() >= session.close.getTime() - AUCTION_WINDOW_MS && at <= session.close;
+}
@@ -0,0 +1,208 @@
+/**
+ * Option Contracts
+ * OCC option symbols (e.g. AAPL250117C00150000) and the asset rows paper
+ * orders and positions reference for each contract
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { assets } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { calculateGreeks, impliedVolatility, type Greeks, type GreeksInput, type ImpliedVolatilityResult } from '@/lib/greeks-calculator';
+import { getSession } from './market-session';
+
+// Shares of the underlying per standard equity option contract
+export const OPTION_MULTIPLIER = 100;
+
+export interface OptionContract {
+  optionSymbol: string;
+  underlyingSymbol: string;
+  optionType: 'call' | 'put';
+  strikePrice: number;
+  expirationDate: string; // YYYY-MM-DD
+  multiplier: number;
+}
+
+// Root (padded to six characters in the full OCC format), YYMMDD, C/P, strike x 1000
+const OCC_PATTERN = /^([A-Z][A-Z0-9.]{0,5})\s*(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+/**
+ * Parse an OCC option symbol. Returns null for anything that is not one,
+ * such as a plain stock ticker.
+ */
+export function parseOccSymbol(symbol: string): OptionContract | null {
+  const match = OCC_PATTERN.exec(symbol.toUpperCase().trim());
+  if (!match) return null;
+
+  const [, root, yy, mm, dd, type, strike] = match;
+  const month = parseInt(mm);
+  const day = parseInt(dd);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return {
+    optionSymbol: `${root}${yy}${mm}${dd}${type}${strike}`,
+    underlyingSymbol: root,
+    optionType: type === 'C' ? 'call' : 'put',
+    strikePrice: parseInt(strike) / 1000,
+    expirationDate: `20${yy}-${mm}-${dd}`,
+    multiplier: OPTION_MULTIPLIER,
+  };
+}
+
+/**
+ * Build the OCC symbol for a contract
+ */
+export function formatOccSymbol(contract: {
+  underlyingSymbol: string;
+  optionType: 'call' | 'put';
+  strikePrice: number;
+  expirationDate: string;
+}): string {
+  const [year, month, day] = contract.expirationDate.slice(0, 10).split('-');
+  const strike = Math.round(contract.strikePrice * 1000).toString().padStart(8, '0');
+  const type = contract.optionType === 'call' ? 'C' : 'P';
+  return `${contract.underlyingSymbol.toUpperCase()}${year.slice(2)}${month}${day}${type}${strike}`;
+}
+
+/**
+ * Contract multiplier for a symbol: 100 for options, 1 for everything else
+ */
+export function contractMultiplier(symbol: string): number {
+  return parseOccSymbol(symbol) ? OPTION_MULTIPLIER : 1;
+}
+
+/**
+ * Expiration moment of a contract: the close of its expiration session
+ */
+export function contractExpiry(expirationDate: string): Date {
+  const noon = new Date(`${expirationDate.slice(0, 10)}T12:00:00Z`);
+  return getSession(noon)?.close ?? noon;
+}
+
+export type ContractPricing = Pick<GreeksInput, 'model' | 'dividendYield' | 'dividends'>;
+
+/**
+ * Per-contract Greeks for a position's option, from the underlying price
+ * and implied volatility. `pricing` picks the model and dividends;
+ * the default is European Black-Scholes without dividends.
+ */
+export function contractGreeks(
+  contract: Pick<OptionContract, 'optionType' | 'strikePrice' | 'expirationDate'>,
+  spotPrice: number,
+  volatility: number,
+  asOf: Date = new Date(),
+  riskFreeRate: number = 0.05,
+  pricing: ContractPricing = {}
+): Greeks {
+  const timeToExpiry = Math.max(
+    (contractExpiry(contract.expirationDate).getTime() - asOf.getTime()) / (365.25 * 24 * 60 * 60 * 1000),
+    0
+  );
+
+  return calculateGreeks({
+    ...pricing,
+    spotPrice,
+    strikePrice: contract.strikePrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate,
+    optionType: contract.optionType,
+  });
+}
+
+/**
+ * Implied volatility of a contract priced at `optionPrice` with the
+ * underlying at `spotPrice`
+ */
+export function contractImpliedVolatility(
+  contract: Pick<OptionContract, 'optionType' | 'strikePrice' | 'expirationDate'>,
+  optionPrice: number,
+  spotPrice: number,
+  asOf: Date = new Date(),
+  riskFreeRate: number = 0.05,
+  pricing: ContractPricing = {}
+): ImpliedVolatilityResult {
+  const timeToExpiry = Math.max(
+    (contractExpiry(contract.expirationDate).getTime() - asOf.getTime()) / (365.25 * 24 * 60 * 60 * 1000),
+    0
+  );
+
+  return impliedVolatility(optionPrice, {
+    ...pricing,
+    spotPrice,
+    strikePrice: contract.strikePrice,
+    timeToExpiry,
+    riskFreeRate,
+    optionType: contract.optionType,
+  });
+}
+
+/**
+ * Implied volatility of a stored quote, solved from its mid (or last
+ * price when one side is missing). Null when the quote has no usable
+ * price or underlying price, or no volatility reproduces it.
+ */
+export function quoteImpliedVolatility(
+  quote: Pick<OptionContract, 'optionType' | 'strikePrice' | 'expirationDate'> & {
+    bid?: number | null;
+    ask?: number | null;
+    lastPrice?: number | null;
+    underlyingPrice?: number | null;
+  },
+  asOf: Date = new Date()
+): number | null {
+  const price = quote.bid && quote.ask ? (quote.bid + quote.ask) / 2 : quote.lastPrice;
+  if (!price || !quote.underlyingPrice) return null;
+
+  return contractImpliedVolatility(quote, price, quote.underlyingPrice, asOf).volatility;
+}
+
+/**
+ * Find the asset row for a contract, creating it on first use
+ */
+export async function resolveContractAsset(contract: OptionContract, executor: DbExecutor = db) {
+  const existing = await executor.select()
+    .from(assets)
+    .where(eq(assets.symbol, contract.optionSymbol))
+    .limit(1);
+
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const now = new Date().toISOString();
+  const type = contract.optionType === 'call' ? 'Call' : 'Put';
+  const created = await executor.insert(assets)
+    .values({
+      symbol: contract.optionSymbol,
+      name: `${contract.underlyingSymbol} ${contract.expirationDate} ${contract.strikePrice} ${type}`,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (created.length > 0) {
+    return created[0];
+  }
+
+  // Another request created it first
+  const row = await executor.select()
+    .from(assets)
+    .where(eq(assets.symbol, contract.optionSymbol))
+    .limit(1);
+  return row[0];
+}
+
+/**
+ * Contract columns stored on paper orders and positions
+ */
+export function contractFields(contract: OptionContract | null) {
+  return {
+    optionSymbol: contract?.optionSymbol ?? null,
+    underlyingSymbol: contract?.underlyingSymbol ?? null,
+    optionType: contract?.optionType ?? null,
+    strikePrice: contract?.strikePrice ?? null,
+    expirationDate: contract?.expirationDate ?? null,
+    multiplier: contract?.multiplier ?? 1,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Paper Order Amendments
+ * Cancel, cancel-all and cancel/replace for open paper orders. A replace
+ * amends the order in place: it keeps its id, creation time (and so its
+ * place in the matching queue) and fills so far, and the change is kept
+ * in the order's event history.
+ */
+
+import type { DbExecutor } from '@/db';
+import { paperOrders, paperTradingAccounts, assets } from '@/db/schema';
+import type { PaperOrder } from '@/db/schema';
+import { eq, and, inArray, asc } from 'drizzle-orm';
+import { checkPaperOrderRisk, type RiskCheckResult } from '@/lib/risk-checks';
+import { cancelOrder, runAtomically } from './order-execution';
+import { OPEN_ORDER_STATUSES } from './order-groups';
+import { trailingStopPrice } from './order-matcher';
+import { recordOrderEvent, recordOrderEvents } from './order-history';
+
+export class OrderAmendmentError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'OrderAmendmentError';
+  }
+}
+
+// An amendment the pre-trade risk checks stopped; the order is left as it was
+export class OrderRiskError extends OrderAmendmentError {
+  constructor(public result: RiskCheckResult) {
+    super(result.violations[0].message, 'RISK_CHECK_FAILED');
+    this.name = 'OrderRiskError';
+  }
+}
+
+export interface OrderReplacement {
+  quantity?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number | null;
+  trailPercent?: number | null;
+}
+
+export interface CancelResult {
+  order: PaperOrder;
+  canceledQuantity: number; // Unfilled remainder that stopped working
+}
+
+async function loadOrder(tx: DbExecutor, orderId: number): Promise<PaperOrder> {
+  const order = await tx.select()
+    .from(paperOrders)
+    .where(eq(paperOrders.id, orderId))
+    .limit(1);
+
+  if (order.length === 0) {
+    throw new OrderAmendmentError('Paper order not found', 'ORDER_NOT_FOUND');
+  }
+  return order[0];
+}
+
+/**
+ * Cancel one open order. Pending and held orders are canceled outright; a
+ * partially filled order keeps its fills and cancels the remainder.
+ */
+export async function cancelPaperOrder(
+  orderId: number,
+  timestamp: string = new Date().toISOString()
+): Promise<CancelResult> {
+  return runAtomically(async (tx) => {
+    const order = await loadOrder(tx, orderId);
+    const canceled = await cancelOrder(order.id, timestamp, 'canceled', tx, 'user');
+
+    return { order: canceled, canceledQuantity: order.quantity - order.filledQuantity };
+  });
+}
+
+/**
+ * Cancel every open order on an account in one transaction
+ */
+export async function cancelAllPaperOrders(
+  paperAccountId: number,
+  timestamp: string = new Date().toISOString()
+): Promise<CancelResult[]> {
+  return runAtomically(async (tx) => {
+    // Oldest first, so parents are canceled before the held children they
+    // would have triggered
+    const open = await tx.select({ id: paperOrders.id })
+      .from(paperOrders)
+      .where(and(
+        eq(paperOrders.paperAccountId, paperAccountId),
+        inArray(paperOrders.status, OPEN_ORDER_STATUSES)
+      ))
+      .orderBy(asc(paperOrders.id));
+
+    const results: CancelResult[] = [];
+    for (const { id } of open) {
+      const order = await loadOrder(tx, id);
+      // Already canceled along with its parent
+      if (!OPEN_ORDER_STATUSES.includes(order.status)) continue;
+
+      const canceled = await cancelOrder(order.id, timestamp, 'canceled', tx, 'cancel_all');
+      results.push({ order: canceled, canceledQuantity: order.quantity - order.filledQuantity });
+    }
+
+    return results;
+  });
+}
+
+// Terms of the order that a replace can change, for the event history
+function replaceableTerms(order: PaperOrder) {
+  return {
+    quantity: order.quantity,
+    limitPrice: order.limitPrice,
+    stopPrice: order.stopPrice,
+    trailAmount: order.trailAmount,
+    trailPercent: order.trailPercent,
+  };
+}
+
+/**
+ * Validate a replacement against the order it amends and build the update
+ */
+function buildReplacement(order: PaperOrder, changes: OrderReplacement): Partial<PaperOrder> {
+  const update: Partial<PaperOrder> = {};
+
+  if (changes.quantity !== undefined) {
+    if (!Number.isInteger(changes.quantity) || changes.quantity <= order.filledQuantity) {
+      throw new OrderAmendmentError(
+        `quantity must be an integer greater than the ${order.filledQuantity} already filled`,
+        'INVALID_QUANTITY'
+      );
+    }
+    update.quantity = changes.quantity;
+  }
+
+  if (changes.limitPrice !== undefined) {
+    if (order.orderType !== 'limit' && order.orderType !== 'stop_limit') {
+      throw new OrderAmendmentError('Only limit and stop-limit orders have a limit price', 'INVALID_LIMIT_PRICE');
+    }
+    if (!(changes.limitPrice > 0)) {
+      throw new OrderAmendmentError('limitPrice must be a positive number', 'INVALID_LIMIT_PRICE');
+    }
+    update.limitPrice = changes.limitPrice;
+  }
+
+  if (changes.stopPrice !== undefined) {
+    if (order.orderType !== 'stop' && order.orderType !== 'stop_limit') {
+      throw new OrderAmendmentError('Only stop and stop-limit orders have a settable stop price', 'INVALID_STOP_PRICE');
+    }
+    if (order.triggeredAt) {
+      throw new OrderAmendmentError('The stop of a triggered order cannot be changed', 'INVALID_STOP_PRICE');
+    }
+    if (!(changes.stopPrice > 0)) {
+      throw new OrderAmendmentError('stopPrice must be a positive number', 'INVALID_STOP_PRICE');
+    }
+    update.stopPrice = changes.stopPrice;
+  }
+
+  if (changes.trailAmount !== undefined || changes.trailPercent !== undefined) {
+    if (order.orderType !== 'trailing_stop' || order.triggeredAt) {
+      throw new OrderAmendmentError('Only untriggered trailing stops have a trail', 'INVALID_TRAIL');
+    }
+
+    const trailAmount = changes.trailAmount !== undefined ? changes.trailAmount : order.trailAmount;
+    const trailPercent = changes.trailPercent !== undefined ? changes.trailPercent : order.trailPercent;
+    if (!trailAmount === !trailPercent || (trailAmount || trailPercent)! < 0) {
+      throw new OrderAmendmentError('Exactly one of trailAmount or trailPercent must be a positive number', 'INVALID_TRAIL');
+    }
+
+    update.trailAmount = trailAmount || null;
+    update.trailPercent = trailPercent || null;
+    // The stop moves to the new trail from the water mark seen so far
+    if (order.highWaterMark !== null) {
+      update.stopPrice = trailingStopPrice({ ...order, ...update }, order.highWaterMark);
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new OrderAmendmentError(
+      'Provide at least one of quantity, limitPrice, stopPrice, trailAmount or trailPercent',
+      'NO_CHANGES'
+    );
+  }
+
+  return update;
+}
+
+/**
+ * Run the amended order's unfilled remainder through the pre-trade risk
+ * checks, priced like a new order: at its limit, else its stop, else the
+ * last price
+ */
+async function checkReplacementRisk(tx: DbExecutor, order: PaperOrder, timestamp: string): Promise<void> {
+  const account = await tx.select()
+    .from(paperTradingAccounts)
+    .where(eq(paperTradingAccounts.id, order.paperAccountId))
+    .limit(1);
+  const asset = await tx.select({ currentPrice: assets.currentPrice })
+    .from(assets)
+    .where(eq(assets.id, order.assetId))
+    .limit(1);
+
+  const risk = await checkPaperOrderRisk(account[0], [{
+    order,
+    quantity: order.quantity - order.filledQuantity,
+    fillPrice: order.limitPrice ?? order.stopPrice ?? asset[0]?.currentPrice ?? 0,
+  }], new Date(timestamp), tx);
+
+  if (!risk.approved) {
+    throw new OrderRiskError(risk);
+  }
+}
+
+/**
+ * Cancel/replace an open order with new price or quantity terms. The
+ * amended order goes through the same risk checks as a new one. Held
+ * children sized to the order's quantity (bracket exits, OTO children)
+ * follow a quantity change.
+ */
+export async function replacePaperOrder(
+  orderId: number,
+  changes: OrderReplacement,
+  timestamp: string = new Date().toISOString()
+): Promise<{ order: PaperOrder; linked: PaperOrder[] }> {
+  return runAtomically(async (tx) => {
+    const order = await loadOrder(tx, orderId);
+
+    if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+      throw new OrderAmendmentError(
+        `Order ${order.id} is ${order.status} and can no longer be replaced`,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+
+    const update = buildReplacement(order, changes);
+
+    const replaced = await tx.update(paperOrders)
+      .set({ ...update, updatedAt: timestamp })
+      .where(eq(paperOrders.id, order.id))
+      .returning();
+
+    await checkReplacementRisk(tx, replaced[0], timestamp);
+
+    await recordOrderEvent({
+      order: replaced[0],
+      eventType: 'replaced',
+      fromStatus: order.status,
+      timestamp,
+      details: { previous: replaceableTerms(order), changes: update },
+    }, tx);
+
+    let linked: PaperOrder[] = [];
+    if (update.quantity !== undefined) {
+      linked = await tx.update(paperOrders)
+        .set({ quantity: update.quantity, updatedAt: timestamp })
+        .where(and(
+          eq(paperOrders.parentOrderId, order.id),
+          eq(paperOrders.status, 'held'),
+          eq(paperOrders.quantity, order.quantity)
+        ))
+        .returning();
+
+      await recordOrderEvents(linked.map(child => ({
+        order: child,
+        eventType: 'replaced' as const,
+        fromStatus: 'held',
+        timestamp,
+        details: {
+          previous: { quantity: order.quantity },
+          changes: { quantity: update.quantity },
+          parentOrderId: order.id,
+        },
+      })), tx);
+    }
+
+    return { order: replaced[0], linked };
+  });
+}
@@ -0,0 +1,513 @@
+/**
+ * Paper Trading Order Execution
+ * Applies fills to paper positions and account balances. Each fill runs in
+ * one transaction, and account balance writes check the row's version so
+ * a concurrent fill on the same account forces a retry rather than a lost
+ * update.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperOrders, paperTradingAccounts, paperPositions } from '@/db/schema';
+import type { PaperOrder, PaperPosition } from '@/db/schema';
+import { eq, and, lte, inArray, isNotNull, sql } from 'drizzle-orm';
+import { handleGroupFill, handleGroupPartialFill, handleGroupTermination, OPEN_ORDER_STATUSES } from './order-groups';
+import { checkOrderMargin, marginRejection } from './margin';
+import { marketDate } from './market-session';
+import { assertTransition, recordOrderEvent } from './order-history';
+import { applyPaperFillLots } from '@/lib/tax-lots';
+import { fillDescription, fillEntryType, recordCashEntry } from './cash-ledger';
+import { loadCommissionSchedule, executionFees } from '@/lib/commission-schedule';
+
+export class OrderRejectedError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'OrderRejectedError';
+  }
+}
+
+export class StaleAccountError extends Error {
+  constructor(accountId: number) {
+    super(`Paper trading account ${accountId} was modified by another order`);
+    this.name = 'StaleAccountError';
+  }
+}
+
+// Attempts for a transaction that lost an optimistic lock or found the
+// database locked by another writer
+const MAX_TRANSACTION_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 25;
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof StaleAccountError
+    || (error as { code?: string } | null)?.code === 'SQLITE_BUSY';
+}
+
+/**
+ * Run work in a single transaction, retrying from the start when an
+ * account row changed underneath it or another transaction held the lock
+ */
+export async function runAtomically<T>(work: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.transaction(work);
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+export interface FillRequest {
+  order: PaperOrder;
+  fillPrice: number;    // Price the order executes at, slippage included
+  marketPrice: number;  // Reference price used to mark the position
+  fillQuantity?: number; // Defaults to the order's unfilled remainder
+  timestamp?: string;
+  forced?: boolean;     // Exercise/assignment deliveries skip the margin check
+  marginChecked?: boolean; // Margin was already checked for the whole multi-leg order
+}
+
+export interface FillResult {
+  order: PaperOrder;
+  position: PaperPosition | null;
+  execution: {
+    fillPrice: number;
+    fillQuantity: number;
+    remainingQuantity: number;
+    totalCost: number;
+    slippage: number;
+    commission: number;   // Charged on this fill
+    fees: number;         // Regulatory and exchange fees charged on this fill
+    newCashBalance: number;
+  };
+  group: {
+    activated: PaperOrder[];  // Held children released by this fill
+    canceled: PaperOrder[];   // OCO siblings canceled by this fill
+  };
+}
+
+/**
+ * Mark an order as rejected, cancel any orders it would have triggered
+ * and raise an OrderRejectedError
+ */
+export async function rejectOrder(
+  orderId: number,
+  message: string,
+  code: string,
+  timestamp: string = new Date().toISOString(),
+  details?: Record<string, unknown>,
+  executor: DbExecutor = db
+): Promise<never> {
+  const order = await executor.select()
+    .from(paperOrders)
+    .where(eq(paperOrders.id, orderId))
+    .limit(1);
+
+  const rejected = await executor.update(paperOrders)
+    .set({
+      status: 'rejected',
+      updatedAt: timestamp,
+    })
+    .where(eq(paperOrders.id, orderId))
+    .returning();
+
+  await recordOrderEvent({
+    order: rejected[0],
+    eventType: 'rejected',
+    fromStatus: order[0].status,
+    timestamp,
+    details: { code, message, ...details },
+  }, executor);
+
+  await handleGroupTermination(orderId, timestamp, executor);
+
+  throw new OrderRejectedError(message, code, details);
+}
+
+/**
+ * Stop an open order from working. A partially filled order keeps its
+ * fills and only the unfilled remainder is canceled. Any children it would
+ * have triggered are resolved through its order group. Throws an
+ * InvalidOrderTransitionError if the order is no longer open.
+ */
+export async function cancelOrder(
+  orderId: number,
+  timestamp: string = new Date().toISOString(),
+  status: 'canceled' | 'expired' = 'canceled',
+  executor: DbExecutor = db,
+  reason?: string
+): Promise<PaperOrder> {
+  const order = await executor.select()
+    .from(paperOrders)
+    .where(eq(paperOrders.id, orderId))
+    .limit(1);
+
+  assertTransition(order[0], status);
+
+  const canceled = await executor.update(paperOrders)
+    .set({
+      status,
+      updatedAt: timestamp,
+    })
+    .where(eq(paperOrders.id, orderId))
+    .returning();
+
+  await recordOrderEvent({
+    order: canceled[0],
+    eventType: status,
+    fromStatus: order[0].status,
+    timestamp,
+    details: {
+      canceledQuantity: order[0].quantity - order[0].filledQuantity,
+      ...(reason ? { reason } : {}),
+    },
+  }, executor);
+
+  await handleGroupTermination(orderId, timestamp, executor);
+
+  return canceled[0];
+}
+
+/**
+ * Expire every open order whose time-in-force has run out
+ */
+export async function expireOrders(asOf: string = new Date().toISOString()): Promise<PaperOrder[]> {
+  const dueOrders = await db.select()
+    .from(paperOrders)
+    .where(and(
+      inArray(paperOrders.status, OPEN_ORDER_STATUSES),
+      isNotNull(paperOrders.expiresAt),
+      lte(paperOrders.expiresAt, asOf)
+    ));
+
+  const expired: PaperOrder[] = [];
+  for (const order of dueOrders) {
+    expired.push(await cancelOrder(order.id, asOf, 'expired'));
+  }
+
+  return expired;
+}
+
+/**
+ * Fill an order (or part of it) at the given price, updating the position,
+ * the order row and the account's cash, equity and P&L together. Pass a
+ * transaction to make the fill part of a larger atomic write; otherwise
+ * the fill runs in its own. A rejected fill writes nothing but the
+ * order's rejection.
+ */
+export async function applyFill(request: FillRequest, executor?: DbExecutor): Promise<FillResult> {
+  const fill = (tx: DbExecutor) => fillOrder(tx, request);
+
+  try {
+    // Every rejection is raised before the first write, so inside a
+    // caller's transaction there is nothing of the fill to undo
+    return executor ? await fill(executor) : await runAtomically(fill);
+  } catch (error) {
+    if (error instanceof OrderRejectedError) {
+      return rejectOrder(
+        request.order.id,
+        error.message,
+        error.code,
+        request.timestamp,
+        error.details,
+        executor
+      );
+    }
+    throw error;
+  }
+}
+
+async function fillOrder(tx: DbExecutor, request: FillRequest): Promise<FillResult> {
+  const { order, fillPrice, marketPrice } = request;
+  const timestamp = request.timestamp || new Date().toISOString();
+  const remaining = order.quantity - order.filledQuantity;
+  const qty = Math.min(request.fillQuantity ?? remaining, remaining);
+
+  const account = await tx.select()
+    .from(paperTradingAccounts)
+    .where(eq(paperTradingAccounts.id, order.paperAccountId))
+    .limit(1);
+
+  if (account.length === 0) {
+    throw new OrderRejectedError('Paper trading account not found', 'ACCOUNT_NOT_FOUND');
+  }
+
+  if (!account[0].isActive) {
+    throw new OrderRejectedError('Paper trading account is not active', 'ACCOUNT_NOT_ACTIVE');
+  }
+
+  const existingPosition = await tx.select()
+    .from(paperPositions)
+    .where(and(
+      eq(paperPositions.paperAccountId, order.paperAccountId),
+      eq(paperPositions.assetId, order.assetId)
+    ))
+    .limit(1);
+
+  // Options carry a contract multiplier; stocks use 1
+  const multiplier = order.multiplier || 1;
+  const totalCost = fillPrice * qty * multiplier;
+  const pos = existingPosition[0];
+  const heldQuantity = pos?.quantity ?? 0;
+
+  // Selling more than is held opens a short; the margin check covers it.
+  // Exercise and assignment deliveries skip the buying power check.
+  if (!request.forced && !request.marginChecked) {
+    const margin = await checkOrderMargin(account[0], [{ order, quantity: qty, fillPrice }], new Date(timestamp), tx);
+    if (!margin.approved) {
+      throw new OrderRejectedError(
+        `Insufficient buying power: order requires ${margin.additionalRequirement.toFixed(2)} ` +
+          `of initial margin with ${margin.before.excessEquity.toFixed(2)} excess equity available`,
+        'INSUFFICIENT_BUYING_POWER',
+        marginRejection(margin)
+      );
+    }
+  }
+
+  const tradeCashBalance = order.side === 'buy'
+    ? account[0].cashBalance - totalCost
+    : account[0].cashBalance + totalCost;
+
+  // Average price across every fill on the order
+  const totalFilled = order.filledQuantity + qty;
+  const averageFillPrice = ((order.filledPrice || 0) * order.filledQuantity + fillPrice * qty) / totalFilled;
+
+  // Commission and fees accrue with the order's filled quantity;
+  // settlements are free
+  const orderFees = request.forced
+    ? null
+    : executionFees(loadCommissionSchedule(account[0].commissionSchedule), {
+        side: order.side as 'buy' | 'sell',
+        quantity: totalFilled,
+        price: averageFillPrice,
+        isOption: !!order.optionSymbol,
+        multiplier,
+      });
+  const commission = orderFees ? orderFees.commission - order.commission : 0;
+  const fees = orderFees ? orderFees.fees - order.fees : 0;
+  const commissionCashBalance = tradeCashBalance - commission;
+  const newCashBalance = commissionCashBalance - fees;
+
+  // Positions are signed: long above zero, short below
+  const signedQty = order.side === 'buy' ? qty : -qty;
+  const newQuantity = heldQuantity + signedQty;
+  let averageCost = fillPrice;
+  let realizedPnl = 0;
+
+  if (pos && Math.sign(heldQuantity) === Math.sign(signedQty)) {
+    // Adding to the position: weighted average cost
+    averageCost = (pos.averageCost * Math.abs(heldQuantity) + fillPrice * qty) / Math.abs(newQuantity);
+  } else if (pos) {
+    // Reducing the position realizes P&L on the closed quantity
+    const closedQty = Math.min(qty, Math.abs(heldQuantity));
+    realizedPnl = (fillPrice - pos.averageCost) * closedQty * Math.sign(heldQuantity) * multiplier;
+    // Keep the cost basis unless the fill flips the position through zero
+    averageCost = Math.abs(signedQty) > Math.abs(heldQuantity) ? fillPrice : pos.averageCost;
+  }
+
+  // Short stock accrues borrow fees from the day it is opened
+  const borrowFeesAccruedAt = !order.optionSymbol && newQuantity < 0
+    ? (heldQuantity < 0 && pos?.borrowFeesAccruedAt) || marketDate(new Date(timestamp))
+    : null;
+
+  let positionResult: PaperPosition | null = null;
+
+  if (pos && newQuantity === 0) {
+    await tx.delete(paperPositions)
+      .where(eq(paperPositions.id, pos.id));
+  } else if (pos) {
+    const updatedPosition = await tx.update(paperPositions)
+      .set({
+        quantity: newQuantity,
+        averageCost,
+        currentPrice: marketPrice,
+        unrealizedPnl: (marketPrice - averageCost) * newQuantity * multiplier,
+        realizedPnl: (pos.realizedPnl || 0) + realizedPnl,
+        borrowFeesAccruedAt,
+        lastUpdated: timestamp,
+      })
+      .where(eq(paperPositions.id, pos.id))
+      .returning();
+
+    positionResult = updatedPosition[0];
+  } else {
+    const newPosition = await tx.insert(paperPositions)
+      .values({
+        paperAccountId: order.paperAccountId,
+        assetId: order.assetId,
+        quantity: newQuantity,
+        averageCost,
+        currentPrice: marketPrice,
+        unrealizedPnl: (marketPrice - averageCost) * newQuantity * multiplier,
+        realizedPnl: 0,
+        optionSymbol: order.optionSymbol,
+        underlyingSymbol: order.underlyingSymbol,
+        optionType: order.optionType,
+        strikePrice: order.strikePrice,
+        expirationDate: order.expirationDate,
+        multiplier,
+        complexOrderId: order.complexOrderId,
+        borrowFeesAccruedAt,
+        lastUpdated: timestamp,
+      })
+      .returning();
+
+    positionResult = newPosition[0];
+  }
+
+  const isComplete = totalFilled >= order.quantity;
+
+  const filledOrder = await tx.update(paperOrders)
+    .set({
+      status: isComplete ? 'filled' : 'partially_filled',
+      filledQuantity: totalFilled,
+      filledPrice: averageFillPrice,
+      filledAt: timestamp,
+      commission: order.commission + commission,
+      fees: order.fees + fees,
+      updatedAt: timestamp,
+    })
+    .where(eq(paperOrders.id, order.id))
+    .returning();
+
+  await applyPaperFillLots(order, account[0], qty, fillPrice, timestamp, tx);
+
+  await recordOrderEvent({
+    order: filledOrder[0],
+    eventType: isComplete ? 'filled' : 'partially_filled',
+    fromStatus: order.status,
+    timestamp,
+    details: { fillQuantity: qty, fillPrice, marketPrice },
+  }, tx);
+
+  // Settlements at zero (worthless expirations) move no cash
+  if (totalCost !== 0) {
+    await recordCashEntry({
+      paperAccountId: order.paperAccountId,
+      entryType: fillEntryType(order),
+      amount: tradeCashBalance - account[0].cashBalance,
+      balanceAfter: tradeCashBalance,
+      description: fillDescription(order, qty, fillPrice),
+      timestamp,
+      paperOrderId: order.id,
+      assetId: order.assetId,
+      quantity: qty,
+      price: fillPrice,
+    }, tx);
+  }
+
+  if (commission !== 0) {
+    await recordCashEntry({
+      paperAccountId: order.paperAccountId,
+      entryType: 'commission',
+      amount: -commission,
+      balanceAfter: commissionCashBalance,
+      description: `Commission on order ${order.id}`,
+      timestamp,
+      paperOrderId: order.id,
+      assetId: order.assetId,
+      quantity: qty,
+    }, tx);
+  }
+
+  if (fees !== 0) {
+    await recordCashEntry({
+      paperAccountId: order.paperAccountId,
+      entryType: 'fee',
+      amount: -fees,
+      balanceAfter: newCashBalance,
+      description: `Regulatory and exchange fees on order ${order.id}`,
+      timestamp,
+      paperOrderId: order.id,
+      assetId: order.assetId,
+      quantity: qty,
+    }, tx);
+  }
+
+  await updateAccountValuation(
+    order.paperAccountId,
+    newCashBalance,
+    account[0].initialBalance,
+    timestamp,
+    tx,
+    account[0].version
+  );
+
+  // Linked orders only react once the order is complete, except that an
+  // OCO sibling shrinks to what is left after a partial fill
+  const group = isComplete
+    ? await handleGroupFill(filledOrder[0], timestamp, tx)
+    : { activated: [], canceled: [] };
+  if (!isComplete) {
+    await handleGroupPartialFill(filledOrder[0], timestamp, tx);
+  }
+
+  return {
+    order: filledOrder[0],
+    position: positionResult,
+    execution: {
+      fillPrice,
+      fillQuantity: qty,
+      remainingQuantity: order.quantity - totalFilled,
+      totalCost,
+      slippage: Math.abs(fillPrice - marketPrice),
+      commission,
+      fees,
+      newCashBalance,
+    },
+    group,
+  };
+}
+
+/**
+ * Recalculate total equity and P&L from the account's positions.
+ * Short positions count against equity. With an expected version the
+ * write only succeeds if no one else changed the account since it was
+ * read, otherwise a StaleAccountError is thrown.
+ */
+export async function updateAccountValuation(
+  accountId: number,
+  cashBalance: number,
+  initialBalance: number,
+  timestamp: string = new Date().toISOString(),
+  executor: DbExecutor = db,
+  expectedVersion?: number
+): Promise<{ totalEquity: number; totalPnl: number }> {
+  const allPositions = await executor.select()
+    .from(paperPositions)
+    .where(eq(paperPositions.paperAccountId, accountId));
+
+  let totalPositionValue = 0;
+  for (const pos of allPositions) {
+    totalPositionValue += (pos.currentPrice || pos.averageCost) * pos.quantity * (pos.multiplier || 1);
+  }
+
+  const totalEquity = cashBalance + totalPositionValue;
+  const totalPnl = totalEquity - initialBalance;
+
+  const updated = await executor.update(paperTradingAccounts)
+    .set({
+      cashBalance,
+      totalEquity,
+      totalPnl,
+      version: sql`${paperTradingAccounts.version} + 1`,
+      updatedAt: timestamp,
+    })
+    .where(and(
+      eq(paperTradingAccounts.id, accountId),
+      expectedVersion !== undefined ? eq(paperTradingAccounts.version, expectedVersion) : undefined
+    ))
+    .returning({ id: paperTradingAccounts.id });
+
+  if (updated.length === 0 && expectedVersion !== undefined) {
+    throw new StaleAccountError(accountId);
+  }
+
+  return { totalEquity, totalPnl };
+}
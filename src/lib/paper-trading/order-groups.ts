@@ -0,0 +1,258 @@
+/**
+ * Paper Trading Order Groups
+ * Bracket, one-cancels-other (OCO) and one-triggers-other (OTO) orders
+ *
+ * - OTO: the child is held until the parent fills, then starts working
+ * - OCO: both orders work at once; a fill on one cancels the other
+ * - Bracket: an entry whose fill activates a take-profit/stop-loss OCO pair
+ */
+
+import { randomUUID } from 'crypto';
+import { db, type DbExecutor } from '@/db';
+import { paperOrders } from '@/db/schema';
+import type { PaperOrder, NewPaperOrder } from '@/db/schema';
+import { eq, and, ne, inArray } from 'drizzle-orm';
+import { recordOrderEvents, recordStatusChanges } from './order-history';
+
+export const ORDER_CLASSES = ['simple', 'bracket', 'oco', 'oto'] as const;
+export type OrderClass = typeof ORDER_CLASSES[number];
+
+// Statuses of orders that are still working or waiting to work
+export const OPEN_ORDER_STATUSES = ['pending', 'held', 'partially_filled'];
+
+export interface LinkedOrderSpec {
+  side: 'buy' | 'sell';
+  orderType: string;
+  quantity: number;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  trailAmount?: number | null;
+  trailPercent?: number | null;
+}
+
+export interface OrderGroup {
+  primary: PaperOrder;
+  linked: PaperOrder[];
+}
+
+/**
+ * Build the linked orders for a bracket: a take-profit limit and a
+ * stop-loss stop on the opposite side of the entry.
+ */
+export function buildBracketLegs(
+  entry: { side: 'buy' | 'sell'; quantity: number },
+  takeProfitPrice: number,
+  stopLossPrice: number
+): LinkedOrderSpec[] {
+  const exitSide = entry.side === 'buy' ? 'sell' : 'buy';
+  return [
+    { side: exitSide, orderType: 'limit', quantity: entry.quantity, limitPrice: takeProfitPrice },
+    { side: exitSide, orderType: 'stop', quantity: entry.quantity, stopPrice: stopLossPrice },
+  ];
+}
+
+/**
+ * Insert a primary order together with its linked orders
+ */
+export async function createOrderGroup(
+  primaryValues: NewPaperOrder,
+  orderClass: OrderClass,
+  linkedSpecs: LinkedOrderSpec[],
+  executor: DbExecutor = db
+): Promise<OrderGroup> {
+  const timestamp = primaryValues.createdAt;
+  const ocoGroupId = orderClass === 'oco' || orderClass === 'bracket' ? randomUUID() : null;
+
+  const primary = await executor.insert(paperOrders)
+    .values({
+      ...primaryValues,
+      orderClass,
+      // OCO legs cancel each other; bracket entries only trigger their exits
+      ocoGroupId: orderClass === 'oco' ? ocoGroupId : null,
+    })
+    .returning();
+
+  const linked: PaperOrder[] = [];
+  for (const spec of linkedSpecs) {
+    const triggered = orderClass === 'oto' || orderClass === 'bracket';
+    const row = await executor.insert(paperOrders)
+      .values({
+        paperAccountId: primaryValues.paperAccountId,
+        assetId: primaryValues.assetId,
+        orderType: spec.orderType,
+        side: spec.side,
+        quantity: spec.quantity,
+        limitPrice: spec.limitPrice ?? null,
+        stopPrice: spec.stopPrice ?? null,
+        trailAmount: spec.trailAmount ?? null,
+        trailPercent: spec.trailPercent ?? null,
+        optionSymbol: primaryValues.optionSymbol,
+        underlyingSymbol: primaryValues.underlyingSymbol,
+        optionType: primaryValues.optionType,
+        strikePrice: primaryValues.strikePrice,
+        expirationDate: primaryValues.expirationDate,
+        multiplier: primaryValues.multiplier,
+        // Linked orders work for as long as the order that created them
+        timeInForce: primaryValues.timeInForce,
+        expiresAt: primaryValues.expiresAt,
+        status: triggered ? 'held' : 'pending',
+        filledQuantity: 0,
+        orderClass,
+        parentOrderId: triggered ? primary[0].id : null,
+        ocoGroupId: orderClass === 'oto' ? null : ocoGroupId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .returning();
+
+    linked.push(row[0]);
+  }
+
+  await recordStatusChanges([primary[0], ...linked], 'created', null, timestamp, executor);
+
+  return { primary: primary[0], linked };
+}
+
+/**
+ * Resolve the group after an order fills: release held children and
+ * cancel the other side of any OCO pair.
+ */
+export async function handleGroupFill(
+  order: PaperOrder,
+  timestamp: string = new Date().toISOString(),
+  executor: DbExecutor = db
+): Promise<{ activated: PaperOrder[]; canceled: PaperOrder[] }> {
+  const activated = await executor.update(paperOrders)
+    .set({
+      status: 'pending',
+      updatedAt: timestamp,
+    })
+    .where(and(
+      eq(paperOrders.parentOrderId, order.id),
+      eq(paperOrders.status, 'held')
+    ))
+    .returning();
+
+  await recordStatusChanges(activated, 'activated', 'held', timestamp, executor);
+
+  let canceled: PaperOrder[] = [];
+  if (order.ocoGroupId) {
+    const siblings = and(
+      eq(paperOrders.ocoGroupId, order.ocoGroupId),
+      ne(paperOrders.id, order.id),
+      inArray(paperOrders.status, OPEN_ORDER_STATUSES)
+    );
+    const open = await executor.select().from(paperOrders).where(siblings);
+
+    canceled = await executor.update(paperOrders)
+      .set({
+        status: 'canceled',
+        updatedAt: timestamp,
+      })
+      .where(siblings)
+      .returning();
+
+    await recordOrderEvents(canceled.map(sibling => ({
+      order: sibling,
+      eventType: 'canceled' as const,
+      fromStatus: open.find(o => o.id === sibling.id)?.status ?? null,
+      timestamp,
+      details: { reason: 'oco', filledOrderId: order.id },
+    })), executor);
+  }
+
+  return { activated, canceled };
+}
+
+/**
+ * Shrink the other side of an OCO pair after a partial fill, so it covers
+ * only what this order has left to fill. Otherwise a sibling triggering
+ * next would close the full original size and reverse the position.
+ */
+export async function handleGroupPartialFill(
+  order: PaperOrder,
+  timestamp: string = new Date().toISOString(),
+  executor: DbExecutor = db
+): Promise<PaperOrder[]> {
+  if (!order.ocoGroupId) return [];
+
+  const remaining = order.quantity - (order.filledQuantity || 0);
+  const open = await executor.select()
+    .from(paperOrders)
+    .where(and(
+      eq(paperOrders.ocoGroupId, order.ocoGroupId),
+      ne(paperOrders.id, order.id),
+      inArray(paperOrders.status, OPEN_ORDER_STATUSES)
+    ));
+
+  const resized: PaperOrder[] = [];
+  for (const sibling of open) {
+    const quantity = (sibling.filledQuantity || 0) + remaining;
+    if (quantity >= sibling.quantity) continue;
+
+    const updated = await executor.update(paperOrders)
+      .set({ quantity, updatedAt: timestamp })
+      .where(eq(paperOrders.id, sibling.id))
+      .returning();
+    resized.push(updated[0]);
+  }
+
+  await recordOrderEvents(resized.map(sibling => ({
+    order: sibling,
+    eventType: 'updated' as const,
+    fromStatus: sibling.status,
+    timestamp,
+    details: { reason: 'oco_partial_fill', filledOrderId: order.id, quantity: sibling.quantity },
+  })), executor);
+
+  return resized;
+}
+
+/**
+ * Resolve the held children of an order that stopped working before it
+ * filled completely. Children of a partially filled parent start working
+ * for the filled quantity; the rest are canceled.
+ */
+export async function handleGroupTermination(
+  orderId: number,
+  timestamp: string = new Date().toISOString(),
+  executor: DbExecutor = db
+): Promise<PaperOrder[]> {
+  const parent = await executor.select()
+    .from(paperOrders)
+    .where(eq(paperOrders.id, orderId))
+    .limit(1);
+
+  const filledQuantity = parent[0]?.filledQuantity || 0;
+
+  if (filledQuantity > 0) {
+    const activated = await executor.update(paperOrders)
+      .set({
+        status: 'pending',
+        quantity: filledQuantity,
+        updatedAt: timestamp,
+      })
+      .where(and(
+        eq(paperOrders.parentOrderId, orderId),
+        eq(paperOrders.status, 'held')
+      ))
+      .returning();
+
+    await recordStatusChanges(activated, 'activated', 'held', timestamp, executor);
+    return activated;
+  }
+
+  const canceled = await executor.update(paperOrders)
+    .set({
+      status: 'canceled',
+      updatedAt: timestamp,
+    })
+    .where(and(
+      eq(paperOrders.parentOrderId, orderId),
+      eq(paperOrders.status, 'held')
+    ))
+    .returning();
+
+  await recordStatusChanges(canceled, 'canceled', 'held', timestamp, executor);
+  return canceled;
+}
@@ -0,0 +1,133 @@
+/**
+ * Paper Order History
+ * Allowed status transitions for paper orders and the event log that
+ * records every change to an order. Events are written in the same
+ * transaction as the change they describe.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperOrderEvents } from '@/db/schema';
+import type { PaperOrder, PaperOrderEvent } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+
+export const ORDER_EVENT_TYPES = [
+  'created',
+  'activated',
+  'triggered',
+  'partially_filled',
+  'filled',
+  'replaced',
+  'updated',
+  'canceled',
+  'expired',
+  'rejected',
+] as const;
+export type OrderEventType = typeof ORDER_EVENT_TYPES[number];
+
+// Statuses each status may move to. Filled, canceled, rejected and expired
+// orders are final; canceling a partially filled order cancels only the
+// unfilled remainder.
+export const ORDER_STATUS_TRANSITIONS: Record<string, readonly string[]> = {
+  held: ['pending', 'canceled', 'expired', 'rejected'],
+  pending: ['partially_filled', 'filled', 'canceled', 'expired', 'rejected'],
+  partially_filled: ['partially_filled', 'filled', 'canceled', 'expired', 'rejected'],
+  filled: [],
+  canceled: [],
+  rejected: [],
+  expired: [],
+};
+
+export class InvalidOrderTransitionError extends Error {
+  constructor(
+    public orderId: number,
+    public fromStatus: string,
+    public toStatus: string
+  ) {
+    super(`Order ${orderId} cannot move from '${fromStatus}' to '${toStatus}'`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+export function canTransition(fromStatus: string, toStatus: string): boolean {
+  return ORDER_STATUS_TRANSITIONS[fromStatus]?.includes(toStatus) ?? false;
+}
+
+/**
+ * Throw unless the order may move to the given status
+ */
+export function assertTransition(order: PaperOrder, toStatus: string): void {
+  if (!canTransition(order.status, toStatus)) {
+    throw new InvalidOrderTransitionError(order.id, order.status, toStatus);
+  }
+}
+
+export interface OrderEventInput {
+  order: PaperOrder;           // The order after the change
+  eventType: OrderEventType;
+  fromStatus: string | null;
+  timestamp: string;
+  details?: Record<string, unknown>;
+}
+
+export async function recordOrderEvents(
+  events: OrderEventInput[],
+  executor: DbExecutor = db
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await executor.insert(paperOrderEvents)
+    .values(events.map(({ order, eventType, fromStatus, timestamp, details }) => ({
+      paperOrderId: order.id,
+      paperAccountId: order.paperAccountId,
+      eventType,
+      fromStatus,
+      toStatus: order.status,
+      quantity: order.quantity,
+      filledQuantity: order.filledQuantity,
+      limitPrice: order.limitPrice,
+      stopPrice: order.stopPrice,
+      details: details ? JSON.stringify(details) : null,
+      createdAt: timestamp,
+    })));
+}
+
+export async function recordOrderEvent(
+  event: OrderEventInput,
+  executor: DbExecutor = db
+): Promise<void> {
+  await recordOrderEvents([event], executor);
+}
+
+/**
+ * Record the same event for a batch of orders that all came from one status
+ */
+export async function recordStatusChanges(
+  orders: PaperOrder[],
+  eventType: OrderEventType,
+  fromStatus: string | null,
+  timestamp: string,
+  executor: DbExecutor = db
+): Promise<void> {
+  await recordOrderEvents(
+    orders.map(order => ({ order, eventType, fromStatus, timestamp })),
+    executor
+  );
+}
+
+/**
+ * An order's events, oldest first, with details parsed
+ */
+export async function getOrderHistory(
+  orderId: number,
+  executor: DbExecutor = db
+): Promise<(Omit<PaperOrderEvent, 'details'> & { details: Record<string, unknown> | null })[]> {
+  const events = await executor.select()
+    .from(paperOrderEvents)
+    .where(eq(paperOrderEvents.paperOrderId, orderId))
+    .orderBy(asc(paperOrderEvents.id));
+
+  return events.map(event => ({
+    ...event,
+    details: event.details ? JSON.parse(event.details) : null,
+  }));
+}
@@ -0,0 +1,381 @@
+/**
+ * Paper Trading Order Matcher
+ * Evaluates resting orders against incoming quotes and fills them once
+ * price crosses their trigger.
+ *
+ * The order-matcher cron job calls POST /api/paper-trading/orders/match
+ * every minute on weekdays; it reads server-side quotes for the symbols
+ * with working orders (see quote-feed.ts) and matches them here. Orders
+ * left resting overnight fill on the first run of the next session.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperOrders, paperTradingAccounts, assets, optionsQuotes } from '@/db/schema';
+import type { PaperOrder } from '@/db/schema';
+import { eq, and, inArray, asc, desc, gte, lte } from 'drizzle-orm';
+import { DEFAULT_FILL_MODEL, estimateFill, loadFillModel, volumeCap, type FillModelConfig } from '@/lib/fill-model';
+import { applyFill, cancelOrder, expireOrders, runAtomically, OrderRejectedError, type FillResult } from './order-execution';
+import { isExecutableAt } from './market-session';
+import { recordOrderEvent } from './order-history';
+
+export const ORDER_TYPES = ['market', 'limit', 'stop', 'stop_limit', 'trailing_stop'] as const;
+export type OrderType = typeof ORDER_TYPES[number];
+
+// Oldest stored options quote whose bid and ask may still price a fill
+export const OPTION_QUOTE_MAX_AGE_MS = 15 * 60 * 1000;
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;       // Last trade price, or mid when only bid/ask is known
+  bidPrice?: number;
+  askPrice?: number;
+  bidSize?: number;
+  askSize?: number;
+  availableQuantity?: number; // Displayed volume when per-side sizes are unknown; unlimited when absent
+  timestamp?: string;
+}
+
+export interface OrderEvaluation {
+  fillPrice: number;
+  fillQuantity: number;
+  marketPrice: number;
+}
+
+// Fields of an order the matcher reads and advances
+export type MatchableOrder = Pick<
+  PaperOrder,
+  | 'orderType' | 'side' | 'quantity' | 'filledQuantity' | 'timeInForce'
+  | 'limitPrice' | 'stopPrice' | 'trailAmount' | 'trailPercent' | 'highWaterMark' | 'triggeredAt'
+>;
+
+export type OrderStateUpdate = Partial<Pick<PaperOrder, 'stopPrice' | 'highWaterMark' | 'triggeredAt'>>;
+
+export interface MatchResult {
+  orderId: number;
+  symbol: string;
+  status: 'filled' | 'partially_filled' | 'canceled' | 'rejected';
+  fill?: FillResult;
+  error?: string;
+  code?: string;
+  details?: Record<string, unknown>; // Requirement breakdown for margin rejections
+}
+
+// Buys execute against the ask and sells against the bid when known
+function sidePrice(side: string, quote: MarketQuote): number {
+  return side === 'buy'
+    ? (quote.askPrice || quote.price)
+    : (quote.bidPrice || quote.price);
+}
+
+// Volume displayed on the side an order takes
+function displayedVolume(side: string, quote: MarketQuote): number | undefined {
+  const size = side === 'buy' ? quote.askSize : quote.bidSize;
+  return size ?? quote.availableQuantity;
+}
+
+function stopCrossed(side: string, stopPrice: number, price: number): boolean {
+  return side === 'buy' ? price >= stopPrice : price <= stopPrice;
+}
+
+// Trigger price a trailing stop sits at for a given high (sell) or low (buy) water mark
+export function trailingStopPrice(order: MatchableOrder, waterMark: number): number {
+  const offset = order.trailPercent
+    ? waterMark * (order.trailPercent / 100)
+    : (order.trailAmount || 0);
+  return order.side === 'sell' ? waterMark - offset : waterMark + offset;
+}
+
+/**
+ * Advance the state a quote changes without filling the order: trailing
+ * stops ratchet their water mark and stop price, and stop-limits record
+ * their trigger. Returns null when nothing changed.
+ */
+export function advanceOrderState(
+  order: MatchableOrder,
+  quote: MarketQuote
+): OrderStateUpdate | null {
+  const price = quote.price;
+  if (!price || price <= 0) return null;
+
+  if (order.orderType === 'trailing_stop' && !order.triggeredAt) {
+    const waterMark = order.highWaterMark;
+    // Sell stops trail the highest price seen, buy stops the lowest
+    const improved = waterMark === null
+      || (order.side === 'sell' ? price > waterMark : price < waterMark);
+
+    const update: OrderStateUpdate = {};
+    if (improved) {
+      update.highWaterMark = price;
+      update.stopPrice = trailingStopPrice(order, price);
+    }
+
+    const stopPrice = update.stopPrice ?? order.stopPrice;
+    if (stopPrice && stopCrossed(order.side, stopPrice, sidePrice(order.side, quote))) {
+      update.triggeredAt = quote.timestamp || new Date().toISOString();
+    }
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  if (order.orderType === 'stop_limit' && !order.triggeredAt && order.stopPrice) {
+    if (stopCrossed(order.side, order.stopPrice, sidePrice(order.side, quote))) {
+      return { triggeredAt: quote.timestamp || new Date().toISOString() };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether an order is marketable against a quote and how much of it
+ * fills at what price. Orders executing at market are priced by the fill
+ * model; limit orders fill at their limit or better. Returns null when the
+ * order should keep resting.
+ */
+export function evaluateOrder(
+  order: MatchableOrder,
+  quote: MarketQuote,
+  fillModel: FillModelConfig = DEFAULT_FILL_MODEL
+): OrderEvaluation | null {
+  const isBuy = order.side === 'buy';
+  const marketPrice = sidePrice(order.side, quote);
+  const remaining = order.quantity - order.filledQuantity;
+  const volume = displayedVolume(order.side, quote);
+
+  if (!marketPrice || marketPrice <= 0 || remaining <= 0) {
+    return null;
+  }
+
+  // Fill-or-kill orders fill completely or not at all
+  const sized = (evaluation: OrderEvaluation): OrderEvaluation | null => {
+    if (evaluation.fillQuantity <= 0) return null;
+    if (order.timeInForce === 'fok' && evaluation.fillQuantity < remaining) return null;
+    return evaluation;
+  };
+
+  const limitFill = (limitPrice: number | null): OrderEvaluation | null => {
+    if (!limitPrice) return null;
+
+    const fillQuantity = Math.min(remaining, volumeCap(fillModel, volume));
+
+    // Fill at the limit, or better if price gapped through it
+    if (isBuy && marketPrice <= limitPrice) {
+      return sized({ fillPrice: Math.min(limitPrice, marketPrice), fillQuantity, marketPrice: quote.price });
+    }
+    if (!isBuy && marketPrice >= limitPrice) {
+      return sized({ fillPrice: Math.max(limitPrice, marketPrice), fillQuantity, marketPrice: quote.price });
+    }
+    return null;
+  };
+
+  const marketFill = (isStop: boolean): OrderEvaluation | null => {
+    const estimate = estimateFill(fillModel, {
+      side: isBuy ? 'buy' : 'sell',
+      quantity: remaining,
+      price: quote.price,
+      bidPrice: quote.bidPrice,
+      askPrice: quote.askPrice,
+      volume,
+      isStop,
+    });
+    return sized({ fillPrice: estimate.fillPrice, fillQuantity: estimate.fillQuantity, marketPrice: quote.price });
+  };
+
+  switch (order.orderType) {
+    case 'market':
+      return marketFill(false);
+
+    case 'limit':
+      return limitFill(order.limitPrice);
+
+    case 'stop':
+      // Triggered stops become market orders
+      if (!order.stopPrice || !stopCrossed(order.side, order.stopPrice, marketPrice)) return null;
+      return marketFill(true);
+
+    case 'stop_limit':
+      // Triggered stop-limits become limit orders
+      return order.triggeredAt ? limitFill(order.limitPrice) : null;
+
+    case 'trailing_stop':
+      return order.triggeredAt ? marketFill(true) : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fill in bid and ask for option contracts from the latest stored options
+ * quote when the incoming quote lacks them. Only a stored quote from within
+ * OPTION_QUOTE_MAX_AGE_MS of the incoming quote's time (else now) is used;
+ * an older one leaves the submitted price to stand. The stored volume is
+ * the day's traded volume, not a displayed size, so it does not cap fills:
+ * a fresh or thinly traded contract would otherwise never fill.
+ */
+export async function withOptionQuote(quote: MarketQuote): Promise<MarketQuote> {
+  if (quote.bidPrice && quote.askPrice) {
+    return quote;
+  }
+
+  const asOf = quote.timestamp ? new Date(quote.timestamp) : new Date();
+  const latest = await db.select()
+    .from(optionsQuotes)
+    .where(and(
+      eq(optionsQuotes.optionSymbol, quote.symbol),
+      lte(optionsQuotes.timestamp, asOf.toISOString()),
+      gte(optionsQuotes.timestamp, new Date(asOf.getTime() - OPTION_QUOTE_MAX_AGE_MS).toISOString())
+    ))
+    .orderBy(desc(optionsQuotes.timestamp))
+    .limit(1);
+
+  if (latest.length === 0) {
+    return quote;
+  }
+
+  return {
+    ...quote,
+    bidPrice: quote.bidPrice ?? latest[0].bid ?? undefined,
+    askPrice: quote.askPrice ?? latest[0].ask ?? undefined,
+  };
+}
+
+/**
+ * Run one order against a quote: advance its trigger state, fill what the
+ * quote allows, and cancel immediate-or-cancel / fill-or-kill remainders.
+ * Returns null when the order simply keeps resting. Pass a transaction to
+ * make the whole step atomic.
+ */
+export async function processOrder(
+  order: PaperOrder,
+  symbol: string,
+  quote: MarketQuote,
+  fillModel: FillModelConfig = DEFAULT_FILL_MODEL,
+  executor?: DbExecutor
+): Promise<MatchResult | null> {
+  const timestamp = quote.timestamp || new Date().toISOString();
+  const immediate = order.timeInForce === 'ioc' || order.timeInForce === 'fok';
+
+  if (!isExecutableAt(order.timeInForce, new Date(timestamp))) {
+    return null;
+  }
+
+  const update = advanceOrderState(order, quote);
+  if (update) {
+    const updated = await (executor ?? db).update(paperOrders)
+      .set({ ...update, updatedAt: timestamp })
+      .where(eq(paperOrders.id, order.id))
+      .returning();
+    await recordOrderEvent({
+      order: updated[0],
+      eventType: update.triggeredAt ? 'triggered' : 'updated',
+      fromStatus: order.status,
+      timestamp,
+      details: { ...update },
+    }, executor);
+    order = updated[0];
+  }
+
+  const evaluation = evaluateOrder(order, quote, fillModel);
+
+  if (!evaluation) {
+    if (!immediate) return null;
+
+    await cancelOrder(order.id, timestamp, 'canceled', executor);
+    return { orderId: order.id, symbol, status: 'canceled', code: 'NOT_IMMEDIATELY_FILLABLE' };
+  }
+
+  try {
+    const fill = await applyFill({
+      order,
+      fillPrice: evaluation.fillPrice,
+      marketPrice: evaluation.marketPrice,
+      fillQuantity: evaluation.fillQuantity,
+      timestamp,
+    }, executor);
+
+    if (fill.order.status === 'partially_filled' && immediate) {
+      // Immediate-or-cancel: the unfilled remainder does not rest
+      fill.order = await cancelOrder(order.id, timestamp, 'canceled', executor);
+    }
+
+    return {
+      orderId: order.id,
+      symbol,
+      status: fill.order.status === 'filled' ? 'filled' : 'partially_filled',
+      fill,
+    };
+  } catch (error) {
+    if (error instanceof OrderRejectedError) {
+      return { orderId: order.id, symbol, status: 'rejected', error: error.message, code: error.code, details: error.details };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Evaluate every working order for the quoted symbols and fill the ones
+ * whose conditions are met. Orders are processed oldest first so earlier
+ * orders keep queue priority. Orders past their time-in-force are expired
+ * before matching.
+ */
+export async function matchRestingOrders(quotes: MarketQuote[]): Promise<MatchResult[]> {
+  if (quotes.length === 0) return [];
+
+  // Keep only the latest quote per symbol
+  const latestQuotes = new Map<string, MarketQuote>();
+  for (const quote of quotes) {
+    latestQuotes.set(quote.symbol.toUpperCase(), quote);
+  }
+
+  const asOf = quotes.reduce(
+    (latest, quote) => (quote.timestamp && quote.timestamp > latest ? quote.timestamp : latest),
+    ''
+  );
+  await expireOrders(asOf || new Date().toISOString());
+
+  for (const [symbol, quote] of latestQuotes) {
+    latestQuotes.set(symbol, await withOptionQuote(quote));
+  }
+
+  const restingOrders = await db.select({
+    order: paperOrders,
+    symbol: assets.symbol,
+    fillModel: paperTradingAccounts.fillModel,
+  })
+    .from(paperOrders)
+    .innerJoin(assets, eq(paperOrders.assetId, assets.id))
+    .innerJoin(paperTradingAccounts, eq(paperOrders.paperAccountId, paperTradingAccounts.id))
+    .where(and(
+      inArray(paperOrders.status, ['pending', 'partially_filled']),
+      inArray(assets.symbol, Array.from(latestQuotes.keys()))
+    ))
+    .orderBy(asc(paperOrders.createdAt), asc(paperOrders.id));
+
+  const results: MatchResult[] = [];
+  // OCO siblings canceled by an earlier fill in this pass
+  const canceledIds = new Set<number>();
+
+  for (const { order, symbol, fillModel } of restingOrders) {
+    if (canceledIds.has(order.id)) continue;
+
+    const quote = latestQuotes.get(symbol.toUpperCase());
+    if (!quote) continue;
+
+    // Re-read the order: an earlier fill in this pass may have resized it
+    const result = await runAtomically(async (tx) => {
+      const current = await tx.select()
+        .from(paperOrders)
+        .where(eq(paperOrders.id, order.id))
+        .limit(1);
+      if (!current[0] || !['pending', 'partially_filled'].includes(current[0].status)) return null;
+      return processOrder(current[0], symbol, quote, loadFillModel(fillModel), tx);
+    });
+    if (!result) continue;
+
+    result.fill?.group.canceled.forEach(sibling => canceledIds.add(sibling.id));
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,96 @@
+/**
+ * Resting Order Quote Feed
+ * Server-side quotes for the symbols that have working paper orders, read
+ * by the scheduled match job. Option contracts replay their latest stored
+ * options quote from within OPTION_QUOTE_MAX_AGE_MS; stocks take Alpaca's
+ * latest quote when Alpaca is configured and are skipped otherwise.
+ *
+ * A quote needs a finite, positive price to be used; a bid or ask that is
+ * not one, or a crossed market, is left out so the price stands alone.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { paperOrders, assets, optionsQuotes } from '@/db/schema';
+import { eq, and, inArray, desc, gte, lte } from 'drizzle-orm';
+import { alpacaOptionsData } from '@/lib/alpaca-options-data';
+import { parseOccSymbol } from './option-contracts';
+import { OPTION_QUOTE_MAX_AGE_MS, type MarketQuote } from './order-matcher';
+
+function isPositivePrice(value: number | null | undefined): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+// A quote from raw prices, or null without a usable price
+function buildQuote(
+  symbol: string,
+  raw: { price?: number | null; bidPrice?: number | null; askPrice?: number | null },
+  timestamp: string
+): MarketQuote | null {
+  const bidPrice = isPositivePrice(raw.bidPrice) ? raw.bidPrice : undefined;
+  const askPrice = isPositivePrice(raw.askPrice) ? raw.askPrice : undefined;
+  const twoSided = bidPrice !== undefined && askPrice !== undefined && bidPrice <= askPrice;
+  const price = isPositivePrice(raw.price) ? raw.price : twoSided ? (bidPrice + askPrice) / 2 : null;
+
+  if (price === null) return null;
+
+  return {
+    symbol,
+    price,
+    bidPrice: twoSided ? bidPrice : undefined,
+    askPrice: twoSided ? askPrice : undefined,
+    timestamp,
+  };
+}
+
+async function storedOptionQuote(symbol: string, asOf: Date, executor: DbExecutor): Promise<MarketQuote | null> {
+  const latest = await executor.select()
+    .from(optionsQuotes)
+    .where(and(
+      eq(optionsQuotes.optionSymbol, symbol),
+      lte(optionsQuotes.timestamp, asOf.toISOString()),
+      gte(optionsQuotes.timestamp, new Date(asOf.getTime() - OPTION_QUOTE_MAX_AGE_MS).toISOString())
+    ))
+    .orderBy(desc(optionsQuotes.timestamp))
+    .limit(1);
+
+  if (latest.length === 0) return null;
+
+  const { bid, ask, lastPrice, timestamp } = latest[0];
+  // Mid when both sides are quoted, else the last trade
+  const mid = isPositivePrice(bid) && isPositivePrice(ask) && bid <= ask ? (bid + ask) / 2 : null;
+  return buildQuote(symbol, { price: mid ?? lastPrice, bidPrice: bid, askPrice: ask }, timestamp);
+}
+
+async function alpacaStockQuote(symbol: string): Promise<MarketQuote | null> {
+  const quote = await alpacaOptionsData.getStockQuote(symbol);
+  if (!quote) return null;
+
+  const quotedAt = new Date(quote.timestamp);
+  return buildQuote(symbol, quote, isNaN(quotedAt.getTime()) ? new Date().toISOString() : quotedAt.toISOString());
+}
+
+/**
+ * Latest server-side quote for each symbol with a pending or partially
+ * filled paper order. Symbols without a usable quote are left out.
+ */
+export async function restingOrderQuotes(
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<MarketQuote[]> {
+  const rows = await executor.selectDistinct({ symbol: assets.symbol })
+    .from(paperOrders)
+    .innerJoin(assets, eq(paperOrders.assetId, assets.id))
+    .where(inArray(paperOrders.status, ['pending', 'partially_filled']));
+
+  const stockQuotes = alpacaOptionsData.isConfigured();
+  const quotes: MarketQuote[] = [];
+
+  for (const { symbol } of rows) {
+    const quote = parseOccSymbol(symbol)
+      ? await storedOptionQuote(symbol, asOf, executor)
+      : stockQuotes ? await alpacaStockQuote(symbol) : null;
+    if (quote) quotes.push(quote);
+  }
+
+  return quotes;
+}
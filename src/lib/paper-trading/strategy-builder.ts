@@ -0,0 +1,470 @@
+/**
+ * Strategy Builder
+ * Turns a spread template and a few parameters (target deltas, strike
+ * widths, days to expiration) into concrete contracts from the stored
+ * options chain, returned as legs ready to submit to orders/complex.
+ *
+ * Templates are the complex order spread types. Anchor strikes come from
+ * an explicit strike, else a target delta, else the money; wings sit
+ * `width` further out of the money, at the nearest listed strike.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { optionsQuotes, assets } from '@/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { contractGreeks, quoteImpliedVolatility, parseOccSymbol, type OptionContract } from './option-contracts';
+import { marketDate } from './market-session';
+import { loadFittedSurface, surfaceVolatility } from '@/lib/iv-surface-fit';
+import { packagePricing, validateSpreadLegs, type SpreadType } from './complex-orders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_VOLATILITY = 0.3;
+
+// Target |delta| of the short strikes when no strike or delta is given;
+// other templates center on the money
+const DEFAULT_DELTAS: Partial<Record<SpreadType, number>> = {
+  strangle: 0.25,
+  iron_condor: 0.16,
+  jade_lizard: 0.3,
+};
+
+// Templates sold unless asked otherwise (a jade lizard can only be sold)
+const SHORT_BY_DEFAULT: SpreadType[] = ['iron_condor', 'iron_fly', 'jade_lizard'];
+
+export interface ChainContract extends OptionContract {
+  bid: number | null;
+  ask: number | null;
+  price: number;        // Mid, else last, else theoretical
+  delta: number;
+  impliedVolatility: number | null;
+  volume: number | null;
+}
+
+export interface OptionsChain {
+  underlyingSymbol: string;
+  underlyingPrice: number | null;
+  quotedAt: string;     // Newest quote in the chain
+  contracts: ChainContract[];
+}
+
+export interface StrategyParams {
+  quantity: number;             // Spreads to build, default 1
+  side: 'long' | 'short' | null; // Buy or sell the package, null for the template's usual side; verticals use direction
+  optionType: 'call' | 'put';   // Single-type templates, default call
+  direction: 'bull' | 'bear';   // Verticals, default bull
+  expiration: string | null;    // Exact expiration, else the one nearest dte
+  dte: number;                  // Target days to expiration, default 30
+  farDte: number | null;        // Calendar/diagonal back month, default dte + 30
+  strike: number | null;        // Anchor strike
+  delta: number | null;         // Target |delta| of the anchor or short strikes
+  width: number;                // Distance from anchor to wing strikes, default 5
+  ratio: number;                // Ratio spreads: contracts sold per one bought, default 2
+}
+
+export interface BuiltLeg {
+  optionSymbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  optionType: 'call' | 'put';
+  strikePrice: number;
+  expirationDate: string;
+  bid: number | null;
+  ask: number | null;
+  price: number;
+  delta: number;
+}
+
+export interface BuiltStrategy {
+  template: SpreadType;
+  underlyingSymbol: string;
+  underlyingPrice: number;
+  quotedAt: string;
+  legs: BuiltLeg[];
+  pricing: { units: number; mid: number; natural: number }; // Per spread, positive is a debit
+  netDelta: number;     // Share-equivalent delta of the whole order
+  // Body for POST /api/paper-trading/orders/complex, less the account
+  order: {
+    spreadType: SpreadType;
+    underlyingSymbol: string;
+    marketPrice: number;
+    legs: { optionSymbol: string; side: 'buy' | 'sell'; quantity: number }[];
+  };
+}
+
+const NUMERIC_DEFAULTS: Pick<StrategyParams, 'quantity' | 'dte' | 'farDte' | 'strike' | 'delta' | 'width' | 'ratio'> = {
+  quantity: 1,
+  dte: 30,
+  farDte: null,
+  strike: null,
+  delta: null,
+  width: 5,
+  ratio: 2,
+};
+
+interface LegSpec {
+  contract: ChainContract;
+  side: 'buy' | 'sell';
+  quantity: number;
+}
+
+/**
+ * The latest quote of every unexpired contract on an underlying, or null
+ * when none are stored. Deltas come from the fitted volatility surface
+ * when one exists, so strikes are picked off a smooth smile.
+ */
+export async function loadOptionsChain(
+  underlyingSymbol: string,
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<OptionsChain | null> {
+  const symbol = underlyingSymbol.toUpperCase();
+  const rows = await executor.select()
+    .from(optionsQuotes)
+    .where(eq(optionsQuotes.symbol, symbol))
+    .orderBy(desc(optionsQuotes.timestamp));
+
+  if (rows.length === 0) return null;
+
+  const asset = await executor.select({ currentPrice: assets.currentPrice })
+    .from(assets)
+    .where(eq(assets.symbol, symbol))
+    .limit(1);
+  const underlyingPrice = rows.find(row => row.underlyingPrice)?.underlyingPrice
+    ?? asset[0]?.currentPrice
+    ?? null;
+
+  const surface = await loadFittedSurface(symbol, asOf, executor);
+  const today = marketDate(asOf);
+  const latest = new Map<string, typeof rows[number]>();
+  for (const row of rows) {
+    if (!latest.has(row.optionSymbol)) latest.set(row.optionSymbol, row);
+  }
+
+  const contracts: ChainContract[] = [];
+  for (const row of latest.values()) {
+    const contract = parseOccSymbol(row.optionSymbol);
+    if (!contract || contract.expirationDate < today) continue;
+
+    const impliedVolatility = row.impliedVolatility
+      ?? quoteImpliedVolatility({ ...row, ...contract, underlyingPrice: row.underlyingPrice ?? underlyingPrice }, new Date(row.timestamp));
+    const fitted = surface ? surfaceVolatility(surface, contract) : null;
+    const greeks = underlyingPrice
+      ? contractGreeks(contract, underlyingPrice, fitted?.volatility || impliedVolatility || DEFAULT_VOLATILITY, asOf)
+      : null;
+    const mid = row.bid && row.ask ? (row.bid + row.ask) / 2 : null;
+
+    contracts.push({
+      ...contract,
+      bid: row.bid,
+      ask: row.ask,
+      price: mid ?? row.lastPrice ?? greeks?.price ?? 0,
+      delta: (fitted ? greeks?.delta : row.delta ?? greeks?.delta) ?? 0,
+      impliedVolatility,
+      volume: row.volume,
+    });
+  }
+
+  if (contracts.length === 0) return null;
+
+  return { underlyingSymbol: symbol, underlyingPrice, quotedAt: rows[0].timestamp, contracts };
+}
+
+/**
+ * Validate untrusted strategy parameters, filling in defaults
+ */
+export function parseStrategyParams(raw: any): { params: StrategyParams } | { error: string } {
+  const numbers = { ...NUMERIC_DEFAULTS };
+  for (const field of Object.keys(NUMERIC_DEFAULTS) as (keyof typeof NUMERIC_DEFAULTS)[]) {
+    const value = raw[field];
+    if (value === undefined || value === null || value === '') continue;
+
+    const parsed = Number(value);
+    // Zero days to expiration is a valid target; nothing else may be zero
+    if (isNaN(parsed) || parsed < 0 || (parsed === 0 && field !== 'dte')) {
+      return { error: `${field} must be a ${field === 'dte' ? 'non-negative' : 'positive'} number` };
+    }
+    numbers[field] = parsed;
+  }
+
+  if (!Number.isInteger(numbers.quantity)) {
+    return { error: 'quantity must be a positive integer' };
+  }
+  if (!Number.isInteger(numbers.ratio) || numbers.ratio < 2) {
+    return { error: 'ratio must be an integer of at least 2' };
+  }
+  if (numbers.delta !== null && numbers.delta >= 1) {
+    return { error: 'delta must be between 0 and 1' };
+  }
+
+  const side = raw.side ?? null;
+  if (side !== null && side !== 'long' && side !== 'short') {
+    return { error: 'side must be long or short' };
+  }
+  const optionType = raw.optionType ?? 'call';
+  if (optionType !== 'call' && optionType !== 'put') {
+    return { error: 'optionType must be call or put' };
+  }
+  const direction = raw.direction ?? 'bull';
+  if (direction !== 'bull' && direction !== 'bear') {
+    return { error: 'direction must be bull or bear' };
+  }
+  const expiration = raw.expiration || null;
+  if (expiration !== null && (typeof expiration !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(expiration))) {
+    return { error: 'expiration must be a YYYY-MM-DD date' };
+  }
+
+  return { params: { ...numbers, side, optionType, direction, expiration } };
+}
+
+function daysUntil(expirationDate: string, asOf: Date): number {
+  return (new Date(`${expirationDate}T00:00:00Z`).getTime() - asOf.getTime()) / DAY_MS;
+}
+
+function nearest<T>(items: T[], distance: (item: T) => number): T | null {
+  let best: T | null = null;
+  for (const item of items) {
+    if (best === null || distance(item) < distance(best)) best = item;
+  }
+  return best;
+}
+
+/**
+ * Build a template's legs from the chain
+ */
+export function buildStrategy(
+  chain: OptionsChain,
+  template: SpreadType,
+  params: StrategyParams,
+  asOf: Date = new Date()
+): { strategy: BuiltStrategy } | { error: string } {
+  const spot = chain.underlyingPrice;
+  if (!spot) {
+    return { error: `No price is stored for ${chain.underlyingSymbol}` };
+  }
+
+  const side = params.side ?? (SHORT_BY_DEFAULT.includes(template) ? 'short' : 'long');
+  const { quantity: q, width } = params;
+
+  if (template === 'jade_lizard' && side !== 'short') {
+    return { error: 'A jade lizard can only be sold' };
+  }
+
+  // Expirations
+  const expirations = Array.from(new Set(chain.contracts.map(c => c.expirationDate))).sort();
+  let near: string | null;
+  if (params.expiration) {
+    near = expirations.includes(params.expiration) ? params.expiration : null;
+    if (!near) return { error: `No contracts expire on ${params.expiration}` };
+  } else {
+    near = nearest(expirations, e => Math.abs(daysUntil(e, asOf) - params.dte));
+  }
+  if (!near) return { error: 'The chain has no expirations' };
+
+  let far: string | null = null;
+  if (template === 'calendar' || template === 'diagonal') {
+    const farTarget = params.farDte ?? daysUntil(near, asOf) + 30;
+    far = nearest(expirations.filter(e => e > near!), e => Math.abs(daysUntil(e, asOf) - farTarget));
+    if (!far) return { error: `No expiration after ${near} for the back month` };
+  }
+
+  const listed = (expiration: string, type: 'call' | 'put') => chain.contracts
+    .filter(c => c.expirationDate === expiration && c.optionType === type)
+    .sort((a, b) => a.strikePrice - b.strikePrice);
+
+  // Anchor: explicit strike, then target delta, then at the money
+  const anchor = (list: ChainContract[], defaultDelta?: number) => {
+    const delta = params.delta ?? defaultDelta ?? null;
+    if (params.strike !== null) return nearest(list, c => Math.abs(c.strikePrice - params.strike!));
+    if (delta !== null) return nearest(list, c => Math.abs(Math.abs(c.delta) - delta));
+    return nearest(list, c => Math.abs(c.strikePrice - spot));
+  };
+  // Strike `offset` from a contract, at the nearest listed strike beyond it
+  const wing = (list: ChainContract[], from: ChainContract, offset: number) => nearest(
+    list.filter(c => (offset > 0 ? c.strikePrice > from.strikePrice : c.strikePrice < from.strikePrice)),
+    c => Math.abs(c.strikePrice - (from.strikePrice + offset))
+  );
+  const atStrike = (list: ChainContract[], strike: number) =>
+    list.find(c => Math.abs(c.strikePrice - strike) < 1e-6) ?? null;
+
+  const long = side === 'long';
+  const open = long ? 'buy' : 'sell';   // Side of the legs that define the trade
+  const hedge = long ? 'sell' : 'buy';  // Side of the legs that offset them
+  const type = params.optionType;
+  const outward = type === 'call' ? width : -width;
+  const calls = listed(near, 'call');
+  const puts = listed(near, 'put');
+  const missing = (what: string) => ({ error: `No ${what} in the ${near} chain` });
+
+  let legs: LegSpec[];
+
+  switch (template) {
+    case 'vertical': {
+      const list = type === 'call' ? calls : puts;
+      const inner = anchor(list);
+      const outer = inner && wing(list, inner, outward);
+      if (!inner || !outer) return missing(`${type} strikes ${width} apart`);
+      // Bull call and bear put spreads buy the strike nearer the money
+      const buyInner = (type === 'call') === (params.direction === 'bull');
+      legs = [
+        { contract: inner, side: buyInner ? 'buy' : 'sell', quantity: q },
+        { contract: outer, side: buyInner ? 'sell' : 'buy', quantity: q },
+      ];
+      break;
+    }
+
+    case 'straddle': {
+      const call = anchor(calls);
+      const put = call && atStrike(puts, call.strikePrice);
+      if (!call || !put) return missing('call and put at one strike');
+      legs = [
+        { contract: call, side: open, quantity: q },
+        { contract: put, side: open, quantity: q },
+      ];
+      break;
+    }
+
+    case 'strangle': {
+      const call = anchor(calls, DEFAULT_DELTAS.strangle);
+      const put = anchor(puts, DEFAULT_DELTAS.strangle);
+      if (!call || !put) return missing('calls and puts');
+      legs = [
+        { contract: put, side: open, quantity: q },
+        { contract: call, side: open, quantity: q },
+      ];
+      break;
+    }
+
+    case 'iron_condor':
+    case 'iron_fly': {
+      // Iron flies center on the money
+      const shortCall = anchor(calls, template === 'iron_condor' ? DEFAULT_DELTAS.iron_condor : undefined);
+      const shortPut = template === 'iron_fly'
+        ? shortCall && atStrike(puts, shortCall.strikePrice)
+        : anchor(puts, DEFAULT_DELTAS.iron_condor);
+      const longCall = shortCall && wing(calls, shortCall, width);
+      const longPut = shortPut && wing(puts, shortPut, -width);
+      if (!shortCall || !shortPut || !longCall || !longPut) {
+        return missing(`strikes for the ${template === 'iron_fly' ? 'iron fly' : 'iron condor'}`);
+      }
+      // Selling the body is the usual, credit, form of both
+      const body = long ? 'buy' : 'sell';
+      const wings = long ? 'sell' : 'buy';
+      legs = [
+        { contract: longPut, side: wings, quantity: q },
+        { contract: shortPut, side: body, quantity: q },
+        { contract: shortCall, side: body, quantity: q },
+        { contract: longCall, side: wings, quantity: q },
+      ];
+      break;
+    }
+
+    case 'butterfly': {
+      const list = type === 'call' ? calls : puts;
+      const body = anchor(list);
+      const lower = body && wing(list, body, -width);
+      const upper = body && lower && atStrike(list, 2 * body.strikePrice - lower.strikePrice);
+      if (!body || !lower || !upper) return missing(`${type} strikes evenly spaced around the body`);
+      legs = [
+        { contract: lower, side: open, quantity: q },
+        { contract: body, side: hedge, quantity: 2 * q },
+        { contract: upper, side: open, quantity: q },
+      ];
+      break;
+    }
+
+    case 'calendar':
+    case 'diagonal': {
+      // Long calendars and diagonals buy the back month
+      const backList = listed(far!, type);
+      const back = anchor(backList);
+      const front = back && (template === 'calendar'
+        ? atStrike(type === 'call' ? calls : puts, back.strikePrice)
+        : wing(type === 'call' ? calls : puts, back, outward));
+      if (!back || !front) return missing(`${type} to pair with the ${far} back month`);
+      legs = [
+        { contract: front, side: hedge, quantity: q },
+        { contract: back, side: open, quantity: q },
+      ];
+      break;
+    }
+
+    case 'jade_lizard': {
+      const shortPut = anchor(puts, DEFAULT_DELTAS.jade_lizard);
+      const shortCall = anchor(calls, DEFAULT_DELTAS.jade_lizard);
+      const longCall = shortCall && wing(calls, shortCall, width);
+      if (!shortPut || !shortCall || !longCall) return missing('strikes for the jade lizard');
+      legs = [
+        { contract: shortPut, side: 'sell', quantity: q },
+        { contract: shortCall, side: 'sell', quantity: q },
+        { contract: longCall, side: 'buy', quantity: q },
+      ];
+      break;
+    }
+
+    case 'ratio_spread': {
+      // Long: buy one near the money, sell `ratio` further out
+      const list = type === 'call' ? calls : puts;
+      const inner = anchor(list);
+      const outer = inner && wing(list, inner, outward);
+      if (!inner || !outer) return missing(`${type} strikes ${width} apart`);
+      legs = [
+        { contract: inner, side: open, quantity: q },
+        { contract: outer, side: hedge, quantity: q * params.ratio },
+      ];
+      break;
+    }
+  }
+
+  // The chain may not allow the shape asked for, e.g. a strangle whose
+  // put and call deltas land on crossed strikes
+  const problem = validateSpreadLegs(template, legs, chain.underlyingSymbol);
+  if (problem) return { error: problem };
+
+  const { units, mid, natural } = packagePricing(
+    legs.map(({ contract, side, quantity }) => ({
+      side,
+      quantity,
+      price: contract.price,
+      bidPrice: contract.bid,
+      askPrice: contract.ask,
+      fillPrice: contract.price,
+    })),
+    { orderType: 'market', limitPrice: null, priceEffect: null }
+  );
+
+  const netDelta = legs.reduce(
+    (sum, { contract, side, quantity }) => sum + (side === 'buy' ? 1 : -1) * contract.delta * quantity * contract.multiplier,
+    0
+  );
+
+  const built: BuiltLeg[] = legs.map(({ contract, side, quantity }) => ({
+    optionSymbol: contract.optionSymbol,
+    side,
+    quantity,
+    optionType: contract.optionType,
+    strikePrice: contract.strikePrice,
+    expirationDate: contract.expirationDate,
+    bid: contract.bid,
+    ask: contract.ask,
+    price: contract.price,
+    delta: contract.delta,
+  }));
+
+  return {
+    strategy: {
+      template,
+      underlyingSymbol: chain.underlyingSymbol,
+      underlyingPrice: spot,
+      quotedAt: chain.quotedAt,
+      legs: built,
+      pricing: { units, mid, natural },
+      netDelta: Math.round(netDelta * 100) / 100,
+      order: {
+        spreadType: template,
+        underlyingSymbol: chain.underlyingSymbol,
+        marketPrice: spot,
+        legs: built.map(({ optionSymbol, side, quantity }) => ({ optionSymbol, side, quantity })),
+      },
+    },
+  };
+}
@@ -0,0 +1,539 @@
+/**
+ * Pre-Trade Risk Checks
+ * One pipeline every order path runs before anything is written: paper
+ * orders, complex orders and recorded positions. Admins set limits per
+ * user; a limit left null is not enforced.
+ * - restricted_symbol:      the symbol or its underlying is restricted
+ * - max_order_notional:     price x quantity x multiplier over all legs
+ * - max_contracts_per_leg:  option contracts on any one leg
+ * - price_band:             order price too far from the last stored quote
+ * - max_concentration:      an underlying's gross exposure after the fill,
+ *                           as a percentage of equity
+ * - max_portfolio_delta:    net share-equivalent delta after the fill
+ * - max_portfolio_vega:     net dollar vega after the fill
+ * - daily_loss_lock:        paper equity down more than the limit since the
+ *                           prior close; once tripped it holds for the day
+ * The exposure, Greek and loss rules only stop orders that add risk, so a
+ * position can always be reduced.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { riskLimits, paperTradingAccounts, paperEquitySnapshots, positions, assets, optionsQuotes } from '@/db/schema';
+import type { PaperTradingAccount, RiskLimitsRow } from '@/db/schema';
+import { eq, and, lt, desc } from 'drizzle-orm';
+import {
+  isSameInstrument,
+  loadMarginPositions,
+  parseMarginMode,
+  projectFills,
+  summarizeMargin,
+  type MarginPosition,
+  type ProposedFill,
+} from '@/lib/paper-trading/margin';
+import { contractGreeks } from '@/lib/paper-trading/option-contracts';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+export const RISK_RULES = [
+  'restricted_symbol',
+  'max_order_notional',
+  'max_contracts_per_leg',
+  'price_band',
+  'max_concentration',
+  'max_portfolio_delta',
+  'max_portfolio_vega',
+  'daily_loss_lock',
+] as const;
+export type RiskRule = typeof RISK_RULES[number];
+
+export interface RiskLimits {
+  maxOrderNotional: number | null;
+  maxContractsPerLeg: number | null;
+  maxConcentrationPercent: number | null;
+  maxPortfolioDelta: number | null;
+  maxPortfolioVega: number | null;
+  restrictedSymbols: string[];
+  priceBandPercent: number | null;
+  maxDailyLoss: number | null;
+}
+
+// Nothing enforced until an admin sets a limit
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOrderNotional: null,
+  maxContractsPerLeg: null,
+  maxConcentrationPercent: null,
+  maxPortfolioDelta: null,
+  maxPortfolioVega: null,
+  restrictedSymbols: [],
+  priceBandPercent: null,
+  maxDailyLoss: null,
+};
+
+const NUMERIC_LIMITS = [
+  'maxOrderNotional',
+  'maxContractsPerLeg',
+  'maxConcentrationPercent',
+  'maxPortfolioDelta',
+  'maxPortfolioVega',
+  'priceBandPercent',
+  'maxDailyLoss',
+] as const;
+
+// Implied volatility assumed for options without one
+const DEFAULT_VOLATILITY = 0.3;
+
+export interface RiskViolation {
+  rule: RiskRule;
+  message: string;
+  limit: number | string[];
+  value: number | string;
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  violations: RiskViolation[];
+}
+
+export interface RiskCheckInput {
+  userId: string;
+  equity: number;
+  positions: MarginPosition[]; // Current holdings
+  fills: ProposedFill[];       // The order's legs at the prices they would fill
+  asOf?: Date;
+}
+
+/**
+ * Validate a partial limits update from an admin. Fields left out are not
+ * returned; null clears a limit.
+ */
+export function parseRiskLimits(raw: any): { limits: Partial<RiskLimits> } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'limits must be an object' };
+  }
+
+  const limits: Partial<RiskLimits> = {};
+
+  for (const field of NUMERIC_LIMITS) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== 'number' || isNaN(value) || value < 0)) {
+      return { error: `${field} must be a non-negative number or null` };
+    }
+    if (field === 'maxContractsPerLeg' && value !== null && !Number.isInteger(value)) {
+      return { error: 'maxContractsPerLeg must be an integer or null' };
+    }
+    limits[field] = value;
+  }
+
+  if (raw.restrictedSymbols !== undefined) {
+    const symbols = raw.restrictedSymbols ?? [];
+    if (!Array.isArray(symbols) || symbols.some((symbol: unknown) => typeof symbol !== 'string' || symbol.trim() === '')) {
+      return { error: 'restrictedSymbols must be an array of symbols' };
+    }
+    limits.restrictedSymbols = [...new Set(symbols.map((symbol: string) => symbol.trim().toUpperCase()))];
+  }
+
+  return { limits };
+}
+
+function limitsFromRow(row: RiskLimitsRow | undefined): RiskLimits {
+  if (!row) return DEFAULT_RISK_LIMITS;
+
+  let restrictedSymbols: string[] = [];
+  try {
+    restrictedSymbols = row.restrictedSymbols ? JSON.parse(row.restrictedSymbols) : [];
+  } catch {
+    restrictedSymbols = [];
+  }
+
+  return {
+    maxOrderNotional: row.maxOrderNotional,
+    maxContractsPerLeg: row.maxContractsPerLeg,
+    maxConcentrationPercent: row.maxConcentrationPercent,
+    maxPortfolioDelta: row.maxPortfolioDelta,
+    maxPortfolioVega: row.maxPortfolioVega,
+    restrictedSymbols,
+    priceBandPercent: row.priceBandPercent,
+    maxDailyLoss: row.maxDailyLoss,
+  };
+}
+
+async function loadRiskLimitsRow(userId: string, executor: DbExecutor): Promise<RiskLimitsRow | undefined> {
+  const row = await executor.select()
+    .from(riskLimits)
+    .where(eq(riskLimits.userId, userId))
+    .limit(1);
+
+  return row[0];
+}
+
+/**
+ * A user's limits, with the market date their daily loss lock tripped
+ */
+export async function loadRiskLimits(
+  userId: string,
+  executor: DbExecutor = db
+): Promise<RiskLimits & { lockedOn: string | null }> {
+  const row = await loadRiskLimitsRow(userId, executor);
+  return { ...limitsFromRow(row), lockedOn: row?.lockedOn ?? null };
+}
+
+/**
+ * Apply an admin's update to a user's limits. `unlock` clears a tripped
+ * daily loss lock.
+ */
+export async function saveRiskLimits(
+  userId: string,
+  update: Partial<RiskLimits>,
+  options: { unlock?: boolean; updatedBy?: string | null } = {},
+  executor: DbExecutor = db
+): Promise<RiskLimits & { lockedOn: string | null }> {
+  const now = new Date().toISOString();
+  const row = await loadRiskLimitsRow(userId, executor);
+  const limits = { ...limitsFromRow(row), ...update };
+  const values = {
+    ...limits,
+    restrictedSymbols: JSON.stringify(limits.restrictedSymbols),
+    lockedOn: options.unlock ? null : row?.lockedOn ?? null,
+    updatedBy: options.updatedBy ?? null,
+    updatedAt: now,
+  };
+
+  await executor.insert(riskLimits)
+    .values({ userId, ...values, createdAt: now })
+    .onConflictDoUpdate({ target: riskLimits.userId, set: values });
+
+  return { ...limits, lockedOn: values.lockedOn };
+}
+
+// Last stored price for the instrument: option quote midpoint or last
+// trade, or the asset's current price for stock
+async function referencePrice(fill: ProposedFill, executor: DbExecutor): Promise<number | null> {
+  if (fill.order.optionSymbol) {
+    const quote = await executor.select()
+      .from(optionsQuotes)
+      .where(eq(optionsQuotes.optionSymbol, fill.order.optionSymbol))
+      .orderBy(desc(optionsQuotes.timestamp))
+      .limit(1);
+
+    if (quote.length === 0) return null;
+    const { bid, ask, lastPrice } = quote[0];
+    return (bid && ask ? (bid + ask) / 2 : lastPrice) || null;
+  }
+
+  // Recorded option positions name only the underlying's asset
+  if (fill.order.strikePrice) return null;
+
+  const asset = await executor.select({ currentPrice: assets.currentPrice })
+    .from(assets)
+    .where(eq(assets.id, fill.order.assetId))
+    .limit(1);
+
+  return asset[0]?.currentPrice || null;
+}
+
+function isOptionPosition(position: MarginPosition): boolean {
+  return !!position.optionType && !!position.strikePrice && !!position.expirationDate;
+}
+
+// Net share-equivalent delta and dollar vega per vol point
+function portfolioGreeks(holdings: MarginPosition[], asOf: Date): { delta: number; vega: number } {
+  let delta = 0;
+  let vega = 0;
+
+  for (const position of holdings) {
+    if (position.quantity === 0) continue;
+
+    if (!isOptionPosition(position)) {
+      // Recorded multi-leg positions carry a strike but no single contract
+      if (!position.strikePrice) delta += position.quantity * position.multiplier;
+      continue;
+    }
+
+    const greeks = contractGreeks(
+      {
+        optionType: position.optionType as 'call' | 'put',
+        strikePrice: position.strikePrice as number,
+        expirationDate: position.expirationDate as string,
+      },
+      position.underlyingPrice,
+      position.volatility || DEFAULT_VOLATILITY,
+      asOf
+    );
+    delta += greeks.delta * position.quantity * position.multiplier;
+    vega += greeks.vega * position.quantity * position.multiplier;
+  }
+
+  return { delta, vega };
+}
+
+// Gross market value held in one underlying
+function grossExposure(holdings: MarginPosition[], underlyingSymbol: string): number {
+  return holdings
+    .filter(position => position.underlyingSymbol === underlyingSymbol)
+    .reduce((sum, position) => sum + Math.abs(position.price * position.quantity * position.multiplier), 0);
+}
+
+/**
+ * Loss across the user's active paper accounts since the prior close:
+ * each account's equity against its last snapshot before today in the
+ * current run, or its starting balance when there is none
+ */
+export async function dailyPaperLoss(
+  userId: string,
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<number> {
+  const today = marketDate(asOf);
+  const accounts = await executor.select()
+    .from(paperTradingAccounts)
+    .where(and(eq(paperTradingAccounts.userId, userId), eq(paperTradingAccounts.isActive, true)));
+
+  let loss = 0;
+  for (const account of accounts) {
+    const previous = await executor.select({ equity: paperEquitySnapshots.equity })
+      .from(paperEquitySnapshots)
+      .where(and(
+        eq(paperEquitySnapshots.paperAccountId, account.id),
+        eq(paperEquitySnapshots.runNumber, account.runNumber),
+        lt(paperEquitySnapshots.snapshotDate, today)
+      ))
+      .orderBy(desc(paperEquitySnapshots.snapshotDate))
+      .limit(1);
+
+    const baseline = previous[0]?.equity ?? account.initialBalance;
+    loss += baseline - account.totalEquity;
+  }
+
+  return loss;
+}
+
+/**
+ * Run an order through the user's limits. Every rule is evaluated so the
+ * caller sees all that fired; the first is the headline. Tripping the
+ * daily loss limit records the lock for the rest of the market day.
+ */
+export async function checkPreTradeRisk(
+  input: RiskCheckInput,
+  executor: DbExecutor = db
+): Promise<RiskCheckResult> {
+  const asOf = input.asOf ?? new Date();
+  const row = await loadRiskLimitsRow(input.userId, executor);
+  if (!row) return { approved: true, violations: [] };
+
+  const limits = limitsFromRow(row);
+  const violations: RiskViolation[] = [];
+  const projected = await projectFills(input.positions, input.fills, executor);
+
+  // Whether the fills grow any position rather than only reducing them
+  const addsRisk = input.fills.some(({ order }) => {
+    const before = input.positions.find(position => isSameInstrument(position, order))?.quantity ?? 0;
+    const after = projected.positions.find(position => isSameInstrument(position, order))?.quantity ?? 0;
+    return Math.abs(after) > Math.abs(before);
+  });
+
+  const legs = input.fills.map(fill => ({
+    fill,
+    position: projected.positions.find(position => isSameInstrument(position, fill.order)) as MarginPosition,
+  }));
+
+  if (limits.restrictedSymbols.length > 0) {
+    const restricted = new Set(limits.restrictedSymbols);
+    for (const { position } of legs) {
+      const symbol = [position.symbol, position.underlyingSymbol].find(candidate => restricted.has(candidate.toUpperCase()));
+      if (symbol) {
+        violations.push({
+          rule: 'restricted_symbol',
+          message: `${symbol} is restricted from trading`,
+          limit: limits.restrictedSymbols,
+          value: symbol,
+        });
+        break;
+      }
+    }
+  }
+
+  if (limits.maxOrderNotional !== null) {
+    const notional = input.fills.reduce(
+      (sum, { order, quantity, fillPrice }) => sum + Math.abs(fillPrice * quantity * (order.multiplier || 1)),
+      0
+    );
+    if (notional > limits.maxOrderNotional) {
+      violations.push({
+        rule: 'max_order_notional',
+        message: `Order notional of ${notional.toFixed(2)} exceeds the limit of ${limits.maxOrderNotional.toFixed(2)}`,
+        limit: limits.maxOrderNotional,
+        value: notional,
+      });
+    }
+  }
+
+  if (limits.maxContractsPerLeg !== null) {
+    const largest = legs
+      .filter(({ fill }) => !!fill.order.optionSymbol)
+      .reduce((max, { fill }) => Math.max(max, fill.quantity), 0);
+    if (largest > limits.maxContractsPerLeg) {
+      violations.push({
+        rule: 'max_contracts_per_leg',
+        message: `${largest} contracts on one leg exceeds the limit of ${limits.maxContractsPerLeg}`,
+        limit: limits.maxContractsPerLeg,
+        value: largest,
+      });
+    }
+  }
+
+  if (limits.priceBandPercent !== null) {
+    for (const { fill, position } of legs) {
+      const reference = await referencePrice(fill, executor);
+      if (!reference) continue;
+
+      const distance = Math.abs(fill.fillPrice / reference - 1) * 100;
+      if (distance > limits.priceBandPercent) {
+        violations.push({
+          rule: 'price_band',
+          message: `${position.symbol} price of ${fill.fillPrice.toFixed(2)} is ${distance.toFixed(1)}% from the last quote of ` +
+            `${reference.toFixed(2)}, outside the ${limits.priceBandPercent}% band`,
+          limit: limits.priceBandPercent,
+          value: distance,
+        });
+        break;
+      }
+    }
+  }
+
+  if (limits.maxConcentrationPercent !== null) {
+    const underlyings = [...new Set(legs.map(({ position }) => position.underlyingSymbol))];
+    for (const underlyingSymbol of underlyings) {
+      const before = grossExposure(input.positions, underlyingSymbol);
+      const after = grossExposure(projected.positions, underlyingSymbol);
+      const concentration = input.equity > 0 ? after / input.equity * 100 : Infinity;
+
+      if (after > before && concentration > limits.maxConcentrationPercent) {
+        violations.push({
+          rule: 'max_concentration',
+          message: `${underlyingSymbol} would be ${isFinite(concentration) ? concentration.toFixed(1) : 'more than 100'}% of equity, ` +
+            `above the limit of ${limits.maxConcentrationPercent}%`,
+          limit: limits.maxConcentrationPercent,
+          value: concentration,
+        });
+        break;
+      }
+    }
+  }
+
+  if (limits.maxPortfolioDelta !== null || limits.maxPortfolioVega !== null) {
+    const before = portfolioGreeks(input.positions, asOf);
+    const after = portfolioGreeks(projected.positions, asOf);
+
+    if (limits.maxPortfolioDelta !== null &&
+        Math.abs(after.delta) > limits.maxPortfolioDelta &&
+        Math.abs(after.delta) > Math.abs(before.delta)) {
+      violations.push({
+        rule: 'max_portfolio_delta',
+        message: `Net delta would be ${after.delta.toFixed(1)}, beyond the limit of ${limits.maxPortfolioDelta}`,
+        limit: limits.maxPortfolioDelta,
+        value: after.delta,
+      });
+    }
+
+    if (limits.maxPortfolioVega !== null &&
+        Math.abs(after.vega) > limits.maxPortfolioVega &&
+        Math.abs(after.vega) > Math.abs(before.vega)) {
+      violations.push({
+        rule: 'max_portfolio_vega',
+        message: `Net vega would be ${after.vega.toFixed(1)}, beyond the limit of ${limits.maxPortfolioVega}`,
+        limit: limits.maxPortfolioVega,
+        value: after.vega,
+      });
+    }
+  }
+
+  if (limits.maxDailyLoss !== null) {
+    const today = marketDate(asOf);
+    let locked = row.lockedOn === today;
+    const loss = await dailyPaperLoss(input.userId, asOf, executor);
+
+    if (!locked && loss >= limits.maxDailyLoss) {
+      locked = true;
+      await executor.update(riskLimits)
+        .set({ lockedOn: today, updatedAt: asOf.toISOString() })
+        .where(eq(riskLimits.id, row.id));
+    }
+
+    if (locked && addsRisk) {
+      violations.push({
+        rule: 'daily_loss_lock',
+        message: `Trading is locked for the day after losses reached the limit of ${limits.maxDailyLoss.toFixed(2)} ` +
+          `(today's loss: ${loss.toFixed(2)}); only closing orders are accepted`,
+        limit: limits.maxDailyLoss,
+        value: loss,
+      });
+    }
+  }
+
+  return { approved: violations.length === 0, violations };
+}
+
+/**
+ * Risk check for an order on a paper account, against its open positions
+ * and equity
+ */
+export async function checkPaperOrderRisk(
+  account: Pick<PaperTradingAccount, 'id' | 'userId' | 'cashBalance' | 'marginMode'>,
+  fills: ProposedFill[],
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<RiskCheckResult> {
+  const held = await loadMarginPositions(account.id, executor);
+  const { equity } = summarizeMargin(parseMarginMode(account.marginMode), account.cashBalance, held, asOf);
+
+  return checkPreTradeRisk({ userId: account.userId, equity, positions: held, fills, asOf }, executor);
+}
+
+/**
+ * A user's open recorded positions in the form the risk rules price.
+ * Recorded positions carry no side, so each counts as long; only single
+ * calls and puts are priced as options.
+ */
+export async function loadUserRiskPositions(
+  userId: string,
+  executor: DbExecutor = db
+): Promise<MarginPosition[]> {
+  const rows = await executor.select({ position: positions, asset: assets })
+    .from(positions)
+    .leftJoin(assets, eq(positions.assetId, assets.id))
+    .where(and(eq(positions.userId, userId), eq(positions.status, 'open')));
+
+  return rows
+    .filter(({ position }) => position.assetId !== null && position.quantity !== 0)
+    .map(({ position, asset }) => {
+      const symbol = asset?.symbol ?? String(position.assetId);
+      const isOption = (position.positionType === 'call' || position.positionType === 'put') &&
+        position.strikePrice !== null && position.expirationDate !== null;
+
+      return {
+        assetId: position.assetId as number,
+        symbol,
+        quantity: position.quantity,
+        price: position.currentPrice ?? position.entryPrice,
+        multiplier: position.strikePrice !== null ? 100 : 1,
+        optionType: isOption ? position.positionType as 'call' | 'put' : null,
+        strikePrice: position.strikePrice,
+        expirationDate: position.expirationDate,
+        underlyingSymbol: symbol,
+        underlyingPrice: asset?.currentPrice ?? position.currentPrice ?? position.entryPrice,
+        volatility: position.iv ?? undefined,
+      };
+    });
+}
+
+/**
+ * Response body for an order the risk checks stopped
+ */
+export function riskRejection(result: RiskCheckResult) {
+  return {
+    error: result.violations[0].message,
+    code: 'RISK_CHECK_FAILED',
+    rule: result.violations[0].rule,
+    violations: result.violations,
+  };
+}
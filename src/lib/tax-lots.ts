@@ -0,0 +1,503 @@
+/**
+ * Tax-Lot Accounting
+ * Every paper fill and every recorded trade feeds a lot ledger. Opening
+ * fills create lots; closing fills relieve open lots by the account's
+ * method (FIFO, LIFO, HIFO or specific identification) and record the
+ * realized gain per lot, classified short- or long-term by holding period
+ * the way a broker 1099-B reports it.
+ *
+ * Simplifications: option premiums are not folded into the basis of stock
+ * delivered by exercise or assignment, and gains on short sales are always
+ * short-term.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { taxLots, taxLotRealizations, assets, positions, user } from '@/db/schema';
+import type { TaxLot, TaxLotRealization, Trade, PaperOrder, PaperTradingAccount } from '@/db/schema';
+import { eq, and, gt, gte, lte, isNull, inArray, asc } from 'drizzle-orm';
+import { OPTION_MULTIPLIER } from '@/lib/paper-trading/option-contracts';
+import { adjustedBasisShare, detectWashSales } from '@/lib/wash-sales';
+
+export const LOT_METHODS = ['fifo', 'lifo', 'hifo', 'specific'] as const;
+export type LotMethod = typeof LOT_METHODS[number];
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface LotFill {
+  userId: string;
+  paperAccountId: number | null;  // Null for recorded trades
+  runNumber?: number | null;      // Paper account run the fill belongs to
+  assetId: number;
+  positionId?: number | null;     // Option position of a recorded trade
+  optionSymbol?: string | null;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;                  // Per share or contract
+  multiplier: number;
+  timestamp: string;
+  method: LotMethod;
+  lotIds?: number[];              // Lots to relieve first, in this order
+  sourceType: 'paper_order' | 'trade';
+  sourceId: number;
+}
+
+export interface LotFillResult {
+  opened: TaxLot | null;
+  realizations: TaxLotRealization[];
+}
+
+export interface RealizedGainsTotals {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  disallowedLoss: number; // Wash-sale losses deferred into replacement lots
+  adjustedGain: number;   // Gain after adding back disallowed losses
+}
+
+export interface RealizedGainsReport {
+  from: string | null;
+  to: string | null;
+  realizations: (TaxLotRealization & { symbol: string; optionSymbol: string | null })[];
+  shortTerm: RealizedGainsTotals;
+  longTerm: RealizedGainsTotals;
+  total: RealizedGainsTotals;
+}
+
+export function parseLotMethod(value: string | null | undefined): LotMethod {
+  return LOT_METHODS.includes(value as LotMethod) ? value as LotMethod : 'fifo';
+}
+
+/**
+ * Long-term when the lot is sold more than one year after it was acquired:
+ * the holding period starts the day after acquisition, so a sale on the
+ * anniversary is still short-term.
+ */
+export function holdingTerm(openedAt: string, closedAt: string): HoldingTerm {
+  const opened = new Date(openedAt);
+  const anniversary = Date.UTC(opened.getUTCFullYear() + 1, opened.getUTCMonth(), opened.getUTCDate());
+  const closed = new Date(closedAt);
+  const closedDay = Date.UTC(closed.getUTCFullYear(), closed.getUTCMonth(), closed.getUTCDate());
+  return closedDay > anniversary ? 'long' : 'short';
+}
+
+/**
+ * Order open lots for relief. Named lots come first in the order given;
+ * the rest follow the method. HIFO relieves whichever lot realizes the
+ * smallest gain first: the highest-cost long or the lowest-priced short.
+ * Specific identification falls back to FIFO for anything not named.
+ */
+export function reliefOrder<T extends Pick<TaxLot, 'id' | 'side' | 'openPrice' | 'openedAt'>>(
+  lots: T[],
+  method: LotMethod,
+  lotIds: number[] = []
+): T[] {
+  const named = lotIds
+    .map(id => lots.find(lot => lot.id === id))
+    .filter((lot): lot is T => lot !== undefined);
+
+  const fifo = (a: T, b: T) => a.openedAt.localeCompare(b.openedAt) || a.id - b.id;
+  const rest = lots.filter(lot => !lotIds.includes(lot.id)).sort((a, b) => {
+    switch (method) {
+      case 'lifo':
+        return -fifo(a, b);
+      case 'hifo': {
+        const byPrice = a.side === 'long' ? b.openPrice - a.openPrice : a.openPrice - b.openPrice;
+        return byPrice || fifo(a, b);
+      }
+      default:
+        return fifo(a, b);
+    }
+  });
+
+  return [...named, ...rest];
+}
+
+// Lots of the same instrument in the same account (and run, for paper accounts)
+function lotScope(fill: Pick<LotFill, 'userId' | 'paperAccountId' | 'runNumber' | 'assetId' | 'positionId'>) {
+  return and(
+    eq(taxLots.userId, fill.userId),
+    fill.paperAccountId === null ? isNull(taxLots.paperAccountId) : eq(taxLots.paperAccountId, fill.paperAccountId),
+    fill.paperAccountId !== null && fill.runNumber != null ? eq(taxLots.runNumber, fill.runNumber) : undefined,
+    eq(taxLots.assetId, fill.assetId),
+    fill.positionId ? eq(taxLots.positionId, fill.positionId) : isNull(taxLots.positionId)
+  );
+}
+
+/**
+ * Apply one fill to the ledger: relieve open lots on the other side, then
+ * open a lot with whatever quantity is left
+ */
+export async function applyLotFill(fill: LotFill, executor: DbExecutor = db): Promise<LotFillResult> {
+  const closingSide = fill.side === 'buy' ? 'short' : 'long';
+
+  const open = await executor.select()
+    .from(taxLots)
+    .where(and(
+      lotScope(fill),
+      eq(taxLots.side, closingSide),
+      gt(taxLots.remainingQuantity, 0)
+    ));
+
+  const realizations: TaxLotRealization[] = [];
+  let remaining = fill.quantity;
+
+  for (const lot of reliefOrder(open, fill.method, fill.lotIds)) {
+    if (remaining <= 0) break;
+
+    const quantity = Math.min(remaining, lot.remainingQuantity);
+    const openValue = lot.openPrice * quantity * lot.multiplier;
+    const closeValue = fill.price * quantity * lot.multiplier;
+    const proceeds = lot.side === 'long' ? closeValue : openValue;
+    // Long lots carry any wash-sale loss deferred into them
+    const costBasis = lot.side === 'long' ? openValue + adjustedBasisShare(lot, quantity) : closeValue;
+    const remainingQuantity = lot.remainingQuantity - quantity;
+
+    await executor.update(taxLots)
+      .set({
+        remainingQuantity,
+        closedAt: remainingQuantity === 0 ? fill.timestamp : null,
+      })
+      .where(eq(taxLots.id, lot.id));
+
+    const realization = await executor.insert(taxLotRealizations)
+      .values({
+        lotId: lot.id,
+        userId: lot.userId,
+        paperAccountId: lot.paperAccountId,
+        runNumber: lot.runNumber,
+        assetId: lot.assetId,
+        side: lot.side,
+        quantity,
+        openedAt: lot.openedAt,
+        closedAt: fill.timestamp,
+        proceeds,
+        costBasis,
+        gain: proceeds - costBasis,
+        term: lot.side === 'short' ? 'short' : holdingTerm(lot.openedAt, fill.timestamp),
+        method: fill.lotIds?.includes(lot.id) ? 'specific' : fill.method,
+        sourceType: fill.sourceType,
+        sourceId: fill.sourceId,
+        createdAt: fill.timestamp,
+      })
+      .returning();
+
+    realizations.push(realization[0]);
+    remaining -= quantity;
+  }
+
+  let opened: TaxLot | null = null;
+  if (remaining > 0) {
+    const lot = await executor.insert(taxLots)
+      .values({
+        userId: fill.userId,
+        paperAccountId: fill.paperAccountId,
+        runNumber: fill.runNumber ?? null,
+        assetId: fill.assetId,
+        positionId: fill.positionId ?? null,
+        optionSymbol: fill.optionSymbol ?? null,
+        side: fill.side === 'buy' ? 'long' : 'short',
+        quantity: remaining,
+        remainingQuantity: remaining,
+        openPrice: fill.price,
+        multiplier: fill.multiplier,
+        openedAt: fill.timestamp,
+        sourceType: fill.sourceType,
+        sourceId: fill.sourceId,
+        createdAt: fill.timestamp,
+      })
+      .returning();
+    opened = lot[0];
+  }
+
+  return { opened, realizations };
+}
+
+/**
+ * Feed a paper fill into the ledger using the account's relief method and
+ * any lots the order names
+ */
+export async function applyPaperFillLots(
+  order: PaperOrder,
+  account: PaperTradingAccount,
+  quantity: number,
+  price: number,
+  timestamp: string,
+  executor: DbExecutor = db
+): Promise<LotFillResult> {
+  return applyLotFill({
+    userId: account.userId,
+    paperAccountId: account.id,
+    runNumber: account.runNumber,
+    assetId: order.assetId,
+    optionSymbol: order.optionSymbol,
+    side: order.side as 'buy' | 'sell',
+    quantity,
+    price,
+    multiplier: order.multiplier || 1,
+    timestamp,
+    method: parseLotMethod(account.taxLotMethod),
+    lotIds: order.lotIds ? JSON.parse(order.lotIds) : undefined,
+    sourceType: 'paper_order',
+    sourceId: order.id,
+  }, executor);
+}
+
+/**
+ * How a recorded trade is lotted: trades against an option position are
+ * lotted per position in contracts, everything else per asset in shares
+ */
+export async function tradeInstrument(
+  positionId: number | null | undefined,
+  executor: DbExecutor = db
+): Promise<{ positionId: number | null; multiplier: number }> {
+  if (positionId) {
+    const position = await executor.select()
+      .from(positions)
+      .where(eq(positions.id, positionId))
+      .limit(1);
+    if (position[0]?.strikePrice != null) {
+      return { positionId: position[0].id, multiplier: OPTION_MULTIPLIER };
+    }
+  }
+  return { positionId: null, multiplier: 1 };
+}
+
+/**
+ * Feed a recorded trade into the ledger. Buys and sells open and relieve
+ * lots; expirations, exercises and assignments close the position's open
+ * lots at zero. Rolls and hedges carry no side and are skipped. Wash sales
+ * are matched after every trade that touches the ledger.
+ */
+export async function applyTradeLots(
+  trade: Trade,
+  lotIds?: number[],
+  executor: DbExecutor = db
+): Promise<LotFillResult | null> {
+  if (!trade.assetId) return null;
+
+  const { positionId, multiplier } = await tradeInstrument(trade.positionId, executor);
+
+  const owner = await executor.select({ taxLotMethod: user.taxLotMethod })
+    .from(user)
+    .where(eq(user.id, trade.userId))
+    .limit(1);
+
+  const base = {
+    userId: trade.userId,
+    paperAccountId: null,
+    assetId: trade.assetId,
+    positionId,
+    quantity: Math.abs(trade.quantity),
+    multiplier,
+    timestamp: trade.executedAt,
+    method: parseLotMethod(owner[0]?.taxLotMethod),
+    lotIds,
+    sourceType: 'trade' as const,
+    sourceId: trade.id,
+  };
+
+  let result: LotFillResult | null = null;
+
+  if (trade.tradeType === 'buy' || trade.tradeType === 'sell') {
+    result = await applyLotFill({ ...base, side: trade.tradeType, price: trade.price }, executor);
+  } else if (['expire', 'exercise', 'assignment'].includes(trade.tradeType)) {
+    const open = await executor.select({ side: taxLots.side })
+      .from(taxLots)
+      .where(and(lotScope(base), gt(taxLots.remainingQuantity, 0)))
+      .limit(1);
+    if (open.length > 0) {
+      result = await applyLotFill({ ...base, side: open[0].side === 'long' ? 'sell' : 'buy', price: 0 }, executor);
+    }
+  }
+
+  // A loss may be washed by an earlier purchase, or this purchase may wash
+  // an earlier loss
+  if (result) {
+    await detectWashSales(trade.userId, null, executor);
+  }
+
+  return result;
+}
+
+/**
+ * Whether a recorded trade opened or relieved any lots. Its lots,
+ * realizations and the wash sales matched to them were computed from the
+ * trade as recorded, so it cannot be changed or removed without them.
+ */
+export async function tradeHasLots(tradeId: number, executor: DbExecutor = db): Promise<boolean> {
+  const opened = await executor.select({ id: taxLots.id })
+    .from(taxLots)
+    .where(and(eq(taxLots.sourceType, 'trade'), eq(taxLots.sourceId, tradeId)))
+    .limit(1);
+  if (opened.length > 0) return true;
+
+  const relieved = await executor.select({ id: taxLotRealizations.id })
+    .from(taxLotRealizations)
+    .where(and(eq(taxLotRealizations.sourceType, 'trade'), eq(taxLotRealizations.sourceId, tradeId)))
+    .limit(1);
+  return relieved.length > 0;
+}
+
+/**
+ * Check lots named for specific identification: each must be open, in the
+ * same account and instrument, and on the side the order closes. Returns
+ * an error message, or null when the selection is valid.
+ */
+export async function validateLotSelection(
+  lotIds: unknown,
+  scope: Pick<LotFill, 'userId' | 'paperAccountId' | 'runNumber' | 'assetId' | 'positionId' | 'side'>,
+  executor: DbExecutor = db
+): Promise<string | null> {
+  if (!Array.isArray(lotIds) || lotIds.length === 0
+    || !lotIds.every(id => Number.isInteger(id) && id > 0)) {
+    return 'lotIds must be a non-empty array of tax lot ids';
+  }
+
+  const lots = await executor.select()
+    .from(taxLots)
+    .where(and(
+      lotScope(scope),
+      inArray(taxLots.id, lotIds),
+      eq(taxLots.side, scope.side === 'buy' ? 'short' : 'long'),
+      gt(taxLots.remainingQuantity, 0)
+    ));
+
+  const missing = lotIds.filter(id => !lots.some(lot => lot.id === id));
+  if (missing.length > 0) {
+    return `Lot(s) ${missing.join(', ')} are not open ${scope.side === 'buy' ? 'short' : 'long'} lots of this instrument`;
+  }
+
+  return null;
+}
+
+/**
+ * Open lots for a paper account, or for a user's recorded trades when no
+ * account is given
+ */
+export async function openLots(
+  userId: string,
+  paperAccountId: number | null,
+  executor: DbExecutor = db
+): Promise<(TaxLot & { symbol: string })[]> {
+  const rows = await executor.select({ lot: taxLots, symbol: assets.symbol })
+    .from(taxLots)
+    .innerJoin(assets, eq(taxLots.assetId, assets.id))
+    .where(and(
+      eq(taxLots.userId, userId),
+      paperAccountId === null ? isNull(taxLots.paperAccountId) : eq(taxLots.paperAccountId, paperAccountId),
+      gt(taxLots.remainingQuantity, 0)
+    ))
+    .orderBy(asc(taxLots.openedAt), asc(taxLots.id));
+
+  return rows.map(({ lot, symbol }) => ({ ...lot, symbol }));
+}
+
+/**
+ * Close a paper run's open lots when the account is reset. Its positions
+ * are dropped rather than sold, so nothing is realized; the run's lots,
+ * realizations and wash sales stay as its history.
+ */
+export async function closeRunLots(
+  paperAccountId: number,
+  runNumber: number,
+  timestamp: string,
+  executor: DbExecutor = db
+): Promise<number> {
+  const closed = await executor.update(taxLots)
+    .set({ remainingQuantity: 0, closedAt: timestamp })
+    .where(and(
+      eq(taxLots.paperAccountId, paperAccountId),
+      eq(taxLots.runNumber, runNumber),
+      gt(taxLots.remainingQuantity, 0)
+    ))
+    .returning({ id: taxLots.id });
+
+  return closed.length;
+}
+
+/**
+ * Report range from a tax year or from/to dates; dates without a time
+ * cover the whole day
+ */
+export function parseReportRange(
+  year: string | null,
+  from: string | null,
+  to: string | null
+): { from: string | null; to: string | null } | { error: string; code: string } {
+  if (year) {
+    if (!/^\d{4}$/.test(year)) {
+      return { error: 'year must be a four-digit year', code: 'INVALID_YEAR' };
+    }
+    return { from: `${year}-01-01T00:00:00.000Z`, to: `${year}-12-31T23:59:59.999Z` };
+  }
+
+  const bound = (value: string | null, endOfDay: boolean) => {
+    if (!value) return null;
+    const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`
+      : value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+
+  const range = { from: bound(from, false), to: bound(to, true) };
+  if (range.from === undefined || range.to === undefined) {
+    return { error: 'from and to must be valid dates', code: 'INVALID_DATE_RANGE' };
+  }
+  return { from: range.from, to: range.to };
+}
+
+function sumTotals(rows: Pick<TaxLotRealization, 'proceeds' | 'costBasis' | 'gain' | 'disallowedLoss'>[]): RealizedGainsTotals {
+  return rows.reduce<RealizedGainsTotals>(
+    (totals, row) => ({
+      proceeds: totals.proceeds + row.proceeds,
+      costBasis: totals.costBasis + row.costBasis,
+      gain: totals.gain + row.gain,
+      disallowedLoss: totals.disallowedLoss + row.disallowedLoss,
+      adjustedGain: totals.adjustedGain + row.gain + row.disallowedLoss,
+    }),
+    { proceeds: 0, costBasis: 0, gain: 0, disallowedLoss: 0, adjustedGain: 0 }
+  );
+}
+
+/**
+ * Realized gains by lot for a date range, with short- and long-term totals.
+ * A run number limits a paper account's report to that run.
+ */
+export async function realizedGainsReport(
+  userId: string,
+  paperAccountId: number | null,
+  from: string | null = null,
+  to: string | null = null,
+  runNumber: number | null = null,
+  executor: DbExecutor = db
+): Promise<RealizedGainsReport> {
+  const rows = await executor.select({
+    realization: taxLotRealizations,
+    symbol: assets.symbol,
+    optionSymbol: taxLots.optionSymbol,
+  })
+    .from(taxLotRealizations)
+    .innerJoin(taxLots, eq(taxLotRealizations.lotId, taxLots.id))
+    .innerJoin(assets, eq(taxLotRealizations.assetId, assets.id))
+    .where(and(
+      eq(taxLotRealizations.userId, userId),
+      paperAccountId === null
+        ? isNull(taxLotRealizations.paperAccountId)
+        : eq(taxLotRealizations.paperAccountId, paperAccountId),
+      runNumber !== null ? eq(taxLotRealizations.runNumber, runNumber) : undefined,
+      from ? gte(taxLotRealizations.closedAt, from) : undefined,
+      to ? lte(taxLotRealizations.closedAt, to) : undefined
+    ))
+    .orderBy(asc(taxLotRealizations.closedAt), asc(taxLotRealizations.id));
+
+  const realizations = rows.map(({ realization, symbol, optionSymbol }) => ({ ...realization, symbol, optionSymbol }));
+
+  return {
+    from,
+    to,
+    realizations,
+    shortTerm: sumTotals(realizations.filter(row => row.term === 'short')),
+    longTerm: sumTotals(realizations.filter(row => row.term === 'long')),
+    total: sumTotals(realizations),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Volatility Summary
+ * Daily job that records, per underlying, the 30-day at-the-money implied
+ * volatility, 25-delta skew and front/back term spread of the day's IV
+ * surface, alongside 10, 20 and 60-day realized volatility from daily
+ * underlying closes. IV rank and percentile are computed from this
+ * history over a lookback of trading days.
+ *
+ * The fitted surface (iv-surface-fit.ts) is read when the day has one;
+ * otherwise the snapshot's raw points are interpolated. A day without a
+ * snapshot gets one built from the latest stored quotes first.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { optionsQuotes, ivSurfaceSnapshots, volatilitySummaries, assets, type VolatilitySummary } from '@/db/schema';
+import { eq, and, lte, desc, asc, isNotNull } from 'drizzle-orm';
+import { calculateGreeks } from '@/lib/greeks-calculator';
+import { buildIvSurface } from '@/lib/iv-surface';
+import { fitIvSurface, loadFittedSurface, surfaceVolatility, type FittedSurface } from '@/lib/iv-surface-fit';
+import { loadSplits, splitAdjustBars } from '@/lib/corporate-actions';
+import { marketDate } from '@/lib/paper-trading/market-session';
+
+// IV rank and percentile lookbacks, in trading days
+export const DEFAULT_IV_RANK_LOOKBACK = 252;
+export const MAX_IV_RANK_LOOKBACK = 1260;
+
+const TRADING_DAYS = 252;
+const REALIZED_WINDOWS = [10, 20, 60] as const;
+const TARGET_DAYS = 30;
+const SKEW_DELTA = 0.25;
+const RISK_FREE_RATE = 0.05;
+
+export interface IvRankStats {
+  lookback: number;       // Trading days requested
+  observations: number;   // Summaries found in the window, today included
+  high: number;
+  low: number;
+  ivRank: number | null;        // Where today's IV sits between the window's low (0) and high (100)
+  ivPercentile: number | null;  // Share of earlier days with a lower IV
+}
+
+export interface VolatilityReport {
+  summary: VolatilitySummary;
+  ivRank: number | null;        // Over the first lookback
+  ivPercentile: number | null;
+  lookbacks: IvRankStats[];
+  history?: VolatilitySummary[];  // Oldest first, over the longest lookback
+}
+
+export interface VolatilitySummaryRun {
+  asOf: string;
+  summaryDate: string;
+  results: { symbol: string; status: 'computed' | 'skipped'; reason?: string }[];
+}
+
+type SummaryFields = Pick<VolatilitySummary,
+  'source' | 'underlyingPrice' | 'atmIv30' | 'skew25' | 'frontExpiration' | 'frontIv' | 'backExpiration' | 'backIv'>;
+
+/**
+ * Annualized standard deviation of daily log returns over the last
+ * `window` closes' returns; null with too few closes
+ */
+export function realizedVolatility(closes: number[], window: number): number | null {
+  if (closes.length < window + 1) return null;
+
+  const recent = closes.slice(-(window + 1));
+  const returns = recent.slice(1).map((close, i) => Math.log(close / recent[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / (returns.length - 1);
+  return Math.sqrt(variance * TRADING_DAYS);
+}
+
+/**
+ * IV rank and percentile of the newest value in `history` (newest first)
+ * over its first `lookback` entries
+ */
+export function ivRankStats(history: number[], lookback: number): IvRankStats {
+  const window = history.slice(0, lookback);
+  const [current, ...earlier] = window;
+  const high = Math.max(...window);
+  const low = Math.min(...window);
+
+  return {
+    lookback,
+    observations: window.length,
+    high,
+    low,
+    ivRank: window.length > 1 && high > low ? (current - low) / (high - low) * 100 : null,
+    ivPercentile: earlier.length > 0 ? earlier.filter(iv => iv < current).length / earlier.length * 100 : null,
+  };
+}
+
+// The last stored underlying price of each market day up to `summaryDate`,
+// adjusted for splits
+async function dailyCloses(symbol: string, summaryDate: string, executor: DbExecutor): Promise<number[]> {
+  const rows = await executor.select({ timestamp: optionsQuotes.timestamp, underlyingPrice: optionsQuotes.underlyingPrice })
+    .from(optionsQuotes)
+    .where(and(eq(optionsQuotes.symbol, symbol), isNotNull(optionsQuotes.underlyingPrice)))
+    .orderBy(asc(optionsQuotes.timestamp));
+
+  const closes = new Map<string, { t: string; o: number; h: number; l: number; c: number; v: number }>();
+  for (const row of rows) {
+    const date = marketDate(new Date(row.timestamp));
+    if (date > summaryDate) break;
+    const price = row.underlyingPrice!;
+    closes.set(date, { t: row.timestamp, o: price, h: price, l: price, c: price, v: 0 });
+  }
+
+  const asset = await executor.select({ id: assets.id })
+    .from(assets)
+    .where(eq(assets.symbol, symbol))
+    .limit(1);
+  const splits = asset.length > 0 ? await loadSplits(asset[0].id, executor) : [];
+  return splitAdjustBars([...closes.values()], splits).map(bar => bar.c);
+}
+
+// Summary figures from the day's fitted surface
+function fromSurface(surface: FittedSurface): SummaryFields | null {
+  const timeToExpiry = TARGET_DAYS / 365;
+  const atm = surfaceVolatility(surface, { timeToExpiry });
+  if (!atm) return null;
+
+  const put = surfaceVolatility(surface, { delta: -SKEW_DELTA, timeToExpiry });
+  const call = surfaceVolatility(surface, { delta: SKEW_DELTA, timeToExpiry });
+  const [front, back] = surface.slices.map(slice => ({
+    expirationDate: slice.expirationDate,
+    volatility: surfaceVolatility(surface, { expirationDate: slice.expirationDate })?.volatility ?? null,
+  }));
+
+  return {
+    source: 'surface',
+    underlyingPrice: surface.underlyingPrice,
+    atmIv30: atm.volatility,
+    skew25: put && call ? put.volatility - call.volatility : null,
+    frontExpiration: front?.expirationDate ?? null,
+    frontIv: front?.volatility ?? null,
+    backExpiration: back?.expirationDate ?? null,
+    backIv: back?.volatility ?? null,
+  };
+}
+
+// Summary figures from a snapshot's raw points: the ATM volatility of each
+// expiration is the strike nearest the money, interpolated to 30 days in
+// total variance; skew is read from the expiration nearest 30 days
+function fromSnapshot(rows: (typeof ivSurfaceSnapshots.$inferSelect)[]): SummaryFields | null {
+  const spots = rows.map(row => row.strikePrice / row.moneyness).sort((p, q) => p - q);
+  const underlyingPrice = spots[Math.floor(spots.length / 2)];
+
+  const byExpiration = new Map<string, typeof rows>();
+  for (const row of rows) {
+    if (row.daysToExpiration <= 0 || row.impliedVolatility <= 0) continue;
+    byExpiration.set(row.expirationDate, [...(byExpiration.get(row.expirationDate) ?? []), row]);
+  }
+
+  const expirations = [...byExpiration.entries()]
+    .sort(([p], [q]) => p.localeCompare(q))
+    .map(([expirationDate, points]) => {
+      const nearest = Math.min(...points.map(point => Math.abs(point.moneyness - 1)));
+      const atm = points.filter(point => Math.abs(point.moneyness - 1) === nearest);
+      return {
+        expirationDate,
+        days: points[0].daysToExpiration,
+        volatility: atm.reduce((sum, point) => sum + point.impliedVolatility, 0) / atm.length,
+        points,
+      };
+    });
+  if (expirations.length === 0) return null;
+
+  const after = expirations.findIndex(e => e.days >= TARGET_DAYS);
+  let atmIv30: number;
+  if (after <= 0) {
+    atmIv30 = expirations[after === 0 ? 0 : expirations.length - 1].volatility;
+  } else {
+    const [near, far] = [expirations[after - 1], expirations[after]];
+    const weight = (TARGET_DAYS - near.days) / (far.days - near.days);
+    const variance = near.volatility ** 2 * near.days + weight * (far.volatility ** 2 * far.days - near.volatility ** 2 * near.days);
+    atmIv30 = Math.sqrt(variance / TARGET_DAYS);
+  }
+
+  const skewSlice = expirations.reduce((best, e) => (Math.abs(e.days - TARGET_DAYS) < Math.abs(best.days - TARGET_DAYS) ? e : best));
+  const deltas = skewSlice.points.map(point => ({
+    point,
+    delta: calculateGreeks({
+      spotPrice: underlyingPrice,
+      strikePrice: point.strikePrice,
+      timeToExpiry: point.daysToExpiration / 365,
+      volatility: point.impliedVolatility,
+      riskFreeRate: RISK_FREE_RATE,
+      optionType: point.optionType as 'call' | 'put',
+    }).delta,
+  }));
+  const closest = (type: string, target: number) => deltas
+    .filter(d => d.point.optionType === type)
+    .reduce<typeof deltas[number] | null>((best, d) => (!best || Math.abs(d.delta - target) < Math.abs(best.delta - target) ? d : best), null);
+  const put = closest('put', -SKEW_DELTA);
+  const call = closest('call', SKEW_DELTA);
+
+  const [front, back] = expirations;
+  return {
+    source: 'snapshot',
+    underlyingPrice,
+    atmIv30,
+    skew25: put && call ? put.point.impliedVolatility - call.point.impliedVolatility : null,
+    frontExpiration: front.expirationDate,
+    frontIv: front.volatility,
+    backExpiration: back?.expirationDate ?? null,
+    backIv: back?.volatility ?? null,
+  };
+}
+
+/**
+ * Compute and store `symbol`'s summary for the market date of `asOf`,
+ * replacing any already stored. Null when the day has no surface points
+ * and none can be built from stored quotes.
+ */
+export async function computeVolatilitySummary(
+  underlyingSymbol: string,
+  asOf: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<VolatilitySummary | null> {
+  const symbol = underlyingSymbol.toUpperCase();
+  const summaryDate = marketDate(asOf);
+
+  const snapshot = () => executor.select()
+    .from(ivSurfaceSnapshots)
+    .where(and(eq(ivSurfaceSnapshots.symbol, symbol), eq(ivSurfaceSnapshots.snapshotDate, summaryDate)));
+
+  let points = await snapshot();
+  if (points.length === 0 && await buildIvSurface(symbol, asOf, executor)) {
+    await fitIvSurface(symbol, summaryDate, executor);
+    points = await snapshot();
+  }
+  if (points.length === 0) return null;
+
+  const surface = await loadFittedSurface(symbol, summaryDate, executor);
+  const fields = (surface?.snapshotDate === summaryDate ? fromSurface(surface) : null) ?? fromSnapshot(points);
+  if (!fields) return null;
+
+  const closes = await dailyCloses(symbol, summaryDate, executor);
+  const [realizedVol10, realizedVol20, realizedVol60] = REALIZED_WINDOWS.map(window => realizedVolatility(closes, window));
+
+  await executor.delete(volatilitySummaries)
+    .where(and(eq(volatilitySummaries.symbol, symbol), eq(volatilitySummaries.summaryDate, summaryDate)));
+  const created = await executor.insert(volatilitySummaries)
+    .values({
+      symbol,
+      summaryDate,
+      ...fields,
+      termSpread: fields.frontIv !== null && fields.backIv !== null ? fields.frontIv - fields.backIv : null,
+      realizedVol10,
+      realizedVol20,
+      realizedVol60,
+      createdAt: new Date().toISOString(),
+    })
+    .returning();
+
+  return created[0];
+}
+
+/**
+ * Summarize every underlying with stored quotes or a surface snapshot
+ * for the day, or just `symbols` when given. Each symbol commits on its own.
+ */
+export async function runVolatilitySummaries(
+  asOf: Date = new Date(),
+  symbols?: string[]
+): Promise<VolatilitySummaryRun> {
+  const summaryDate = marketDate(asOf);
+  let universe = symbols?.map(symbol => symbol.toUpperCase().trim());
+
+  if (!universe) {
+    const quoted = await db.selectDistinct({ symbol: optionsQuotes.symbol }).from(optionsQuotes);
+    const snapshotted = await db.selectDistinct({ symbol: ivSurfaceSnapshots.symbol })
+      .from(ivSurfaceSnapshots)
+      .where(eq(ivSurfaceSnapshots.snapshotDate, summaryDate));
+    universe = [...new Set([...quoted, ...snapshotted].map(row => row.symbol))].sort();
+  }
+
+  const results: VolatilitySummaryRun['results'] = [];
+  for (const symbol of universe) {
+    const summary = await db.transaction(tx => computeVolatilitySummary(symbol, asOf, tx));
+    results.push(summary
+      ? { symbol, status: 'computed' }
+      : { symbol, status: 'skipped', reason: 'No surface points or options quotes for the day' });
+  }
+
+  return { asOf: asOf.toISOString(), summaryDate, results };
+}
+
+/**
+ * The latest summary for `symbol` on or before `date` with its IV rank and
+ * percentile over each lookback (the first is the headline figure). Null
+ * when no summary is stored.
+ */
+export async function loadVolatilityReport(
+  underlyingSymbol: string,
+  date: string = marketDate(new Date()),
+  lookbacks: number[] = [DEFAULT_IV_RANK_LOOKBACK],
+  includeHistory = false,
+  executor: DbExecutor = db
+): Promise<VolatilityReport | null> {
+  const symbol = underlyingSymbol.toUpperCase();
+  const history = await executor.select()
+    .from(volatilitySummaries)
+    .where(and(eq(volatilitySummaries.symbol, symbol), lte(volatilitySummaries.summaryDate, date)))
+    .orderBy(desc(volatilitySummaries.summaryDate))
+    .limit(Math.max(...lookbacks));
+
+  if (history.length === 0) return null;
+
+  const stats = lookbacks.map(lookback => ivRankStats(history.map(row => row.atmIv30), lookback));
+  return {
+    summary: history[0],
+    ivRank: stats[0].ivRank,
+    ivPercentile: stats[0].ivPercentile,
+    lookbacks: stats,
+    ...(includeHistory ? { history: [...history].reverse() } : {}),
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Wash-Sale Detection
+ * A loss on a long lot is a wash sale when a substantially identical
+ * security — the same stock, or an option on the same underlying — is
+ * bought within 30 days before or after the sale. The disallowed part of
+ * the loss is added to the replacement lot's basis and reported next to
+ * the realization, as on a 1099-B.
+ *
+ * Losses and replacements are matched in share equivalents (contracts
+ * times multiplier), earliest replacement first, and each replacement lot
+ * absorbs at most its own quantity. Holding periods of replacement lots
+ * are not extended, and short sales are not matched.
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { taxLots, taxLotRealizations, washSales, assets } from '@/db/schema';
+import type { TaxLot, WashSale } from '@/db/schema';
+import { eq, and, lt, gt, gte, lte, isNull, inArray, asc, sql } from 'drizzle-orm';
+import { parseOccSymbol } from '@/lib/paper-trading/option-contracts';
+
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WashSaleFlag {
+  disallowedLoss: number;   // Loss deferred on this trade's sale
+  basisAdjustment: number;  // Deferred loss added to lots this trade bought
+}
+
+export interface WashSaleSummary {
+  year: string;
+  washSales: (WashSale & { symbol: string })[];
+  bySymbol: { symbol: string; count: number; disallowedLoss: number }[];
+  totals: {
+    count: number;
+    realizedLoss: number;      // Losses realized in the year, before deferral
+    disallowedLoss: number;
+    allowedLoss: number;
+    deferredInOpenLots: number; // Disallowed losses still held in open lots' basis
+  };
+}
+
+// Stock and options on it share the underlying symbol
+function underlyingOf(symbol: string, optionSymbol: string | null): string {
+  const contract = optionSymbol ? parseOccSymbol(optionSymbol) : parseOccSymbol(symbol);
+  return contract?.underlyingSymbol ?? symbol;
+}
+
+function dayNumber(timestamp: string): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / DAY_MS;
+}
+
+// Lots or realizations of one account: a paper account, or recorded trades
+function accountScope(
+  column: typeof taxLots.paperAccountId | typeof taxLotRealizations.paperAccountId,
+  paperAccountId: number | null
+) {
+  return paperAccountId === null ? isNull(column) : eq(column, paperAccountId);
+}
+
+/**
+ * Match every loss not yet fully disallowed against replacement purchases
+ * in its window. Idempotent: running it again only matches what is new.
+ */
+export async function detectWashSales(
+  userId: string,
+  paperAccountId: number | null,
+  executor: DbExecutor = db
+): Promise<WashSale[]> {
+  const losses = await executor.select({
+    realization: taxLotRealizations,
+    lot: taxLots,
+    symbol: assets.symbol,
+  })
+    .from(taxLotRealizations)
+    .innerJoin(taxLots, eq(taxLotRealizations.lotId, taxLots.id))
+    .innerJoin(assets, eq(taxLotRealizations.assetId, assets.id))
+    .where(and(
+      eq(taxLotRealizations.userId, userId),
+      accountScope(taxLotRealizations.paperAccountId, paperAccountId),
+      eq(taxLotRealizations.side, 'long'),
+      lt(taxLotRealizations.gain, 0),
+      sql`${taxLotRealizations.disallowedLoss} < -${taxLotRealizations.gain} - 0.000001`
+    ))
+    .orderBy(asc(taxLotRealizations.closedAt), asc(taxLotRealizations.id));
+
+  if (losses.length === 0) return [];
+
+  const candidates = await executor.select({ lot: taxLots, symbol: assets.symbol })
+    .from(taxLots)
+    .innerJoin(assets, eq(taxLots.assetId, assets.id))
+    .where(and(
+      eq(taxLots.userId, userId),
+      accountScope(taxLots.paperAccountId, paperAccountId),
+      eq(taxLots.side, 'long')
+    ))
+    .orderBy(asc(taxLots.openedAt), asc(taxLots.id));
+
+  // Share equivalents each lot has already absorbed as a replacement
+  const used = new Map<number, number>();
+  const matched = candidates.length > 0
+    ? await executor.select({
+        lotId: washSales.replacementLotId,
+        quantity: sql<number>`sum(${washSales.quantity})`,
+      })
+        .from(washSales)
+        .where(inArray(washSales.replacementLotId, candidates.map(({ lot }) => lot.id)))
+        .groupBy(washSales.replacementLotId)
+    : [];
+  for (const row of matched) used.set(row.lotId, row.quantity);
+
+  const replacements = candidates.map(({ lot, symbol }) => ({
+    lot,
+    underlying: underlyingOf(symbol, lot.optionSymbol),
+  }));
+
+  const created: WashSale[] = [];
+  const timestamp = new Date().toISOString();
+
+  for (const { realization, lot: soldLot, symbol } of losses) {
+    const underlying = underlyingOf(symbol, soldLot.optionSymbol);
+    const lossUnits = realization.quantity * soldLot.multiplier;
+    const lossPerUnit = -realization.gain / lossUnits;
+    let remainingUnits = lossUnits - realization.disallowedLoss / lossPerUnit;
+    let disallowed = realization.disallowedLoss;
+    const saleDay = dayNumber(realization.closedAt);
+
+    for (const { lot, underlying: replacementUnderlying } of replacements) {
+      if (remainingUnits <= 1e-9) break;
+      if (lot.id === soldLot.id || replacementUnderlying !== underlying) continue;
+      if (Math.abs(dayNumber(lot.openedAt) - saleDay) > WASH_SALE_WINDOW_DAYS) continue;
+      // Shares sold along with the loss are not a replacement for it
+      if (lot.closedAt && lot.closedAt <= realization.closedAt) continue;
+
+      const capacity = lot.quantity * lot.multiplier - (used.get(lot.id) ?? 0);
+      if (capacity <= 1e-9) continue;
+
+      const units = Math.min(remainingUnits, capacity);
+      const loss = units * lossPerUnit;
+
+      const washSale = await executor.insert(washSales)
+        .values({
+          userId,
+          paperAccountId,
+          realizationId: realization.id,
+          replacementLotId: lot.id,
+          quantity: units,
+          disallowedLoss: loss,
+          saleDate: realization.closedAt,
+          replacementDate: lot.openedAt,
+          createdAt: timestamp,
+        })
+        .returning();
+
+      await executor.update(taxLots)
+        .set({ basisAdjustment: sql`${taxLots.basisAdjustment} + ${loss}` })
+        .where(eq(taxLots.id, lot.id));
+
+      used.set(lot.id, (used.get(lot.id) ?? 0) + units);
+      remainingUnits -= units;
+      disallowed += loss;
+      created.push(washSale[0]);
+    }
+
+    if (disallowed !== realization.disallowedLoss) {
+      await executor.update(taxLotRealizations)
+        .set({ disallowedLoss: disallowed })
+        .where(eq(taxLotRealizations.id, realization.id));
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Wash-sale flags for recorded trades: loss deferred on each trade's
+ * sales, and deferred loss carried into the lots each trade bought
+ */
+export async function washSaleFlags(
+  tradeIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, WashSaleFlag>> {
+  const flags = new Map<number, WashSaleFlag>();
+  if (tradeIds.length === 0) return flags;
+
+  const flag = (tradeId: number) => {
+    const existing = flags.get(tradeId) ?? { disallowedLoss: 0, basisAdjustment: 0 };
+    flags.set(tradeId, existing);
+    return existing;
+  };
+
+  const sales = await executor.select({
+    tradeId: taxLotRealizations.sourceId,
+    disallowedLoss: sql<number>`sum(${taxLotRealizations.disallowedLoss})`,
+  })
+    .from(taxLotRealizations)
+    .where(and(
+      eq(taxLotRealizations.sourceType, 'trade'),
+      inArray(taxLotRealizations.sourceId, tradeIds),
+      gt(taxLotRealizations.disallowedLoss, 0)
+    ))
+    .groupBy(taxLotRealizations.sourceId);
+  for (const row of sales) flag(row.tradeId).disallowedLoss = row.disallowedLoss;
+
+  const purchases = await executor.select({
+    tradeId: taxLots.sourceId,
+    basisAdjustment: sql<number>`sum(${taxLots.basisAdjustment})`,
+  })
+    .from(taxLots)
+    .where(and(
+      eq(taxLots.sourceType, 'trade'),
+      inArray(taxLots.sourceId, tradeIds),
+      gt(taxLots.basisAdjustment, 0)
+    ))
+    .groupBy(taxLots.sourceId);
+  for (const row of purchases) flag(row.tradeId).basisAdjustment = row.basisAdjustment;
+
+  return flags;
+}
+
+/**
+ * Basis a long lot carries into the realization of part of it
+ */
+export function adjustedBasisShare(lot: Pick<TaxLot, 'basisAdjustment' | 'quantity'>, quantity: number): number {
+  return lot.basisAdjustment * quantity / lot.quantity;
+}
+
+/**
+ * Year-end wash-sale summary for a user's recorded trades or a paper account
+ */
+export async function washSaleSummary(
+  userId: string,
+  paperAccountId: number | null,
+  year: string,
+  executor: DbExecutor = db
+): Promise<WashSaleSummary> {
+  const from = `${year}-01-01T00:00:00.000Z`;
+  const to = `${year}-12-31T23:59:59.999Z`;
+
+  const rows = await executor.select({ washSale: washSales, symbol: assets.symbol })
+    .from(washSales)
+    .innerJoin(taxLotRealizations, eq(washSales.realizationId, taxLotRealizations.id))
+    .innerJoin(assets, eq(taxLotRealizations.assetId, assets.id))
+    .where(and(
+      eq(washSales.userId, userId),
+      paperAccountId === null ? isNull(washSales.paperAccountId) : eq(washSales.paperAccountId, paperAccountId),
+      gte(washSales.saleDate, from),
+      lte(washSales.saleDate, to)
+    ))
+    .orderBy(asc(washSales.saleDate), asc(washSales.id));
+
+  const losses = await executor.select({ gain: taxLotRealizations.gain })
+    .from(taxLotRealizations)
+    .where(and(
+      eq(taxLotRealizations.userId, userId),
+      accountScope(taxLotRealizations.paperAccountId, paperAccountId),
+      lt(taxLotRealizations.gain, 0),
+      gte(taxLotRealizations.closedAt, from),
+      lte(taxLotRealizations.closedAt, to)
+    ));
+
+  const openLots = await executor.select()
+    .from(taxLots)
+    .where(and(
+      eq(taxLots.userId, userId),
+      accountScope(taxLots.paperAccountId, paperAccountId),
+      gt(taxLots.remainingQuantity, 0),
+      gt(taxLots.basisAdjustment, 0)
+    ));
+
+  const washSaleRows = rows.map(({ washSale, symbol }) => ({ ...washSale, symbol }));
+
+  const bySymbol = new Map<string, { symbol: string; count: number; disallowedLoss: number }>();
+  for (const row of washSaleRows) {
+    const entry = bySymbol.get(row.symbol) ?? { symbol: row.symbol, count: 0, disallowedLoss: 0 };
+    entry.count += 1;
+    entry.disallowedLoss += row.disallowedLoss;
+    bySymbol.set(row.symbol, entry);
+  }
+
+  const realizedLoss = -losses.reduce((sum, row) => sum + row.gain, 0);
+  const disallowedLoss = washSaleRows.reduce((sum, row) => sum + row.disallowedLoss, 0);
+
+  return {
+    year,
+    washSales: washSaleRows,
+    bySymbol: [...bySymbol.values()],
+    totals: {
+      count: washSaleRows.length,
+      realizedLoss,
+      disallowedLoss,
+      allowedLoss: realizedLoss - disallowedLoss,
+      deferredInOpenLots: openLots.reduce((sum, lot) => sum + adjustedBasisShare(lot, lot.remainingQuantity), 0),
+    },
+  };
+}